@@ -1,22 +1,58 @@
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { ScriptMode, CodeOutput, SanskritamError, DebugSnapshot } from './types';
-import { KEYWORDS, SAMPLE_CODES, SNIPPETS, Snippet } from './constants';
+import { ScriptMode, ScriptPolicy, LintConfig, LintRule, CodeOutput, SanskritamError, Severity, DebugSnapshot, StackFrame, VirtualFileSystem } from './types';
+import { KEYWORDS, SAMPLE_CODES, SNIPPETS, Snippet, MAIN_FILE, TYPE_ANNOTATIONS, RUN_LIMITS } from './constants';
+import { BUILTIN_FUNCTIONS } from './services/splBuiltins';
+import { DIAGNOSTICS, isBlocking } from './services/splDiagnostics';
+import { LINT_RULES, defaultLintSeverity } from './services/splLinter';
+import { TypeHint } from './services/splTypeChecker';
+import { transliterate, TransliterationScheme } from './services/splTransliterator';
 import Editor from './components/Editor';
 import Visualizer from './components/Visualizer';
 import ExecutionChart from './components/ExecutionChart';
 import ScopeVisualizer from './components/ScopeVisualizer';
-import { SPLEngine } from './services/splEngine';
+import { SPLWorkerClient } from './services/splWorkerClient';
+import { SPLShell, ShellHost } from './services/splShell';
+import type { WorkerProgram } from './services/splWorker';
+import { SANSKRITAM_RUNTIME_HEADER } from './services/cppRuntime';
+import { SANSKRITAM_JS_RUNTIME } from './services/jsRuntime';
+import { SANSKRITAM_PY_RUNTIME } from './services/pythonRuntime';
 import JSZip from 'jszip';
 import FileSaver from 'file-saver';
 
+const formatFrame = (frame: StackFrame) => `at ${frame.name} (${frame.file ? `${frame.file}:` : ''}L${frame.line})${frame.repeated ? `, then ${frame.repeated} more frames of ${frame.name}` : ''}`;
+
+const SEVERITY_TEXT: Record<Severity, string> = { error: 'text-red-400/80', warning: 'text-yellow-400/80', info: 'text-sky-400/80' };
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'HOME' | 'PLAYGROUND' | 'DOCS'>('HOME');
   const [scriptMode, setScriptMode] = useState<ScriptMode>(ScriptMode.ROMAN);
-  const [code, setCode] = useState<string>(SAMPLE_CODES.ROMAN);
+  // Switching scripts respells the project; names are respelt too only when asked
+  const [transliterateNames, setTransliterateNames] = useState(false);
+  const [nameScheme, setNameScheme] = useState<TransliterationScheme>('IAST');
+  // Strict: every keyword must be in the selected script, unless a file's `// lipi:` pragma says otherwise
+  const [strictScript, setStrictScript] = useState(false);
+  const [lintConfig, setLintConfig] = useState<LintConfig>({});
+  // Multi-file project; the editor shows `activeFile` and runs always start from MAIN_FILE
+  const [files, setFiles] = useState<VirtualFileSystem>({ [MAIN_FILE]: SAMPLE_CODES.ROMAN });
+  const [activeFile, setActiveFile] = useState<string>(MAIN_FILE);
+  const code = files[activeFile] ?? '';
+  const setCode = useCallback((next: string) => setFiles(prev => ({ ...prev, [activeFile]: next })), [activeFile]);
   const [output, setOutput] = useState<CodeOutput | null>(null);
+  // The program as an ES module and as Python, compiled alongside each run for their tabs and the SDK
+  const [jsBuild, setJsBuild] = useState<Pick<CodeOutput, 'transpiled' | 'sourceMap'> | null>(null);
+  const [pythonBuild, setPythonBuild] = useState<string | null>(null);
+  // Disassembly of the bytecode the local VM ran
+  const [bytecode, setBytecode] = useState<string | null>(null);
   const [errors, setErrors] = useState<SanskritamError[]>([]);
+  const hasBlockingErrors = errors.some(isBlocking);
+  const [typeHints, setTypeHints] = useState<TypeHint[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // stdout streamed from the worker while a run is in progress; kept after Stop
+  const [liveStdout, setLiveStdout] = useState('');
+  const [wasStopped, setWasStopped] = useState(false);
+  // Prompt of the shrunotu call the running program waits at; the TERMINAL answers it
+  const [inputPrompt, setInputPrompt] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isLinting, setIsLinting] = useState(false);
   const [engineError, setEngineError] = useState<string | null>(null);
@@ -25,9 +61,12 @@ const App: React.FC = () => {
   const [downloadFeedback, setDownloadFeedback] = useState<string | null>(null);
 
   // Console specific state
-  const [consoleTab, setConsoleTab] = useState<'STDOUT' | 'CPP' | 'TERMINAL'>('STDOUT');
-  const [terminalLines, setTerminalLines] = useState<string[]>(["Sanskritam SPL Compiler v1.0.4", "Type 'splc help' for commands."]);
+  const [consoleTab, setConsoleTab] = useState<'STDOUT' | 'CPP' | 'JS' | 'PY' | 'BYTECODE' | 'TERMINAL'>('STDOUT');
+  const [terminalLines, setTerminalLines] = useState<string[]>(["Sanskritam SPL Compiler v1.0.4", "Type 'help' for commands, or 'repl' to try statements."]);
   const [terminalInput, setTerminalInput] = useState("");
+  const [shell] = useState(() => new SPLShell());
+  // '$' for commands; the REPL shows 'spl>', or '...' inside an open block
+  const [shellPrompt, setShellPrompt] = useState(shell.prompt);
 
   // Snippet search state
   const [snippetSearchQuery, setSnippetSearchQuery] = useState('');
@@ -40,14 +79,15 @@ const App: React.FC = () => {
   const [playSpeed, setPlaySpeed] = useState(800);
   const playTimerRef = useRef<number | null>(null);
   const terminalEndRef = useRef<HTMLDivElement>(null);
+  const workerRef = useRef<SPLWorkerClient | null>(null);
 
   const toggleScript = () => {
     const newMode = scriptMode === ScriptMode.ROMAN ? ScriptMode.DEVANAGARI : ScriptMode.ROMAN;
     setScriptMode(newMode);
-    setCode(newMode === ScriptMode.DEVANAGARI ? SAMPLE_CODES.DEVANAGARI : SAMPLE_CODES.ROMAN);
+    const options = { identifiers: transliterateNames, scheme: nameScheme };
+    setFiles(prev => Object.fromEntries(Object.keys(prev).map(name => [name, transliterate(prev[name], newMode, options)])));
     setOutput(null);
     setErrors([]);
-    setBreakpoints(new Set());
     setExecutionTime(null);
     stopDebug();
   };
@@ -63,6 +103,40 @@ const App: React.FC = () => {
     setActiveTab('PLAYGROUND');
   };
 
+  const addFile = () => {
+    const input = window.prompt("New module name (e.g. ganita.spl)");
+    const name = input?.trim();
+    if (!name) return;
+    const fileName = name.endsWith('.spl') ? name : `${name}.spl`;
+    if (!files[fileName]) setFiles(prev => ({ ...prev, [fileName]: '' }));
+    setActiveFile(fileName);
+  };
+
+  const removeFile = (fileName: string) => {
+    if (fileName === MAIN_FILE) return;
+    setFiles(prev => {
+      const next = { ...prev };
+      delete next[fileName];
+      return next;
+    });
+    if (activeFile === fileName) setActiveFile(MAIN_FILE);
+  };
+
+  const scriptPolicy: ScriptPolicy = !strictScript ? 'mixed' : scriptMode === ScriptMode.ROMAN ? 'roman' : 'devanagari';
+  // Programs run off the UI thread, so an endless yavat loop cannot freeze the page
+  const engineWorker = () => workerRef.current ??= new SPLWorkerClient();
+
+  useEffect(() => () => {
+    workerRef.current?.dispose();
+    workerRef.current = null;
+  }, []);
+
+  const engineProgram = (entry = MAIN_FILE): WorkerProgram => ({
+    code: files[entry] ?? '',
+    mode: scriptMode,
+    options: { files, fileName: entry, scriptPolicy, lint: lintConfig, ...RUN_LIMITS }
+  });
+
   const toggleBreakpoint = (line: number) => {
     setBreakpoints(prev => {
       const next = new Set(prev);
@@ -77,20 +151,17 @@ const App: React.FC = () => {
     try {
       const zip = new JSZip();
       const ext = 'spl'; // Unified extension
-      zip.file(`project.${ext}`, code);
+      Object.keys(files).forEach(fileName => zip.file(fileName.replace(/\.spl$/, `.${ext}`), files[fileName]));
       if (output?.transpiled) zip.file('main.cpp', output.transpiled);
-      const runtimeHeader = `
-#ifndef SANSKRITAM_H
-#define SANSKRITAM_H
-#include <iostream>
-#include <string>
-namespace san { 
-    template<typename T> void vadatu(T val) { std::cout << val << std::endl; }
-    void vadatu(const std::string& val) { std::cout << val << std::endl; }
-}
-#endif`;
-      zip.file('Sanskritam.h', runtimeHeader.trim());
-      const readme = `# Sanskritam SPL SDK v1.0\n\nTo compile: splc project.spl\nTo run: ./project\n\nKeywords:\n${Object.entries(KEYWORDS).map(([k, v]) => `- ${k}: ${v.roman} / ${v.devanagari}`).join('\n')}`;
+      zip.file('Sanskritam.h', SANSKRITAM_RUNTIME_HEADER);
+      if (jsBuild?.sourceMap) {
+        zip.file(jsBuild.sourceMap.file, jsBuild.transpiled);
+        zip.file(`${jsBuild.sourceMap.file}.map`, JSON.stringify(jsBuild.sourceMap));
+      }
+      zip.file('sanskritam.mjs', SANSKRITAM_JS_RUNTIME);
+      if (pythonBuild) zip.file('main.py', pythonBuild);
+      zip.file('sanskritam.py', SANSKRITAM_PY_RUNTIME);
+      const readme = `# Sanskritam SPL SDK v1.0\n\nTo run: splc run ${MAIN_FILE} (splc comes from the Sanskritam repository: npm run build:cli, then npm link)\nTo check: splc check ${MAIN_FILE}\nTo compile natively: g++ -std=c++17 main.cpp -o project && ./project\nOr with Node.js: node main.mjs\nOr with Python 3: python3 main.py\n\nKeywords:\n${Object.entries(KEYWORDS).map(([k, v]) => `- ${k}: ${v.roman} / ${v.devanagari}`).join('\n')}\n\nStandard library:\n${Object.entries(BUILTIN_FUNCTIONS).map(([name, b]) => `- ${name}(${b.params.join(', ')}) / ${b.devanagari}: ${b.meaning}`).join('\n')}`;
       zip.file('README.md', readme.trim());
       const content = await zip.generateAsync({ type: 'blob' });
       FileSaver.saveAs(content, 'sanskritam-spl-v1.0.zip');
@@ -106,32 +177,52 @@ namespace san {
 
   useEffect(() => {
     if (activeTab !== 'PLAYGROUND' || isDebugMode) return;
-    const timer = setTimeout(() => {
-      if (!code.trim()) { setErrors([]); return; }
+    let stale = false;
+    const timer = setTimeout(async () => {
+      if (!code.trim()) { setErrors([]); setTypeHints([]); return; }
       setIsLinting(true);
-      const engine = new SPLEngine(code, scriptMode);
-      const result = engine.execute();
-      setErrors(result.errors || []);
-      setIsLinting(false);
+      try {
+        const result = await engineWorker().lint({ code, mode: scriptMode, options: { files, fileName: activeFile, isEntry: activeFile === MAIN_FILE, scriptPolicy, lint: lintConfig } });
+        if (stale) return;
+        setErrors(result.errors);
+        setTypeHints(result.typeHints);
+      } catch {
+        // The worker was restarted by Stop, or linting failed; the next edit lints again
+      } finally {
+        if (!stale) setIsLinting(false);
+      }
     }, 500);
-    return () => clearTimeout(timer);
-  }, [code, scriptMode, activeTab, isDebugMode]);
+    return () => { stale = true; clearTimeout(timer); setIsLinting(false); };
+  }, [files, activeFile, scriptMode, scriptPolicy, lintConfig, activeTab, isDebugMode]);
 
-  const runCode = async (isManual = true) => {
+  // Verbose mode lists the trace, which only a debug run records
+  const runCode = async (isManual = true, entry = MAIN_FILE, trace = verboseMode) => {
     setIsLoading(true);
     setEngineError(null);
     setExecutionTime(null);
+    setLiveStdout('');
+    setWasStopped(false);
     stopDebug();
     if (isManual) setConsoleTab('STDOUT');
     const startTime = performance.now();
     
     try {
-      const engine = new SPLEngine(code, scriptMode);
-      const result = engine.execute();
+      const reply = trace
+        ? await engineWorker().debug(engineProgram(entry), { onInput: requestInput })
+        : await engineWorker().run(engineProgram(entry), { onStdout: text => setLiveStdout(prev => prev + text), onInput: requestInput });
+      if (!reply) {
+        setWasStopped(true);
+        setOutput(null);
+        return null;
+      }
+      const { output: result, builds } = reply;
       const endTime = performance.now();
       
       setExecutionTime(endTime - startTime);
       setOutput(result);
+      setJsBuild(builds.js);
+      setPythonBuild(builds.python);
+      setBytecode(builds.bytecode);
       setErrors(result.errors || []);
       return result;
     } catch (err: any) { 
@@ -139,6 +230,7 @@ namespace san {
       return null;
     } finally { 
       setIsLoading(false); 
+      setInputPrompt(null);
     }
   };
 
@@ -147,28 +239,47 @@ namespace san {
     setEngineError(null);
     setExecutionTime(null);
     setIsDebugMode(false);
+    setLiveStdout('');
+    setWasStopped(false);
     setConsoleTab('STDOUT');
     
     try {
-      const engine = new SPLEngine(code, scriptMode);
-      const result = engine.execute();
+      const reply = await engineWorker().debug(engineProgram(), { onInput: requestInput });
+      if (!reply) {
+        setWasStopped(true);
+        return;
+      }
+      const { output: result, builds } = reply;
       
-      if (result.errors && result.errors.length > 0) { 
+      if (result.errors?.some(isBlocking)) { 
         setErrors(result.errors); 
         setIsLoading(false); 
         return; 
       }
       
       setOutput(result);
+      setJsBuild(builds.js);
+      setPythonBuild(builds.python);
+      setBytecode(builds.bytecode);
       setStepIndex(0);
       setIsDebugMode(true);
     } catch (err: any) { 
       setEngineError(err.message || 'Debug failed'); 
     } finally { 
       setIsLoading(false); 
+      setInputPrompt(null);
     }
   };
 
+  const requestInput = (prompt: string) => {
+    setInputPrompt(prompt);
+    setConsoleTab('TERMINAL');
+    setTerminalLines(prev => [...prev, `? ${prompt || 'shrunotu'}`]);
+  };
+
+  // The pending runCode/startDebug resolves as stopped
+  const stopRun = () => engineWorker().cancel();
+
   const stopDebug = () => {
     setIsDebugMode(false);
     setStepIndex(0);
@@ -231,43 +342,70 @@ namespace san {
     setStepIndex(parseInt(e.target.value, 10));
   };
 
+  const scrollTerminal = () => setTimeout(() => terminalEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 50);
+
+  const shellHost: ShellHost = {
+    files,
+    open: fileName => {
+      setActiveFile(fileName);
+      setActiveTab('PLAYGROUND');
+    },
+    run: (entry, trace = false) => runCode(false, entry, trace),
+    evaluate: async line => {
+      let stdout = '';
+      setIsLoading(true);
+      try {
+        const options = { files, scriptPolicy, ...RUN_LIMITS };
+        const result = await engineWorker().evaluate(line, { mode: scriptMode, options }, { onStdout: text => { stdout += text; }, onInput: requestInput });
+        return result && { ...result, stdout };
+      } finally {
+        setIsLoading(false);
+        setInputPrompt(null);
+      }
+    },
+    resetRepl: () => engineWorker().resetRepl(),
+    cancelBlock: () => engineWorker().cancelReplBlock()
+  };
+
   const handleTerminalSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const cmd = terminalInput.trim().toLowerCase();
-    const newLines = [...terminalLines, `> ${terminalInput}`];
-    
-    if (cmd === 'clear') {
-      setTerminalLines([]);
-    } else if (cmd.startsWith('splc')) {
-      const parts = cmd.split(' ');
-      if (parts.length === 1 || parts[1] === 'help') {
-        newLines.push("Usage: splc [file.spl]");
-        newLines.push("Example: splc project.spl");
-      } else if (parts[1].endsWith('.spl') || parts[1] === '*.spl') {
-        newLines.push(`Compiling ${parts[1]}...`);
-        const result = await runCode(false);
-        if (result && (!result.errors || result.errors.length === 0)) {
-          newLines.push("Compilation successful.");
-          newLines.push("Output:");
-          newLines.push(result.stdout || "(No output)");
-        } else {
-          newLines.push("Compilation failed with errors.");
-          result?.errors?.forEach(err => newLines.push(`L${err.line}: ${err.message}`));
-        }
-      } else {
-        newLines.push(`Error: Unknown target '${parts[1]}'`);
+    setTerminalInput("");
+    if (inputPrompt !== null) {
+      setTerminalLines(prev => [...prev, `< ${terminalInput}`]);
+      setInputPrompt(null);
+      engineWorker().provideInput(terminalInput);
+      return;
+    }
+    // Appended rather than replaced: a program run from here may prompt in the terminal meanwhile
+    setTerminalLines(prev => [...prev, `${shellPrompt === '$' ? '>' : shellPrompt} ${terminalInput}`]);
+    try {
+      const result = await shell.execute(terminalInput, shellHost);
+      setTerminalLines(prev => result.clear ? result.lines : [...prev, ...result.lines]);
+    } catch (err: any) {
+      setTerminalLines(prev => [...prev, `Error: ${err.message || 'Command failed'}`]);
+    }
+    setShellPrompt(shell.prompt);
+    scrollTerminal();
+  };
+
+  // Up/Down walk the history, Tab completes; a pending shrunotu prompt takes plain input
+  const handleTerminalKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (inputPrompt !== null) return;
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setTerminalInput(shell.previous(terminalInput));
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setTerminalInput(shell.next());
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const completion = shell.complete(terminalInput, Object.keys(files));
+      setTerminalInput(completion.input);
+      if (completion.candidates.length > 1) {
+        setTerminalLines(prev => [...prev, completion.candidates.join('  ')]);
+        scrollTerminal();
       }
-    } else if (cmd === 'run') {
-       newLines.push("Executing active buffer...");
-       const result = await runCode(false);
-       newLines.push(result?.stdout || "");
-    } else {
-      newLines.push(`Command not found: ${cmd}`);
     }
-    
-    setTerminalLines(newLines);
-    setTerminalInput("");
-    setTimeout(() => terminalEndRef.current?.scrollIntoView({ behavior: 'smooth' }), 50);
   };
 
   const filteredSnippets = useMemo(() => {
@@ -278,11 +416,18 @@ namespace san {
 
   const currentSnapshot: DebugSnapshot | null = isDebugMode && output?.debugTrace ? output.debugTrace[stepIndex] : null;
 
+  // Follow the debugger into whichever module the current step belongs to
+  useEffect(() => {
+    if (currentSnapshot?.file && files[currentSnapshot.file] !== undefined) setActiveFile(currentSnapshot.file);
+  }, [currentSnapshot?.file]);
+
+  const activeFileErrors = errors.filter(err => (err.file ?? MAIN_FILE) === activeFile);
+
   const executionChartData = output?.tokens ? output.tokens.slice(0, 8).map(t => ({ 
     label: t.word.length > 6 ? t.word.substring(0, 4) + '..' : t.word, value: t.word.length 
   })) : [];
 
-  const codeLines = code.split('\n');
+  const sourceLine = (snap: DebugSnapshot) => (files[snap.file ?? MAIN_FILE] ?? '').split('\n')[snap.line - 1];
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -328,10 +473,17 @@ namespace san {
             <section className="space-y-8">
               <h2 className="text-2xl font-bold text-amber-500 uppercase tracking-widest flex items-center gap-3"><span className="w-8 h-[2px] bg-amber-500"></span>Compiler CLI</h2>
               <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl font-mono text-sm space-y-2">
-                <div className="text-amber-500">$ splc project.spl</div>
-                <div className="text-slate-400"># Compiles the .spl file into a binary (simulated)</div>
-                <div className="text-amber-500">$ splc *.spl</div>
-                <div className="text-slate-400"># Compiles all SPL files in the directory</div>
+                <div className="text-amber-500">$ splc run main.spl</div>
+                <div className="text-slate-400"># Runs the program; shrunotu reads lines from stdin</div>
+                <div className="text-amber-500">$ splc check *.spl</div>
+                <div className="text-slate-400"># Reports syntax, lint and type diagnostics without running</div>
+                <div className="text-amber-500">$ splc transpile --target cpp|js|python -o out main.spl</div>
+                <div className="text-slate-400"># Prints or writes the generated code (plus a source map for js)</div>
+                <div className="text-amber-500">$ splc tokens main.spl</div>
+                <div className="text-slate-400"># Lists the tokens with their positions</div>
+                <div className="text-amber-500">$ splc fmt --write *.spl</div>
+                <div className="text-slate-400"># Re-indents the files (--check only lists unformatted ones)</div>
+                <div className="text-slate-400"># Install from the repository with npm run build:cli, then npm link</div>
               </div>
             </section>
             <section className="space-y-8">
@@ -346,6 +498,48 @@ namespace san {
                 ))}
               </div>
             </section>
+            <section className="space-y-8">
+              <h2 className="text-2xl font-bold text-amber-500 uppercase tracking-widest flex items-center gap-3"><span className="w-8 h-[2px] bg-amber-500"></span>Standard Library</h2>
+              <p className="text-sm text-slate-400">Available everywhere without <span className="font-mono text-amber-400">{KEYWORDS.IMPORT.roman}</span>, under either name. Transpiled programs get the same functions from <span className="font-mono text-amber-400">Sanskritam.h</span>.</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {Object.entries(BUILTIN_FUNCTIONS).map(([name, builtin]) => (
+                  <div key={name} className="p-6 bg-slate-900/50 border border-slate-800 rounded-2xl hover:border-amber-500/30 transition-all">
+                    <div className="flex items-center justify-between mb-2"><span className="text-xs font-mono text-slate-500">{builtin.category}</span><span className="text-[10px] bg-slate-800 px-2 py-0.5 rounded text-amber-400 uppercase font-bold">{builtin.equivalent}</span></div>
+                    <div className="flex items-center gap-3 mb-2"><span className="text-xl font-bold text-slate-100">{name}</span><span className="text-xl font-bold text-amber-400 devanagari">{builtin.devanagari}</span></div>
+                    <div className="font-mono text-xs text-slate-500 mb-4">{name}({builtin.params.join(', ')})<span className="text-slate-600"> : {builtin.signature}</span></div>
+                    <p className="text-sm text-slate-400 leading-relaxed">{builtin.meaning}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+            <section className="space-y-8">
+              <h2 className="text-2xl font-bold text-amber-500 uppercase tracking-widest flex items-center gap-3"><span className="w-8 h-[2px] bg-amber-500"></span>Script Policy</h2>
+              <p className="text-sm text-slate-400">Keywords may mix scripts by default. A comment before the first statement makes a file strict, and every keyword in the other script is reported with a one-click fix.</p>
+              <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl font-mono text-sm space-y-2">
+                <div className="text-amber-500">// lipi: roman</div>
+                <div className="text-amber-500 devanagari">// लिपिः: देवनागरी</div>
+                <div className="text-slate-400"># Also accepted: mixed / मिश्रम्</div>
+              </div>
+            </section>
+            <section className="space-y-8">
+              <h2 className="text-2xl font-bold text-amber-500 uppercase tracking-widest flex items-center gap-3"><span className="w-8 h-[2px] bg-amber-500"></span>Types</h2>
+              <p className="text-sm text-slate-400">Annotations are optional: types are inferred from values, operators and calls. Hover a name in the editor to see its type. Conflicts such as adding a <span className="font-mono text-amber-400">{TYPE_ANNOTATIONS.STRING.roman}</span> to a <span className="font-mono text-amber-400">{TYPE_ANNOTATIONS.BOOLEAN.roman}</span> are warnings, and the C++ output uses the inferred types.</p>
+              <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl font-mono text-sm space-y-2">
+                <div className="text-slate-300">{KEYWORDS.VALUE.roman} nama: {TYPE_ANNOTATIONS.STRING.roman} = "Rama"</div>
+                <div className="text-slate-300">{KEYWORDS.VALUE.roman} ankah: {TYPE_ANNOTATIONS.LIST.roman}&lt;{TYPE_ANNOTATIONS.NUMBER.roman}&gt; = [1, 2]</div>
+                <div className="text-slate-300">{KEYWORDS.FUNCTION.roman} yoga(a: {TYPE_ANNOTATIONS.NUMBER.roman}, b: {TYPE_ANNOTATIONS.NUMBER.roman}): {TYPE_ANNOTATIONS.NUMBER.roman} {KEYWORDS.THEN.roman}</div>
+                <div className="text-slate-400"># {Object.values(TYPE_ANNOTATIONS).map(type => `${type.roman} / ${type.devanagari}`).join(', ')}</div>
+              </div>
+            </section>
+            <section className="space-y-8">
+              <h2 className="text-2xl font-bold text-amber-500 uppercase tracking-widest flex items-center gap-3"><span className="w-8 h-[2px] bg-amber-500"></span>Diagnostics</h2>
+              <p className="text-sm text-slate-400">Every message carries a stable code. Only errors stop a program; warnings and infos are advice. Many come with a fix the editor can apply for you. SPL5xxx and SPL6xxx come from the linter, which checks the program without running it; each rule can be switched off or given another severity in the playground's Lint Rules panel.</p>
+              <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl font-mono text-xs space-y-1">
+                {Object.values(DIAGNOSTICS).map(info => (
+                  <div key={info.code} className="flex gap-4"><span className="text-amber-400">{info.code}</span><span className={SEVERITY_TEXT[info.severity]}>{info.severity}</span><span className="text-slate-400">{info.title}</span></div>
+                ))}
+              </div>
+            </section>
           </div>
         </main>
       )}
@@ -362,13 +556,35 @@ namespace san {
                     <button onClick={() => scriptMode !== ScriptMode.ROMAN && toggleScript()} className={`py-2 rounded text-xs font-bold transition-all ${scriptMode === ScriptMode.ROMAN ? 'bg-amber-500 text-slate-950 shadow-lg' : 'text-slate-400 hover:text-white'}`}>Roman</button>
                     <button onClick={() => scriptMode !== ScriptMode.DEVANAGARI && toggleScript()} className={`py-2 rounded text-xs font-bold transition-all devanagari ${scriptMode === ScriptMode.DEVANAGARI ? 'bg-amber-500 text-slate-950 shadow-lg' : 'text-slate-400 hover:text-white'}`}>देवनागरी</button>
                   </div>
+                  <div className="mt-2 flex items-center justify-between gap-2">
+                    <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+                      <input type="checkbox" checked={transliterateNames} onChange={e => setTransliterateNames(e.target.checked)} className="accent-amber-500" />
+                      Respell names
+                    </label>
+                    <div className="flex gap-1">
+                      {(['IAST', 'ITRANS'] as TransliterationScheme[]).map(scheme => (
+                        <button key={scheme} onClick={() => setNameScheme(scheme)} disabled={!transliterateNames} className={`px-1.5 py-0.5 rounded text-[9px] font-bold transition-all disabled:opacity-40 ${nameScheme === scheme ? 'bg-slate-700 text-amber-400' : 'text-slate-500 hover:text-slate-300'}`}>{scheme}</button>
+                      ))}
+                    </div>
+                  </div>
+                  <label className="mt-2 flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer" title="Report keywords written in the other script; a // lipi: pragma overrides this per file">
+                    <input type="checkbox" checked={strictScript} onChange={e => setStrictScript(e.target.checked)} className="accent-amber-500" />
+                    Strict script
+                  </label>
                 </div>
 
                 {!isDebugMode ? (
                   <div className="grid grid-cols-2 gap-2">
-                    <button onClick={() => runCode(true)} disabled={isLoading || isLinting} className="py-4 bg-amber-500 hover:bg-amber-400 disabled:bg-slate-700 text-slate-950 font-black rounded-xl transition-all shadow-xl shadow-amber-500/10 flex items-center justify-center space-x-2">
-                      {isLoading ? <div className="animate-spin w-4 h-4 border-2 border-slate-950 border-t-transparent rounded-full" /> : <span>splc run</span>}
-                    </button>
+                    {isLoading ? (
+                      <button onClick={stopRun} title="Stop the running program" className="py-4 bg-red-500 hover:bg-red-400 text-slate-950 font-black rounded-xl transition-all shadow-xl shadow-red-500/10 flex items-center justify-center space-x-2">
+                        <div className="animate-spin w-4 h-4 border-2 border-slate-950 border-t-transparent rounded-full" />
+                        <span>Stop</span>
+                      </button>
+                    ) : (
+                      <button onClick={() => runCode(true)} disabled={isLinting} className="py-4 bg-amber-500 hover:bg-amber-400 disabled:bg-slate-700 text-slate-950 font-black rounded-xl transition-all shadow-xl shadow-amber-500/10 flex items-center justify-center space-x-2">
+                        <span>splc run</span>
+                      </button>
+                    )}
                     <button onClick={startDebug} disabled={isLoading || isLinting} className="py-4 bg-slate-800 hover:bg-slate-700 border border-slate-700 disabled:bg-slate-900 text-slate-200 font-bold rounded-xl transition-all flex items-center justify-center space-x-2">
                       <svg className="w-4 h-4 text-amber-500" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M12.395 2.553a1 1 0 00-1.45-.385c-.345.23-.614.558-.822.88-.214.33-.403.713-.57 1.116-.334.804-.614 1.768-.84 2.734a31.365 31.365 0 00-.613 3.58 2.64 2.64 0 11-5.112-.3c.297-1.28.73-2.52 1.233-3.676a1 1 0 10-1.843-.782c-.643 1.514-1.168 3.125-1.517 4.792a4.64 4.64 0 008.203 3.52c.163-.13.318-.27.466-.421l.006-.007a33.35 33.35 0 01.763-4.427c.25-1.07.56-2.146.936-3.052.177-.428.388-.838.642-1.229.255-.392.571-.776.993-1.058a1 1 0 00.128-1.548z" clipRule="evenodd" /><path d="M6.031 8.045a1.5 1.5 0 10-3.002.041 1.5 1.5 0 003.002-.041z" /></svg>
                       <span>splc debug</span>
@@ -404,11 +620,37 @@ namespace san {
               </div>
             </div>
 
+            <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl shadow-xl">
+              <h2 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-4">Lint Rules</h2>
+              <div className="space-y-2">
+                {(Object.keys(LINT_RULES) as LintRule[]).map(rule => (
+                  <label key={rule} className="flex items-center justify-between gap-2 text-[10px] text-slate-400" title={LINT_RULES[rule].description}>
+                    <span className="font-mono">{rule}</span>
+                    <select value={lintConfig[rule] ?? defaultLintSeverity(rule)} onChange={e => setLintConfig(prev => ({ ...prev, [rule]: e.target.value as Severity | 'off' }))} className="bg-slate-950 border border-slate-800 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none">
+                      {(['error', 'warning', 'info', 'off'] as const).map(setting => <option key={setting} value={setting}>{setting}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div className="p-6 bg-slate-900 border border-slate-800 rounded-2xl shadow-xl flex flex-col min-h-[200px]">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Memory Scope</h2>
                 {isDebugMode && <span className="text-[8px] bg-amber-500/10 text-amber-500 px-2 py-0.5 rounded border border-amber-500/20 font-mono">STEP {stepIndex + 1}</span>}
               </div>
+              {isDebugMode && currentSnapshot?.callStack && currentSnapshot.callStack.length > 0 && (
+                <div className="mb-3 pb-3 border-b border-slate-800/50 space-y-1">
+                  <div className="text-[8px] font-black text-slate-500 uppercase tracking-widest mb-1">Call Stack</div>
+                  {[...currentSnapshot.callStack].reverse().map((frame, i) => (
+                    <div key={i} className={`flex items-center justify-between px-2 py-1 rounded-md text-[10px] font-mono ${i === 0 ? 'bg-amber-500/10 text-amber-400 border border-amber-500/20' : 'text-slate-500'}`}>
+                      <span>{frame.name}()</span>
+                      <span className="text-[8px]">called at L{frame.line}</span>
+                    </div>
+                  ))}
+                  <div className="px-2 py-1 text-[10px] font-mono text-slate-600">main</div>
+                </div>
+              )}
               {isDebugMode && output?.debugTrace ? (
                 <ScopeVisualizer debugTrace={output.debugTrace} stepIndex={stepIndex} />
               ) : (
@@ -425,8 +667,23 @@ namespace san {
 
           <div className="flex-1 flex flex-col gap-6 h-[calc(100vh-140px)]">
             <div className="flex-1 min-h-0 flex flex-col gap-4">
-              <div className="flex-1 min-h-0">
-                <Editor code={code} setCode={setCode} mode={scriptMode} errors={errors} breakpoints={breakpoints} toggleBreakpoint={toggleBreakpoint} currentDebugLine={currentSnapshot?.line} />
+              <div className="flex-1 min-h-0 flex flex-col gap-2">
+                <div className="flex items-center gap-1 overflow-x-auto custom-scrollbar">
+                  {Object.keys(files).map(fileName => {
+                    const fileErrorCount = errors.filter(err => (err.file ?? MAIN_FILE) === fileName).length;
+                    return (
+                      <div key={fileName} className={`flex items-center gap-1 pl-3 pr-2 py-1 rounded-md text-[10px] font-mono border transition-all ${fileName === activeFile ? 'bg-slate-800 border-amber-500/40 text-amber-400' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-slate-300'}`}>
+                        <button onClick={() => setActiveFile(fileName)} className="whitespace-nowrap">{fileName}</button>
+                        {fileErrorCount > 0 && <span className="text-[8px] bg-red-500/20 text-red-400 font-bold px-1 rounded">{fileErrorCount}</span>}
+                        {fileName !== MAIN_FILE && <button onClick={() => removeFile(fileName)} title={`Delete ${fileName}`} className="text-slate-600 hover:text-red-400">×</button>}
+                      </div>
+                    );
+                  })}
+                  <button onClick={addFile} title="Add module" className="px-2 py-1 rounded-md text-[10px] font-bold text-slate-500 hover:text-amber-400 border border-dashed border-slate-800">+</button>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <Editor code={code} setCode={setCode} mode={scriptMode} errors={activeFileErrors} typeHints={typeHints} breakpoints={breakpoints} toggleBreakpoint={toggleBreakpoint} currentDebugLine={currentSnapshot && (currentSnapshot.file ?? MAIN_FILE) === activeFile ? currentSnapshot.line : undefined} />
+                </div>
               </div>
               <div className="bg-slate-900/50 border border-slate-800 rounded-xl p-4">
                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
@@ -459,6 +716,9 @@ namespace san {
                 <div className="flex items-center space-x-1">
                     <button onClick={() => setConsoleTab('STDOUT')} className={`text-[10px] px-3 py-1 rounded-md font-bold uppercase tracking-widest transition-all ${consoleTab === 'STDOUT' ? 'bg-amber-500 text-slate-950 shadow-md' : 'text-slate-500 hover:text-slate-300'}`}>Output</button>
                     <button onClick={() => setConsoleTab('CPP')} disabled={!output} className={`text-[10px] px-3 py-1 rounded-md font-bold uppercase tracking-widest transition-all ${!output ? 'opacity-30 cursor-not-allowed' : ''} ${consoleTab === 'CPP' ? 'bg-amber-500 text-slate-950 shadow-md' : 'text-slate-500 hover:text-slate-300'}`}>C++ Build</button>
+                    <button onClick={() => setConsoleTab('JS')} disabled={!jsBuild} className={`text-[10px] px-3 py-1 rounded-md font-bold uppercase tracking-widest transition-all ${!jsBuild ? 'opacity-30 cursor-not-allowed' : ''} ${consoleTab === 'JS' ? 'bg-amber-500 text-slate-950 shadow-md' : 'text-slate-500 hover:text-slate-300'}`}>JS Module</button>
+                    <button onClick={() => setConsoleTab('PY')} disabled={!pythonBuild} className={`text-[10px] px-3 py-1 rounded-md font-bold uppercase tracking-widest transition-all ${!pythonBuild ? 'opacity-30 cursor-not-allowed' : ''} ${consoleTab === 'PY' ? 'bg-amber-500 text-slate-950 shadow-md' : 'text-slate-500 hover:text-slate-300'}`}>Python</button>
+                    <button onClick={() => setConsoleTab('BYTECODE')} disabled={!bytecode} className={`text-[10px] px-3 py-1 rounded-md font-bold uppercase tracking-widest transition-all ${!bytecode ? 'opacity-30 cursor-not-allowed' : ''} ${consoleTab === 'BYTECODE' ? 'bg-amber-500 text-slate-950 shadow-md' : 'text-slate-500 hover:text-slate-300'}`}>Bytecode</button>
                     <button onClick={() => setConsoleTab('TERMINAL')} className={`text-[10px] px-3 py-1 rounded-md font-bold uppercase tracking-widest transition-all ${consoleTab === 'TERMINAL' ? 'bg-amber-500 text-slate-950 shadow-md' : 'text-slate-500 hover:text-slate-300'}`}>splc shell</button>
                 </div>
                 <div className="flex items-center gap-3">
@@ -471,17 +731,18 @@ namespace san {
                   <div className="flex flex-col h-full">
                     <div className="flex-1 space-y-1 overflow-y-auto mb-2 custom-scrollbar">
                       {terminalLines.map((line, i) => (
-                        <div key={i} className={`text-xs ${line.startsWith('>') ? 'text-amber-500 font-bold' : 'text-slate-400'}`}>{line}</div>
+                        <div key={i} className={`text-xs ${/^(>|spl>|\.\.\.) /.test(line) ? 'text-amber-500 font-bold' : / error SPL\d+:/.test(line) ? 'text-red-400' : / warning SPL\d+:/.test(line) ? 'text-yellow-400' : 'text-slate-400'}`}>{line}</div>
                       ))}
                       <div ref={terminalEndRef} />
                     </div>
                     <form onSubmit={handleTerminalSubmit} className="flex items-center gap-2 border-t border-slate-800 pt-2">
-                      <span className="text-amber-500 font-bold">$</span>
+                      <span className="text-amber-500 font-bold">{inputPrompt !== null ? '?' : shellPrompt}</span>
                       <input 
                         type="text" 
                         value={terminalInput}
                         onChange={(e) => setTerminalInput(e.target.value)}
-                        placeholder="splc *.spl"
+                        onKeyDown={handleTerminalKeyDown}
+                        placeholder={inputPrompt !== null ? 'Input for shrunotu, then Enter' : shellPrompt === '$' ? 'help' : 'mulyam x = 5'}
                         className="bg-transparent border-none outline-none text-xs text-white w-full placeholder-slate-700"
                       />
                     </form>
@@ -490,17 +751,19 @@ namespace san {
                   <>
                     {engineError && <div className="text-red-400">System Error: {engineError}</div>}
                     {errors.length > 0 && !isLoading && (
-                      <div className="space-y-2 mb-4"><div className="text-red-400 font-bold underline">Compilation Errors:</div>{errors.map((err, idx) => (<div key={idx} className="text-red-400/80 text-xs">• L{err.line}, C{err.column}: {err.message}</div>))}</div>
+                      <div className="space-y-2 mb-4"><div className={`${hasBlockingErrors ? 'text-red-400' : 'text-yellow-400'} font-bold underline`}>{hasBlockingErrors ? 'Compilation Errors:' : 'Diagnostics:'}</div>{errors.map((err, idx) => (<div key={idx} className={`${SEVERITY_TEXT[err.severity]} text-xs`}>• {err.file && `${err.file}: `}L{err.line}, C{err.column}: <span className="font-bold">{err.severity} {err.code}</span>: {err.message}{err.related?.map((rel, rIdx) => (<div key={rIdx} className="pl-4 opacity-60">note: {rel.file && `${rel.file}: `}L{rel.line}, C{rel.column}: {rel.message}</div>))}{err.stackTrace?.map((frame, fIdx) => (<div key={fIdx} className="pl-4 opacity-60">{formatFrame(frame)}</div>))}</div>))}</div>
                     )}
-                    {!output && !isLoading && !engineError && errors.length === 0 && <div className="text-slate-600 italic">Ready for instruction...</div>}
+                    {!output && !isLoading && !engineError && !wasStopped && errors.length === 0 && <div className="text-slate-600 italic">Ready for instruction...</div>}
+                    {(isLoading || wasStopped) && consoleTab === 'STDOUT' && liveStdout && <div className="text-amber-400 font-bold">{liveStdout}</div>}
                     {isLoading && <div className="text-amber-500/50 animate-pulse">Running splc...</div>}
+                    {wasStopped && !isLoading && <div className="text-yellow-400">Stopped by user.</div>}
                     {consoleTab === 'STDOUT' && (
                         <div className="flex flex-col gap-2">
-                            {output && !isDebugMode && errors.length === 0 && !verboseMode && (<div className="text-amber-400 font-bold">{output.stdout || '> Output null'}</div>)}
+                            {output && !isDebugMode && !hasBlockingErrors && !verboseMode && (<div className="text-amber-400 font-bold">{output.stdout || '> Output null'}</div>)}
                             {(isDebugMode || (output && verboseMode)) && output?.debugTrace && (
                                 <div className="space-y-1">{output.debugTrace.slice(0, stepIndex + 1).map((snap, i) => (
                                     <div key={i} className={`flex flex-col border-l-2 pl-3 py-1 ${i === stepIndex && isDebugMode ? 'border-amber-500 bg-amber-500/5' : 'border-slate-800 opacity-60'}`}>
-                                      <div className="flex items-center gap-2 text-[10px]"><span className="text-amber-500 font-bold">L{snap.line}</span><span className="text-slate-400 font-mono italic truncate">{codeLines[snap.line-1]}</span></div>
+                                      <div className="flex items-center gap-2 text-[10px]"><span className="text-amber-500 font-bold">L{snap.line}</span><span className="text-slate-400 font-mono italic truncate">{sourceLine(snap)}</span></div>
                                       {i === 0 ? snap.stdout && <div className="text-amber-400 font-bold ml-2 mt-1">{snap.stdout}</div> : snap.stdout !== output.debugTrace[i-1].stdout && <div className="text-amber-400 font-bold ml-2 mt-1">{snap.stdout.replace(output.debugTrace[i-1].stdout, '')}</div>}
                                     </div>
                                 ))}</div>
@@ -511,6 +774,9 @@ namespace san {
                         </div>
                     )}
                     {consoleTab === 'CPP' && output && <pre className="text-slate-300 bg-slate-950/50 p-4 rounded-xl text-xs border border-slate-800 leading-relaxed">{output.transpiled}</pre>}
+                    {consoleTab === 'JS' && jsBuild && <pre className="text-slate-300 bg-slate-950/50 p-4 rounded-xl text-xs border border-slate-800 leading-relaxed">{jsBuild.transpiled}</pre>}
+                    {consoleTab === 'PY' && pythonBuild && <pre className="text-slate-300 bg-slate-950/50 p-4 rounded-xl text-xs border border-slate-800 leading-relaxed">{pythonBuild}</pre>}
+                    {consoleTab === 'BYTECODE' && bytecode && <pre className="text-slate-300 bg-slate-950/50 p-4 rounded-xl text-xs border border-slate-800 leading-relaxed">{bytecode}</pre>}
                   </>
                 )}
                 {isLinting && !isLoading && !isDebugMode && <div className="text-[10px] text-slate-500 absolute bottom-2 right-4 animate-pulse font-mono tracking-tighter">splc --lint in progress...</div>}
@@ -0,0 +1,315 @@
+#!/usr/bin/env node
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { KEYWORDS } from "../constants";
+import { EngineOptions, SanskritamError, ScriptMode, TranspileTarget } from "../types";
+import { SPLEngine } from "../services/splEngine";
+import { formatDiagnostic, isBlocking } from "../services/splDiagnostics";
+import { formatSource } from "../services/splFormatter";
+
+// Exit codes: the program or its diagnostics failed, or the command line was wrong
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+// VM instructions between writes of the program's stdout
+const SLICE_STEPS = 50000;
+
+const USAGE = `Usage: splc <command> [options] <file.spl>
+
+Commands:
+  run <file>                    Run a program; shrunotu reads lines from stdin
+  check <file>...               Report syntax, lint and type diagnostics without running
+  transpile <file>              Print the generated code
+      --target cpp|js|python    Backend (default: cpp)
+      -o, --out <path>          Write to a file instead (plus <path>.map for js)
+  tokens <file>                 List the tokens with their positions
+  fmt <file>...                 Print the re-indented source
+      --write                   Rewrite the files instead
+      --check                   Only list files that are not formatted
+
+Options:
+  --script roman|devanagari|auto
+                                Digits of the output (default auto: the script of the keywords)
+  -h, --help                    Show this help
+
+Modules named by anayati are read from the directory of the file given, as they are imported.`;
+
+class UsageError extends Error {}
+
+interface Args {
+  command: string;
+  files: string[];
+  flags: Map<string, string | true>;
+}
+
+// Flags that take a value; every other flag is a switch
+const VALUE_FLAGS = new Set(['--target', '--out', '--script']);
+const SHORT_FLAGS: Record<string, string> = { '-o': '--out', '-h': '--help' };
+
+const parseArgs = (argv: string[]): Args => {
+  const [command = '', ...rest] = argv;
+  const files: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < rest.length; i++) {
+    const arg = SHORT_FLAGS[rest[i]] ?? rest[i];
+    if (!arg.startsWith('-')) {
+      files.push(arg);
+    } else if (VALUE_FLAGS.has(arg)) {
+      if (i + 1 >= rest.length) throw new UsageError(`${arg} needs a value`);
+      flags.set(arg, rest[++i]);
+    } else {
+      flags.set(arg, true);
+    }
+  }
+  return { command, files, flags };
+};
+
+const flagValue = <T extends string>(args: Args, flag: string, allowed: readonly T[], fallback: T): T => {
+  const value = args.flags.get(flag);
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new UsageError(`${flag} expects one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+const checkFlags = (args: Args, known: string[]) => {
+  const unknown = [...args.flags.keys()].find(flag => flag !== '--script' && !known.includes(flag));
+  if (unknown) throw new UsageError(`Unknown option '${unknown}' for '${args.command}'`);
+};
+
+const singleFile = (args: Args): string => {
+  if (args.files.length !== 1) throw new UsageError(`'${args.command}' expects exactly one .spl file`);
+  return args.files[0];
+};
+
+// --- PROJECT ---
+
+// A file and the project around it, as the playground would hold them
+interface Project {
+  file: string;
+  source: string;
+  fileName: string;
+  readFile: (fileName: string) => string | undefined;
+  mode: ScriptMode;
+}
+
+const readSource = (file: string): string => {
+  try {
+    return fs.readFileSync(file, 'utf8');
+  } catch (err: any) {
+    throw new UsageError(`Cannot read '${file}': ${err.code ?? err.message}`);
+  }
+};
+
+// Reads the files anayati names from `dir` when the engine asks for them, each once
+const fileReader = (dir: string, entry: string, source: string): ((fileName: string) => string | undefined) => {
+  const cache = new Map<string, string | undefined>([[entry, source]]);
+  return fileName => {
+    if (!cache.has(fileName)) {
+      try {
+        cache.set(fileName, fs.readFileSync(path.join(dir, fileName), 'utf8'));
+      } catch {
+        // Unreadable counts as missing, which leaves the name to the built-in modules
+        cache.set(fileName, undefined);
+      }
+    }
+    return cache.get(fileName);
+  };
+};
+
+const DEVANAGARI_KEYWORDS = new Set(Object.values(KEYWORDS).map(keyword => keyword.devanagari));
+
+// Without --script, a program written with Devanagari keywords prints Devanagari digits
+const detectMode = (source: string): ScriptMode =>
+  new SPLEngine(source, ScriptMode.ROMAN).tokenize().some(token => token.type === 'KEYWORD' && DEVANAGARI_KEYWORDS.has(token.value))
+    ? ScriptMode.DEVANAGARI
+    : ScriptMode.ROMAN;
+
+const openProject = (file: string, args: Args): Project => {
+  const source = readSource(file);
+  const fileName = path.basename(file);
+  const readFile = fileReader(path.dirname(file), fileName, source);
+  const script = flagValue(args, '--script', ['roman', 'devanagari', 'auto'] as const, 'auto');
+  const mode = script === 'auto' ? detectMode(source) : script === 'roman' ? ScriptMode.ROMAN : ScriptMode.DEVANAGARI;
+  return { file, source, fileName, readFile, mode };
+};
+
+const engineFor = (project: Project, extra: EngineOptions = {}) =>
+  new SPLEngine(project.source, project.mode, { readFile: project.readFile, fileName: project.fileName, ...extra });
+
+// --- OUTPUT ---
+
+// Diagnostics name files as the project knows them; print them relative to the working directory instead
+const report = (project: Project, diagnostics: SanskritamError[]) => {
+  const dir = path.dirname(project.file);
+  const where = (file?: string) => file === undefined ? undefined : path.join(dir, file);
+  for (const diagnostic of diagnostics) {
+    const located: SanskritamError = {
+      ...diagnostic,
+      file: where(diagnostic.file ?? project.fileName),
+      related: diagnostic.related?.map(rel => ({ ...rel, file: where(rel.file) })),
+      stackTrace: diagnostic.stackTrace?.map(frame => ({ ...frame, file: where(frame.file) }))
+    };
+    for (const line of formatDiagnostic(located)) process.stderr.write(`${line}\n`);
+  }
+};
+
+const exitCode = (diagnostics: SanskritamError[]) => diagnostics.some(isBlocking) ? EXIT_FAILED : EXIT_OK;
+
+// fd 0 may be non-blocking (Node makes a terminal so), where readSync fails with EAGAIN instead of
+// waiting; opening /dev/stdin afresh gives a descriptor that blocks
+let stdinFd: number | null = null;
+const stdinDescriptor = (): number => {
+  if (stdinFd === null) {
+    try {
+      stdinFd = fs.openSync('/dev/stdin', 'r');
+    } catch {
+      stdinFd = 0;
+    }
+  }
+  return stdinFd;
+};
+
+// Sleeps without spinning, for the platforms where stdin cannot be made to block
+const pause = (ms: number) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+
+// One line from stdin, without its line break; null at end of input
+const readStdinLine = (): string | null => {
+  const bytes: number[] = [];
+  const byte = Buffer.alloc(1);
+  while (true) {
+    let count: number;
+    try {
+      count = fs.readSync(stdinDescriptor(), byte, 0, 1, null);
+    } catch (err: any) {
+      if (err.code === 'EAGAIN') {
+        pause(10);
+        continue;
+      }
+      if (err.code === 'EOF') count = 0;
+      else throw err;
+    }
+    if (count === 0) return bytes.length > 0 ? Buffer.from(bytes).toString('utf8') : null;
+    if (byte[0] === 0x0a) return Buffer.from(bytes).toString('utf8').replace(/\r$/, '');
+    bytes.push(byte[0]);
+  }
+};
+
+// --- COMMANDS ---
+
+const run = (args: Args): number => {
+  checkFlags(args, []);
+  const project = openProject(singleFile(args), args);
+  const execution = engineFor(project, { interactive: true }).start();
+  // stdout is its lines joined by '\n': after the first line, each new one starts with the '\n' joining it on
+  let lines = 0;
+  let written = 0;
+  const flush = () => {
+    if (execution.lines() === lines) return;
+    const stdout = execution.output();
+    process.stdout.write(`${stdout.slice(lines === 0 ? 0 : written + 1)}\n`);
+    lines = execution.lines();
+    written = stdout.length;
+  };
+  while (true) {
+    const output = execution.resume(SLICE_STEPS);
+    if (output) {
+      flush();
+      report(project, output.errors ?? []);
+      return exitCode(output.errors ?? []);
+    }
+    flush();
+    if (execution.awaitingInput() !== null) execution.provideInput(readStdinLine());
+  }
+};
+
+const check = (args: Args): number => {
+  checkFlags(args, []);
+  if (args.files.length === 0) throw new UsageError(`'check' expects at least one .spl file`);
+  let code = EXIT_OK;
+  for (const file of args.files) {
+    const project = openProject(file, args);
+    // Each file named on the command line is an entry point, whatever it is called
+    const diagnostics = engineFor(project, { isEntry: true }).lint();
+    report(project, diagnostics);
+    if (exitCode(diagnostics) !== EXIT_OK) code = EXIT_FAILED;
+  }
+  return code;
+};
+
+const transpile = (args: Args): number => {
+  checkFlags(args, ['--target', '--out']);
+  const project = openProject(singleFile(args), args);
+  const target = flagValue<TranspileTarget>(args, '--target', ['cpp', 'js', 'python'], 'cpp');
+  const out = args.flags.get('--out');
+  // The map is written next to --out, so the map and its URL comment name that file
+  const built = engineFor(project, typeof out === 'string' ? { outFile: path.basename(out) } : {}).compile(target);
+  if (!built) {
+    report(project, engineFor(project).parse().errors);
+    return EXIT_FAILED;
+  }
+  if (typeof out !== 'string') {
+    process.stdout.write(`${built.transpiled}\n`);
+    return EXIT_OK;
+  }
+  fs.writeFileSync(out, `${built.transpiled}\n`);
+  if (built.sourceMap) fs.writeFileSync(`${out}.map`, JSON.stringify(built.sourceMap));
+  return EXIT_OK;
+};
+
+const tokens = (args: Args): number => {
+  checkFlags(args, []);
+  const project = openProject(singleFile(args), args);
+  for (const token of engineFor(project).tokenize()) {
+    process.stdout.write(`${`${token.line}:${token.col}`.padEnd(8)}${token.type.padEnd(12)}${JSON.stringify(token.value)}\n`);
+  }
+  // Only the lexer's own diagnostics (SPL1xxx) concern the token list
+  const lexical = engineFor(project).parse().errors.filter(err => err.code.startsWith('SPL1'));
+  report(project, lexical);
+  return exitCode(lexical);
+};
+
+const fmt = (args: Args): number => {
+  checkFlags(args, ['--write', '--check']);
+  if (args.files.length === 0) throw new UsageError(`'fmt' expects at least one .spl file`);
+  if (args.flags.has('--write') && args.flags.has('--check')) throw new UsageError(`'fmt' takes --write or --check, not both`);
+  let code = EXIT_OK;
+  for (const file of args.files) {
+    const source = readSource(file);
+    const formatted = formatSource(source);
+    if (args.flags.has('--check')) {
+      if (formatted !== source) {
+        process.stdout.write(`${file}\n`);
+        code = EXIT_FAILED;
+      }
+    } else if (args.flags.has('--write')) {
+      if (formatted !== source) fs.writeFileSync(file, formatted);
+    } else {
+      process.stdout.write(formatted.endsWith('\n') ? formatted : `${formatted}\n`);
+    }
+  }
+  return code;
+};
+
+const COMMANDS: Record<string, (args: Args) => number> = { run, check, transpile, tokens, fmt };
+
+const main = (argv: string[]): number => {
+  try {
+    const args = parseArgs(argv);
+    if (args.command === '' || args.command === 'help' || args.command === '--help' || args.flags.has('--help')) {
+      process.stdout.write(`${USAGE}\n`);
+      return EXIT_OK;
+    }
+    const command = COMMANDS[args.command];
+    if (!command) throw new UsageError(`Unknown command '${args.command}'`);
+    return command(args);
+  } catch (err) {
+    if (!(err instanceof UsageError)) throw err;
+    process.stderr.write(`splc: ${err.message}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
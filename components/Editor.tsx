@@ -1,13 +1,19 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { ScriptMode, SanskritamError } from '../types';
+import { ScriptMode, SanskritamError, CodeFix, Severity } from '../types';
 import { KEYWORDS } from '../constants';
+import { transliterate } from '../services/splTransliterator';
+import { isBlocking } from '../services/splDiagnostics';
+import { formatSource } from '../services/splFormatter';
+import { TypeHint } from '../services/splTypeChecker';
 
 interface EditorProps {
   code: string;
   setCode: (code: string) => void;
   mode: ScriptMode;
   errors: SanskritamError[];
+  // Inferred types of the names in `code`, from the last lint
+  typeHints?: TypeHint[];
   breakpoints: Set<number>;
   toggleBreakpoint: (line: number) => void;
   currentDebugLine?: number;
@@ -25,15 +31,31 @@ interface HoverDoc {
   devanagari: string;
   meaning: string;
   equivalent: string;
+  // Set for a name's inferred type rather than a keyword
+  type?: string;
   x: number;
   y: number;
 }
 
+const SEVERITY_STYLES: Record<Severity, { underline: string; marker: string; text: string; border: string }> = {
+  error: { underline: 'border-red-500 bg-red-500/10', marker: 'bg-red-500/50', text: 'text-red-400', border: 'border-red-500/30' },
+  warning: { underline: 'border-yellow-400 bg-yellow-400/10', marker: 'bg-yellow-400/50', text: 'text-yellow-400', border: 'border-yellow-400/30' },
+  info: { underline: 'border-sky-400 border-dotted', marker: 'bg-sky-400/50', text: 'text-sky-400', border: 'border-sky-400/30' }
+};
+
+// L3:5-9, or L3:5-L4:2 when the range spans lines
+const formatRange = (err: SanskritamError): string => {
+  const start = `${err.file ? `${err.file} ` : ''}L${err.line}:${err.column}`;
+  if (err.endLine === undefined || err.endColumn === undefined) return start;
+  return err.endLine === err.line ? `${start}-${err.endColumn}` : `${start}-L${err.endLine}:${err.endColumn}`;
+};
+
 const Editor: React.FC<EditorProps> = ({ 
   code, 
   setCode, 
   mode, 
   errors, 
+  typeHints = [],
   breakpoints, 
   toggleBreakpoint,
   currentDebugLine 
@@ -113,6 +135,24 @@ const Editor: React.FC<EditorProps> = ({
       return;
     }
 
+    const before = code.slice(0, charIdx).split('\n');
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+    const hint = typeHints.find(h => h.line === line && column >= h.column && column < h.column + h.length);
+    if (hint) {
+      setHoveredDoc({
+        name: 'Inferred type',
+        roman: hint.name,
+        devanagari: '',
+        meaning: hint.cpp ? `Emitted as ${hint.cpp} in C++` : 'Not fully known; the C++ output holds it in a dynamic san::Value',
+        equivalent: hint.cpp ?? 'san::Value',
+        type: hint.type,
+        x: e.clientX,
+        y: e.clientY
+      });
+      return;
+    }
+
     const keywordEntry = Object.entries(KEYWORDS).find(([key, val]) => 
       val.roman === word || val.devanagari === word
     );
@@ -142,6 +182,7 @@ const Editor: React.FC<EditorProps> = ({
     const errorAtClick = errors.find(err => {
       if (err.line !== lineNum) return false;
       if (!err.word) return err.column === colNum;
+      if (err.endColumn !== undefined && err.endLine === err.line && colNum >= err.column && colNum <= err.endColumn) return true;
       
       const lineText = code.split('\n')[lineNum - 1];
       const wordIdx = lineText.indexOf(err.word);
@@ -159,6 +200,24 @@ const Editor: React.FC<EditorProps> = ({
     }
   };
 
+  // Later edits first, so earlier line/column positions stay valid
+  const applyFixes = (fixes: CodeFix[]) => {
+    const lines = code.split('\n');
+    [...fixes]
+      .sort((a, b) => b.line - a.line || b.column - a.column)
+      .forEach(fix => {
+        const text = lines[fix.line - 1];
+        if (text === undefined) return;
+        lines[fix.line - 1] = text.slice(0, fix.column - 1) + fix.replacement + text.slice(fix.column - 1 + fix.length);
+      });
+    setCode(lines.join('\n'));
+    setActiveError(null);
+    showFeedback(fixes.length > 1 ? `Applied ${fixes.length} fixes` : "Fix applied");
+  };
+
+  const fixableErrors = errors.filter(err => err.fix);
+  const blockingErrors = errors.filter(isBlocking);
+
   useEffect(() => {
     const handleGlobalClick = () => closeContextMenu();
     window.addEventListener('click', handleGlobalClick);
@@ -204,7 +263,7 @@ const Editor: React.FC<EditorProps> = ({
         if (err.word) {
           const escapedWord = err.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
           const errRegex = new RegExp(`(${escapedWord})`, 'g');
-          html = html.replace(errRegex, `<span class="border-b-2 border-red-500 bg-red-500/10 cursor-help" title="Click to inspect error">$1</span>`);
+          html = html.replace(errRegex, `<span class="border-b-2 ${SEVERITY_STYLES[err.severity].underline} cursor-help" title="Click to inspect ${err.code}">$1</span>`);
         }
       });
 
@@ -220,21 +279,7 @@ const Editor: React.FC<EditorProps> = ({
     setTimeout(() => setCopiedStatus(null), 2000);
   };
 
-  const convertToDevanagari = (text: string) => {
-    let converted = text;
-    // Replace keywords
-    Object.values(KEYWORDS).forEach(kw => {
-      const regex = new RegExp(`\\b${kw.roman}\\b`, 'g');
-      converted = converted.replace(regex, kw.devanagari);
-    });
-    // Replace numbers
-    const numMap: Record<string, string> = {
-      '0': '०', '1': '१', '2': '२', '3': '३', '4': '४',
-      '5': '५', '6': '६', '7': '७', '8': '८', '9': '९'
-    };
-    converted = converted.replace(/[0-9]/g, (m) => numMap[m]);
-    return converted;
-  };
+  const convertToDevanagari = (text: string) => transliterate(text, ScriptMode.DEVANAGARI);
 
   const handleAction = async (action: 'copy' | 'cut' | 'paste' | 'comment' | 'copy-devanagari' | 'auto-format' | 'convert-to-devanagari') => {
     if (!textareaRef.current) return;
@@ -301,21 +346,7 @@ const Editor: React.FC<EditorProps> = ({
         break;
       case 'auto-format':
         {
-          const lines = code.split('\n');
-          let indentLevel = 0;
-          const formattedLines = lines.map((line) => {
-            const trimmed = line.trim();
-            if (trimmed === '') return '';
-            if (trimmed.includes(KEYWORDS.END.roman) || trimmed.includes(KEYWORDS.END.devanagari)) {
-              indentLevel = Math.max(0, indentLevel - 1);
-            }
-            const result = '  '.repeat(indentLevel) + trimmed;
-            if (trimmed.endsWith(KEYWORDS.THEN.roman) || trimmed.endsWith(KEYWORDS.THEN.devanagari)) {
-              indentLevel++;
-            }
-            return result;
-          });
-          setCode(formattedLines.join('\n'));
+          setCode(formatSource(code));
           showFeedback("Code Formatted");
         }
         break;
@@ -356,13 +387,15 @@ const Editor: React.FC<EditorProps> = ({
             const lineNum = i + 1;
             const hasBreakpoint = breakpoints.has(lineNum);
             const isExecuting = currentDebugLine === lineNum;
-            const hasError = errors.some(e => e.line === lineNum);
+            const lineDiagnostics = errors.filter(e => e.line === lineNum);
+            const hasError = lineDiagnostics.length > 0;
+            const worst = SEVERITY_STYLES[lineDiagnostics.some(isBlocking) ? 'error' : lineDiagnostics.some(e => e.severity === 'warning') ? 'warning' : 'info'];
 
             return (
               <div key={i} onClick={() => toggleBreakpoint(lineNum)} className={`h-7 w-full flex items-center justify-center cursor-pointer transition-colors group ${isExecuting ? 'bg-amber-500/20' : 'hover:bg-slate-800'}`}>
-                {hasError && !hasBreakpoint && <div className="absolute left-1 w-1 h-4 bg-red-500/50 rounded-full"></div>}
+                {hasError && !hasBreakpoint && <div className={`absolute left-1 w-1 h-4 ${worst.marker} rounded-full`}></div>}
                 <div className={`w-2.5 h-2.5 rounded-full transition-all ${hasBreakpoint ? 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]' : 'bg-transparent group-hover:bg-red-500/20'}`}></div>
-                <span className={`text-[10px] font-mono ml-1.5 w-4 text-right transition-colors ${isExecuting ? 'text-amber-400 font-bold' : hasError ? 'text-red-400' : 'text-slate-600'}`}>{lineNum}</span>
+                <span className={`text-[10px] font-mono ml-1.5 w-4 text-right transition-colors ${isExecuting ? 'text-amber-400 font-bold' : hasError ? worst.text : 'text-slate-600'}`}>{lineNum}</span>
               </div>
             );
           })}
@@ -380,18 +413,18 @@ const Editor: React.FC<EditorProps> = ({
               </div>
               <div className="flex items-center gap-2 mb-3">
                 <span className="text-lg font-bold text-white">{hoveredDoc.roman}</span>
-                <span className="text-lg font-bold text-amber-400 devanagari">{hoveredDoc.devanagari}</span>
+                {hoveredDoc.type ? <span className="text-sm font-mono text-amber-400">: {hoveredDoc.type}</span> : <span className="text-lg font-bold text-amber-400 devanagari">{hoveredDoc.devanagari}</span>}
               </div>
               <p className="text-xs text-slate-300 leading-relaxed italic">{hoveredDoc.meaning}</p>
             </div>
           )}
 
           {activeError && (
-            <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[120] w-80 bg-slate-900/95 backdrop-blur-xl border border-red-500/30 rounded-2xl shadow-2xl p-5 animate-in zoom-in-95 fade-in duration-200">
+            <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[120] w-80 bg-slate-900/95 backdrop-blur-xl border ${SEVERITY_STYLES[activeError.severity].border} rounded-2xl shadow-2xl p-5 animate-in zoom-in-95 fade-in duration-200`}>
                <div className="flex items-center justify-between mb-3">
                   <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)]"></div>
-                    <span className="text-[10px] font-black text-red-400 uppercase tracking-widest">Error Insight</span>
+                    <div className={`w-2 h-2 rounded-full ${SEVERITY_STYLES[activeError.severity].marker}`}></div>
+                    <span className={`text-[10px] font-black ${SEVERITY_STYLES[activeError.severity].text} uppercase tracking-widest`}>{activeError.severity} {activeError.code}</span>
                   </div>
                   <button onClick={() => setActiveError(null)} className="text-slate-500 hover:text-white transition-colors">
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
@@ -399,14 +432,27 @@ const Editor: React.FC<EditorProps> = ({
                </div>
                <div className="space-y-4">
                   <div className="text-sm font-medium text-slate-200 leading-relaxed">{activeError.message}</div>
+                  <div className="text-[10px] font-mono text-slate-500">{formatRange(activeError)}</div>
                   {activeError.word && (
                     <div className="bg-slate-950 p-2.5 rounded-lg border border-slate-800">
                        <span className="text-[9px] text-slate-500 uppercase block mb-1">Offending Word:</span>
                        <code className="text-amber-400 font-mono text-xs">{activeError.word}</code>
                     </div>
                   )}
+                  {activeError.related?.map((rel, i) => (
+                    <div key={i} className="text-xs text-slate-400 leading-relaxed">
+                      <span className="text-[9px] text-slate-500 uppercase font-bold mr-1">Note</span>
+                      <span className="font-mono text-slate-500">{rel.file && `${rel.file}:`}{rel.line}:{rel.column}</span> {rel.message}
+                    </div>
+                  ))}
                </div>
-               <div className="mt-5 flex justify-end">
+               <div className="mt-5 flex flex-wrap justify-end gap-2">
+                  {activeError.fix && (
+                    <button onClick={() => applyFixes([activeError.fix!])} className="px-4 py-1.5 bg-amber-500 hover:bg-amber-400 text-slate-950 text-[10px] font-bold rounded-lg transition-all">{activeError.fix.label}</button>
+                  )}
+                  {activeError.fix && fixableErrors.length > 1 && (
+                    <button onClick={() => applyFixes(fixableErrors.map(err => err.fix!))} className="px-4 py-1.5 bg-slate-800 hover:bg-slate-700 text-amber-400 text-[10px] font-bold rounded-lg transition-all">Fix all ({fixableErrors.length})</button>
+                  )}
                   <button onClick={() => setActiveError(null)} className="px-4 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-[10px] font-bold rounded-lg transition-all">Dismiss</button>
                </div>
             </div>
@@ -465,10 +511,11 @@ const Editor: React.FC<EditorProps> = ({
           <span>BP {breakpoints.size}</span>
         </div>
         <div className="flex items-center space-x-2">
-          {errors.length > 0 && <span className="text-red-400 font-bold truncate max-w-[200px]">{errors[0].message}</span>}
+          {blockingErrors.length > 0 && <span className="text-red-400 font-bold truncate max-w-[200px]">{blockingErrors[0].message}</span>}
+          {blockingErrors.length === 0 && errors.length > 0 && <span className="text-yellow-400">{errors.length} NOTE{errors.length > 1 ? 'S' : ''}</span>}
           <div className="flex items-center space-x-1">
-            <div className={`w-1.5 h-1.5 rounded-full ${errors.length > 0 ? 'bg-red-500' : 'bg-green-500 animate-pulse'}`}></div>
-            <span>{errors.length > 0 ? 'SYNTAX ERROR' : 'ENGINE READY'}</span>
+            <div className={`w-1.5 h-1.5 rounded-full ${blockingErrors.length > 0 ? 'bg-red-500' : 'bg-green-500 animate-pulse'}`}></div>
+            <span>{blockingErrors.length > 0 ? `${blockingErrors.length} ERROR${blockingErrors.length > 1 ? 'S' : ''}` : 'ENGINE READY'}</span>
           </div>
         </div>
       </div>
@@ -1,18 +1,42 @@
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { DebugSnapshot } from '../types';
+import { DebugSnapshot, ObjectSnapshot, ScopeSnapshot, ScriptMode } from '../types';
+import { formatNumber } from '../services/splNumerals';
 
 interface ScopeVisualizerProps {
   debugTrace: DebugSnapshot[];
   stepIndex: number;
 }
 
+// Variables are keyed as "<depth>:<scope>/<name>" so equally named variables in
+// different frames are tracked separately across steps.
+const scopeKey = (scope: ScopeSnapshot, depth: number) => `${depth}:${scope.name}`;
+
+const flattenScopes = (scopes: ScopeSnapshot[]): Record<string, any> => {
+  const flat: Record<string, any> = {};
+  scopes.forEach((scope, depth) => {
+    Object.entries(scope.variables).forEach(([name, value]) => {
+      flat[`${scopeKey(scope, depth)}/${name}`] = value;
+    });
+  });
+  return flat;
+};
+
+const varNameOf = (key: string) => key.slice(key.indexOf('/') + 1);
+
+const isObjectSnapshot = (val: any): val is ObjectSnapshot =>
+  typeof val === 'object' && val !== null && typeof val.__shreni === 'string';
+
 const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex }) => {
   const currentSnapshot = debugTrace[stepIndex];
   const previousSnapshot = stepIndex > 0 ? debugTrace[stepIndex - 1] : undefined;
+  // Numbers are shown with the same digits the program prints
+  const numerals = currentSnapshot.numerals ?? ScriptMode.ROMAN;
+  const displayScalar = (val: any) => typeof val === 'number' ? formatNumber(val, numerals) : String(val);
   
-  const vars = currentSnapshot.variables;
-  const prevVars = previousSnapshot?.variables || {};
+  const scopes = currentSnapshot.variables;
+  const vars = useMemo(() => flattenScopes(scopes), [scopes]);
+  const prevVars = useMemo(() => flattenScopes(previousSnapshot?.variables || []), [previousSnapshot]);
   
   const allVarNames = useMemo(() => {
     return Array.from(new Set([...Object.keys(vars), ...Object.keys(prevVars)]));
@@ -49,6 +73,9 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
   };
 
   const ValueExplorer: React.FC<{ value: any; isPrev?: boolean; depth?: number }> = ({ value, isPrev = false, depth = 0 }) => {
+    // shreni instances are inspected through their fields, labelled with the class name
+    const instanceOf = isObjectSnapshot(value) ? value.__shreni : null;
+    if (instanceOf) value = (value as ObjectSnapshot).fields;
     const [isExpanded, setIsExpanded] = useState(depth === 0 && !Array.isArray(value) && typeof value === 'object' && value !== null && Object.keys(value).length < 5);
     
     if (value === null) return <span className="text-slate-500 italic">null</span>;
@@ -56,7 +83,7 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
 
     if (type !== 'obj' && type !== 'arr') {
       if (typeof value === 'string') return <span className={isPrev ? "text-rose-300/50" : "text-emerald-400"}>"{value}"</span>;
-      if (typeof value === 'number') return <span className={isPrev ? "text-rose-300/50" : "text-blue-400"}>{value}</span>;
+      if (typeof value === 'number') return <span className={isPrev ? "text-rose-300/50" : "text-blue-400"}>{formatNumber(value, numerals)}</span>;
       if (typeof value === 'boolean') return <span className={isPrev ? "text-rose-300/50" : "text-pink-400"}>{String(value)}</span>;
       return <span className="text-slate-300">{String(value)}</span>;
     }
@@ -71,7 +98,7 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
     // Create a preview string for collapsed view
     const getPreview = () => {
       if (type === 'arr') {
-        const previewItems = value.slice(0, 3).map((v: any) => typeof v === 'object' ? '{...}' : String(v));
+        const previewItems = value.slice(0, 3).map((v: any) => typeof v === 'object' ? '{...}' : displayScalar(v));
         return `[${previewItems.join(', ')}${value.length > 3 ? ', ...' : ''}]`;
       } else {
         const keys = Object.keys(value).slice(0, 2);
@@ -90,7 +117,7 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
             {isExpanded ? '▼' : '▶'}
           </span>
           <span className="text-slate-500 font-mono text-[11px]">
-            {type === 'arr' ? `Array(${value.length})` : 'Object'}
+            {type === 'arr' ? `Array(${value.length})` : instanceOf ?? 'Object'}
           </span>
           {!isExpanded && (
             <span className="ml-1 text-[10px] text-slate-600 font-mono truncate max-w-[120px]">
@@ -103,7 +130,7 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
             {type === 'arr' ? (
               items.map((item: any, i: number) => (
                 <div key={i} className="flex items-start gap-2">
-                  <span className="text-slate-600 text-[10px] w-4 font-mono shrink-0">{i}:</span>
+                  <span className="text-slate-600 text-[10px] w-4 font-mono shrink-0">{formatNumber(i, numerals)}:</span>
                   <ValueExplorer value={item} isPrev={isPrev} depth={depth + 1} />
                 </div>
               ))
@@ -121,9 +148,9 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
     );
   };
 
-  const getSignificantHistoryForVar = (name: string) => {
+  const getSignificantHistoryForVar = (key: string) => {
     const fullHistory = debugTrace.slice(0, stepIndex + 1).map((snapshot, idx) => ({
-      step: idx + 1, line: snapshot.line, value: snapshot.variables[name]
+      step: idx + 1, line: snapshot.line, value: flattenScopes(snapshot.variables)[key]
     })).filter(h => h.value !== undefined);
     const significantHistory: typeof fullHistory = [];
     let lastValue: any = undefined;
@@ -136,13 +163,13 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
 
   const filteredVarNames = useMemo(() => {
     let result = allVarNames;
-    if (filterType !== 'all') result = result.filter(name => getVarType(vars[name] ?? prevVars[name]) === filterType);
+    if (filterType !== 'all') result = result.filter(key => getVarType(vars[key] ?? prevVars[key]) === filterType);
     
     return result.sort((a, b) => {
       const aH = highlightedVars.has(a) ? 1 : 0;
       const bH = highlightedVars.has(b) ? 1 : 0;
       if (aH !== bH) return bH - aH;
-      return a.localeCompare(b);
+      return varNameOf(a).localeCompare(varNameOf(b));
     });
   }, [allVarNames, filterType, vars, prevVars, highlightedVars]);
 
@@ -163,72 +190,85 @@ const ScopeVisualizer: React.FC<ScopeVisualizerProps> = ({ debugTrace, stepIndex
       <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar min-h-0 space-y-2">
         {filteredVarNames.length === 0 ? (
           <div className="text-[10px] text-slate-600 italic text-center py-8 border border-dashed border-slate-800 rounded-xl">No variables tracked</div>
-        ) : filteredVarNames.map((name) => {
-            const val = vars[name];
-            const prevVal = prevVars[name];
-            const isNew = prevVal === undefined && val !== undefined;
-            const isChanged = prevVal !== undefined && val !== undefined && JSON.stringify(prevVal) !== JSON.stringify(val);
-            const isRemoved = val === undefined && prevVal !== undefined;
-            const isCurrentlyHighlighted = highlightedVars.has(name);
-            const isSelected = selectedVarHistory === name;
-
-            return (
-              <div 
-                key={name} 
-                onClick={() => setSelectedVarHistory(isSelected ? null : name)} 
-                className={`p-3 rounded-xl border cursor-pointer transition-all duration-300 flex flex-col gap-1.5 shadow-sm relative overflow-hidden group hover:bg-slate-900/60 ${
-                  isSelected ? 'ring-2 ring-amber-500/50 bg-slate-900 border-amber-500/30' :
-                  isNew ? 'bg-emerald-500/10 border-emerald-500/30 animate-var-entry' :
-                  isCurrentlyHighlighted ? 'bg-amber-500/10 border-amber-500/50 animate-var-update' :
-                  isRemoved ? 'bg-red-500/5 border-red-500/20 opacity-40 grayscale blur-[0.5px]' :
-                  'bg-slate-900/40 border-slate-800'
-                }`}
-              >
-                <div className="flex items-center justify-between relative z-10">
-                  <div className="flex items-center gap-2">
-                    <div className={`w-2 h-2 rounded-full transition-all duration-500 ${isRemoved ? 'bg-red-500 shadow-[0_0_8px_red]' : isNew ? 'bg-emerald-400 shadow-[0_0_10px_#34d399]' : isChanged ? 'bg-amber-400 shadow-[0_0_10px_#fbbf24]' : 'bg-slate-600'}`}></div>
-                    <div className="flex flex-col"><span className={`text-[10px] font-bold font-mono tracking-tight ${isRemoved ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{name}</span></div>
-                  </div>
-                  <div className="flex gap-2 items-center">
-                    {isCurrentlyHighlighted && <span className="text-[7px] bg-amber-500 text-slate-950 font-black px-1 py-0.5 rounded-sm animate-pulse">MUTATED</span>}
-                    {isRemoved && <span className="text-[7px] bg-red-500/20 text-red-400 font-black px-1 py-0.5 rounded-sm">DELETED</span>}
-                  </div>
-                </div>
-                
-                <div className="flex flex-col gap-1 mt-0.5 relative z-10 overflow-x-auto custom-scrollbar-hidden">
-                  <div className={`text-sm font-mono font-bold transition-all duration-300 ${isRemoved ? 'text-slate-600' : isChanged ? 'text-amber-400' : isNew ? 'text-emerald-400' : 'text-slate-300'}`}>
-                    {isRemoved ? <ValueExplorer value={prevVal} isPrev /> : <ValueExplorer value={val} />}
-                  </div>
-                  {isChanged && !isSelected && (
-                    <div className="flex items-center gap-1.5 text-[9px] font-mono opacity-40 italic pl-1 border-l border-slate-700">
-                      <span className="line-through text-slate-500">
-                         {typeof prevVal === 'object' && prevVal !== null ? (Array.isArray(prevVal) ? `Array(${prevVal.length})` : 'Object') : String(prevVal)}
-                      </span>
-                      <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 5l7 7-7 7"/></svg>
-                    </div>
-                  )}
-                </div>
+        ) : scopes.map((scope, depth) => {
+          const prefix = `${scopeKey(scope, depth)}/`;
+          const scopeVarKeys = filteredVarNames.filter(key => key.startsWith(prefix));
+          return (
+            <div key={prefix} style={{ marginLeft: depth * 8 }} className="pl-2 border-l border-slate-800 space-y-2">
+              <div className="flex items-center gap-2 pt-1">
+                <span className={`text-[8px] font-black uppercase tracking-widest px-1.5 py-0.5 rounded ${scope.kind === 'global' ? 'bg-slate-800 text-slate-400' : scope.kind === 'function' ? 'bg-amber-500/10 text-amber-500' : scope.kind === 'module' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-sky-500/10 text-sky-400'}`}>{scope.kind}</span>
+                <span className="text-[10px] font-mono text-slate-500 truncate">{scope.name}</span>
+              </div>
+              {scopeVarKeys.length === 0 && <div className="text-[9px] text-slate-700 italic pl-1">empty</div>}
+              {scopeVarKeys.map((key) => {
+                const name = varNameOf(key);
+                const val = vars[key];
+                const prevVal = prevVars[key];
+                const isNew = prevVal === undefined && val !== undefined;
+                const isChanged = prevVal !== undefined && val !== undefined && JSON.stringify(prevVal) !== JSON.stringify(val);
+                const isRemoved = val === undefined && prevVal !== undefined;
+                const isCurrentlyHighlighted = highlightedVars.has(key);
+                const isSelected = selectedVarHistory === key;
 
-                {isSelected && (
-                  <div className="mt-4 pt-4 border-t border-slate-800/60 animate-in slide-in-from-top-1">
-                    <div className="text-[8px] font-black text-amber-500/60 uppercase tracking-widest mb-3 flex items-center gap-2">
-                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
-                      Change Logs
+                return (
+                  <div 
+                    key={key} 
+                    onClick={() => setSelectedVarHistory(isSelected ? null : key)} 
+                    className={`p-3 rounded-xl border cursor-pointer transition-all duration-300 flex flex-col gap-1.5 shadow-sm relative overflow-hidden group hover:bg-slate-900/60 ${
+                      isSelected ? 'ring-2 ring-amber-500/50 bg-slate-900 border-amber-500/30' :
+                      isNew ? 'bg-emerald-500/10 border-emerald-500/30 animate-var-entry' :
+                      isCurrentlyHighlighted ? 'bg-amber-500/10 border-amber-500/50 animate-var-update' :
+                      isRemoved ? 'bg-red-500/5 border-red-500/20 opacity-40 grayscale blur-[0.5px]' :
+                      'bg-slate-900/40 border-slate-800'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between relative z-10">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-2 h-2 rounded-full transition-all duration-500 ${isRemoved ? 'bg-red-500 shadow-[0_0_8px_red]' : isNew ? 'bg-emerald-400 shadow-[0_0_10px_#34d399]' : isChanged ? 'bg-amber-400 shadow-[0_0_10px_#fbbf24]' : 'bg-slate-600'}`}></div>
+                        <div className="flex flex-col"><span className={`text-[10px] font-bold font-mono tracking-tight ${isRemoved ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{name}</span></div>
+                      </div>
+                      <div className="flex gap-2 items-center">
+                        {isCurrentlyHighlighted && <span className="text-[7px] bg-amber-500 text-slate-950 font-black px-1 py-0.5 rounded-sm animate-pulse">MUTATED</span>}
+                        {isRemoved && <span className="text-[7px] bg-red-500/20 text-red-400 font-black px-1 py-0.5 rounded-sm">DELETED</span>}
+                      </div>
                     </div>
-                    <div className="space-y-3 relative pl-4 border-l border-slate-800">
-                      {getSignificantHistoryForVar(name).map((h, i) => (
-                        <div key={i} className="flex flex-col gap-1">
-                          <div className="flex items-center gap-2 text-[8px]"><span className="text-slate-500 font-bold uppercase">L{h.line}</span><span className="text-slate-600 italic">Step {h.step}</span></div>
-                          <div className="text-[10px] font-mono text-slate-400 bg-slate-950/30 p-1.5 rounded border border-slate-800/40"><ValueExplorer value={h.value} /></div>
+                
+                    <div className="flex flex-col gap-1 mt-0.5 relative z-10 overflow-x-auto custom-scrollbar-hidden">
+                      <div className={`text-sm font-mono font-bold transition-all duration-300 ${isRemoved ? 'text-slate-600' : isChanged ? 'text-amber-400' : isNew ? 'text-emerald-400' : 'text-slate-300'}`}>
+                        {isRemoved ? <ValueExplorer value={prevVal} isPrev /> : <ValueExplorer value={val} />}
+                      </div>
+                      {isChanged && !isSelected && (
+                        <div className="flex items-center gap-1.5 text-[9px] font-mono opacity-40 italic pl-1 border-l border-slate-700">
+                          <span className="line-through text-slate-500">
+                             {typeof prevVal === 'object' && prevVal !== null ? (Array.isArray(prevVal) ? `Array(${prevVal.length})` : isObjectSnapshot(prevVal) ? prevVal.__shreni : 'Object') : displayScalar(prevVal)}
+                          </span>
+                          <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 5l7 7-7 7"/></svg>
                         </div>
-                      ))}
+                      )}
                     </div>
+
+                    {isSelected && (
+                      <div className="mt-4 pt-4 border-t border-slate-800/60 animate-in slide-in-from-top-1">
+                        <div className="text-[8px] font-black text-amber-500/60 uppercase tracking-widest mb-3 flex items-center gap-2">
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
+                          Change Logs
+                        </div>
+                        <div className="space-y-3 relative pl-4 border-l border-slate-800">
+                          {getSignificantHistoryForVar(key).map((h, i) => (
+                            <div key={i} className="flex flex-col gap-1">
+                              <div className="flex items-center gap-2 text-[8px]"><span className="text-slate-500 font-bold uppercase">L{h.line}</span><span className="text-slate-600 italic">Step {h.step}</span></div>
+                              <div className="text-[10px] font-mono text-slate-400 bg-slate-950/30 p-1.5 rounded border border-slate-800/40"><ValueExplorer value={h.value} /></div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            );
-          })
-        )}
+                );
+              })}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
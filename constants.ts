@@ -1,5 +1,5 @@
 
-import { KeywordMap } from './types';
+import { KeywordMap, ScriptPolicy } from './types';
 
 export const KEYWORDS: KeywordMap = {
   PRINT: { roman: 'vadatu', devanagari: 'वदतु', meaning: 'Speak/Print', equivalent: 'print()' },
@@ -10,6 +10,8 @@ export const KEYWORDS: KeywordMap = {
   VALUE: { roman: 'mulyam', devanagari: 'मूल्यम्', meaning: 'Value/Variable', equivalent: 'var' },
   FOR: { roman: 'krute', devanagari: 'कृते', meaning: 'For', equivalent: 'for' },
   WHILE: { roman: 'yavat', devanagari: 'यावत्', meaning: 'While', equivalent: 'while' },
+  TO: { roman: 'paryantam', devanagari: 'पर्यन्तम्', meaning: 'Up to (inclusive range in krute)', equivalent: 'to' },
+  IN: { roman: 'madhye', devanagari: 'मध्ये', meaning: 'Within (collection in krute)', equivalent: 'in' },
   CONTINUE: { roman: 'anuvartatu', devanagari: 'अनुवर्ततु', meaning: 'Continue to next iteration', equivalent: 'continue' },
   BREAK: { roman: 'viramatu', devanagari: 'विरमतु', meaning: 'Break out of loop', equivalent: 'break' },
   RETURN: { roman: 'pratyarpayatu', devanagari: 'प्रत्यर्पयतु', meaning: 'Return value from function', equivalent: 'return' },
@@ -20,10 +22,42 @@ export const KEYWORDS: KeywordMap = {
   CATCH: { roman: 'grihnatu', devanagari: 'गृह्णातु', meaning: 'Catch exception', equivalent: 'catch' },
   THROW: { roman: 'kshipatu', devanagari: 'क्षिपतु', meaning: 'Throw exception', equivalent: 'throw' },
   CLASS: { roman: 'shreni', devanagari: 'श्रेणी', meaning: 'Class definition', equivalent: 'class' },
+  THIS: { roman: 'ayam', devanagari: 'अयम्', meaning: 'This object (inside shreni methods)', equivalent: 'this' },
   IMPORT: { roman: 'anayati', devanagari: 'आनयति', meaning: 'Import module', equivalent: 'import' },
   NULL: { roman: 'shunyam', devanagari: 'शून्यम्', meaning: 'Null/Empty value', equivalent: 'null' },
 };
 
+// File-header pragma declaring the file's script policy, e.g. `// lipi: devanagari`
+export const SCRIPT_PRAGMA = /^(\s*\/\/\s*(?:lipi|लिपिः?)\s*:\s*)(\S*)/;
+
+export const SCRIPT_POLICY_NAMES: Record<string, ScriptPolicy> = {
+  roman: 'roman',
+  devanagari: 'devanagari',
+  mixed: 'mixed',
+  'रोमन': 'roman',
+  'देवनागरी': 'devanagari',
+  'मिश्रम्': 'mixed'
+};
+
+// Entry point of a playground project; other files are modules loaded with anayati
+export const MAIN_FILE = 'main.spl';
+
+// Budgets for playground runs; the worker stops a program at whichever it reaches first
+export const RUN_LIMITS = { timeLimit: 10000, maxSteps: 50_000_000 };
+
+// A shreni method with this name runs when the class is instantiated, e.g. Bindu(3, 4)
+export const CONSTRUCTOR_NAMES = { roman: 'nirmata', devanagari: 'निर्माता' };
+
+// Type names for annotations (mulyam x: sankhya = 1, karyam f(a: vakyam)); suchi and kosha
+// may name their element types: suchi<sankhya>, kosha<vakyam, sankhya>
+export const TYPE_ANNOTATIONS = {
+  NUMBER: { roman: 'sankhya', devanagari: 'सङ्ख्या', params: 0 },
+  STRING: { roman: 'vakyam', devanagari: 'वाक्यम्', params: 0 },
+  BOOLEAN: { roman: 'tarkah', devanagari: 'तर्कः', params: 0 },
+  LIST: { roman: 'suchi', devanagari: 'सूची', params: 1 },
+  DICT: { roman: 'kosha', devanagari: 'कोशः', params: 2 }
+};
+
 export const SAMPLE_CODES = {
   ROMAN: `mulyam x = 10\nmulyam y = 20\nvadatu "Sanskritam is powerful"\nyadi x < y tarhi\n  vadatu "X is smaller"\nsamaptam`,
   DEVANAGARI: `मूल्यम् x = १०\nमूल्यम् y = २०\nवदतु "संस्कृतम् अतीव शक्तिशाली अस्ति"\nयदि x < y तर्हि\n  वदतु "x न्यूनम् अस्ति"\nसमाप्तम्`
@@ -63,6 +97,14 @@ export const SNIPPETS: Snippet[] = [
       DEVANAGARI: `मूल्यम् counter = ०\nयावत् counter < १० तर्हि\n  यदि counter == ५ तर्हि\n    विरमतु\n  समाप्तम्\n  वदतु "गणना: " + counter\n  counter = counter + १\nसमाप्तम्`
     }
   },
+  {
+    name: "Range Loop",
+    description: "Counting with krute over a range.",
+    code: {
+      ROMAN: `mulyam total = 0\nkrute i = 1 paryantam 10 tarhi\n  yadi i % 2 == 0 tarhi\n    anuvartatu\n  samaptam\n  total = total + i\nsamaptam\nvadatu "Sum of odd numbers: " + total\n\nkrute akshara madhye "ram" tarhi\n  vadatu akshara\nsamaptam`,
+      DEVANAGARI: `मूल्यम् total = ०\nकृते i = १ पर्यन्तम् १० तर्हि\n  यदि i % २ == ० तर्हि\n    अनुवर्ततु\n  समाप्तम्\n  total = total + i\nसमाप्तम्\nवदतु "विषमसंख्यानां योगः: " + total\n\nकृते akshara मध्ये "राम" तर्हि\n  वदतु akshara\nसमाप्तम्`
+    }
+  },
   {
     name: "Logical Check",
     description: "Boolean logic and conditionals.",
@@ -70,5 +112,45 @@ export const SNIPPETS: Snippet[] = [
       ROMAN: `mulyam isRaining = satyam\nyadi isRaining tarhi\n  vadatu "Bring an umbrella"\nanyatha\n  vadatu "Enjoy the sun"\nsamaptam`,
       DEVANAGARI: `मूल्यम् isRaining = सत्यम्\nयदि isRaining तर्हि\n  वदतु "छत्रं आनयतु"\nअन्यथा\n  वदतु "सूर्यप्रकाशस्य आनन्दं लभस्व"\nसमाप्तम्`
     }
+  },
+  {
+    name: "Exception Handling",
+    description: "Raising and catching errors with prayatnam.",
+    code: {
+      ROMAN: `karyam bhaga(a, b) tarhi\n  yadi b == 0 tarhi\n    kshipatu "Division by zero"\n  samaptam\n  pratyarpayatu a / b\nsamaptam\n\nprayatnam\n  vadatu bhaga(10, 2)\n  vadatu bhaga(1, 0)\ngrihnatu e\n  vadatu "Caught: " + e\nsamaptam`,
+      DEVANAGARI: `कार्यम् bhaga(a, b) तर्हि\n  यदि b == ० तर्हि\n    क्षिपतु "शून्येन भागः"\n  समाप्तम्\n  प्रत्यर्पयतु a / b\nसमाप्तम्\n\nप्रयत्नम्\n  वदतु bhaga(१०, २)\n  वदतु bhaga(१, ०)\nगृह्णातु e\n  वदतु "दोषः: " + e\nसमाप्तम्`
+    }
+  },
+  {
+    name: "Classes",
+    description: "A shreni with fields, a nirmata constructor and methods.",
+    code: {
+      ROMAN: `shreni Bindu tarhi\n  mulyam x = 0\n  mulyam y = 0\n  karyam nirmata(x, y) tarhi\n    ayam.x = x\n    ayam.y = y\n  samaptam\n  karyam dura() tarhi\n    pratyarpayatu ayam.x * ayam.x + ayam.y * ayam.y\n  samaptam\nsamaptam\n\nmulyam p = Bindu(3, 4)\nvadatu p.dura()`,
+      DEVANAGARI: `श्रेणी Bindu तर्हि\n  मूल्यम् x = ०\n  मूल्यम् y = ०\n  कार्यम् निर्माता(x, y) तर्हि\n    अयम्.x = x\n    अयम्.y = y\n  समाप्तम्\n  कार्यम् dura() तर्हि\n    प्रत्यर्पयतु अयम्.x * अयम्.x + अयम्.y * अयम्.y\n  समाप्तम्\nसमाप्तम्\n\nमूल्यम् p = Bindu(३, ४)\nवदतु p.dura()`
+    }
+  },
+  {
+    name: "Modules",
+    description: "Importing the built-in ganita module with anayati.",
+    code: {
+      ROMAN: `anayati "ganita"\n\nmulyam r = 3\nvadatu "Area: " + ganita.pi * r * r\nvadatu "Root of 144: " + ganita.mulam(144)`,
+      DEVANAGARI: `आनयति "ganita"\n\nमूल्यम् r = ३\nवदतु "क्षेत्रफलम्: " + ganita.pi * r * r\nवदतु "१४४ इत्यस्य मूलम्: " + ganita.mulam(१४४)`
+    }
+  },
+  {
+    name: "Lists & Dictionaries",
+    description: "Collections, indexing and dairghyam.",
+    code: {
+      ROMAN: `mulyam phalani = ["amra", "kadali", "draksha"]\nphalani[0] = "narikela"\nvadatu phalani\nvadatu "Count: " + dairghyam(phalani)\n\nmulyam mulya = {"amra": 40, "kadali": 10}\nmulya["draksha"] = 60\nkrute phala madhye mulya tarhi\n  vadatu phala + " costs " + mulya[phala]\nsamaptam`,
+      DEVANAGARI: `मूल्यम् phalani = ["आम्र", "कदली", "द्राक्षा"]\nphalani[०] = "नारिकेल"\nवदतु phalani\nवदतु "सङ्ख्या: " + दैर्घ्यम्(phalani)\n\nमूल्यम् mulya = {"आम्र": ४०, "कदली": १०}\nmulya["द्राक्षा"] = ६०\nकृते phala मध्ये mulya तर्हि\n  वदतु phala + " - " + mulya[phala]\nसमाप्तम्`
+    }
+  },
+  {
+    name: "Standard Library",
+    description: "Seeded random numbers, conversions and list helpers.",
+    code: {
+      ROMAN: `bijam(7)\nmulyam ankah = []\nkrute i = 1 paryantam 5 tarhi\n  samyojaya(ankah, nimnam(yadrcchikam() * 100))\nsamaptam\nvadatu kramaya(ankah)\nvadatu "Root: " + vargamulam(sankhya("49"))\nvadatu khandah("Sanskritam", 0, 4) + " is " + prakarah("x")`,
+      DEVANAGARI: `बीजम्(७)\nमूल्यम् ankah = []\nकृते i = १ पर्यन्तम् ५ तर्हि\n  संयोजय(ankah, निम्नम्(यादृच्छिकम्() * १००))\nसमाप्तम्\nवदतु क्रमय(ankah)\nवदतु "मूलम्: " + वर्गमूलम्(सङ्ख्या("४९"))\nवदतु खण्डः("संस्कृतम्", ०, ४) + " - " + प्रकारः("x")`
+    }
   }
 ];
@@ -0,0 +1,577 @@
+import { KEYWORDS, CONSTRUCTOR_NAMES } from "../constants";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+
+// Each standard library builtin contributes its C++ definition, under its Roman name
+const builtinDefinitions = Object.entries(BUILTIN_FUNCTIONS)
+  .map(([name, builtin]) => `    // ${name} (${builtin.devanagari}): ${builtin.meaning}\n    ${builtin.cpp}`)
+  .join('\n');
+
+// Sanskritam.h -- the C++ runtime that transpiled programs (main.cpp) include.
+export const SANSKRITAM_RUNTIME_HEADER = `
+#ifndef SANSKRITAM_H
+#define SANSKRITAM_H
+#include <algorithm>
+#include <cmath>
+#include <cstdint>
+#include <cstdio>
+#include <cstdlib>
+#include <functional>
+#include <iomanip>
+#include <iostream>
+#include <map>
+#include <memory>
+#include <random>
+#include <sstream>
+#include <stdexcept>
+#include <string>
+#include <type_traits>
+#include <utility>
+#include <vector>
+namespace san {
+    template<typename T> std::string str(const T& val);
+    template<typename T> std::string str(const std::vector<T>& items);
+    template<typename K, typename V> std::string str(const std::map<K, V>& items);
+    inline std::string str(double val);
+    inline std::string str(int val);
+
+    // Digits follow the program's script; ankalipi() switches them at run time
+    inline bool& devanagari_numerals() { static bool enabled = false; return enabled; }
+    // satyam, asatyam and shunyam print in the program's script
+    inline bool& devanagari_keywords() { static bool enabled = false; return enabled; }
+    inline std::string to_devanagari_digits(const std::string& text) {
+        std::string out;
+        for (char c : text) {
+            // ० (U+0966) to ९ (U+096F) are E0 A5 A6 to E0 A5 AF in UTF-8
+            if (c >= '0' && c <= '9') { out += "\\xE0\\xA5"; out += static_cast<char>(0xA6 + (c - '0')); }
+            else out += c;
+        }
+        return out;
+    }
+    // Shortest text that reads back as the same double, with the exponent rules of String(n) in the playground
+    inline std::string plain_number(double value) {
+        if (std::isnan(value)) return "NaN";
+        if (std::isinf(value)) return value < 0 ? "-Infinity" : "Infinity";
+        if (value == 0) return "0";
+        char text[32];
+        for (int precision = 0; precision <= 16; precision++) {
+            std::snprintf(text, sizeof text, "%.*e", precision, std::fabs(value));
+            if (std::strtod(text, nullptr) == std::fabs(value)) break;
+        }
+        // d.ddde+x: the significant digits, and where the decimal point falls among them
+        const std::string scientific = text;
+        const size_t e = scientific.find('e');
+        std::string digits = scientific.substr(0, 1) + (e > 1 ? scientific.substr(2, e - 2) : "");
+        while (digits.size() > 1 && digits.back() == '0') digits.pop_back();
+        const int count = static_cast<int>(digits.size());
+        const int point = std::atoi(scientific.c_str() + e + 1) + 1;
+        const std::string sign = value < 0 ? "-" : "";
+        if (count <= point && point <= 21) return sign + digits + std::string(point - count, '0');
+        if (0 < point && point <= 21) return sign + digits.substr(0, point) + "." + digits.substr(point);
+        if (-6 < point && point <= 0) return sign + "0." + std::string(-point, '0') + digits;
+        const int power = point - 1;
+        return sign + digits.substr(0, 1) + (count > 1 ? "." + digits.substr(1) : "") + "e" + (power >= 0 ? "+" : "-") + std::to_string(std::abs(power));
+    }
+    inline std::string format_number(double value) {
+        return devanagari_numerals() ? to_devanagari_digits(plain_number(value)) : plain_number(value);
+    }
+
+    // Collection elements print like SPL literals: strings quoted
+    template<typename T> std::string repr(const T& val) { return str(val); }
+    inline std::string repr(const std::string& val) { return "\\"" + val + "\\""; }
+    inline std::string repr(const char* val) { return repr(std::string(val)); }
+
+    template<typename T> std::string str(const T& val) { std::ostringstream out; out << val; return out.str(); }
+    inline std::string str(const std::string& val) { return val; }
+    inline std::string str(bool val) { return devanagari_keywords() ? (val ? "${KEYWORDS.TRUE.devanagari}" : "${KEYWORDS.FALSE.devanagari}") : (val ? "${KEYWORDS.TRUE.roman}" : "${KEYWORDS.FALSE.roman}"); }
+    inline std::string str(double val) { return format_number(val); }
+    inline std::string str(int val) { return format_number(val); }
+    template<typename T> std::string str(const std::vector<T>& items) {
+        std::string out = "[";
+        for (size_t i = 0; i < items.size(); i++) out += (i ? ", " : "") + repr(items[i]);
+        return out + "]";
+    }
+    template<typename K, typename V> std::string str(const std::map<K, V>& items) {
+        std::string out = "{";
+        for (const auto& item : items) out += (out.size() > 1 ? ", " : "") + repr(item.first) + ": " + repr(item.second);
+        return out + "}";
+    }
+
+    // Splits UTF-8 text into code points, so Devanagari characters count as one
+    inline std::vector<std::string> codepoints(const std::string& text) {
+        std::vector<std::string> chars;
+        for (unsigned char c : text) {
+            if ((c & 0xC0) != 0x80 || chars.empty()) chars.push_back(std::string());
+            chars.back() += static_cast<char>(c);
+        }
+        return chars;
+    }
+
+    // --- DYNAMIC VALUES ---
+    // Lists, dictionaries, objects and anything whose type is not known statically.
+    // Collections and objects are shared handles, so aliasing works as in the playground.
+    struct Value;
+    struct Instance;
+    struct Class;
+    struct Module;
+    using List = std::vector<Value>;
+    // Entries keep insertion order, like a Map in the playground
+    using Dict = std::vector<std::pair<Value, Value>>;
+    using Callable = std::function<Value(const std::vector<Value>&)>;
+    std::string str(const Value& value);
+    std::string repr(const Value& value);
+    template<typename T> T as(const Value& value);
+    template<typename R, typename... A, size_t... I> Callable wrap(std::function<R(A...)> fn, std::index_sequence<I...>);
+
+    struct Value {
+        enum Kind { NUL, NUMBER, BOOLEAN, STRING, LIST, DICT, FUNCTION, INSTANCE, CLASS, MODULE };
+        Kind kind = NUL;
+        double number = 0;
+        bool boolean = false;
+        // The string itself, or how a function prints
+        std::string text;
+        std::shared_ptr<List> list;
+        std::shared_ptr<Dict> dict;
+        std::shared_ptr<Callable> function;
+        std::shared_ptr<Instance> instance;
+        std::shared_ptr<Class> klass;
+        std::shared_ptr<Module> module;
+
+        Value() {}
+        Value(std::nullptr_t) {}
+        Value(bool value) : kind(BOOLEAN), boolean(value) {}
+        template<typename N, typename std::enable_if<std::is_arithmetic<N>::value && !std::is_same<N, bool>::value, int>::type = 0>
+        Value(N value) : kind(NUMBER), number(static_cast<double>(value)) {}
+        Value(const char* value) : kind(STRING), text(value) {}
+        Value(const std::string& value) : kind(STRING), text(value) {}
+        template<typename T> Value(const std::vector<T>& items) : kind(LIST), list(std::make_shared<List>(items.begin(), items.end())) {}
+        template<typename K, typename V> Value(const std::map<K, V>& items) : kind(DICT), dict(std::make_shared<Dict>()) {
+            for (const auto& item : items) dict->emplace_back(Value(item.first), Value(item.second));
+        }
+        template<typename R, typename... A> Value(const std::function<R(A...)>& fn)
+            : kind(FUNCTION), text("<${KEYWORDS.FUNCTION.roman}>"), function(std::make_shared<Callable>(wrap(fn, std::index_sequence_for<A...>{}))) {}
+
+        Value call(const std::vector<Value>& args) const;
+        template<typename... A> Value operator()(const A&... args) const { return call(std::vector<Value>{Value(args)...}); }
+    };
+
+    struct Method {
+        size_t arity;
+        std::function<Value(Value, const std::vector<Value>&)> body;
+    };
+    struct Class {
+        std::string name;
+        // Declares the fields of a new instance, in order
+        std::function<void(Value)> fields;
+        std::map<std::string, Method> methods;
+    };
+    struct Instance {
+        std::shared_ptr<Class> klass;
+        std::vector<std::pair<std::string, Value>> fields;
+    };
+    struct Module {
+        std::string name;
+        std::vector<std::pair<std::string, Value>> exports;
+    };
+
+    // Runtime error raised by kshipatu and caught by grihnatu; value is what was thrown
+    struct Exception : std::runtime_error {
+        Value value;
+        template<typename T> explicit Exception(const T& thrown) : std::runtime_error(str(thrown)), value(thrown) {}
+    };
+    inline std::string str(const Exception& err) { return err.what(); }
+    inline std::string operator+(const std::string& text, const Exception& err) { return text + err.what(); }
+    inline std::string operator+(const Exception& err, const std::string& text) { return err.what() + text; }
+
+    // What a karyam holds until its declaration runs: calling it fails as in the playground
+    template<typename F> struct Undeclared;
+    template<typename R, typename... A> struct Undeclared<std::function<R(A...)>> {
+        static std::function<R(A...)> make(const std::string& message) {
+            return [message](A...) -> R { throw Exception(message); };
+        }
+    };
+    template<typename F> F undeclared(const std::string& message) { return Undeclared<F>::make(message); }
+
+    template<typename T> void vadatu(const T& val) { std::cout << str(val) << std::endl; }
+    inline void vadatu(const std::string& val) { std::cout << val << std::endl; }
+    inline void vadatu(const Exception& err) { std::cout << err.what() << std::endl; }
+
+    inline Value list(List items) {
+        Value value;
+        value.kind = Value::LIST;
+        value.list = std::make_shared<List>(std::move(items));
+        return value;
+    }
+    inline Value function(Callable body, const std::string& text) {
+        Value value;
+        value.kind = Value::FUNCTION;
+        value.text = text;
+        value.function = std::make_shared<Callable>(std::move(body));
+        return value;
+    }
+    inline Value make_class(const std::string& name, std::function<void(Value)> fields, std::map<std::string, Method> methods) {
+        Value value;
+        value.kind = Value::CLASS;
+        value.klass = std::make_shared<Class>(Class{name, std::move(fields), std::move(methods)});
+        return value;
+    }
+    inline Value make_module(const std::string& name, std::vector<std::pair<std::string, Value>> exports) {
+        Value value;
+        value.kind = Value::MODULE;
+        value.module = std::make_shared<Module>(Module{name, std::move(exports)});
+        return value;
+    }
+    inline void declare_field(const Value& object, const std::string& name, const Value& value) {
+        for (const auto& field : object.instance->fields) {
+            if (field.first == name) throw Exception("Field '" + name + "' is declared twice in '" + object.instance->klass->name + "'");
+        }
+        object.instance->fields.emplace_back(name, value);
+    }
+
+    // Error text names values the way the playground does: a list, a dictionary, a Ganaka...
+    inline std::string type_name(const Value& value) {
+        switch (value.kind) {
+            case Value::NUL: return "${KEYWORDS.NULL.roman}";
+            case Value::NUMBER: return "a number";
+            case Value::BOOLEAN: return "a boolean";
+            case Value::STRING: return "a string";
+            case Value::LIST: return "a list";
+            case Value::DICT: return "a dictionary";
+            case Value::FUNCTION: return "a function";
+            case Value::INSTANCE: return "a " + value.instance->klass->name;
+            default: return "a object";
+        }
+    }
+
+    inline void devanagari_script() { devanagari_numerals() = true; devanagari_keywords() = true; }
+
+    inline std::string format_value(const Value& value, std::vector<const void*>& seen, bool nested) {
+        const void* handle = value.list ? static_cast<const void*>(value.list.get())
+            : value.dict ? static_cast<const void*>(value.dict.get())
+            : value.instance ? static_cast<const void*>(value.instance.get()) : nullptr;
+        if (handle && std::find(seen.begin(), seen.end(), handle) != seen.end()) return "...";
+        if (handle) seen.push_back(handle);
+        std::string out;
+        switch (value.kind) {
+            case Value::NUL: out = devanagari_keywords() ? "${KEYWORDS.NULL.devanagari}" : "${KEYWORDS.NULL.roman}"; break;
+            case Value::NUMBER: out = format_number(value.number); break;
+            case Value::BOOLEAN: out = str(value.boolean); break;
+            case Value::STRING: out = nested ? repr(value.text) : value.text; break;
+            case Value::LIST:
+                out = "[";
+                for (size_t i = 0; i < value.list->size(); i++) out += (i ? ", " : "") + format_value((*value.list)[i], seen, true);
+                out += "]";
+                break;
+            case Value::DICT:
+                out = "{";
+                for (size_t i = 0; i < value.dict->size(); i++) {
+                    const auto& entry = (*value.dict)[i];
+                    out += (i ? ", " : "") + format_value(entry.first, seen, true) + ": " + format_value(entry.second, seen, true);
+                }
+                out += "}";
+                break;
+            case Value::FUNCTION: out = value.text; break;
+            case Value::INSTANCE: {
+                const auto& fields = value.instance->fields;
+                out = value.instance->klass->name + (fields.empty() ? " {}" : " { ");
+                for (size_t i = 0; i < fields.size(); i++) out += (i ? ", " : "") + fields[i].first + ": " + format_value(fields[i].second, seen, true);
+                if (!fields.empty()) out += " }";
+                break;
+            }
+            case Value::CLASS: out = "<${KEYWORDS.CLASS.roman} " + value.klass->name + ">"; break;
+            case Value::MODULE: out = "<${KEYWORDS.IMPORT.roman} " + value.module->name + ">"; break;
+        }
+        if (handle) seen.pop_back();
+        return out;
+    }
+    inline std::string str(const Value& value) { std::vector<const void*> seen; return format_value(value, seen, false); }
+    inline std::string repr(const Value& value) { std::vector<const void*> seen; return format_value(value, seen, true); }
+
+    // Conditions follow JavaScript truthiness, as in the playground
+    inline bool truthy(const Value& value) {
+        switch (value.kind) {
+            case Value::NUL: return false;
+            case Value::NUMBER: return value.number != 0 && !std::isnan(value.number);
+            case Value::BOOLEAN: return value.boolean;
+            case Value::STRING: return !value.text.empty();
+            default: return true;
+        }
+    }
+    inline bool truthy(double value) { return value != 0 && !std::isnan(value); }
+    inline bool truthy(bool value) { return value; }
+    inline bool truthy(const std::string& value) { return !value.empty(); }
+    template<typename R, typename... A> bool truthy(const std::function<R(A...)>&) { return true; }
+
+    // --- CONVERSIONS ---
+    template<typename T> struct Cast;
+    template<> struct Cast<Value> { static Value from(const Value& value) { return value; } };
+    template<> struct Cast<void> { static void from(const Value&) {} };
+    template<> struct Cast<double> {
+        static double from(const Value& value) {
+            if (value.kind != Value::NUMBER) throw Exception("Expected a number, got " + repr(value));
+            return value.number;
+        }
+    };
+    template<> struct Cast<bool> {
+        static bool from(const Value& value) {
+            if (value.kind != Value::BOOLEAN) throw Exception("Expected a boolean, got " + repr(value));
+            return value.boolean;
+        }
+    };
+    template<> struct Cast<std::string> {
+        static std::string from(const Value& value) {
+            if (value.kind != Value::STRING) throw Exception("Expected a string, got " + repr(value));
+            return value.text;
+        }
+    };
+    template<typename R, typename... A> struct Cast<std::function<R(A...)>> {
+        static std::function<R(A...)> from(const Value& value) {
+            return [value](A... args) -> R { return Cast<R>::from(value(args...)); };
+        }
+    };
+    template<typename T> T as(const Value& value) { return Cast<T>::from(value); }
+
+    // A typed karyam behind a Value: arguments are checked and converted on every call
+    template<typename R, typename... A, size_t... I> Callable wrap(std::function<R(A...)> fn, std::index_sequence<I...>) {
+        return [fn](const std::vector<Value>& args) -> Value {
+            if (args.size() != sizeof...(A)) {
+                throw Exception("Expected " + format_number(sizeof...(A)) + " argument(s) but received " + format_number(args.size()));
+            }
+            if constexpr (std::is_void<R>::value) {
+                fn(as<typename std::decay<A>::type>(args[I])...);
+                return Value();
+            } else {
+                return Value(fn(as<typename std::decay<A>::type>(args[I])...));
+            }
+        };
+    }
+
+    // --- CALLS AND MEMBERS ---
+    inline void check_arity(const std::string& name, size_t arity, size_t given) {
+        if (arity != given) throw Exception("'" + name + "' expects " + format_number(arity) + " argument(s) but received " + format_number(given));
+    }
+
+    // Fields start from their declared initialisers, then the nirmata method (if any) runs
+    inline Value Value::call(const std::vector<Value>& args) const {
+        if (kind == FUNCTION) return (*function)(args);
+        if (kind != CLASS) throw Exception("'" + str(*this) + "' is not a function");
+        Value object;
+        object.kind = INSTANCE;
+        object.instance = std::make_shared<Instance>();
+        object.instance->klass = klass;
+        if (klass->fields) klass->fields(object);
+        auto init = klass->methods.find("${CONSTRUCTOR_NAMES.roman}");
+        if (init == klass->methods.end()) init = klass->methods.find("${CONSTRUCTOR_NAMES.devanagari}");
+        if (init != klass->methods.end()) {
+            check_arity(init->first, init->second.arity, args.size());
+            init->second.body(object, args);
+        } else if (!args.empty()) {
+            throw Exception("'" + klass->name + "' has no '${CONSTRUCTOR_NAMES.roman}' method and takes no arguments");
+        }
+        return object;
+    }
+
+    // object.name: a field, a method bound to the object, or a module export
+    inline Value member(const Value& object, const std::string& name) {
+        if (object.kind == Value::MODULE) {
+            for (const auto& item : object.module->exports) {
+                if (item.first != name) continue;
+                if (name[0] == '_') throw Exception("'" + name + "' is private to module '" + object.module->name + "'");
+                return item.second;
+            }
+            throw Exception("Module '" + object.module->name + "' has no export '" + name + "'");
+        }
+        if (object.kind != Value::INSTANCE) throw Exception("Cannot access member '" + name + "' of " + str(object));
+        for (const auto& field : object.instance->fields) if (field.first == name) return field.second;
+        auto method = object.instance->klass->methods.find(name);
+        if (method == object.instance->klass->methods.end()) throw Exception("'" + object.instance->klass->name + "' has no member '" + name + "'");
+        Method bound = method->second;
+        return function([bound, object, name](const std::vector<Value>& args) {
+            check_arity(name, bound.arity, args.size());
+            return bound.body(object, args);
+        }, "<${KEYWORDS.FUNCTION.roman} " + name + ">");
+    }
+
+    // Target of object.name = value; only declared fields can be assigned
+    inline Value& field(const Value& object, const std::string& name) {
+        if (object.kind == Value::MODULE) throw Exception("Cannot assign to '" + object.module->name + "." + name + "': module exports are read-only");
+        if (object.kind != Value::INSTANCE) throw Exception("Cannot access member '" + name + "' of " + str(object));
+        for (auto& item : object.instance->fields) if (item.first == name) return item.second;
+        throw Exception("'" + object.instance->klass->name + "' has no field '" + name + "'; declare it with '${KEYWORDS.VALUE.roman} " + name + " = ...' in the ${KEYWORDS.CLASS.roman}");
+    }
+
+    // --- COLLECTIONS ---
+    inline void check_key(const Value& key) {
+        if (key.kind != Value::STRING && key.kind != Value::NUMBER) throw Exception("Dictionary keys must be strings or numbers, got " + type_name(key));
+    }
+    // Later duplicates overwrite earlier ones but keep the first position
+    inline Value dict(const Dict& entries) {
+        Value value;
+        value.kind = Value::DICT;
+        value.dict = std::make_shared<Dict>();
+        for (const auto& entry : entries) {
+            check_key(entry.first);
+            auto found = std::find_if(value.dict->begin(), value.dict->end(), [&](const std::pair<Value, Value>& item) {
+                return item.first.kind == entry.first.kind && item.first.number == entry.first.number && item.first.text == entry.first.text;
+            });
+            if (found != value.dict->end()) found->second = entry.second;
+            else value.dict->push_back(entry);
+        }
+        return value;
+    }
+    inline Dict::iterator find_key(const Value& collection, const Value& key) {
+        return std::find_if(collection.dict->begin(), collection.dict->end(), [&](const std::pair<Value, Value>& item) {
+            return item.first.kind == key.kind && item.first.number == key.number && item.first.text == key.text;
+        });
+    }
+    inline size_t list_index(const Value& index, size_t length) {
+        if (index.kind != Value::NUMBER || index.number != std::floor(index.number)) throw Exception("List index must be a whole number, got " + repr(index));
+        if (index.number < 0 || index.number >= length) {
+            throw Exception("Index " + format_number(index.number) + " is out of range for length " + format_number(length));
+        }
+        return static_cast<size_t>(index.number);
+    }
+    // collection[index]
+    inline Value get(const Value& collection, const Value& index) {
+        switch (collection.kind) {
+            case Value::LIST: return (*collection.list)[list_index(index, collection.list->size())];
+            case Value::STRING: {
+                std::vector<std::string> chars = codepoints(collection.text);
+                return chars[list_index(index, chars.size())];
+            }
+            case Value::DICT: {
+                auto found = find_key(collection, index);
+                if (found == collection.dict->end()) throw Exception("Key " + repr(index) + " not found in dictionary");
+                return found->second;
+            }
+            default: throw Exception("Cannot index into " + type_name(collection));
+        }
+    }
+    inline std::string get(const std::string& text, double index) {
+        std::vector<std::string> chars = codepoints(text);
+        return chars[list_index(index, chars.size())];
+    }
+    // Target of collection[index] = value; a new dictionary key is added at the end
+    inline Value& slot(const Value& collection, const Value& index) {
+        if (collection.kind == Value::LIST) return (*collection.list)[list_index(index, collection.list->size())];
+        if (collection.kind == Value::STRING) throw Exception("Strings cannot be modified by index");
+        if (collection.kind != Value::DICT) throw Exception("Cannot index into " + type_name(collection));
+        check_key(index);
+        auto found = find_key(collection, index);
+        if (found != collection.dict->end()) return found->second;
+        collection.dict->emplace_back(index, Value());
+        return collection.dict->back().second;
+    }
+    // krute x madhye ...: characters of a string, elements of a list, keys of a dictionary
+    inline List items(const Value& collection) {
+        if (collection.kind == Value::LIST) return *collection.list;
+        if (collection.kind == Value::STRING) {
+            std::vector<std::string> chars = codepoints(collection.text);
+            return List(chars.begin(), chars.end());
+        }
+        if (collection.kind != Value::DICT) throw Exception("Cannot iterate over " + type_name(collection));
+        List keys;
+        for (const auto& entry : *collection.dict) keys.push_back(entry.first);
+        return keys;
+    }
+
+    // --- OPERATORS ---
+    // Lists, dictionaries, functions and objects are equal only to themselves
+    inline bool operator==(const Value& a, const Value& b) {
+        if (a.kind != b.kind) return false;
+        switch (a.kind) {
+            case Value::NUL: return true;
+            case Value::NUMBER: return a.number == b.number;
+            case Value::BOOLEAN: return a.boolean == b.boolean;
+            case Value::STRING: return a.text == b.text;
+            case Value::LIST: return a.list == b.list;
+            case Value::DICT: return a.dict == b.dict;
+            case Value::FUNCTION: return a.function == b.function;
+            case Value::INSTANCE: return a.instance == b.instance;
+            case Value::CLASS: return a.klass == b.klass;
+            case Value::MODULE: return a.module == b.module;
+        }
+        return false;
+    }
+    inline bool operator!=(const Value& a, const Value& b) { return !(a == b); }
+    // Arithmetic on anything but numbers follows JavaScript's coercions
+    inline double numeric(const Value& value) {
+        switch (value.kind) {
+            case Value::NUMBER: return value.number;
+            case Value::BOOLEAN: return value.boolean ? 1 : 0;
+            case Value::NUL: return 0;
+            default: return std::nan("");
+        }
+    }
+    inline Value operator+(const Value& a, const Value& b) {
+        if (a.kind == Value::LIST && b.kind == Value::LIST) {
+            List joined(*a.list);
+            joined.insert(joined.end(), b.list->begin(), b.list->end());
+            return list(joined);
+        }
+        if (a.kind == Value::STRING || b.kind == Value::STRING) return str(a) + str(b);
+        return numeric(a) + numeric(b);
+    }
+    inline Value operator-(const Value& a, const Value& b) { return numeric(a) - numeric(b); }
+    inline Value operator*(const Value& a, const Value& b) { return numeric(a) * numeric(b); }
+    inline Value operator/(const Value& a, const Value& b) { return numeric(a) / numeric(b); }
+    inline Value operator%(const Value& a, const Value& b) { return std::fmod(numeric(a), numeric(b)); }
+    inline Value operator-(const Value& a) { return -numeric(a); }
+    inline bool operator<(const Value& a, const Value& b) { return a.kind == Value::STRING && b.kind == Value::STRING ? a.text < b.text : numeric(a) < numeric(b); }
+    inline bool operator>(const Value& a, const Value& b) { return b < a; }
+    inline bool operator<=(const Value& a, const Value& b) { return a.kind == Value::STRING && b.kind == Value::STRING ? a.text <= b.text : numeric(a) <= numeric(b); }
+    inline bool operator>=(const Value& a, const Value& b) { return b <= a; }
+
+    // mulberry32, step for step the same as SeededRandom in the playground
+    struct Random {
+        uint32_t state;
+        double next() {
+            state += 0x6D2B79F5u;
+            uint32_t t = (state ^ (state >> 15)) * (state | 1u);
+            t = (t + (t ^ (t >> 7)) * (t | 61u)) ^ t;
+            return static_cast<double>(t ^ (t >> 14)) / 4294967296.0;
+        }
+    };
+    inline Random& random_state() { static Random generator{std::random_device{}()}; return generator; }
+
+    // --- STANDARD LIBRARY ---
+${builtinDefinitions}
+
+    // Built-in module: anayati "ganita"
+    namespace ganita {
+        const double pi = 3.14159265358979323846;
+        const double e = 2.71828182845904523536;
+        inline double mulam(double x) { return std::sqrt(x); }
+        inline double ghatah(double base, double exponent) { return std::pow(base, exponent); }
+        inline double nirapeksham(double x) { return std::fabs(x); }
+        inline double nimnam(double x) { return std::floor(x); }
+        inline double uccam(double x) { return std::ceil(x); }
+        inline double laghutamam(double a, double b) { return std::fmin(a, b); }
+        inline double mahattamam(double a, double b) { return std::fmax(a, b); }
+    }
+    // Inclusive range used by krute ... paryantam, counting down when from > to
+    struct Range {
+        struct Iterator {
+            double current, to, step;
+            double operator*() const { return current; }
+            Iterator& operator++() { current += step; return *this; }
+            bool operator!=(const Iterator&) const { return step > 0 ? current <= to : current >= to; }
+        };
+        double from, to;
+        Iterator begin() const { return {from, to, from <= to ? 1.0 : -1.0}; }
+        Iterator end() const { return begin(); }
+    };
+    inline Range range(double from, double to) { return {from, to}; }
+}
+
+// List concatenation and string joining, mirroring '+' in the interpreter
+template<typename T> std::vector<T> operator+(std::vector<T> left, const std::vector<T>& right) {
+    left.insert(left.end(), right.begin(), right.end());
+    return left;
+}
+template<typename T> std::string operator+(const std::string& text, const std::vector<T>& items) { return text + san::str(items); }
+template<typename T> std::string operator+(const std::vector<T>& items, const std::string& text) { return san::str(items) + text; }
+template<typename N, typename = typename std::enable_if<std::is_arithmetic<N>::value && !std::is_same<N, char>::value>::type>
+std::string operator+(const std::string& text, N number) { return text + san::str(number); }
+template<typename N, typename = typename std::enable_if<std::is_arithmetic<N>::value && !std::is_same<N, char>::value>::type>
+std::string operator+(N number, const std::string& text) { return san::str(number) + text; }
+#endif`.trim();
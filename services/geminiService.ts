@@ -1,4 +1,4 @@
-import { CodeOutput, DebugSnapshot, SanskritamError, Token } from "../types";
+import { CodeOutput, DebugSnapshot, SanskritamError } from "../types";
 
 const mockOutput: CodeOutput = {
     stdout: "Mocked output from geminiService.ts",
@@ -7,17 +7,17 @@ const mockOutput: CodeOutput = {
     tokens: [
         { word: "vadatu", category: "keyword" },
         { word: "mock", category: "literal" }
-    ] as Token[],
+    ] as CodeOutput['tokens'],
     errors: [] as SanskritamError[],
     debugTrace: [
         {
             line: 1,
-            variables: {},
+            variables: [{ name: 'global', kind: 'global', variables: {} }],
             stdout: ""
         },
         {
             line: 2,
-            variables: { 'a': 1 },
+            variables: [{ name: 'global', kind: 'global', variables: { 'a': 1 } }],
             stdout: "Mocked output"
         }
     ] as DebugSnapshot[]
@@ -0,0 +1,375 @@
+import { KEYWORDS, CONSTRUCTOR_NAMES } from "../constants";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+
+// Each standard library builtin contributes its JavaScript export, under its Roman name
+const builtinDefinitions = Object.entries(BUILTIN_FUNCTIONS)
+  .map(([name, builtin]) => `// ${name} (${builtin.devanagari}): ${builtin.meaning}\n${builtin.js.replace(/\n    /g, '\n')}`)
+  .join('\n');
+
+const spellings = (key: keyof typeof KEYWORDS) => JSON.stringify([KEYWORDS[key].roman, KEYWORDS[key].devanagari]);
+
+// sanskritam.mjs -- the runtime that transpiled JavaScript (main.mjs) imports as san.
+// Values are plain JavaScript: numbers, strings, booleans, null, arrays and Maps.
+export const SANSKRITAM_JS_RUNTIME = `
+// --- SCRIPT ---
+// Keyword spellings inside printed collections, and digits, follow the program's script
+const KEYWORDS = { TRUE: ${spellings('TRUE')}, FALSE: ${spellings('FALSE')}, NULL: ${spellings('NULL')} };
+let devanagari = false;
+let devanagariNumerals = false;
+export function devanagariScript() { devanagari = devanagariNumerals = true; }
+
+const DEVANAGARI_DIGITS = "०१२३४५६७८९";
+const toAsciiDigits = text => text.replace(/[०-९]/g, digit => String(DEVANAGARI_DIGITS.indexOf(digit)));
+const toDevanagariDigits = text => text.replace(/[0-9]/g, digit => DEVANAGARI_DIGITS[Number(digit)]);
+
+// Lakh/crore grouping when asked (12345678 -> 1,23,45,678)
+function formatNumber(value, grouped = false) {
+    if (!Number.isFinite(value)) return String(value);
+    let text = String(value);
+    if (grouped && !text.includes("e")) {
+        const sign = text.startsWith("-") ? "-" : "";
+        const [whole, fraction] = text.slice(sign.length).split(".");
+        const head = whole.length > 3 ? whole.slice(0, -3).replace(/\\B(?=(\\d{2})+$)/g, ",") + "," : "";
+        text = sign + head + whole.slice(-3) + (fraction !== undefined ? "." + fraction : "");
+    }
+    return devanagariNumerals ? toDevanagariDigits(text) : text;
+}
+
+// --- VALUES ---
+export class Exception extends Error {
+    constructor(value) {
+        super(str(value));
+        this.value = value;
+    }
+}
+
+// Builtins and module members; they print as native
+const natives = new WeakSet();
+function native(name, fn) {
+    Object.defineProperty(fn, "name", { value: name });
+    natives.add(fn);
+    return fn;
+}
+
+class Class {
+    constructor(name, fields, methods) {
+        this.name = name;
+        this.fields = fields;
+        this.methods = methods;
+    }
+    toString() { return "<${KEYWORDS.CLASS.roman} " + this.name + ">"; }
+}
+
+class Instance {
+    constructor(klass) {
+        this.klass = klass;
+        this.fields = new Map();
+    }
+}
+
+// Members are read live from the module's top-level names
+class Module {
+    constructor(name, members) {
+        this.name = name;
+        this.members = members;
+    }
+    toString() { return "<${KEYWORDS.IMPORT.roman} " + this.name + ">"; }
+}
+
+// fields(ayam) runs san.field for each declared field; methods take ayam before their parameters
+export function shreni(name, fields, methods) { return new Class(name, fields, methods); }
+export function module(name, members) { return new Module(name, members); }
+
+// A project file runs once; importing it again returns the same module
+export function loader(name, body) {
+    let state = 0;
+    let exports = null;
+    return () => {
+        if (state === 1) throw new Exception("Circular import: " + name);
+        if (state === 0) {
+            state = 1;
+            exports = body();
+            state = 2;
+        }
+        return exports;
+    };
+}
+
+export function field(ayam, name, value) {
+    if (ayam.fields.has(name)) throw new Exception("Field '" + name + "' is declared twice in '" + ayam.klass.name + "'");
+    ayam.fields.set(name, value);
+}
+
+// A method read from an instance, with ayam bound; it still prints as the method
+const methods = new WeakMap();
+function bindMethod(instance, method) {
+    const bound = method.bind(null, instance);
+    methods.set(bound, method);
+    return bound;
+}
+
+const demangle = name => name.replace(/\\$u([0-9a-f]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))).replace(/\\$$/, "");
+
+function functionName(fn) {
+    return demangle((methods.get(fn) ?? fn).name);
+}
+
+// Parameter names as written in the generated function, less ayam for methods
+function describeFunction(fn) {
+    if (natives.has(fn)) return "<${KEYWORDS.FUNCTION.roman} " + fn.name + " (native)>";
+    const method = methods.get(fn);
+    const source = String(method ?? fn);
+    const params = source.slice(source.indexOf("(") + 1, source.indexOf(")")).split(",").map(p => p.trim()).filter(Boolean);
+    return "<${KEYWORDS.FUNCTION.roman} " + functionName(fn) + "(" + params.slice(method ? 1 : 0).map(demangle).join(", ") + ")>";
+}
+
+function typeName(value) {
+    if (value === null) return "${KEYWORDS.NULL.roman}";
+    if (Array.isArray(value)) return "a list";
+    if (value instanceof Map) return "a dictionary";
+    if (value instanceof Instance) return "a " + value.klass.name;
+    if (typeof value === "function") return "a function";
+    return "a " + typeof value;
+}
+
+// Language-level type name, as returned by prakarah()
+function typeOf(value) {
+    if (value === null || value === undefined) return "shunyam";
+    if (typeof value === "number") return "sankhya";
+    if (typeof value === "string") return "vakyam";
+    if (typeof value === "boolean") return "tarkah";
+    if (Array.isArray(value)) return "suchi";
+    if (value instanceof Map) return "kosha";
+    if (value instanceof Instance) return value.klass.name;
+    if (value instanceof Class) return "${KEYWORDS.CLASS.roman}";
+    if (value instanceof Module) return "${KEYWORDS.IMPORT.roman}";
+    return "karyam";
+}
+
+// --- FORMATTING ---
+// satyam/asatyam/shunyam follow the script; inside collections strings are quoted
+function format(value, seen = new Set(), nested = false) {
+    if (typeof value === "object" && value !== null && seen.has(value)) return "...";
+    if (value instanceof Instance) {
+        seen.add(value);
+        const fields = Array.from(value.fields, ([name, field]) => name + ": " + format(field, seen, true));
+        seen.delete(value);
+        return fields.length > 0 ? value.klass.name + " { " + fields.join(", ") + " }" : value.klass.name + " {}";
+    }
+    if (Array.isArray(value)) {
+        seen.add(value);
+        const items = value.map(item => format(item, seen, true));
+        seen.delete(value);
+        return "[" + items.join(", ") + "]";
+    }
+    if (value instanceof Map) {
+        seen.add(value);
+        const entries = Array.from(value, ([key, item]) => format(key, seen, true) + ": " + format(item, seen, true));
+        seen.delete(value);
+        return "{" + entries.join(", ") + "}";
+    }
+    if (typeof value === "number") return formatNumber(value);
+    if (typeof value === "function") return describeFunction(value);
+    const script = devanagari ? 1 : 0;
+    if (value === true) return KEYWORDS.TRUE[script];
+    if (value === false) return KEYWORDS.FALSE[script];
+    if (value === null) return KEYWORDS.NULL[script];
+    if (nested && typeof value === "string") return '"' + value + '"';
+    return String(value);
+}
+
+export function str(value) { return format(value); }
+
+export function vadatu(value) { console.log(str(value)); }
+
+// --- ERRORS ---
+// For failures the generator can already see, such as an import that does not resolve
+export function raise(message) { throw new Exception(message); }
+
+// What a karyam holds until its declaration runs: calling it fails as in the playground
+export function undeclared(message) { return () => raise(message); }
+
+// grihnatu binds the thrown value, or a runtime error's message; JavaScript faults pass through
+export function caught(error) {
+    if (error instanceof Exception) return error.value;
+    throw error;
+}
+
+export function uncaught(error) {
+    if (!(error instanceof Exception)) throw error;
+    console.error("Uncaught exception: " + error.message);
+    if (typeof process !== "undefined") process.exitCode = 1;
+}
+
+function expectNumber(name, value) {
+    if (typeof value !== "number") throw new Exception("'" + name + "' expects a number");
+    return value;
+}
+
+function expectList(name, value) {
+    if (!Array.isArray(value)) throw new Exception("'" + name + "' expects a list");
+    return value;
+}
+
+// Mirrors JavaScript's slice(): negative positions count from the end
+const slicePosition = (position, length) => position < 0 ? Math.max(0, length + position) : Math.min(position, length);
+
+// --- CALLS AND MEMBERS ---
+function arityError(name, expected, received) {
+    return new Exception("'" + name + "' expects " + formatNumber(expected) + " argument(s) but received " + formatNumber(received));
+}
+
+// Calls a value whose kind is only known at run time: a karyam, a builtin or a shreni
+export function call(callee, ...args) {
+    if (callee instanceof Class) return instantiate(callee, args);
+    if (typeof callee !== "function") throw new Exception("'" + str(callee) + "' is not a function");
+    if (args.length !== callee.length) throw arityError(functionName(callee), callee.length, args.length);
+    return callee(...args);
+}
+
+// Fields start from their declared initialisers, then the nirmata method (if any) runs
+function instantiate(klass, args) {
+    const instance = new Instance(klass);
+    if (klass.fields) klass.fields(instance);
+    const init = klass.methods["${CONSTRUCTOR_NAMES.roman}"] ?? klass.methods["${CONSTRUCTOR_NAMES.devanagari}"];
+    if (init) {
+        if (args.length !== init.length - 1) throw arityError(demangle(init.name), init.length - 1, args.length);
+        init(instance, ...args);
+    } else if (args.length > 0) {
+        throw new Exception("'" + klass.name + "' has no '${CONSTRUCTOR_NAMES.roman}' method and takes no arguments");
+    }
+    return instance;
+}
+
+function memberObject(object, name) {
+    if (!(object instanceof Instance) && !(object instanceof Module)) {
+        throw new Exception("Cannot access member '" + name + "' of " + str(object));
+    }
+    return object;
+}
+
+const own = (object, name) => Object.prototype.hasOwnProperty.call(object, name);
+
+export function member(value, name) {
+    const object = memberObject(value, name);
+    if (object instanceof Module) {
+        // Names starting with '_' stay private to their module
+        if (!name.startsWith("_") && own(object.members, name)) return object.members[name]();
+        throw new Exception(name.startsWith("_") && own(object.members, name)
+            ? "'" + name + "' is private to module '" + object.name + "'"
+            : "Module '" + object.name + "' has no export '" + name + "'");
+    }
+    if (object.fields.has(name)) return object.fields.get(name);
+    if (own(object.klass.methods, name)) return bindMethod(object, object.klass.methods[name]);
+    throw new Exception("'" + object.klass.name + "' has no member '" + name + "'");
+}
+
+export function setMember(value, name, item) {
+    const object = memberObject(value, name);
+    if (object instanceof Module) throw new Exception("Cannot assign to '" + object.name + "." + name + "': module exports are read-only");
+    if (!object.fields.has(name)) {
+        throw new Exception("'" + object.klass.name + "' has no field '" + name + "'; declare it with '${KEYWORDS.VALUE.roman} " + name + " = ...' in the ${KEYWORDS.CLASS.roman}");
+    }
+    object.fields.set(name, item);
+}
+
+// object.name(args), for instances and modules
+export function invoke(object, name, ...args) { return call(member(object, name), ...args); }
+
+// --- COLLECTIONS ---
+function checkDictKey(key) {
+    if (typeof key !== "string" && typeof key !== "number") throw new Exception("Dictionary keys must be strings or numbers, got " + typeName(key));
+}
+
+function checkListIndex(items, index) {
+    if (typeof index !== "number" || !Number.isInteger(index)) throw new Exception("List index must be a whole number, got " + format(index, new Set(), true));
+    if (index < 0 || index >= items.length) throw new Exception("Index " + formatNumber(index) + " is out of range for length " + formatNumber(items.length));
+}
+
+// Later duplicates overwrite earlier ones, keeping the first position
+export function dict(entries) {
+    const out = new Map();
+    for (const [key, value] of entries) {
+        checkDictKey(key);
+        out.set(key, value);
+    }
+    return out;
+}
+
+export function index(collection, key) {
+    if (Array.isArray(collection) || typeof collection === "string") {
+        const items = typeof collection === "string" ? Array.from(collection) : collection;
+        checkListIndex(items, key);
+        return items[key];
+    }
+    if (collection instanceof Map) {
+        if (!collection.has(key)) throw new Exception("Key " + format(key, new Set(), true) + " not found in dictionary");
+        return collection.get(key);
+    }
+    throw new Exception("Cannot index into " + typeName(collection));
+}
+
+export function setIndex(collection, key, value) {
+    if (Array.isArray(collection)) {
+        checkListIndex(collection, key);
+        collection[key] = value;
+    } else if (collection instanceof Map) {
+        checkDictKey(key);
+        collection.set(key, value);
+    } else if (typeof collection === "string") {
+        throw new Exception("Strings cannot be modified by index");
+    } else {
+        throw new Exception("Cannot index into " + typeName(collection));
+    }
+}
+
+// Inclusive range used by krute ... paryantam, counting down when from > to
+export function* range(from, to) {
+    if (typeof from !== "number" || typeof to !== "number") throw new Exception("Range bounds of '${KEYWORDS.FOR.roman}' must be numbers");
+    const step = from <= to ? 1 : -1;
+    for (let i = from; step > 0 ? i <= to : i >= to; i += step) yield i;
+}
+
+// Strings yield characters, lists their elements and dictionaries their keys
+export function items(iterable) {
+    if (typeof iterable === "string" || Array.isArray(iterable)) return Array.from(iterable);
+    if (iterable instanceof Map) return Array.from(iterable.keys());
+    throw new Exception("Cannot iterate over " + typeName(iterable));
+}
+
+// List concatenation and string joining; anything else is JavaScript's '+'
+export function add(left, right) {
+    if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+    if (typeof left === "string" || typeof right === "string") return str(left) + str(right);
+    return left + right;
+}
+
+// --- STANDARD LIBRARY ---
+// mulberry32, as in the playground, so bijam() repeats the same sequence
+const random = {
+    state: Math.floor(Math.random() * 4294967296) >>> 0,
+    seed(value) { this.state = value >>> 0; },
+    next() {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = Math.imul(this.state ^ (this.state >>> 15), this.state | 1);
+        t = (t + Math.imul(t ^ (t >>> 7), t | 61)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+};
+
+${builtinDefinitions}
+for (const fn of [${Object.keys(BUILTIN_FUNCTIONS).join(', ')}]) natives.add(fn);
+
+// anayati "ganita"
+const ganitaMembers = {
+    pi: Math.PI,
+    e: Math.E,
+    mulam: native("ganita.mulam", x => Math.sqrt(x)),
+    ghatah: native("ganita.ghatah", (base, exponent) => Math.pow(base, exponent)),
+    nirapeksham: native("ganita.nirapeksham", x => Math.abs(x)),
+    nimnam: native("ganita.nimnam", x => Math.floor(x)),
+    uccam: native("ganita.uccam", x => Math.ceil(x)),
+    laghutamam: native("ganita.laghutamam", (a, b) => Math.min(a, b)),
+    mahattamam: native("ganita.mahattamam", (a, b) => Math.max(a, b))
+};
+export const ganita = new Module("ganita", Object.fromEntries(Object.entries(ganitaMembers).map(([name, value]) => [name, () => value])));`.trim();
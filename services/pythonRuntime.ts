@@ -0,0 +1,626 @@
+import { KEYWORDS, CONSTRUCTOR_NAMES } from "../constants";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+
+// Each standard library builtin contributes its Python definition, under its Roman name
+const builtinDefinitions = Object.entries(BUILTIN_FUNCTIONS)
+  .map(([name, builtin]) => `# ${name} (${builtin.devanagari}): ${builtin.meaning}\n${builtin.python.replace(/\n    /g, '\n')}`)
+  .join('\n\n\n');
+
+const spellings = (key: keyof typeof KEYWORDS) => JSON.stringify([KEYWORDS[key].roman, KEYWORDS[key].devanagari]);
+
+// sanskritam.py -- the runtime that transpiled Python (main.py) imports as san.
+// Values are plain Python: int/float, str, bool, None, lists and dicts; shrenis subclass Instance.
+export const SANSKRITAM_PY_RUNTIME = `
+"""Runtime for Python generated from Sanskritam SPL; main.py imports it as san."""
+import json
+import keyword
+import math
+import random
+import re
+import sys
+
+# Each SPL call is one Python frame, or a few through call(); the playground stops at 500 calls deep
+sys.setrecursionlimit(10000)
+
+
+# --- SCRIPT ---
+# Keyword spellings inside printed collections, and digits, follow the program's script
+_KEYWORDS = {"TRUE": ${spellings('TRUE')}, "FALSE": ${spellings('FALSE')}, "NULL": ${spellings('NULL')}}
+_devanagari = False
+_devanagari_numerals = False
+
+
+def devanagari_script():
+    global _devanagari, _devanagari_numerals
+    _devanagari = _devanagari_numerals = True
+
+
+_DEVANAGARI_DIGITS = "०१२३४५६७८९"
+
+
+def _to_ascii_digits(value):
+    return re.sub("[०-९]", lambda match: str(_DEVANAGARI_DIGITS.index(match.group())), value)
+
+
+def _to_devanagari_digits(value):
+    return re.sub("[0-9]", lambda match: _DEVANAGARI_DIGITS[int(match.group())], value)
+
+
+# Numbers print as JavaScript prints them: 3.0 is 3, 1e21 and above use an exponent
+def _number_text(value):
+    if isinstance(value, int) and abs(value) < 10 ** 21:
+        return str(value)
+    value = float(value)
+    if math.isnan(value):
+        return "NaN"
+    if math.isinf(value):
+        return "Infinity" if value > 0 else "-Infinity"
+    if value == 0:
+        return "0"
+    sign = "-" if value < 0 else ""
+    mantissa, _, exponent = repr(abs(value)).partition("e")
+    whole, _, fraction = mantissa.partition(".")
+    digits = (whole + fraction).lstrip("0")
+    point = len(whole) + int(exponent or 0) - (len(whole + fraction) - len(digits))
+    digits = digits.rstrip("0")
+    if len(digits) <= point <= 21:
+        return sign + digits + "0" * (point - len(digits))
+    if 0 < point <= 21:
+        return sign + digits[:point] + "." + digits[point:]
+    if -6 < point <= 0:
+        return sign + "0." + "0" * -point + digits
+    power = point - 1
+    exponent = ("+" if power >= 0 else "-") + str(abs(power))
+    return sign + digits[0] + ("." + digits[1:] if len(digits) > 1 else "") + "e" + exponent
+
+
+# Lakh/crore grouping when asked (12345678 -> 1,23,45,678)
+def _format_number(value, grouped=False):
+    result = _number_text(value)
+    if grouped and math.isfinite(value) and "e" not in result:
+        sign = "-" if result.startswith("-") else ""
+        whole, dot, fraction = result[len(sign):].partition(".")
+        head = re.sub(r"\\B(?=(\\d{2})+$)", ",", whole[:-3]) + "," if len(whole) > 3 else ""
+        result = sign + head + whole[-3:] + dot + fraction
+    return _to_devanagari_digits(result) if _devanagari_numerals else result
+
+
+# JavaScript's Number(): decimal, hexadecimal, binary and octal literals, and Infinity
+def _parse_number(value):
+    if re.fullmatch(r"[+-]?\\d+", value):
+        return int(value)
+    if re.fullmatch(r"[+-]?(\\d+\\.?\\d*|\\.\\d+)([eE][+-]?\\d+)?", value):
+        return float(value)
+    if re.fullmatch(r"0[xX][0-9a-fA-F]+|0[bB][01]+|0[oO][0-7]+", value):
+        return int(value, 0)
+    if re.fullmatch(r"[+-]?Infinity", value):
+        return -math.inf if value.startswith("-") else math.inf
+    return None
+
+
+# --- VALUES ---
+class SplError(Exception):
+    def __init__(self, value):
+        super().__init__(text(value))
+        self.value = value
+        self.message = text(value)
+
+
+# Generated names: Python keywords get a trailing _, other characters Python names cannot hold _uXXXX_
+def _demangle(name):
+    name = re.sub("_u([0-9a-f]{4})_", lambda match: chr(int(match.group(1), 16)), name)
+    return name[:-1] if name.endswith("_") and (keyword.iskeyword(name[:-1]) or name[:-1] in _RESERVED) else name
+
+
+_RESERVED = {"san", "print", "range", "Exception"}
+
+
+# Builtins and module members; they print as native
+def _native(name, fn):
+    fn.san_native = name
+    return fn
+
+
+class Instance:
+    """Base of every shreni: fields live in a dict, methods are the functions of the class body."""
+
+    def __init_subclass__(cls):
+        cls.san_name = _demangle(cls.__name__)
+        cls.san_methods = {_demangle(name): fn for name, fn in vars(cls).items() if callable(fn) and name != "__fields__"}
+
+    # Fields start from their declared initialisers, then the nirmata method (if any) runs
+    def __init__(self, *args):
+        self.fields = {}
+        fields = vars(type(self)).get("__fields__")
+        if fields:
+            fields(self)
+        methods = type(self).san_methods
+        init = methods.get("${CONSTRUCTOR_NAMES.roman}") or methods.get("${CONSTRUCTOR_NAMES.devanagari}")
+        if init:
+            if len(args) != _arity(init) - 1:
+                raise _arity_error(_demangle(init.__name__), _arity(init) - 1, len(args))
+            init(self, *args)
+        elif args:
+            raise SplError("'" + type(self).san_name + "' has no '${CONSTRUCTOR_NAMES.roman}' method and takes no arguments")
+
+
+def _is_shreni(value):
+    return isinstance(value, type) and issubclass(value, Instance)
+
+
+# Members are read live from the module's top-level names
+class Module:
+    def __init__(self, name, members):
+        self.name = name
+        self.members = members
+
+
+# A project file runs once; importing it again returns the same module
+def loader(name):
+    def wrap(body):
+        state = {"phase": 0, "module": None}
+
+        def load():
+            if state["phase"] == 1:
+                raise SplError("Circular import: " + name)
+            if state["phase"] == 0:
+                state["phase"] = 1
+                state["module"] = Module(name, body())
+                state["phase"] = 2
+            return state["module"]
+        return load
+    return wrap
+
+
+def field(ayam, name, value):
+    if name in ayam.fields:
+        raise SplError("Field '" + name + "' is declared twice in '" + type(ayam).san_name + "'")
+    ayam.fields[name] = value
+
+
+# A method read from an instance, with ayam bound; it still prints as the method
+class _BoundMethod:
+    def __init__(self, instance, method):
+        self.instance = instance
+        self.method = method
+
+    def __call__(self, *args):
+        return self.method(self.instance, *args)
+
+
+def _parameters(fn):
+    code = fn.__code__
+    return list(code.co_varnames[:code.co_argcount])
+
+
+def _arity(fn):
+    if isinstance(fn, _BoundMethod):
+        return len(_parameters(fn.method)) - 1
+    return len(_parameters(fn))
+
+
+def _function_name(fn):
+    return _demangle((fn.method if isinstance(fn, _BoundMethod) else fn).__name__)
+
+
+def _describe_function(fn):
+    if hasattr(fn, "san_native"):
+        return "<${KEYWORDS.FUNCTION.roman} " + fn.san_native + " (native)>"
+    params = _parameters(fn.method)[1:] if isinstance(fn, _BoundMethod) else _parameters(fn)
+    return "<${KEYWORDS.FUNCTION.roman} " + _function_name(fn) + "(" + ", ".join(_demangle(p) for p in params) + ")>"
+
+
+def _is_number(value):
+    return isinstance(value, (int, float)) and not isinstance(value, bool)
+
+
+def _is_function(value):
+    return callable(value) and not _is_shreni(value)
+
+
+# The JavaScript typeof of a value, which decides how operators treat it
+def _kind(value):
+    if value is None:
+        return "null"
+    if isinstance(value, bool):
+        return "boolean"
+    if _is_number(value):
+        return "number"
+    if isinstance(value, str):
+        return "string"
+    if _is_function(value):
+        return "function"
+    return "object"
+
+
+def _type_name(value):
+    if value is None:
+        return "${KEYWORDS.NULL.roman}"
+    if isinstance(value, list):
+        return "a list"
+    if isinstance(value, dict):
+        return "a dictionary"
+    if isinstance(value, Instance):
+        return "a " + type(value).san_name
+    return "a " + _kind(value)
+
+
+# Language-level type name, as returned by prakarah()
+def _type_of(value):
+    if value is None:
+        return "shunyam"
+    if isinstance(value, bool):
+        return "tarkah"
+    if _is_number(value):
+        return "sankhya"
+    if isinstance(value, str):
+        return "vakyam"
+    if isinstance(value, list):
+        return "suchi"
+    if isinstance(value, dict):
+        return "kosha"
+    if isinstance(value, Instance):
+        return type(value).san_name
+    if _is_shreni(value):
+        return "${KEYWORDS.CLASS.roman}"
+    if isinstance(value, Module):
+        return "${KEYWORDS.IMPORT.roman}"
+    return "karyam"
+
+
+# --- FORMATTING ---
+# satyam/asatyam/shunyam follow the script; inside collections strings are quoted
+def _format(value, seen, nested=False):
+    if isinstance(value, (Instance, list, dict)) and id(value) in seen:
+        return "..."
+    if isinstance(value, Instance):
+        seen.add(id(value))
+        fields = [name + ": " + _format(item, seen, True) for name, item in value.fields.items()]
+        seen.discard(id(value))
+        return type(value).san_name + (" { " + ", ".join(fields) + " }" if fields else " {}")
+    if isinstance(value, list):
+        seen.add(id(value))
+        items = [_format(item, seen, True) for item in value]
+        seen.discard(id(value))
+        return "[" + ", ".join(items) + "]"
+    if isinstance(value, dict):
+        seen.add(id(value))
+        entries = [_format(key, seen, True) + ": " + _format(item, seen, True) for key, item in value.items()]
+        seen.discard(id(value))
+        return "{" + ", ".join(entries) + "}"
+    if _is_number(value):
+        return _format_number(value)
+    if _is_shreni(value):
+        return "<${KEYWORDS.CLASS.roman} " + value.san_name + ">"
+    if isinstance(value, Module):
+        return "<${KEYWORDS.IMPORT.roman} " + value.name + ">"
+    if _is_function(value):
+        return _describe_function(value)
+    script = 1 if _devanagari else 0
+    if value is True:
+        return _KEYWORDS["TRUE"][script]
+    if value is False:
+        return _KEYWORDS["FALSE"][script]
+    if value is None:
+        return _KEYWORDS["NULL"][script]
+    if nested and isinstance(value, str):
+        return '"' + value + '"'
+    return value
+
+
+def text(value):
+    return _format(value, set())
+
+
+# --- ERRORS ---
+# For failures the generator can already see, such as an import that does not resolve
+def fail(message):
+    raise SplError(message)
+
+
+# What a karyam holds until its declaration runs: calling it fails as in the playground
+def undeclared(message):
+    return lambda *args: fail(message)
+
+
+# grihnatu binds the thrown value, or a runtime error's message; Python faults pass through
+def caught(error):
+    if isinstance(error, SplError):
+        return error.value
+    raise error
+
+
+def run(main):
+    try:
+        main()
+    except SplError as error:
+        sys.stdout.flush()
+        print("Uncaught exception: " + error.message, file=sys.stderr)
+        sys.exit(1)
+
+
+def _expect_number(name, value):
+    if not _is_number(value):
+        raise SplError("'" + name + "' expects a number")
+    return value
+
+
+def _expect_list(name, value):
+    if not isinstance(value, list):
+        raise SplError("'" + name + "' expects a list")
+    return value
+
+
+# Mirrors JavaScript's slice(): negative positions count from the end
+def _slice_position(position, length):
+    return int(max(0, length + position) if position < 0 else min(position, length))
+
+
+# --- CALLS AND MEMBERS ---
+def _arity_error(name, expected, received):
+    return SplError("'" + name + "' expects " + _format_number(expected) + " argument(s) but received " + _format_number(received))
+
+
+# Calls a value whose kind is only known at run time: a karyam, a builtin or a shreni
+def call(callee, *args):
+    if _is_shreni(callee):
+        return callee(*args)
+    if not _is_function(callee):
+        raise SplError("'" + text(callee) + "' is not a function")
+    if len(args) != _arity(callee):
+        raise _arity_error(_function_name(callee), _arity(callee), len(args))
+    return callee(*args)
+
+
+def _member_object(value, name):
+    if not isinstance(value, (Instance, Module)):
+        raise SplError("Cannot access member '" + name + "' of " + text(value))
+    return value
+
+
+def member(value, name):
+    target = _member_object(value, name)
+    if isinstance(target, Module):
+        # Names starting with '_' stay private to their module
+        if not name.startswith("_") and name in target.members:
+            return target.members[name]()
+        if name.startswith("_") and name in target.members:
+            raise SplError("'" + name + "' is private to module '" + target.name + "'")
+        raise SplError("Module '" + target.name + "' has no export '" + name + "'")
+    if name in target.fields:
+        return target.fields[name]
+    if name in type(target).san_methods:
+        return _BoundMethod(target, type(target).san_methods[name])
+    raise SplError("'" + type(target).san_name + "' has no member '" + name + "'")
+
+
+def set_member(value, name, item):
+    target = _member_object(value, name)
+    if isinstance(target, Module):
+        raise SplError("Cannot assign to '" + target.name + "." + name + "': module exports are read-only")
+    if name not in target.fields:
+        raise SplError("'" + type(target).san_name + "' has no field '" + name + "'; declare it with '${KEYWORDS.VALUE.roman} " + name + " = ...' in the ${KEYWORDS.CLASS.roman}")
+    target.fields[name] = item
+
+
+# object.name(args), for instances and modules
+def invoke(value, name, *args):
+    return call(member(value, name), *args)
+
+
+# --- COLLECTIONS ---
+def _check_dict_key(key):
+    if not isinstance(key, str) and not _is_number(key):
+        raise SplError("Dictionary keys must be strings or numbers, got " + _type_name(key))
+
+
+def _check_list_index(items, position):
+    if not _is_number(position) or not float(position).is_integer():
+        raise SplError("List index must be a whole number, got " + _format(position, set(), True))
+    if position < 0 or position >= len(items):
+        raise SplError("Index " + _format_number(position) + " is out of range for length " + _format_number(len(items)))
+    return int(position)
+
+
+# Later duplicates overwrite earlier ones, keeping the first position
+def dictionary(entries):
+    result = {}
+    for key, value in entries:
+        _check_dict_key(key)
+        result[key] = value
+    return result
+
+
+def index(collection, key):
+    if isinstance(collection, (list, str)):
+        return collection[_check_list_index(collection, key)]
+    if isinstance(collection, dict):
+        if not (isinstance(key, str) or _is_number(key)) or key not in collection:
+            raise SplError("Key " + _format(key, set(), True) + " not found in dictionary")
+        return collection[key]
+    raise SplError("Cannot index into " + _type_name(collection))
+
+
+def set_index(collection, key, value):
+    if isinstance(collection, list):
+        collection[_check_list_index(collection, key)] = value
+    elif isinstance(collection, dict):
+        _check_dict_key(key)
+        collection[key] = value
+    elif isinstance(collection, str):
+        raise SplError("Strings cannot be modified by index")
+    else:
+        raise SplError("Cannot index into " + _type_name(collection))
+
+
+# Inclusive range used by krute ... paryantam, counting down when from > to
+def through(start, end):
+    if not _is_number(start) or not _is_number(end):
+        raise SplError("Range bounds of '${KEYWORDS.FOR.roman}' must be numbers")
+    step = 1 if start <= end else -1
+    i = start
+    while (i <= end) if step > 0 else (i >= end):
+        yield i
+        i += step
+
+
+# Strings yield characters, lists their elements and dictionaries their keys
+def items(iterable):
+    if isinstance(iterable, (str, list)):
+        return list(iterable)
+    if isinstance(iterable, dict):
+        return list(iterable.keys())
+    raise SplError("Cannot iterate over " + _type_name(iterable))
+
+
+# --- OPERATORS ---
+# Operands whose types the generator cannot see follow JavaScript, as the playground does
+def truthy(value):
+    if value is None:
+        return False
+    if _is_number(value):
+        return value != 0 and not math.isnan(value)
+    if isinstance(value, (bool, str)):
+        return bool(value)
+    return True
+
+
+def _to_number(value):
+    if value is None:
+        return 0
+    if isinstance(value, bool):
+        return int(value)
+    if _is_number(value):
+        return value
+    if isinstance(value, str):
+        stripped = value.strip()
+        parsed = _parse_number(stripped) if stripped else 0
+        return math.nan if parsed is None else parsed
+    return math.nan
+
+
+# List concatenation and string joining; anything else is numeric
+def add(left, right):
+    if isinstance(left, list) and isinstance(right, list):
+        return left + right
+    if isinstance(left, str) or isinstance(right, str):
+        return text(left) + text(right)
+    return _to_number(left) + _to_number(right)
+
+
+def sub(left, right):
+    return _to_number(left) - _to_number(right)
+
+
+def mul(left, right):
+    return _to_number(left) * _to_number(right)
+
+
+def div(left, right):
+    left, right = _to_number(left), _to_number(right)
+    if right == 0:
+        if left == 0 or math.isnan(left):
+            return math.nan
+        return math.copysign(math.inf, left) * math.copysign(1, right)
+    return left / right
+
+
+# JavaScript's %: the result takes the sign of the dividend
+def mod(left, right):
+    left, right = _to_number(left), _to_number(right)
+    if right == 0 or math.isinf(left) or math.isnan(left) or math.isnan(right):
+        return math.nan
+    if isinstance(left, int) and isinstance(right, int):
+        remainder = abs(left) % abs(right)
+        return -remainder if left < 0 else remainder
+    return math.fmod(left, right)
+
+
+def neg(value):
+    return -_to_number(value)
+
+
+# Strings compare as strings; anything else as numbers
+def _compare(left, right, op):
+    if isinstance(left, str) and isinstance(right, str):
+        return op(left, right)
+    left, right = _to_number(left), _to_number(right)
+    return not (math.isnan(left) or math.isnan(right)) and op(left, right)
+
+
+def lt(left, right):
+    return _compare(left, right, lambda a, b: a < b)
+
+
+def gt(left, right):
+    return _compare(left, right, lambda a, b: a > b)
+
+
+def le(left, right):
+    return _compare(left, right, lambda a, b: a <= b)
+
+
+def ge(left, right):
+    return _compare(left, right, lambda a, b: a >= b)
+
+
+# ==: lists, dictionaries, objects and karyams are equal only to themselves
+def eq(left, right):
+    if _kind(left) != _kind(right):
+        return False
+    if _kind(left) in ("number", "string", "boolean", "null"):
+        return left == right
+    return left is right
+
+
+def ne(left, right):
+    return not eq(left, right)
+
+
+# --- STANDARD LIBRARY ---
+# mulberry32, as in the playground, so bijam() repeats the same sequence
+def _imul(a, b):
+    return (a * b) & 0xFFFFFFFF
+
+
+class _Random:
+    def __init__(self):
+        self.state = random.getrandbits(32)
+
+    def seed(self, value):
+        self.state = int(value) & 0xFFFFFFFF
+
+    def next(self):
+        self.state = (self.state + 0x6D2B79F5) & 0xFFFFFFFF
+        t = _imul(self.state ^ (self.state >> 15), self.state | 1)
+        t = ((t + _imul(t ^ (t >> 7), t | 61)) & 0xFFFFFFFF) ^ t
+        return (t ^ (t >> 14)) / 4294967296
+
+
+_random = _Random()
+
+
+${builtinDefinitions}
+
+
+for _name in [${Object.keys(BUILTIN_FUNCTIONS).map(name => JSON.stringify(name)).join(', ')}]:
+    _native(_name, globals()[_name])
+
+
+# anayati "ganita"
+def _ganita_member(name, fn):
+    return _native("ganita." + name, fn)
+
+
+_ganita_members = {
+    "pi": math.pi,
+    "e": math.e,
+    "mulam": _ganita_member("mulam", lambda x: math.sqrt(x) if x >= 0 else math.nan),
+    "ghatah": _ganita_member("ghatah", lambda base, exponent: ghatah(base, exponent)),
+    "nirapeksham": _ganita_member("nirapeksham", lambda x: abs(x)),
+    "nimnam": _ganita_member("nimnam", lambda x: math.floor(x)),
+    "uccam": _ganita_member("uccam", lambda x: math.ceil(x)),
+    "laghutamam": _ganita_member("laghutamam", lambda a, b: min(a, b)),
+    "mahattamam": _ganita_member("mahattamam", lambda a, b: max(a, b)),
+}
+ganita = Module("ganita", {name: (lambda value=value: value) for name, value in _ganita_members.items()})`.trim() + '\n';
@@ -0,0 +1,365 @@
+import { KEYWORDS, TYPE_ANNOTATIONS } from "../constants";
+
+// Token Types
+export type TokenType = 'KEYWORD' | 'IDENTIFIER' | 'NUMBER' | 'STRING' | 'OPERATOR' | 'PUNCTUATION' | 'COMMENT';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  col: number;
+  raw?: string;
+}
+
+export interface SourceSpan {
+  line: number;
+  col: number;
+  endLine: number;
+  endCol: number;
+}
+
+// --- EXPRESSIONS ---
+
+export interface NumberLiteral {
+  kind: 'NumberLiteral';
+  value: number;
+  span: SourceSpan;
+}
+
+export interface StringLiteral {
+  kind: 'StringLiteral';
+  value: string;
+  span: SourceSpan;
+}
+
+export interface BooleanLiteral {
+  kind: 'BooleanLiteral';
+  value: boolean;
+  span: SourceSpan;
+}
+
+export interface NullLiteral {
+  kind: 'NullLiteral';
+  span: SourceSpan;
+}
+
+export interface Identifier {
+  kind: 'Identifier';
+  name: string;
+  span: SourceSpan;
+}
+
+export interface BinaryExpression {
+  kind: 'BinaryExpression';
+  operator: string;
+  left: Expression;
+  right: Expression;
+  span: SourceSpan;
+}
+
+export interface LogicalExpression {
+  kind: 'LogicalExpression';
+  operator: '&&' | '||';
+  left: Expression;
+  right: Expression;
+  span: SourceSpan;
+}
+
+export interface UnaryExpression {
+  kind: 'UnaryExpression';
+  operator: '-' | '!';
+  argument: Expression;
+  span: SourceSpan;
+}
+
+export interface ListLiteral {
+  kind: 'ListLiteral';
+  elements: Expression[];
+  span: SourceSpan;
+}
+
+export interface DictEntry {
+  key: Expression;
+  value: Expression;
+}
+
+// { "key": value, ... }
+export interface DictLiteral {
+  kind: 'DictLiteral';
+  entries: DictEntry[];
+  span: SourceSpan;
+}
+
+// collection[index]
+export interface IndexExpression {
+  kind: 'IndexExpression';
+  object: Expression;
+  index: Expression;
+  span: SourceSpan;
+}
+
+export interface ThisExpression {
+  kind: 'ThisExpression';
+  span: SourceSpan;
+}
+
+// object.property
+export interface MemberExpression {
+  kind: 'MemberExpression';
+  object: Expression;
+  property: Identifier;
+  span: SourceSpan;
+}
+
+export interface CallExpression {
+  kind: 'CallExpression';
+  callee: Expression;
+  args: Expression[];
+  span: SourceSpan;
+}
+
+export type Expression =
+  | NumberLiteral
+  | StringLiteral
+  | BooleanLiteral
+  | NullLiteral
+  | ListLiteral
+  | DictLiteral
+  | Identifier
+  | BinaryExpression
+  | LogicalExpression
+  | UnaryExpression
+  | ThisExpression
+  | MemberExpression
+  | IndexExpression
+  | CallExpression;
+
+// --- STATEMENTS ---
+
+export interface Block {
+  kind: 'Block';
+  body: Statement[];
+  span: SourceSpan;
+}
+
+// `: sankhya` after a name; `name` is the TYPE_ANNOTATIONS key, `args` the element types if given
+export interface TypeAnnotation {
+  kind: 'TypeAnnotation';
+  name: keyof typeof TYPE_ANNOTATIONS;
+  args: TypeAnnotation[];
+  span: SourceSpan;
+}
+
+export interface VariableDeclaration {
+  kind: 'VariableDeclaration';
+  name: Identifier;
+  annotation: TypeAnnotation | null;
+  init: Expression;
+  span: SourceSpan;
+}
+
+export interface Assignment {
+  kind: 'Assignment';
+  target: Identifier | MemberExpression | IndexExpression;
+  value: Expression;
+  span: SourceSpan;
+}
+
+export interface PrintStatement {
+  kind: 'PrintStatement';
+  value: Expression;
+  span: SourceSpan;
+}
+
+// `alternate` is the anyatha block, or a nested IfStatement for `anyatha yadi`
+export interface IfStatement {
+  kind: 'IfStatement';
+  test: Expression;
+  consequent: Block;
+  alternate: Block | IfStatement | null;
+  span: SourceSpan;
+}
+
+export interface WhileStatement {
+  kind: 'WhileStatement';
+  test: Expression;
+  body: Block;
+  span: SourceSpan;
+}
+
+// krute i = 1 paryantam 10 tarhi ... samaptam
+export interface ForRangeStatement {
+  kind: 'ForRangeStatement';
+  variable: Identifier;
+  start: Expression;
+  end: Expression;
+  body: Block;
+  span: SourceSpan;
+}
+
+// krute x madhye collection tarhi ... samaptam
+export interface ForEachStatement {
+  kind: 'ForEachStatement';
+  variable: Identifier;
+  iterable: Expression;
+  body: Block;
+  span: SourceSpan;
+}
+
+// paramTypes runs parallel to params; an unannotated parameter has null
+export interface FunctionDeclaration {
+  kind: 'FunctionDeclaration';
+  name: Identifier;
+  params: Identifier[];
+  paramTypes: (TypeAnnotation | null)[];
+  returnType: TypeAnnotation | null;
+  body: Block;
+  span: SourceSpan;
+}
+
+// shreni Name tarhi <mulyam fields> <karyam methods> samaptam
+export interface ClassDeclaration {
+  kind: 'ClassDeclaration';
+  name: Identifier;
+  fields: VariableDeclaration[];
+  methods: FunctionDeclaration[];
+  span: SourceSpan;
+}
+
+// anayati "ganita" -- binds the module's exports to `ganita`
+export interface ImportStatement {
+  kind: 'ImportStatement';
+  source: StringLiteral;
+  span: SourceSpan;
+}
+
+export interface ReturnStatement {
+  kind: 'ReturnStatement';
+  argument: Expression | null;
+  span: SourceSpan;
+}
+
+// prayatnam ... grihnatu e ... samaptam
+export interface TryStatement {
+  kind: 'TryStatement';
+  block: Block;
+  param: Identifier | null;
+  handler: Block;
+  span: SourceSpan;
+}
+
+export interface ThrowStatement {
+  kind: 'ThrowStatement';
+  argument: Expression;
+  span: SourceSpan;
+}
+
+export interface BreakStatement {
+  kind: 'BreakStatement';
+  span: SourceSpan;
+}
+
+export interface ContinueStatement {
+  kind: 'ContinueStatement';
+  span: SourceSpan;
+}
+
+export interface ExpressionStatement {
+  kind: 'ExpressionStatement';
+  expression: Expression;
+  span: SourceSpan;
+}
+
+export type Statement =
+  | VariableDeclaration
+  | Assignment
+  | PrintStatement
+  | IfStatement
+  | WhileStatement
+  | ForRangeStatement
+  | ForEachStatement
+  | FunctionDeclaration
+  | ClassDeclaration
+  | ImportStatement
+  | ReturnStatement
+  | TryStatement
+  | ThrowStatement
+  | BreakStatement
+  | ContinueStatement
+  | ExpressionStatement;
+
+export interface Program {
+  kind: 'Program';
+  body: Statement[];
+  span: SourceSpan;
+}
+
+// --- HELPERS ---
+
+const keywordLookup: Record<string, string> = {};
+for (const [key, kw] of Object.entries(KEYWORDS)) {
+  keywordLookup[kw.roman] = key;
+  keywordLookup[kw.devanagari] = key;
+}
+
+// Resolves a word in either script to its KEYWORDS key (e.g. 'यदि' -> 'IF')
+export const getKeywordKey = (word: string): string | null => keywordLookup[word] ?? null;
+
+export const isKeyword = (token: Token | undefined, key: string): boolean =>
+  !!token && token.type === 'KEYWORD' && keywordLookup[token.value] === key;
+
+export const tokenSpan = (token: Token): SourceSpan => {
+  const width = (token.raw ?? token.value).length;
+  return { line: token.line, col: token.col, endLine: token.line, endCol: token.col + width };
+};
+
+export const joinSpans = (start: SourceSpan, end: SourceSpan): SourceSpan => ({
+  line: start.line,
+  col: start.col,
+  endLine: end.endLine,
+  endCol: end.endCol
+});
+
+// True when the statements cannot finish without returning or throwing
+export const alwaysExits = (statements: Statement[]): boolean => statements.some(stmt => {
+  switch (stmt.kind) {
+    case 'ReturnStatement':
+    case 'ThrowStatement':
+      return true;
+    case 'IfStatement':
+      return !!stmt.alternate && alwaysExits(stmt.consequent.body)
+        && (stmt.alternate.kind === 'Block' ? alwaysExits(stmt.alternate.body) : alwaysExits([stmt.alternate]));
+    case 'TryStatement':
+      return alwaysExits(stmt.block.body) && alwaysExits(stmt.handler.body);
+    default:
+      return false;
+  }
+});
+
+// The pratyarpayatu statements of one karyam, not of karyams nested in it
+export const returnsOf = (node: unknown, into: (Expression | null)[] = []): (Expression | null)[] => {
+  if (Array.isArray(node)) node.forEach(child => returnsOf(child, into));
+  else if (node && typeof node === 'object') {
+    const kind = (node as Statement).kind;
+    if (kind === 'ReturnStatement') into.push((node as { argument: Expression | null }).argument);
+    else if (kind !== 'FunctionDeclaration' && kind !== 'ClassDeclaration') {
+      for (const child of Object.values(node)) if (child && typeof child === 'object') returnsOf(child, into);
+    }
+  }
+  return into;
+};
+
+// Every name used anywhere inside a node
+export const namesIn = (node: unknown, into = new Set<string>()): Set<string> => {
+  if (Array.isArray(node)) node.forEach(child => namesIn(child, into));
+  else if (node && typeof node === 'object') {
+    if ((node as Identifier).kind === 'Identifier') into.add((node as Identifier).name);
+    for (const child of Object.values(node)) if (child && typeof child === 'object') namesIn(child, into);
+  }
+  return into;
+};
+
+// The karyams of a block that an earlier statement of it names, which may be called before they are declared
+export const karyamsUsedAhead = (statements: Statement[]): FunctionDeclaration[] =>
+  statements.filter((stmt, i): stmt is FunctionDeclaration =>
+    stmt.kind === 'FunctionDeclaration' && statements.slice(0, i).some(earlier => namesIn(earlier).has(stmt.name.name)));
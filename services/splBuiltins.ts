@@ -0,0 +1,603 @@
+import { ScriptMode } from "../types";
+import { formatNumber, NUMERAL_SCRIPTS, toAsciiDigits } from "./splNumerals";
+
+// Raised by a builtin's implementation; the interpreter reports it at the call site
+export class BuiltinError extends Error {}
+
+// Names returned by prakarah(); instances report their shreni name instead
+export const TYPE_NAMES = {
+  NUMBER: 'sankhya',
+  STRING: 'vakyam',
+  BOOLEAN: 'tarkah',
+  LIST: 'suchi',
+  DICT: 'kosha',
+  NULL: 'shunyam',
+  FUNCTION: 'karyam'
+};
+
+// Interpreter services a builtin may need beyond its arguments
+export interface BuiltinContext {
+  random(): number;
+  seed(value: number): void;
+  format(value: any): string;
+  typeOf(value: any): string;
+  numerals(): ScriptMode;
+  setNumerals(script: ScriptMode): void;
+  // Prints the prompt (unless empty), then takes the next line of stdin; null once it is used up
+  readLine(prompt: string): string | null;
+}
+
+export type BuiltinCategory = 'string' | 'math' | 'type' | 'conversion' | 'list' | 'input';
+
+export interface BuiltinFunction {
+  devanagari: string;
+  category: BuiltinCategory;
+  params: string[];
+  // Written with the type names of annotations; kimapi accepts anything, T is any one type
+  signature: string;
+  meaning: string;
+  equivalent: string;
+  impl: (args: any[], context: BuiltinContext) => any;
+  // Reads stdin, so the VM may pause at the call until the playground supplies a line
+  readsInput?: boolean;
+  // Matching definition emitted into namespace san in Sanskritam.h
+  cpp: string;
+  // Matching export of sanskritam.mjs, which transpiled JavaScript imports as san
+  js: string;
+  // Matching definition in sanskritam.py, which transpiled Python imports as san
+  python: string;
+}
+
+const expectNumber = (name: string, value: any): number => {
+  if (typeof value !== 'number') throw new BuiltinError(`'${name}' expects a number`);
+  return value;
+};
+
+const expectList = (name: string, value: any): any[] => {
+  if (!Array.isArray(value)) throw new BuiltinError(`'${name}' expects a list`);
+  return value;
+};
+
+// Mirrors JavaScript's slice(): negative positions count from the end
+const slicePosition = (position: number, length: number) =>
+  position < 0 ? Math.max(0, length + position) : Math.min(position, length);
+
+/**
+ * The standard library, callable everywhere under either name without an import.
+ * The DOCS tab and the generated C++ runtime are both built from this registry.
+ */
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinFunction> = {
+  // --- STRINGS ---
+  dairghyam: {
+    devanagari: 'दैर्घ्यम्',
+    category: 'string',
+    params: ['x'],
+    signature: '(kimapi) -> sankhya',
+    meaning: 'Length of a string (in characters), list or dictionary',
+    equivalent: 'len()',
+    impl: ([value]) => {
+      if (typeof value === 'string') return Array.from(value).length;
+      if (Array.isArray(value)) return value.length;
+      if (value instanceof Map) return value.size;
+      throw new BuiltinError(`'dairghyam' expects a string, list or dictionary`);
+    },
+    cpp: `inline double dairghyam(const std::string& text) { return codepoints(text).size(); }
+    template<typename T> double dairghyam(const std::vector<T>& items) { return items.size(); }
+    template<typename K, typename V> double dairghyam(const std::map<K, V>& items) { return items.size(); }
+    inline double dairghyam(const Value& value) {
+        if (value.kind == Value::STRING) return dairghyam(value.text);
+        if (value.kind == Value::LIST) return value.list->size();
+        if (value.kind == Value::DICT) return value.dict->size();
+        throw Exception("'dairghyam' expects a string, list or dictionary");
+    }`,
+    js: `export function dairghyam(value) {
+        if (typeof value === "string") return Array.from(value).length;
+        if (Array.isArray(value)) return value.length;
+        if (value instanceof Map) return value.size;
+        throw new Exception("'dairghyam' expects a string, list or dictionary");
+    }`,
+    python: `def dairghyam(value):
+        if isinstance(value, (str, list, dict)):
+            return len(value)
+        raise SplError("'dairghyam' expects a string, list or dictionary")`
+  },
+  khandah: {
+    devanagari: 'खण्डः',
+    category: 'string',
+    params: ['x', 'arambha', 'anta'],
+    signature: '(T, sankhya, sankhya) -> T',
+    meaning: 'Slice of a string or list from arambha up to (not including) anta',
+    equivalent: 'slice()',
+    impl: ([value, start, end]) => {
+      expectNumber('khandah', start);
+      expectNumber('khandah', end);
+      if (typeof value === 'string') {
+        const chars = Array.from(value);
+        return chars.slice(slicePosition(start, chars.length), slicePosition(end, chars.length)).join('');
+      }
+      if (Array.isArray(value)) return value.slice(slicePosition(start, value.length), slicePosition(end, value.length));
+      throw new BuiltinError(`'khandah' expects a string or list`);
+    },
+    cpp: `inline size_t slice_position(double position, size_t length) {
+        long p = static_cast<long>(position), n = static_cast<long>(length);
+        return static_cast<size_t>(p < 0 ? std::max(0L, n + p) : std::min(p, n));
+    }
+    inline std::string khandah(const std::string& text, double start, double end) {
+        std::vector<std::string> chars = codepoints(text);
+        size_t from = slice_position(start, chars.size()), to = slice_position(end, chars.size());
+        std::string out;
+        for (size_t i = from; i < to; i++) out += chars[i];
+        return out;
+    }
+    template<typename T> std::vector<T> khandah(const std::vector<T>& items, double start, double end) {
+        size_t from = slice_position(start, items.size()), to = slice_position(end, items.size());
+        return from < to ? std::vector<T>(items.begin() + from, items.begin() + to) : std::vector<T>();
+    }
+    inline Value khandah(const Value& value, double start, double end) {
+        if (value.kind == Value::STRING) return khandah(value.text, start, end);
+        if (value.kind == Value::LIST) return list(khandah(*value.list, start, end));
+        throw Exception("'khandah' expects a string or list");
+    }`,
+    js: `export function khandah(value, start, end) {
+        expectNumber("khandah", start);
+        expectNumber("khandah", end);
+        if (typeof value === "string") {
+            const chars = Array.from(value);
+            return chars.slice(slicePosition(start, chars.length), slicePosition(end, chars.length)).join("");
+        }
+        if (Array.isArray(value)) return value.slice(slicePosition(start, value.length), slicePosition(end, value.length));
+        throw new Exception("'khandah' expects a string or list");
+    }`,
+    python: `def khandah(value, start, end):
+        _expect_number("khandah", start)
+        _expect_number("khandah", end)
+        if isinstance(value, (str, list)):
+            return value[_slice_position(start, len(value)):_slice_position(end, len(value))]
+        raise SplError("'khandah' expects a string or list")`
+  },
+  yojaya: {
+    devanagari: 'योजय',
+    category: 'string',
+    params: ['a', 'b'],
+    signature: '(kimapi, kimapi) -> vakyam',
+    meaning: 'Joins two values into one string',
+    equivalent: 'concat()',
+    impl: ([a, b], context) => context.format(a) + context.format(b),
+    cpp: `template<typename A, typename B> std::string yojaya(const A& a, const B& b) { return str(a) + str(b); }`,
+    js: `export function yojaya(a, b) { return str(a) + str(b); }`,
+    python: `def yojaya(a, b):
+        return text(a) + text(b)`
+  },
+
+  // --- MATH ---
+  vargamulam: {
+    devanagari: 'वर्गमूलम्',
+    category: 'math',
+    params: ['x'],
+    signature: '(sankhya) -> sankhya',
+    meaning: 'Square root',
+    equivalent: 'sqrt()',
+    impl: ([x]) => {
+      if (expectNumber('vargamulam', x) < 0) throw new BuiltinError(`'vargamulam' expects a non-negative number`);
+      return Math.sqrt(x);
+    },
+    cpp: `inline double vargamulam(double x) {
+        if (x < 0) throw Exception("'vargamulam' expects a non-negative number");
+        return std::sqrt(x);
+    }`,
+    js: `export function vargamulam(x) {
+        if (expectNumber("vargamulam", x) < 0) throw new Exception("'vargamulam' expects a non-negative number");
+        return Math.sqrt(x);
+    }`,
+    python: `def vargamulam(x):
+        if _expect_number("vargamulam", x) < 0:
+            raise SplError("'vargamulam' expects a non-negative number")
+        return math.sqrt(x)`
+  },
+  ghatah: {
+    devanagari: 'घातः',
+    category: 'math',
+    params: ['adhara', 'ghata'],
+    signature: '(sankhya, sankhya) -> sankhya',
+    meaning: 'Power: adhara raised to ghata',
+    equivalent: 'pow()',
+    impl: ([base, exponent]) => Math.pow(expectNumber('ghatah', base), expectNumber('ghatah', exponent)),
+    cpp: `inline double ghatah(double base, double exponent) { return std::pow(base, exponent); }`,
+    js: `export function ghatah(base, exponent) { return Math.pow(expectNumber("ghatah", base), expectNumber("ghatah", exponent)); }`,
+    python: `def ghatah(base, exponent):
+        _expect_number("ghatah", base)
+        _expect_number("ghatah", exponent)
+        try:
+            return math.pow(base, exponent)
+        except OverflowError:
+            return math.inf
+        except ValueError:
+            return math.inf if base == 0 else math.nan`
+  },
+  nimnam: {
+    devanagari: 'निम्नम्',
+    category: 'math',
+    params: ['x'],
+    signature: '(sankhya) -> sankhya',
+    meaning: 'Rounds down to a whole number',
+    equivalent: 'floor()',
+    impl: ([x]) => Math.floor(expectNumber('nimnam', x)),
+    cpp: `inline double nimnam(double x) { return std::floor(x); }`,
+    js: `export function nimnam(x) { return Math.floor(expectNumber("nimnam", x)); }`,
+    python: `def nimnam(x):
+        _expect_number("nimnam", x)
+        return math.floor(x) if math.isfinite(x) else x`
+  },
+  yadrcchikam: {
+    devanagari: 'यादृच्छिकम्',
+    category: 'math',
+    params: [],
+    signature: '() -> sankhya',
+    meaning: 'Random number in [0, 1); repeatable after bijam()',
+    equivalent: 'random()',
+    impl: (_args, context) => context.random(),
+    cpp: `inline double yadrcchikam() { return random_state().next(); }`,
+    js: `export function yadrcchikam() { return random.next(); }`,
+    python: `def yadrcchikam():
+        return _random.next()`
+  },
+  bijam: {
+    devanagari: 'बीजम्',
+    category: 'math',
+    params: ['n'],
+    signature: '(sankhya) -> shunyam',
+    meaning: 'Seeds the random generator so yadrcchikam() repeats its sequence',
+    equivalent: 'seed()',
+    impl: ([n], context) => {
+      context.seed(expectNumber('bijam', n));
+      return null;
+    },
+    cpp: `inline void bijam(double n) { random_state().state = static_cast<uint32_t>(static_cast<long long>(n)); }`,
+    js: `export function bijam(n) {
+        random.seed(expectNumber("bijam", n));
+        return null;
+    }`,
+    python: `def bijam(n):
+        _random.seed(_expect_number("bijam", n))`
+  },
+
+  // --- TYPES ---
+  prakarah: {
+    devanagari: 'प्रकारः',
+    category: 'type',
+    params: ['x'],
+    signature: '(kimapi) -> vakyam',
+    meaning: 'Type name: sankhya, vakyam, tarkah, suchi, kosha, shunyam, karyam or the shreni name',
+    equivalent: 'type()',
+    impl: ([value], context) => context.typeOf(value),
+    cpp: `inline std::string prakarah(double) { return "sankhya"; }
+    inline std::string prakarah(int) { return "sankhya"; }
+    inline std::string prakarah(const std::string&) { return "vakyam"; }
+    inline std::string prakarah(const char*) { return "vakyam"; }
+    inline std::string prakarah(bool) { return "tarkah"; }
+    inline std::string prakarah(std::nullptr_t) { return "shunyam"; }
+    template<typename T> std::string prakarah(const std::vector<T>&) { return "suchi"; }
+    template<typename K, typename V> std::string prakarah(const std::map<K, V>&) { return "kosha"; }
+    inline std::string prakarah(const Value& value) {
+        switch (value.kind) {
+            case Value::NUL: return "shunyam";
+            case Value::NUMBER: return "sankhya";
+            case Value::BOOLEAN: return "tarkah";
+            case Value::STRING: return "vakyam";
+            case Value::LIST: return "suchi";
+            case Value::DICT: return "kosha";
+            case Value::INSTANCE: return value.instance->klass->name;
+            case Value::CLASS: return "shreni";
+            case Value::MODULE: return "anayati";
+            default: return "karyam";
+        }
+    }`,
+    js: `export function prakarah(value) { return typeOf(value); }`,
+    python: `def prakarah(value):
+        return _type_of(value)`
+  },
+
+  // --- CONVERSIONS ---
+  sankhya: {
+    devanagari: 'सङ्ख्या',
+    category: 'conversion',
+    params: ['x'],
+    signature: '(kimapi) -> sankhya',
+    meaning: 'Converts a string (Roman or Devanagari digits) or boolean to a number',
+    equivalent: 'Number()',
+    impl: ([value]) => {
+      if (typeof value === 'number') return value;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (typeof value === 'string') {
+        const ascii = toAsciiDigits(value.trim());
+        const parsed = Number(ascii);
+        if (ascii !== '' && !Number.isNaN(parsed)) return parsed;
+      }
+      throw new BuiltinError(`Cannot convert ${JSON.stringify(value)} to ${TYPE_NAMES.NUMBER}`);
+    },
+    cpp: `inline double sankhya(double x) { return x; }
+    inline double sankhya(bool x) { return x ? 1 : 0; }
+    inline double sankhya(const std::string& text) {
+        std::string ascii;
+        for (const std::string& c : codepoints(text)) {
+            // Devanagari digits ० (U+0966) to ९ (U+096F) are E0 A5 A6 to E0 A5 AF in UTF-8
+            if (c.size() == 3 && (unsigned char)c[0] == 0xE0 && (unsigned char)c[1] == 0xA5 && (unsigned char)c[2] >= 0xA6 && (unsigned char)c[2] <= 0xAF) {
+                ascii += static_cast<char>('0' + ((unsigned char)c[2] - 0xA6));
+            } else {
+                ascii += c;
+            }
+        }
+        // Surrounding whitespace is ignored, as JavaScript's Number() ignores it
+        const size_t first = ascii.find_first_not_of(" \\t\\n\\r\\f\\v");
+        if (first != std::string::npos) {
+            ascii = ascii.substr(first, ascii.find_last_not_of(" \\t\\n\\r\\f\\v") - first + 1);
+            try { size_t used = 0; double value = std::stod(ascii, &used); if (used == ascii.size()) return value; } catch (...) {}
+        }
+        throw Exception("Cannot convert \\"" + text + "\\" to sankhya");
+    }
+    inline double sankhya(const char* text) { return sankhya(std::string(text)); }
+    inline double sankhya(const Value& value) {
+        if (value.kind == Value::NUMBER) return value.number;
+        if (value.kind == Value::BOOLEAN) return value.boolean ? 1 : 0;
+        if (value.kind == Value::STRING) return sankhya(value.text);
+        throw Exception("Cannot convert " + repr(value) + " to sankhya");
+    }`,
+    js: `export function sankhya(value) {
+        if (typeof value === "number") return value;
+        if (typeof value === "boolean") return value ? 1 : 0;
+        if (typeof value === "string") {
+            const ascii = toAsciiDigits(value.trim());
+            const parsed = Number(ascii);
+            if (ascii !== "" && !Number.isNaN(parsed)) return parsed;
+        }
+        throw new Exception("Cannot convert " + JSON.stringify(value) + " to sankhya");
+    }`,
+    python: `def sankhya(value):
+        if isinstance(value, bool):
+            return 1 if value else 0
+        if _is_number(value):
+            return value
+        if isinstance(value, str):
+            parsed = _parse_number(_to_ascii_digits(value.strip()))
+            if parsed is not None:
+                return parsed
+        raise SplError("Cannot convert " + json.dumps(value, ensure_ascii=False) + " to sankhya")`
+  },
+  vakyam: {
+    devanagari: 'वाक्यम्',
+    category: 'conversion',
+    params: ['x'],
+    signature: '(kimapi) -> vakyam',
+    meaning: 'Converts any value to its printed string form',
+    equivalent: 'String()',
+    impl: ([value], context) => context.format(value),
+    cpp: `template<typename T> std::string vakyam(const T& value) { return str(value); }`,
+    js: `export function vakyam(value) { return str(value); }`,
+    python: `def vakyam(value):
+        return text(value)`
+  },
+  ankaya: {
+    devanagari: 'अङ्कय',
+    category: 'conversion',
+    params: ['x'],
+    signature: '(sankhya) -> vakyam',
+    meaning: 'Formats a number with lakh/crore grouping, e.g. 1,23,45,678.5, in the current numeral script',
+    equivalent: 'toLocaleString("en-IN")',
+    impl: ([x], context) => formatNumber(expectNumber('ankaya', x), context.numerals(), true),
+    cpp: `inline std::string ankaya(double value) {
+        std::string text = plain_number(value);
+        if (std::isfinite(value) && text.find('e') == std::string::npos) {
+            std::string sign = text[0] == '-' ? "-" : "";
+            std::string body = text.substr(sign.size());
+            size_t dot = body.find('.');
+            std::string whole = body.substr(0, dot), fraction = dot == std::string::npos ? "" : body.substr(dot);
+            std::string grouped = whole.size() > 3 ? whole.substr(whole.size() - 3) : whole;
+            for (long i = static_cast<long>(whole.size()) - 3; i > 0; i -= 2) {
+                long from = std::max(0L, i - 2);
+                grouped = whole.substr(from, i - from) + "," + grouped;
+            }
+            text = sign + grouped + fraction;
+        }
+        return devanagari_numerals() ? to_devanagari_digits(text) : text;
+    }`,
+    js: `export function ankaya(x) { return formatNumber(expectNumber("ankaya", x), true); }`,
+    python: `def ankaya(x):
+        return _format_number(_expect_number("ankaya", x), True)`
+  },
+  ankalipi: {
+    devanagari: 'अङ्कलिपिः',
+    category: 'conversion',
+    params: ['lipi'],
+    signature: '(vakyam) -> shunyam',
+    meaning: 'Switches the digits of all later output to "roman" or "devanagari", overriding the script mode',
+    equivalent: 'setLocale()',
+    impl: ([script], context) => {
+      const numerals = typeof script === 'string' && Object.prototype.hasOwnProperty.call(NUMERAL_SCRIPTS, script) ? NUMERAL_SCRIPTS[script] : undefined;
+      if (!numerals) throw new BuiltinError(`'ankalipi' expects "roman" or "devanagari"`);
+      context.setNumerals(numerals);
+      return null;
+    },
+    cpp: `inline void ankalipi(const std::string& script) {
+        if (script == "roman" || script == "रोमन") devanagari_numerals() = false;
+        else if (script == "devanagari" || script == "देवनागरी") devanagari_numerals() = true;
+        else throw Exception("'ankalipi' expects \\"roman\\" or \\"devanagari\\"");
+    }`,
+    js: `export function ankalipi(script) {
+        if (script === "roman" || script === "रोमन") devanagariNumerals = false;
+        else if (script === "devanagari" || script === "देवनागरी") devanagariNumerals = true;
+        else throw new Exception("'ankalipi' expects \\"roman\\" or \\"devanagari\\"");
+        return null;
+    }`,
+    python: `def ankalipi(script):
+        global _devanagari_numerals
+        if script in ("roman", "रोमन"):
+            _devanagari_numerals = False
+        elif script in ("devanagari", "देवनागरी"):
+            _devanagari_numerals = True
+        else:
+            raise SplError("'ankalipi' expects \\"roman\\" or \\"devanagari\\"")`
+  },
+
+  // --- LISTS ---
+  samyojaya: {
+    devanagari: 'संयोजय',
+    category: 'list',
+    params: ['suchi', 'x'],
+    signature: '(suchi<T>, T) -> suchi<T>',
+    meaning: 'Appends x to the end of a list and returns the list',
+    equivalent: 'push()',
+    impl: ([list, item]) => {
+      expectList('samyojaya', list).push(item);
+      return list;
+    },
+    cpp: `template<typename T, typename U> std::vector<T>& samyojaya(std::vector<T>& items, const U& item) { items.push_back(item); return items; }
+    inline Value samyojaya(const Value& items, const Value& item) {
+        if (items.kind != Value::LIST) throw Exception("'samyojaya' expects a list");
+        items.list->push_back(item);
+        return items;
+    }`,
+    js: `export function samyojaya(items, item) {
+        expectList("samyojaya", items).push(item);
+        return items;
+    }`,
+    python: `def samyojaya(items, item):
+        _expect_list("samyojaya", items).append(item)
+        return items`
+  },
+  nishkasaya: {
+    devanagari: 'निष्कासय',
+    category: 'list',
+    params: ['suchi'],
+    signature: '(suchi<T>) -> T',
+    meaning: 'Removes and returns the last element of a list',
+    equivalent: 'pop()',
+    impl: ([list]) => {
+      if (expectList('nishkasaya', list).length === 0) throw new BuiltinError(`'nishkasaya' cannot remove from an empty list`);
+      return list.pop();
+    },
+    cpp: `template<typename T> T nishkasaya(std::vector<T>& items) {
+        if (items.empty()) throw Exception("'nishkasaya' cannot remove from an empty list");
+        T last = items.back();
+        items.pop_back();
+        return last;
+    }
+    inline Value nishkasaya(const Value& items) {
+        if (items.kind != Value::LIST) throw Exception("'nishkasaya' expects a list");
+        return nishkasaya(*items.list);
+    }`,
+    js: `export function nishkasaya(items) {
+        if (expectList("nishkasaya", items).length === 0) throw new Exception("'nishkasaya' cannot remove from an empty list");
+        return items.pop();
+    }`,
+    python: `def nishkasaya(items):
+        if not _expect_list("nishkasaya", items):
+            raise SplError("'nishkasaya' cannot remove from an empty list")
+        return items.pop()`
+  },
+  kramaya: {
+    devanagari: 'क्रमय',
+    category: 'list',
+    params: ['suchi'],
+    signature: '(suchi<T>) -> suchi<T>',
+    meaning: 'Returns a sorted copy of a list of numbers or of strings',
+    equivalent: 'sorted()',
+    impl: ([list]) => {
+      const items = expectList('kramaya', list);
+      const kinds = new Set(items.map(item => typeof item));
+      if (kinds.size > 1 || (kinds.size === 1 && !kinds.has('number') && !kinds.has('string'))) {
+        throw new BuiltinError(`'kramaya' expects a list of only numbers or only strings`);
+      }
+      return [...items].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+    },
+    cpp: `template<typename T> std::vector<T> kramaya(std::vector<T> items) { std::sort(items.begin(), items.end()); return items; }
+    inline Value kramaya(const Value& items) {
+        if (items.kind != Value::LIST) throw Exception("'kramaya' expects a list");
+        for (const Value& item : *items.list) {
+            if ((item.kind != Value::NUMBER && item.kind != Value::STRING) || item.kind != items.list->front().kind) {
+                throw Exception("'kramaya' expects a list of only numbers or only strings");
+            }
+        }
+        return list(kramaya(*items.list));
+    }`,
+    js: `export function kramaya(items) {
+        const kinds = new Set(expectList("kramaya", items).map(item => typeof item));
+        if (kinds.size > 1 || (kinds.size === 1 && !kinds.has("number") && !kinds.has("string"))) {
+            throw new Exception("'kramaya' expects a list of only numbers or only strings");
+        }
+        return [...items].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+    }`,
+    python: `def kramaya(items):
+        kinds = {_kind(item) for item in _expect_list("kramaya", items)}
+        if len(kinds) > 1 or kinds - {"number", "string"}:
+            raise SplError("'kramaya' expects a list of only numbers or only strings")
+        return sorted(items)`
+  },
+
+  // --- INPUT ---
+  shrunotu: {
+    devanagari: 'शृणोतु',
+    category: 'input',
+    params: ['sandesha'],
+    signature: '(vakyam) -> vakyam',
+    meaning: 'Prints the prompt (unless it is ""), then reads one line of input without its line break',
+    equivalent: 'input()',
+    readsInput: true,
+    impl: ([prompt], context) => {
+      if (typeof prompt !== 'string') throw new BuiltinError(`'shrunotu' expects a prompt string`);
+      const line = context.readLine(prompt);
+      if (line === null) throw new BuiltinError(`'shrunotu' reached the end of input`);
+      return line;
+    },
+    cpp: `inline std::string shrunotu(const std::string& prompt) {
+        if (!prompt.empty()) std::cout << prompt << std::endl;
+        std::string line;
+        if (!std::getline(std::cin, line)) throw Exception("'shrunotu' reached the end of input");
+        if (!line.empty() && line.back() == '\\r') line.pop_back();
+        return line;
+    }`,
+    js: `const stdinFs = typeof process === "object" ? await import("node:fs") : null;
+    let stdinLines = null;
+    export function shrunotu(prompt) {
+        if (typeof prompt !== "string") throw new Exception("'shrunotu' expects a prompt string");
+        if (prompt !== "") vadatu(prompt);
+        if (stdinLines === null) {
+            const input = stdinFs ? stdinFs.readFileSync(0, "utf8") : "";
+            stdinLines = input === "" ? [] : input.replace(/\\r?\\n$/, "").split(/\\r?\\n/);
+        }
+        if (stdinLines.length === 0) throw new Exception("'shrunotu' reached the end of input");
+        return stdinLines.shift();
+    }`,
+    python: `def shrunotu(prompt):
+        if not isinstance(prompt, str):
+            raise SplError("'shrunotu' expects a prompt string")
+        if prompt:
+            print(prompt)
+        line = sys.stdin.readline()
+        if not line:
+            raise SplError("'shrunotu' reached the end of input")
+        return line.rstrip("\\r\\n")`
+  }
+};
+
+/**
+ * Seedable generator (mulberry32) behind yadrcchikam(); Sanskritam.h implements
+ * the same steps so a seeded program prints the same numbers in both runtimes.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed = Math.floor(Math.random() * 4294967296)) {
+    this.state = seed >>> 0;
+  }
+
+  seed(value: number) {
+    this.state = value >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = Math.imul(this.state ^ (this.state >>> 15), this.state | 1);
+    t = (t + Math.imul(t ^ (t >>> 7), t | 61)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
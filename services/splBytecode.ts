@@ -0,0 +1,200 @@
+import { KEYWORDS } from "../constants";
+import { SourceSpan } from "./splAst";
+
+// Each opcode is followed in Chunk.code by the operands listed in OPERANDS. A const object rather
+// than an enum: engines can fold its members into constants, which the VM's switch relies on
+export const Op = {
+  CONSTANT: 0,
+  POP: 1,
+  LIST: 2,
+  DICT: 3,
+  DICT_KEY: 4,
+  LOAD: 5,
+  DECLARE: 6,
+  ASSIGN: 7,
+  GET_INDEX: 8,
+  SET_INDEX: 9,
+  GET_MEMBER: 10,
+  MEMBER_OBJECT: 11,
+  SET_MEMBER: 12,
+  THIS: 13,
+  ADD: 14,
+  SUBTRACT: 15,
+  MULTIPLY: 16,
+  DIVIDE: 17,
+  MODULO: 18,
+  EQUAL: 19,
+  NOT_EQUAL: 20,
+  LESS: 21,
+  GREATER: 22,
+  LESS_EQUAL: 23,
+  GREATER_EQUAL: 24,
+  NEGATE: 25,
+  NOT: 26,
+  TRUTHY: 27,
+  AND: 28,
+  OR: 29,
+  JUMP: 30,
+  JUMP_IF_FALSE: 31,
+  ENTER_SCOPE: 32,
+  EXIT_SCOPE: 33,
+  LOOP: 34,
+  RANGE: 35,
+  ITEMS: 36,
+  NEXT: 37,
+  CALLABLE: 38,
+  CALL: 39,
+  FUNCTION: 40,
+  CLASS: 41,
+  IMPORT: 42,
+  INIT_FIELD: 43,
+  CONSTRUCT: 44,
+  RETURN: 45,
+  PRINT: 46,
+  SNAPSHOT: 47,
+  TRY: 48,
+  END_TRY: 49,
+  CATCH: 50,
+  THROW: 51,
+  ESCAPE: 52,
+  HALT: 53
+} as const;
+
+export type Op = typeof Op[keyof typeof Op];
+
+// Opcode names by value, for the disassembly
+const OP_NAMES = Object.keys(Op) as (keyof typeof Op)[];
+
+// constant: index into Chunk.constants; jump: absolute code offset; count and line are plain numbers
+export type OperandKind = 'constant' | 'jump' | 'count' | 'line';
+
+export const OPERANDS: Record<Op, OperandKind[]> = {
+  [Op.CONSTANT]: ['constant'],
+  [Op.POP]: [],
+  [Op.LIST]: ['count'],
+  [Op.DICT]: ['count'],
+  [Op.DICT_KEY]: ['constant'],
+  [Op.LOAD]: ['constant'],
+  [Op.DECLARE]: ['constant'],
+  [Op.ASSIGN]: ['constant'],
+  [Op.GET_INDEX]: ['constant'],
+  [Op.SET_INDEX]: ['constant'],
+  [Op.GET_MEMBER]: ['constant'],
+  [Op.MEMBER_OBJECT]: ['constant'],
+  [Op.SET_MEMBER]: ['constant'],
+  [Op.THIS]: ['constant'],
+  [Op.ADD]: [],
+  [Op.SUBTRACT]: [],
+  [Op.MULTIPLY]: [],
+  [Op.DIVIDE]: [],
+  [Op.MODULO]: [],
+  [Op.EQUAL]: [],
+  [Op.NOT_EQUAL]: [],
+  [Op.LESS]: [],
+  [Op.GREATER]: [],
+  [Op.LESS_EQUAL]: [],
+  [Op.GREATER_EQUAL]: [],
+  [Op.NEGATE]: [],
+  [Op.NOT]: [],
+  [Op.TRUTHY]: [],
+  [Op.AND]: ['jump'],
+  [Op.OR]: ['jump'],
+  [Op.JUMP]: ['jump'],
+  [Op.JUMP_IF_FALSE]: ['jump'],
+  [Op.ENTER_SCOPE]: ['constant'],
+  [Op.EXIT_SCOPE]: [],
+  [Op.LOOP]: ['constant'],
+  [Op.RANGE]: ['constant'],
+  [Op.ITEMS]: ['constant'],
+  [Op.NEXT]: ['jump', 'constant'],
+  [Op.CALLABLE]: ['constant'],
+  [Op.CALL]: ['count', 'constant'],
+  [Op.FUNCTION]: ['constant'],
+  [Op.CLASS]: ['constant'],
+  [Op.IMPORT]: ['constant'],
+  [Op.INIT_FIELD]: ['constant'],
+  [Op.CONSTRUCT]: [],
+  [Op.RETURN]: [],
+  [Op.PRINT]: [],
+  [Op.SNAPSHOT]: ['line'],
+  [Op.TRY]: ['jump'],
+  [Op.END_TRY]: [],
+  [Op.CATCH]: ['constant'],
+  [Op.THROW]: ['constant'],
+  [Op.ESCAPE]: ['constant'],
+  [Op.HALT]: []
+};
+
+// NEXT: binds the loop variable in a fresh body scope named `scope`
+export interface LoopInfo {
+  variable: string;
+  scope: string;
+  line: number;
+  span: SourceSpan;
+  // The body declares nothing and no closure can capture its scope, so one scope serves every iteration
+  shared: boolean;
+}
+
+// CATCH: binds the caught value (if `param` is set) in the handler's scope
+export interface CatchInfo {
+  param: string | null;
+  scope: string;
+  line: number;
+}
+
+/**
+ * Compiled code of one main program, module, function body or class field list.
+ * Functions and classes declared inside it are compiled into `children`.
+ */
+export interface Chunk {
+  name: string;
+  file: string;
+  code: number[];
+  constants: any[];
+  // Source line of every entry in `code`
+  lines: number[];
+  children: Chunk[];
+}
+
+const describeConstant = (value: any): string => {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value !== 'object') return String(value);
+  if ('kind' in value) {
+    switch (value.kind) {
+      case 'Identifier': return value.name;
+      case 'MemberExpression': return `.${value.property.name}`;
+      case 'FunctionDeclaration':
+      case 'ClassDeclaration': return value.name.name;
+      case 'ImportStatement': return JSON.stringify(value.source.value);
+      case 'VariableDeclaration': return value.name.name;
+      case 'BreakStatement': return KEYWORDS.BREAK.roman;
+      case 'ContinueStatement': return KEYWORDS.CONTINUE.roman;
+      case 'ReturnStatement': return KEYWORDS.RETURN.roman;
+    }
+    return `${value.kind} L${value.span.line}:${value.span.col}`;
+  }
+  if ('variable' in value) return `${value.variable} in ${value.scope}`;
+  if ('param' in value) return `${value.param ?? '_'} in ${value.scope}`;
+  if ('line' in value && 'col' in value) return `L${value.line}:${value.col}`;
+  return String(value);
+};
+
+// One instruction per line: offset, source line (| while unchanged), opcode and operands
+export const disassemble = (chunk: Chunk): string => {
+  const out: string[] = [`== ${chunk.name} (${chunk.file}) ==`];
+  let offset = 0;
+  while (offset < chunk.code.length) {
+    const op = chunk.code[offset] as Op;
+    const line = offset > 0 && chunk.lines[offset] === chunk.lines[offset - 1] ? '   |' : String(chunk.lines[offset]).padStart(4);
+    const operands = OPERANDS[op].map((kind, i) => {
+      const operand = chunk.code[offset + 1 + i];
+      if (kind === 'jump') return `-> ${String(operand).padStart(4, '0')}`;
+      if (kind === 'constant') return `${operand} (${describeConstant(chunk.constants[operand])})`;
+      return String(operand);
+    });
+    out.push(`${String(offset).padStart(4, '0')} ${line} ${OP_NAMES[op].padEnd(14)}${operands.join(' ')}`.trimEnd());
+    offset += 1 + OPERANDS[op].length;
+  }
+  return [out.join('\n'), ...chunk.children.map(disassemble)].join('\n\n');
+};
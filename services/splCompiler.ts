@@ -0,0 +1,435 @@
+import { MAIN_FILE } from "../constants";
+import {
+  Program, Statement, Block, Expression, Identifier, SourceSpan, FunctionDeclaration, ClassDeclaration, IfStatement,
+  BreakStatement, ContinueStatement
+} from "./splAst";
+import { moduleBindingName } from "./splModules";
+import { Chunk, CatchInfo, LoopInfo, Op } from "./splBytecode";
+
+const BINARY_OPS: Record<string, Op> = {
+  '+': Op.ADD, '-': Op.SUBTRACT, '*': Op.MULTIPLY, '/': Op.DIVIDE, '%': Op.MODULO,
+  '==': Op.EQUAL, '!=': Op.NOT_EQUAL, '<': Op.LESS, '>': Op.GREATER, '<=': Op.LESS_EQUAL, '>=': Op.GREATER_EQUAL
+};
+
+// Scope and try depths are counted so viramatu/anuvartatu can unwind to their loop with plain jumps
+interface LoopContext {
+  continueTarget: number;
+  breaks: number[];
+  scopeDepth: number;
+  handlerDepth: number;
+  // krute loops keep their cursor on the operand stack
+  cursor: boolean;
+}
+
+// Statements that bind a name in the scope they run in
+const declares = (stmt: Statement): boolean =>
+  stmt.kind === 'VariableDeclaration' || stmt.kind === 'FunctionDeclaration' || stmt.kind === 'ClassDeclaration' || stmt.kind === 'ImportStatement';
+
+// Whether a karyam or shreni anywhere inside could capture the scope these statements run in
+const capturesScope = (statements: Statement[]): boolean => statements.some(stmt => {
+  switch (stmt.kind) {
+    case 'FunctionDeclaration':
+    case 'ClassDeclaration':
+      return true;
+    case 'IfStatement':
+      return capturesScope(stmt.consequent.body) || (stmt.alternate !== null && capturesScope(stmt.alternate.kind === 'Block' ? stmt.alternate.body : [stmt.alternate]));
+    case 'WhileStatement':
+    case 'ForRangeStatement':
+    case 'ForEachStatement':
+      return capturesScope(stmt.body.body);
+    case 'TryStatement':
+      return capturesScope(stmt.block.body) || capturesScope(stmt.handler.body);
+    default:
+      return false;
+  }
+});
+
+interface ChunkState {
+  chunk: Chunk;
+  constants: Map<any, number>;
+  loops: LoopContext[];
+  scopeDepth: number;
+  handlerDepth: number;
+  inFunction: boolean;
+  line: number;
+}
+
+/**
+ * Compiles the Program AST into bytecode chunks for SPLVirtualMachine.
+ * When tracing, every statement records the same debugger snapshots, in the same order, as SPLInterpreter.
+ */
+export class SPLCompiler {
+  private chunks = new Map<FunctionDeclaration | ClassDeclaration, Chunk>();
+  private state!: ChunkState;
+
+  // Without `trace` no SNAPSHOT instructions are emitted, so untraced runs do not pay for them
+  constructor(private trace = false) {}
+
+  // A main program or module; its top level runs in the scope the VM gives it
+  public compile(program: Program, file: string = MAIN_FILE): Chunk {
+    return this.withChunk(file === MAIN_FILE ? 'main' : file, file, false, program.span.line, () => {
+      this.statements(program.body);
+      this.emit(Op.HALT);
+    });
+  }
+
+  // Chunk of a function body, or of a class's field initialisers
+  public chunkOf(declaration: FunctionDeclaration | ClassDeclaration): Chunk {
+    const chunk = this.chunks.get(declaration);
+    if (!chunk) throw new Error(`'${declaration.name.name}' was not compiled`);
+    return chunk;
+  }
+
+  private withChunk(name: string, file: string, inFunction: boolean, line: number, body: () => void): Chunk {
+    const previous = this.state;
+    const chunk: Chunk = { name, file, code: [], constants: [], lines: [], children: [] };
+    this.state = { chunk, constants: new Map(), loops: [], scopeDepth: 0, handlerDepth: 0, inFunction, line };
+    try {
+      body();
+    } finally {
+      this.state = previous;
+    }
+    previous?.chunk.children.push(chunk);
+    return chunk;
+  }
+
+  private compileFunction(fn: FunctionDeclaration, owner: string | null) {
+    const name = owner ? `${owner}.${fn.name.name}` : fn.name.name;
+    this.chunks.set(fn, this.withChunk(name, this.state.chunk.file, true, fn.span.line, () => {
+      // The parameters' function scope doubles as the body's block scope
+      this.statements(fn.body.body);
+      this.at(fn.body.span.endLine);
+      this.snapshot(fn.body.span.endLine);
+      this.emit(Op.CONSTANT, this.constant(null));
+      this.emit(Op.RETURN);
+    }));
+  }
+
+  private compileClass(klass: ClassDeclaration) {
+    this.chunks.set(klass, this.withChunk(`${klass.name.name} fields`, this.state.chunk.file, false, klass.span.line, () => {
+      for (const field of klass.fields) {
+        this.at(field.span.line);
+        this.expression(field.init);
+        this.emit(Op.INIT_FIELD, this.constant(field));
+      }
+      this.emit(Op.CONSTRUCT);
+    }));
+    for (const method of klass.methods) this.compileFunction(method, klass.name.name);
+  }
+
+  // --- EMITTING ---
+
+  private emit(op: Op, ...operands: number[]): number {
+    const { code, lines } = this.state.chunk;
+    const offset = code.length;
+    code.push(op, ...operands);
+    for (let i = 0; i <= operands.length; i++) lines.push(this.state.line);
+    return offset;
+  }
+
+  // Emits a jump whose target is patched later; returns the operand's position
+  private emitJump(op: Op, ...operands: number[]): number {
+    return this.emit(op, -1, ...operands) + 1;
+  }
+
+  private patch(position: number, target = this.state.chunk.code.length) {
+    this.state.chunk.code[position] = target;
+  }
+
+  // AST nodes are stored as-is so the VM can report errors with their spans
+  private constant(value: any): number {
+    const { chunk, constants } = this.state;
+    const index = constants.get(value);
+    if (index !== undefined) return index;
+    constants.set(value, chunk.constants.length);
+    chunk.constants.push(value);
+    return chunk.constants.length - 1;
+  }
+
+  private snapshot(line: number) {
+    if (this.trace) this.emit(Op.SNAPSHOT, line);
+  }
+
+  private at(line: number) {
+    this.state.line = line;
+  }
+
+  // --- STATEMENTS ---
+
+  private statements(statements: Statement[]) {
+    for (const stmt of statements) this.statement(stmt);
+  }
+
+  // A block that declares nothing would only ever get an empty scope, which only the trace shows
+  private block(block: Block) {
+    if (!this.trace && !block.body.some(declares)) {
+      this.statements(block.body);
+      return;
+    }
+    this.enterScope(`block L${block.span.line}`);
+    this.statements(block.body);
+    this.at(block.span.endLine);
+    this.snapshot(block.span.endLine);
+    this.exitScope();
+  }
+
+  private enterScope(name: string) {
+    this.emit(Op.ENTER_SCOPE, this.constant(name));
+    this.state.scopeDepth++;
+  }
+
+  private exitScope() {
+    this.emit(Op.EXIT_SCOPE);
+    this.state.scopeDepth--;
+  }
+
+  private statement(stmt: Statement) {
+    this.at(stmt.span.line);
+    const line = stmt.span.line;
+    switch (stmt.kind) {
+      case 'VariableDeclaration':
+        this.expression(stmt.init);
+        this.emit(Op.DECLARE, this.constant(stmt.name));
+        this.snapshot(line);
+        break;
+      case 'Assignment':
+        if (stmt.target.kind === 'MemberExpression') {
+          this.expression(stmt.target.object);
+          this.emit(Op.MEMBER_OBJECT, this.constant(stmt.target));
+          this.expression(stmt.value);
+          this.emit(Op.SET_MEMBER, this.constant(stmt.target));
+        } else if (stmt.target.kind === 'IndexExpression') {
+          this.expression(stmt.target.object);
+          this.expression(stmt.target.index);
+          this.expression(stmt.value);
+          this.emit(Op.SET_INDEX, this.constant(stmt.target));
+        } else {
+          this.expression(stmt.value);
+          this.emit(Op.ASSIGN, this.constant(stmt.target));
+        }
+        this.snapshot(line);
+        break;
+      case 'PrintStatement':
+        this.expression(stmt.value);
+        this.emit(Op.PRINT);
+        this.snapshot(line);
+        break;
+      case 'IfStatement':
+        this.ifStatement(stmt);
+        break;
+      case 'WhileStatement': {
+        const top = this.state.chunk.code.length;
+        this.expression(stmt.test);
+        this.snapshot(line);
+        const exit = this.emitJump(Op.JUMP_IF_FALSE);
+        this.emit(Op.LOOP, this.constant(stmt.span));
+        const loop = this.loopBody(top, false, () => this.block(stmt.body));
+        this.at(line);
+        this.emit(Op.JUMP, top);
+        this.patch(exit);
+        for (const position of loop.breaks) this.patch(position);
+        break;
+      }
+      case 'ForRangeStatement':
+        this.expression(stmt.start);
+        this.expression(stmt.end);
+        this.emit(Op.RANGE, this.constant(stmt.span));
+        this.forLoop(stmt.variable, stmt.body, stmt.span);
+        break;
+      case 'ForEachStatement':
+        this.expression(stmt.iterable);
+        this.emit(Op.ITEMS, this.constant(stmt.iterable.span));
+        this.forLoop(stmt.variable, stmt.body, stmt.span);
+        break;
+      case 'FunctionDeclaration':
+        this.compileFunction(stmt, null);
+        this.emit(Op.FUNCTION, this.constant(stmt));
+        this.emit(Op.DECLARE, this.constant(stmt.name));
+        this.snapshot(line);
+        break;
+      case 'ClassDeclaration':
+        this.compileClass(stmt);
+        this.emit(Op.CLASS, this.constant(stmt));
+        this.emit(Op.DECLARE, this.constant(stmt.name));
+        this.snapshot(line);
+        break;
+      case 'ImportStatement': {
+        const binding: Identifier = { kind: 'Identifier', name: moduleBindingName(stmt.source.value), span: stmt.source.span };
+        this.emit(Op.IMPORT, this.constant(stmt));
+        this.emit(Op.DECLARE, this.constant(binding));
+        this.snapshot(line);
+        break;
+      }
+      case 'ReturnStatement':
+        if (stmt.argument) this.expression(stmt.argument);
+        else this.emit(Op.CONSTANT, this.constant(null));
+        this.snapshot(line);
+        if (this.state.inFunction) this.emit(Op.RETURN);
+        else this.emit(Op.ESCAPE, this.constant(stmt));
+        break;
+      case 'TryStatement': {
+        const handler = this.emitJump(Op.TRY);
+        this.state.handlerDepth++;
+        this.block(stmt.block);
+        this.state.handlerDepth--;
+        this.emit(Op.END_TRY);
+        const exit = this.emitJump(Op.JUMP);
+        this.patch(handler);
+        this.at(stmt.handler.span.line);
+        const info: CatchInfo = { param: stmt.param?.name ?? null, scope: `block L${stmt.handler.span.line}`, line: stmt.handler.span.line };
+        this.emit(Op.CATCH, this.constant(info));
+        this.state.scopeDepth++;
+        this.statements(stmt.handler.body);
+        this.at(stmt.handler.span.endLine);
+        this.snapshot(stmt.handler.span.endLine);
+        this.exitScope();
+        this.patch(exit);
+        break;
+      }
+      case 'ThrowStatement':
+        this.expression(stmt.argument);
+        this.snapshot(line);
+        this.emit(Op.THROW, this.constant(stmt.span));
+        break;
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        this.snapshot(line);
+        this.jumpOutOfLoop(stmt);
+        break;
+      case 'ExpressionStatement':
+        this.expression(stmt.expression);
+        this.emit(Op.POP);
+        this.snapshot(line);
+        break;
+    }
+  }
+
+  private ifStatement(stmt: IfStatement) {
+    this.expression(stmt.test);
+    this.snapshot(stmt.span.line);
+    const otherwise = this.emitJump(Op.JUMP_IF_FALSE);
+    this.block(stmt.consequent);
+    if (!stmt.alternate) {
+      this.patch(otherwise);
+      return;
+    }
+    const exit = this.emitJump(Op.JUMP);
+    this.patch(otherwise);
+    if (stmt.alternate.kind === 'Block') this.block(stmt.alternate);
+    else this.statement(stmt.alternate);
+    this.patch(exit);
+  }
+
+  // NEXT binds the variable in a fresh scope per iteration (one reused scope when the body is
+  // `shared`) and exits once the cursor runs out
+  private forLoop(variable: Identifier, body: Block, span: SourceSpan) {
+    const next = this.state.chunk.code.length;
+    const shared = !body.body.some(declares) && !capturesScope(body.body);
+    const info: LoopInfo = { variable: variable.name, scope: `block L${body.span.line}`, line: span.line, span, shared };
+    const exit = this.emitJump(Op.NEXT, this.constant(info));
+    const loop = this.loopBody(next, true, () => {
+      this.state.scopeDepth++;
+      this.statements(body.body);
+      this.at(body.span.endLine);
+      this.snapshot(body.span.endLine);
+      this.exitScope();
+    });
+    this.at(span.line);
+    this.emit(Op.JUMP, next);
+    this.patch(exit);
+    for (const position of loop.breaks) this.patch(position);
+  }
+
+  // The caller patches the returned breaks once the loop's closing jump is emitted
+  private loopBody(continueTarget: number, cursor: boolean, compile: () => void): LoopContext {
+    const loop: LoopContext = { continueTarget, breaks: [], scopeDepth: this.state.scopeDepth, handlerDepth: this.state.handlerDepth, cursor };
+    this.state.loops.push(loop);
+    compile();
+    this.state.loops.pop();
+    return loop;
+  }
+
+  // Outside any loop the VM raises the same error the interpreter reports for a stray signal
+  private jumpOutOfLoop(stmt: BreakStatement | ContinueStatement) {
+    const loop = this.state.loops[this.state.loops.length - 1];
+    if (!loop) {
+      this.emit(Op.ESCAPE, this.constant(stmt));
+      return;
+    }
+    for (let depth = this.state.handlerDepth; depth > loop.handlerDepth; depth--) this.emit(Op.END_TRY);
+    for (let depth = this.state.scopeDepth; depth > loop.scopeDepth; depth--) this.emit(Op.EXIT_SCOPE);
+    if (stmt.kind === 'ContinueStatement') {
+      this.emit(Op.JUMP, loop.continueTarget);
+      return;
+    }
+    if (loop.cursor) this.emit(Op.POP);
+    loop.breaks.push(this.emitJump(Op.JUMP));
+  }
+
+  // --- EXPRESSIONS ---
+
+  private expression(expr: Expression) {
+    switch (expr.kind) {
+      case 'NumberLiteral':
+      case 'StringLiteral':
+      case 'BooleanLiteral':
+        this.emit(Op.CONSTANT, this.constant(expr.value));
+        break;
+      case 'NullLiteral':
+        this.emit(Op.CONSTANT, this.constant(null));
+        break;
+      case 'ListLiteral':
+        for (const element of expr.elements) this.expression(element);
+        this.emit(Op.LIST, expr.elements.length);
+        break;
+      case 'DictLiteral':
+        for (const entry of expr.entries) {
+          this.expression(entry.key);
+          this.emit(Op.DICT_KEY, this.constant(entry.key.span));
+          this.expression(entry.value);
+        }
+        this.emit(Op.DICT, expr.entries.length);
+        break;
+      case 'IndexExpression':
+        this.expression(expr.object);
+        this.expression(expr.index);
+        this.emit(Op.GET_INDEX, this.constant(expr));
+        break;
+      case 'Identifier':
+        this.emit(Op.LOAD, this.constant(expr));
+        break;
+      case 'BinaryExpression':
+        this.expression(expr.left);
+        this.expression(expr.right);
+        this.emit(BINARY_OPS[expr.operator]);
+        break;
+      case 'LogicalExpression': {
+        // Both operands are reduced to booleans, as in the interpreter
+        this.expression(expr.left);
+        const exit = this.emitJump(expr.operator === '&&' ? Op.AND : Op.OR);
+        this.expression(expr.right);
+        this.emit(Op.TRUTHY);
+        this.patch(exit);
+        break;
+      }
+      case 'UnaryExpression':
+        this.expression(expr.argument);
+        this.emit(expr.operator === '-' ? Op.NEGATE : Op.NOT);
+        break;
+      case 'ThisExpression':
+        this.emit(Op.THIS, this.constant(expr.span));
+        break;
+      case 'MemberExpression':
+        this.expression(expr.object);
+        this.emit(Op.GET_MEMBER, this.constant(expr));
+        break;
+      case 'CallExpression':
+        // The callee is checked before its arguments run
+        this.expression(expr.callee);
+        this.emit(Op.CALLABLE, this.constant(expr.callee));
+        for (const arg of expr.args) this.expression(arg);
+        this.emit(Op.CALL, expr.args.length, this.constant(expr));
+        break;
+    }
+  }
+}
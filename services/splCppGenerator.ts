@@ -0,0 +1,860 @@
+import { KEYWORDS } from "../constants";
+import { ScriptMode } from "../types";
+import {
+  Program, Statement, Expression, FunctionDeclaration, ClassDeclaration, IfStatement, Identifier, alwaysExits, namesIn, returnsOf
+} from "./splAst";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+import { undeclaredMessage } from "./splDiagnostics";
+import { ModuleResolver, moduleBindingName } from "./splModules";
+import { SPLTypeChecker, TypeCheckResult, cppType, declaredAt, prune } from "./splTypeChecker";
+
+// Anything without a fixed C++ type: lists, dictionaries, objects, shunyam, generics
+const VALUE = 'san::Value';
+
+// C++ keywords and names that clash with the runtime get a trailing underscore
+const RESERVED = new Set([
+  'alignas', 'alignof', 'and', 'and_eq', 'asm', 'auto', 'bitand', 'bitor', 'bool', 'break', 'case', 'catch',
+  'char', 'char8_t', 'char16_t', 'char32_t', 'class', 'compl', 'concept', 'const', 'consteval', 'constexpr',
+  'constinit', 'const_cast', 'continue', 'co_await', 'co_return', 'co_yield', 'decltype', 'default', 'delete',
+  'do', 'double', 'dynamic_cast', 'else', 'enum', 'explicit', 'export', 'extern', 'false', 'float', 'for',
+  'friend', 'goto', 'if', 'inline', 'int', 'long', 'mutable', 'namespace', 'new', 'noexcept', 'not', 'not_eq',
+  'nullptr', 'operator', 'or', 'or_eq', 'private', 'protected', 'public', 'register', 'reinterpret_cast',
+  'requires', 'return', 'short', 'signed', 'sizeof', 'static', 'static_assert', 'static_cast', 'struct',
+  'switch', 'template', 'this', 'thread_local', 'throw', 'true', 'try', 'typedef', 'typeid', 'typename',
+  'union', 'unsigned', 'using', 'virtual', 'void', 'volatile', 'wchar_t', 'while', 'xor', 'xor_eq',
+  'main', 'san', 'std', 'NULL', 'EOF', 'assert', 'errno', 'stdin', 'stdout', 'stderr'
+]);
+
+const mangle = (name: string): string => RESERVED.has(name) ? `${name}_` : name;
+
+// Builtins are called by either name; both map to san::<roman name>
+const BUILTIN_NAMES: Record<string, string> = {};
+for (const [name, builtin] of Object.entries(BUILTIN_FUNCTIONS)) {
+  BUILTIN_NAMES[name] = BUILTIN_NAMES[builtin.devanagari] = name;
+}
+
+// A signature word such as sankhya as a C++ type, if it is a fixed scalar
+const SIGNATURE_TYPES: Record<string, string> = { sankhya: 'double', vakyam: 'std::string', tarkah: 'bool', shunyam: 'void' };
+
+const signatureParts = (signature: string): { params: string[]; result: string } => {
+  const [params, result] = signature.slice(1).split(') -> ');
+  const words: string[] = [];
+  let depth = 0;
+  let word = '';
+  for (const c of params) {
+    if (c === ',' && depth === 0) {
+      words.push(word.trim());
+      word = '';
+      continue;
+    }
+    if (c === '<') depth++;
+    if (c === '>') depth--;
+    word += c;
+  }
+  if (word.trim()) words.push(word.trim());
+  return { params: words, result };
+};
+
+interface Signature {
+  params: string[];
+  result: string;
+}
+
+interface Binding {
+  cpp: string;
+  // Static C++ type of the name
+  type: string;
+  // Held in a shared_ptr, because a karyam that may outlive the scope uses it
+  boxed: boolean;
+  // Calls to a known karyam convert each argument to its parameter type
+  signature?: Signature;
+  // anayati of a built-in module, which maps to a C++ namespace
+  builtinModule?: Record<string, unknown>;
+}
+
+class Scope {
+  public bindings = new Map<string, Binding>();
+  constructor(public parent: Scope | null) {}
+
+  public lookup(name: string): Binding | null {
+    return this.bindings.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+// An expression as C++ text with its static type
+interface Emitted {
+  code: string;
+  type: string;
+}
+
+// Loader functions for project modules, shared by the generators of all files in a program
+interface ModuleRegistry {
+  loaders: Map<string, { name: string; code: string[] }>;
+}
+
+interface FunctionContext {
+  // Methods always return a san::Value, even for a bare pratyarpayatu
+  result: string;
+}
+
+/**
+ * Turns the AST into a C++17 program against Sanskritam.h. Names whose type the
+ * checker pinned down become double, std::string, bool or std::function; the
+ * rest, and every list, dictionary and object, is a san::Value with the
+ * playground's semantics. A program with type mismatches is generated fully
+ * dynamically, so it behaves as it does in the interpreter. Each karyam is a
+ * lambda; locals that a nested karyam uses are boxed in shared_ptrs, since the
+ * lambda may outlive the call that created them.
+ */
+export class SPLCppGenerator {
+  private lines: string[] = [];
+  private indent = 0;
+  private dynamic: boolean;
+  private boxed = new Set<string>();
+  private captures = new Map<object, Set<string>>();
+  // Names assigned shunyam somewhere, and karyam parameters that receive it
+  private nullable = new Set<string>();
+  private nullArguments = new Map<string, Set<number>>();
+  private functions: FunctionContext[] = [];
+  private loops = 0;
+
+  constructor(
+    private program: Program,
+    private types: TypeCheckResult,
+    private mode: ScriptMode,
+    private resolveModule: ModuleResolver,
+    private registry: ModuleRegistry = { loaders: new Map() },
+    // Set when generating the loader of an imported file; top-level names become statics
+    private moduleName: string | null = null
+  ) {
+    this.dynamic = types.mismatches.length > 0;
+    this.analyze();
+  }
+
+  public generate(): string {
+    this.indent = 2;
+    if (this.mode === ScriptMode.DEVANAGARI) this.emit(`san::devanagari_script();`);
+    this.emitStatements(this.program.body, new Scope(null));
+    const body = this.lines;
+
+    const out = [`#include "Sanskritam.h"`, ``, `using namespace std::string_literals;`, ``];
+    if (this.registry.loaders.size > 0) {
+      for (const loader of this.registry.loaders.values()) out.push(`san::Value ${loader.name}();`);
+      out.push('');
+      for (const [fileName, loader] of this.registry.loaders) out.push(`// ${fileName}`, ...loader.code, '');
+    }
+    out.push(
+      `int main() {`,
+      `  try {`,
+      ...body,
+      `  } catch (const san::Exception& spl_error) {`,
+      `    std::cerr << "Uncaught exception: " << spl_error.what() << std::endl;`,
+      `    return 1;`,
+      `  }`,
+      `  return 0;`,
+      `}`
+    );
+    return out.join('\n');
+  }
+
+  // Body of a module loader: runs the file once and returns its exports
+  private generateLoader(name: string, loader: string): string[] {
+    this.indent = 1;
+    const scope = new Scope(null);
+    this.emitStatements(this.program.body, scope);
+    const exports = [...scope.bindings.entries()]
+      .filter(([, binding]) => !binding.builtinModule)
+      .map(([spl, binding]) => `{"${spl}", ${this.asValue({ code: binding.cpp, type: binding.type })}}`);
+    return [
+      `san::Value ${loader}() {`,
+      `  static int state = 0;`,
+      `  static san::Value exports;`,
+      `  if (state == 1) throw san::Exception("Circular import: ${name}");`,
+      `  if (state == 2) return exports;`,
+      `  state = 1;`,
+      ...this.lines,
+      `  exports = san::make_module("${name}", {${exports.join(', ')}});`,
+      `  state = 2;`,
+      `  return exports;`,
+      `}`
+    ];
+  }
+
+  private emit(text: string) {
+    this.lines.push('  '.repeat(this.indent) + text);
+  }
+
+  // --- ANALYSIS ---
+
+  // Finds the locals that nested karyams capture, and where shunyam flows into names
+  private analyze() {
+    interface Declared { key: string; cpp: string; depth: number; topLevel: boolean }
+    const scopes: Map<string, Declared>[] = [];
+    const frames: object[] = [];
+    const declare = (name: string, key: string) => {
+      scopes[scopes.length - 1].set(name, { key, cpp: mangle(name), depth: frames.length, topLevel: scopes.length === 1 });
+    };
+    const use = (name: string) => {
+      for (let i = scopes.length - 1; i >= 0; i--) {
+        const declared = scopes[i].get(name);
+        if (!declared) continue;
+        if (declared.topLevel || declared.depth >= frames.length) return;
+        // ayam is a shared handle that is never reassigned, so a copy is enough
+        if (declared.key) this.boxed.add(declared.key);
+        for (const frame of frames.slice(declared.depth)) {
+          if (!this.captures.has(frame)) this.captures.set(frame, new Set());
+          this.captures.get(frame)!.add(declared.cpp);
+        }
+        return;
+      }
+    };
+    const expression = (expr: Expression): void => {
+      switch (expr.kind) {
+        case 'Identifier': use(expr.name); break;
+        case 'ThisExpression': use(KEYWORDS.THIS.roman); break;
+        case 'BinaryExpression':
+        case 'LogicalExpression': expression(expr.left); expression(expr.right); break;
+        case 'UnaryExpression': expression(expr.argument); break;
+        case 'ListLiteral': expr.elements.forEach(expression); break;
+        case 'DictLiteral': expr.entries.forEach(entry => { expression(entry.key); expression(entry.value); }); break;
+        case 'IndexExpression': expression(expr.object); expression(expr.index); break;
+        case 'MemberExpression': expression(expr.object); break;
+        case 'CallExpression':
+          expression(expr.callee);
+          expr.args.forEach((arg, i) => {
+            if (arg.kind !== 'NullLiteral' || expr.callee.kind !== 'Identifier') return;
+            const name = expr.callee.name;
+            if (!this.nullArguments.has(name)) this.nullArguments.set(name, new Set());
+            this.nullArguments.get(name)!.add(i);
+          });
+          expr.args.forEach(expression);
+          break;
+      }
+    };
+    // Declarations are visible from the start of their block, as the generator hoists them
+    const block = (body: Statement[], params: Identifier[] = []) => {
+      scopes.push(new Map());
+      params.forEach(param => declare(param.name, declaredAt(param.span)));
+      for (const stmt of body) {
+        if (stmt.kind === 'VariableDeclaration' || stmt.kind === 'FunctionDeclaration' || stmt.kind === 'ClassDeclaration') {
+          declare(stmt.name.name, declaredAt(stmt.name.span));
+        } else if (stmt.kind === 'ImportStatement') {
+          declare(moduleBindingName(stmt.source.value), declaredAt(stmt.span));
+        }
+      }
+      body.forEach(statement);
+      scopes.pop();
+    };
+    const karyam = (fn: FunctionDeclaration, method: boolean) => {
+      frames.push(fn);
+      scopes.push(new Map());
+      if (method) declare(KEYWORDS.THIS.roman, '');
+      block(fn.body.body, fn.params);
+      scopes.pop();
+      frames.pop();
+    };
+    const statement = (stmt: Statement): void => {
+      switch (stmt.kind) {
+        case 'VariableDeclaration': expression(stmt.init); break;
+        case 'Assignment':
+          if (stmt.target.kind === 'Identifier' && stmt.value.kind === 'NullLiteral') this.nullable.add(stmt.target.name);
+          expression(stmt.target);
+          expression(stmt.value);
+          break;
+        case 'PrintStatement': expression(stmt.value); break;
+        case 'ThrowStatement': expression(stmt.argument); break;
+        case 'ExpressionStatement': expression(stmt.expression); break;
+        case 'ReturnStatement': if (stmt.argument) expression(stmt.argument); break;
+        case 'IfStatement':
+          expression(stmt.test);
+          block(stmt.consequent.body);
+          if (stmt.alternate?.kind === 'Block') block(stmt.alternate.body);
+          else if (stmt.alternate) statement(stmt.alternate);
+          break;
+        case 'WhileStatement': expression(stmt.test); block(stmt.body.body); break;
+        case 'ForRangeStatement':
+          expression(stmt.start);
+          expression(stmt.end);
+          block(stmt.body.body, [stmt.variable]);
+          break;
+        case 'ForEachStatement':
+          expression(stmt.iterable);
+          block(stmt.body.body, [stmt.variable]);
+          break;
+        case 'TryStatement':
+          block(stmt.block.body);
+          block(stmt.handler.body, stmt.param ? [stmt.param] : []);
+          break;
+        case 'FunctionDeclaration': karyam(stmt, false); break;
+        case 'ClassDeclaration':
+          frames.push(stmt);
+          stmt.fields.forEach(field => expression(field.init));
+          frames.pop();
+          stmt.methods.forEach(method => karyam(method, true));
+          break;
+      }
+    };
+    block(this.program.body);
+  }
+
+  // --- TYPES ---
+
+  private declaredType(name: Identifier, init?: Expression): string {
+    if (this.dynamic || this.nullable.has(name.name) || init?.kind === 'NullLiteral') return VALUE;
+    const type = this.types.declarations.get(declaredAt(name.span));
+    return (type && cppType(type)) ?? VALUE;
+  }
+
+  // A variable holding a karyam of known type is called directly, like the karyam itself
+  private variableBinding(name: Identifier, init?: Expression): Omit<Binding, 'cpp' | 'boxed'> {
+    const type = this.declaredType(name, init);
+    const t = prune(this.types.declarations.get(declaredAt(name.span)) ?? { kind: 'any' });
+    if (type === VALUE || t.kind !== 'function') return { type };
+    return { type, signature: { params: t.params.map(p => cppType(p)!), result: cppType(t.result, true)! } };
+  }
+
+  // Parameters as inferred; the result is void, a fixed type when every path returns one, or san::Value
+  private karyamSignature(fn: FunctionDeclaration): Signature {
+    const type = this.types.declarations.get(declaredAt(fn.name.span));
+    const t = type && prune(type);
+    const nulls = this.nullArguments.get(fn.name.name);
+    const params = fn.params.map((_, i) => {
+      if (this.dynamic || nulls?.has(i) || !t || t.kind !== 'function') return VALUE;
+      return cppType(t.params[i]) ?? VALUE;
+    });
+    const returned = returnsOf(fn.body.body);
+    if (!returned.some(Boolean)) return { params, result: 'void' };
+    const fixed = !this.dynamic && t?.kind === 'function' && alwaysExits(fn.body.body)
+      && returned.every(arg => arg && arg.kind !== 'NullLiteral') ? cppType(t.result, true) : null;
+    return { params, result: fixed && fixed !== 'void' ? fixed : VALUE };
+  }
+
+  private functionType(signature: Signature): string {
+    return `std::function<${signature.result}(${signature.params.join(', ')})>`;
+  }
+
+  // Converts an expression to the given static type; a mismatch is checked at run time
+  private coerce(expr: Emitted, to: string): string {
+    if (expr.type === to) return expr.code;
+    if (expr.type === 'void') return this.coerce({ code: `(${expr.code}, san::Value())`, type: VALUE }, to);
+    if (to === VALUE) return expr.code;
+    if (expr.type === VALUE) return `san::as<${to}>(${expr.code})`;
+    return `san::as<${to}>(san::Value(${expr.code}))`;
+  }
+
+  // Explicitly a san::Value, for templates that would otherwise see the static type
+  private asValue(expr: Emitted): string {
+    if (expr.type === VALUE) return expr.code;
+    if (expr.type === 'void') return `(${expr.code}, san::Value())`;
+    return `san::Value(${expr.code})`;
+  }
+
+  // Value for vadatu, kshipatu and generic builtins: scalars print themselves, karyams need wrapping
+  private printable(expr: Emitted): string {
+    return expr.type === 'void' || expr.type.startsWith('std::function') ? this.asValue(expr) : expr.code;
+  }
+
+  private condition(expr: Emitted): string {
+    return expr.type === 'bool' ? expr.code : `san::truthy(${this.printable(expr)})`;
+  }
+
+  // --- STATEMENTS ---
+
+  private isTopLevel(scope: Scope): boolean {
+    return this.moduleName !== null && scope.parent === null;
+  }
+
+  private declarationPrefix(scope: Scope): string {
+    return this.isTopLevel(scope) ? 'static ' : '';
+  }
+
+  private emitStatements(statements: Statement[], scope: Scope) {
+    // A declaration that an earlier statement refers to (say, a karyam calling a later one) is declared up front
+    const ahead = new Set<Statement>();
+    statements.forEach((stmt, i) => {
+      if (stmt.kind !== 'VariableDeclaration' && stmt.kind !== 'FunctionDeclaration' && stmt.kind !== 'ClassDeclaration') return;
+      if (statements.slice(0, i).some(earlier => namesIn(earlier).has(stmt.name.name))) ahead.add(stmt);
+    });
+    for (const stmt of ahead) this.declareAhead(stmt as Extract<Statement, { name: Identifier }>, scope);
+    for (const stmt of statements) this.emitStatement(stmt, scope, ahead.has(stmt));
+  }
+
+  private emitNested(statements: Statement[], scope: Scope) {
+    this.indent++;
+    this.emitStatements(statements, new Scope(scope));
+    this.indent--;
+  }
+
+  private bind(scope: Scope, name: Identifier, binding: Omit<Binding, 'cpp' | 'boxed'>): Binding {
+    const full = { ...binding, cpp: mangle(name.name), boxed: this.boxed.has(declaredAt(name.span)) };
+    scope.bindings.set(name.name, full);
+    return full;
+  }
+
+  private declareAhead(stmt: Extract<Statement, { name: Identifier }>, scope: Scope) {
+    let binding: Binding;
+    if (stmt.kind === 'FunctionDeclaration') {
+      const signature = this.karyamSignature(stmt);
+      binding = this.bind(scope, stmt.name, { type: this.functionType(signature), signature });
+    } else if (stmt.kind === 'ClassDeclaration') {
+      binding = this.bind(scope, stmt.name, { type: VALUE });
+    } else {
+      binding = this.bind(scope, stmt.name, this.variableBinding(stmt.name, stmt.init));
+    }
+    // Until its declaration runs, a karyam fails as the engine does when it is called
+    const initial = stmt.kind === 'FunctionDeclaration' ? `san::undeclared<${binding.type}>(${JSON.stringify(undeclaredMessage(stmt.name.name))})` : '';
+    if (binding.boxed) this.emit(`auto ${binding.cpp} = std::make_shared<${binding.type}>(${initial});`);
+    else this.emit(`${this.declarationPrefix(scope)}${binding.type} ${binding.cpp}{${initial}};`);
+  }
+
+  private reference(binding: Binding): string {
+    return binding.boxed ? `(*${binding.cpp})` : binding.cpp;
+  }
+
+  // Declares a new local: plain, boxed, or already declared ahead and now assigned
+  private emitDeclaration(binding: Binding, value: string, declaredAhead: boolean, scope: Scope) {
+    if (declaredAhead) this.emit(`${this.reference(binding)} = ${value};`);
+    else if (binding.boxed) this.emit(`auto ${binding.cpp} = std::make_shared<${binding.type}>(${value});`);
+    else this.emit(`${this.declarationPrefix(scope)}${binding.type} ${binding.cpp} = ${value};`);
+  }
+
+  private emitStatement(stmt: Statement, scope: Scope, declaredAhead = false) {
+    switch (stmt.kind) {
+      case 'VariableDeclaration': {
+        const value = this.expression(stmt.init, scope);
+        const binding = declaredAhead ? scope.bindings.get(stmt.name.name)! : this.bind(scope, stmt.name, this.variableBinding(stmt.name, stmt.init));
+        this.emitDeclaration(binding, this.coerce(value, binding.type), declaredAhead, scope);
+        break;
+      }
+      case 'Assignment': {
+        const value = this.expression(stmt.value, scope);
+        const target = stmt.target;
+        if (target.kind === 'Identifier') {
+          const binding = scope.lookup(target.name);
+          if (binding) this.emit(`${this.reference(binding)} = ${this.coerce(value, binding.type)};`);
+          else this.emit(`${mangle(target.name)} = ${value.code};`);
+        } else if (target.kind === 'MemberExpression') {
+          this.emit(`san::field(${this.asValue(this.expression(target.object, scope))}, "${target.property.name}") = ${this.coerce(value, VALUE)};`);
+        } else {
+          const object = this.asValue(this.expression(target.object, scope));
+          const index = this.asValue(this.expression(target.index, scope));
+          this.emit(`san::slot(${object}, ${index}) = ${this.coerce(value, VALUE)};`);
+        }
+        break;
+      }
+      case 'PrintStatement':
+        this.emit(`san::vadatu(${this.printable(this.expression(stmt.value, scope))});`);
+        break;
+      case 'ExpressionStatement':
+        this.emit(`${this.expression(stmt.expression, scope).code};`);
+        break;
+      case 'IfStatement':
+        this.emitIf(stmt, scope);
+        break;
+      case 'WhileStatement':
+        this.emit(`while (${this.condition(this.expression(stmt.test, scope))}) {`);
+        this.emitLoopBody(stmt.body.body, scope);
+        this.emit(`}`);
+        break;
+      case 'ForRangeStatement': {
+        const start = this.coerce(this.expression(stmt.start, scope), 'double');
+        const end = this.coerce(this.expression(stmt.end, scope), 'double');
+        this.emitLoop(stmt.variable, 'double', `san::range(${start}, ${end})`, stmt.body.body, scope);
+        break;
+      }
+      case 'ForEachStatement': {
+        const iterable = this.expression(stmt.iterable, scope);
+        if (iterable.type === 'std::string') this.emitLoop(stmt.variable, 'std::string', `san::codepoints(${iterable.code})`, stmt.body.body, scope);
+        else this.emitLoop(stmt.variable, VALUE, `san::items(${this.asValue(iterable)})`, stmt.body.body, scope);
+        break;
+      }
+      case 'FunctionDeclaration':
+        this.emitFunction(stmt, scope, declaredAhead);
+        break;
+      case 'ClassDeclaration':
+        this.emitClass(stmt, scope, declaredAhead);
+        break;
+      case 'ImportStatement':
+        this.emitImport(stmt.source.value, scope);
+        break;
+      case 'ReturnStatement': {
+        const context = this.functions[this.functions.length - 1];
+        if (!context) {
+          this.emit(`throw san::Exception("'${KEYWORDS.RETURN.roman}' used outside of a function");`);
+        } else if (context.result === 'void') {
+          if (stmt.argument) this.emit(`${this.expression(stmt.argument, scope).code};`);
+          this.emit(`return;`);
+        } else {
+          const value: Emitted = stmt.argument ? this.expression(stmt.argument, scope) : { code: 'san::Value()', type: VALUE };
+          this.emit(`return ${this.coerce(value, context.result)};`);
+        }
+        break;
+      }
+      case 'TryStatement': {
+        this.emit(`try {`);
+        this.emitNested(stmt.block.body, scope);
+        this.emit(`} catch (const san::Exception& spl_error) {`);
+        this.indent++;
+        const handler = new Scope(scope);
+        if (stmt.param) {
+          const binding = this.bind(handler, stmt.param, { type: VALUE });
+          this.emitDeclaration(binding, 'spl_error.value', false, handler);
+        }
+        this.emitStatements(stmt.handler.body, handler);
+        this.indent--;
+        this.emit(`}`);
+        break;
+      }
+      case 'ThrowStatement':
+        this.emit(`throw san::Exception(${this.printable(this.expression(stmt.argument, scope))});`);
+        break;
+      case 'BreakStatement':
+      case 'ContinueStatement': {
+        const keyword = stmt.kind === 'BreakStatement' ? KEYWORDS.BREAK.roman : KEYWORDS.CONTINUE.roman;
+        if (this.loops === 0) this.emit(`throw san::Exception("'${keyword}' used outside of a loop");`);
+        else this.emit(stmt.kind === 'BreakStatement' ? `break;` : `continue;`);
+        break;
+      }
+    }
+  }
+
+  // anyatha yadi chains become else if
+  private emitIf(stmt: IfStatement, scope: Scope) {
+    let current = stmt;
+    let opening = `if`;
+    for (;;) {
+      this.emit(`${opening} (${this.condition(this.expression(current.test, scope))}) {`);
+      this.emitNested(current.consequent.body, scope);
+      const alternate = current.alternate;
+      if (alternate?.kind === 'IfStatement') {
+        current = alternate;
+        opening = `} else if`;
+        continue;
+      }
+      if (alternate) {
+        this.emit(`} else {`);
+        this.emitNested(alternate.body, scope);
+      }
+      this.emit(`}`);
+      return;
+    }
+  }
+
+  private emitLoopBody(statements: Statement[], scope: Scope, loop = new Scope(scope)) {
+    this.loops++;
+    this.indent++;
+    this.emitStatements(statements, loop);
+    this.indent--;
+    this.loops--;
+  }
+
+  // The loop variable is fresh on every pass, as in the playground
+  private emitLoop(variable: Identifier, elementType: string, source: string, body: Statement[], scope: Scope) {
+    const loop = new Scope(scope);
+    const binding = this.bind(loop, variable, elementType === 'double' ? { type: 'double' } : this.variableBinding(variable));
+    const type = binding.type;
+    if (!binding.boxed && type === elementType) {
+      this.emit(`for (${type} ${binding.cpp} : ${source}) {`);
+      this.emitLoopBody(body, scope, loop);
+    } else {
+      const item = `spl_${binding.cpp}`;
+      this.emit(`for (${elementType} ${item} : ${source}) {`);
+      this.indent++;
+      this.emitDeclaration(binding, this.coerce({ code: item, type: elementType }, type), false, loop);
+      this.indent--;
+      this.emitLoopBody(body, scope, loop);
+    }
+    this.emit(`}`);
+  }
+
+  // Captured locals are boxed, so the lambda copies the box; a module alias is not a variable
+  private captureList(node: object, scope: Scope): string {
+    const copied = [...this.captures.get(node) ?? []].filter(name => !scope.lookup(name)?.builtinModule);
+    return `[&${copied.map(name => `, ${name}`).join('')}]`;
+  }
+
+  // Parameters a nested karyam uses arrive under another name and are boxed on entry
+  private emitParameters(params: Identifier[], types: string[], scope: Scope, incoming: string[]) {
+    params.forEach((param, i) => {
+      const binding = this.bind(scope, param, types[i] === VALUE ? { type: VALUE } : this.variableBinding(param));
+      if (binding.boxed) this.emit(`auto ${binding.cpp} = std::make_shared<${types[i]}>(${incoming[i]});`);
+      else if (incoming[i] !== binding.cpp) this.emit(`${types[i]} ${binding.cpp} = ${incoming[i]};`);
+    });
+  }
+
+  private emitBody(fn: FunctionDeclaration, scope: Scope, context: FunctionContext) {
+    const loops = this.loops;
+    this.loops = 0;
+    this.functions.push(context);
+    this.emitStatements(fn.body.body, scope);
+    if (context.result === VALUE && !alwaysExits(fn.body.body)) this.emit(`return san::Value();`);
+    this.functions.pop();
+    this.loops = loops;
+  }
+
+  private emitFunction(fn: FunctionDeclaration, scope: Scope, declaredAhead: boolean) {
+    const signature = this.karyamSignature(fn);
+    const binding = declaredAhead ? scope.bindings.get(fn.name.name)! : this.bind(scope, fn.name, { type: this.functionType(signature), signature });
+    const body = new Scope(scope);
+    const incoming = fn.params.map(param => this.boxed.has(declaredAt(param.span)) ? `spl_${mangle(param.name)}` : mangle(param.name));
+    const params = incoming.map((name, i) => `${signature.params[i]} ${name}`);
+    const lambda = `${this.captureList(fn, scope)}(${params.join(', ')}) -> ${signature.result} {`;
+    // A boxed karyam exists before its lambda, so the lambda can capture itself
+    if (binding.boxed) {
+      if (!declaredAhead) this.emit(`auto ${binding.cpp} = std::make_shared<${binding.type}>();`);
+      this.emit(`*${binding.cpp} = ${lambda}`);
+    } else if (declaredAhead) {
+      this.emit(`${binding.cpp} = ${lambda}`);
+    } else {
+      this.emit(`${this.declarationPrefix(scope)}${binding.type} ${binding.cpp} = ${lambda}`);
+    }
+    this.indent++;
+    this.emitParameters(fn.params, signature.params, body, incoming);
+    this.emitBody(fn, body, { result: signature.result });
+    this.indent--;
+    this.emit(`};`);
+  }
+
+  // A shreni is a san::Class: a field initialiser plus methods taking ayam and their arguments
+  private emitClass(stmt: ClassDeclaration, scope: Scope, declaredAhead: boolean) {
+    const binding = declaredAhead ? scope.bindings.get(stmt.name.name)! : this.bind(scope, stmt.name, { type: VALUE });
+    const start = `san::make_class("${stmt.name.name}", `;
+    const fieldsStart = stmt.fields.length > 0 ? `${this.captureList(stmt, scope)}(san::Value ayam) {` : `nullptr, {`;
+    if (binding.boxed) {
+      if (!declaredAhead) this.emit(`auto ${binding.cpp} = std::make_shared<san::Value>();`);
+      this.emit(`*${binding.cpp} = ${start}${fieldsStart}`);
+    } else if (declaredAhead) {
+      this.emit(`${binding.cpp} = ${start}${fieldsStart}`);
+    } else {
+      this.emit(`${this.declarationPrefix(scope)}san::Value ${binding.cpp} = ${start}${fieldsStart}`);
+    }
+    this.indent++;
+    if (stmt.fields.length > 0) {
+      for (const field of stmt.fields) {
+        this.emit(`san::declare_field(ayam, "${field.name.name}", ${this.coerce(this.expression(field.init, scope), VALUE)});`);
+      }
+      this.indent--;
+      this.emit(`}, {`);
+      this.indent++;
+    }
+    for (const method of stmt.methods) {
+      const body = new Scope(scope);
+      body.bindings.set(KEYWORDS.THIS.roman, { cpp: 'ayam', type: VALUE, boxed: false });
+      this.emit(`{"${method.name.name}", {${method.params.length}, ${this.captureList(method, scope)}(san::Value ayam, const std::vector<san::Value>& spl_args) -> san::Value {`);
+      this.indent++;
+      this.emitParameters(method.params, method.params.map(() => VALUE), body, method.params.map((_, i) => `spl_args[${i}]`));
+      this.emitBody(method, body, { result: VALUE });
+      this.indent--;
+      this.emit(`}}},`);
+    }
+    this.indent--;
+    this.emit(`});`);
+  }
+
+  // ganita maps to a namespace; a project file gets a loader that runs it once
+  private emitImport(source: string, scope: Scope) {
+    const name = moduleBindingName(source);
+    const module = this.resolveModule(source);
+    if (module?.kind === 'builtin') {
+      scope.bindings.set(name, { cpp: mangle(name), type: VALUE, boxed: false, builtinModule: module.members });
+      this.emit(`namespace ${mangle(name)} = san::${source};`);
+      return;
+    }
+    let value: string;
+    if (!module) {
+      value = `(throw san::Exception("Cannot find module '${source}'"), san::Value())`;
+    } else if (!module.program) {
+      value = `(throw san::Exception("Module '${source}' has syntax errors"), san::Value())`;
+    } else {
+      value = `${this.loaderFor(module.fileName, name, module.program)}()`;
+    }
+    const binding: Binding = { cpp: mangle(name), type: VALUE, boxed: false };
+    scope.bindings.set(name, binding);
+    this.emit(`${this.declarationPrefix(scope)}san::Value ${binding.cpp} = ${value};`);
+  }
+
+  private loaderFor(fileName: string, name: string, program: Program): string {
+    const existing = this.registry.loaders.get(fileName);
+    if (existing) return existing.name;
+    const taken = new Set([...this.registry.loaders.values()].map(loader => loader.name));
+    let loader = `load_${fileName.replace(/\.spl$/, '').replace(/\W/g, '_')}`;
+    for (let n = 2; taken.has(loader); n++) loader = `load_${n}_${fileName.replace(/\.spl$/, '').replace(/\W/g, '_')}`;
+    // Registered before generating, so an import cycle refers back to it
+    const entry = { name: loader, code: [] as string[] };
+    this.registry.loaders.set(fileName, entry);
+    const generator = new SPLCppGenerator(program, new SPLTypeChecker(program).check(), this.mode, this.resolveModule, this.registry, name);
+    entry.code = generator.generateLoader(name, loader);
+    return loader;
+  }
+
+  // --- EXPRESSIONS ---
+
+  private literal(value: number): string {
+    const text = String(value);
+    return Number.isInteger(value) && !/[e.]/.test(text) ? `${text}.0` : text;
+  }
+
+  // Operands that are themselves operations keep their grouping
+  private operand(expr: Expression, emitted: Emitted): string {
+    const grouped = expr.kind === 'BinaryExpression' || expr.kind === 'LogicalExpression' || expr.kind === 'UnaryExpression';
+    return grouped ? `(${emitted.code})` : emitted.code;
+  }
+
+  private expression(expr: Expression, scope: Scope): Emitted {
+    switch (expr.kind) {
+      case 'NumberLiteral':
+        return { code: this.literal(expr.value), type: 'double' };
+      case 'StringLiteral':
+        return { code: `"${expr.value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"s`, type: 'std::string' };
+      case 'BooleanLiteral':
+        return { code: String(expr.value), type: 'bool' };
+      case 'NullLiteral':
+        return { code: 'san::Value()', type: VALUE };
+      case 'ThisExpression':
+        return { code: 'ayam', type: VALUE };
+      case 'Identifier': {
+        const binding = scope.lookup(expr.name);
+        if (binding) return { code: this.reference(binding), type: binding.type };
+        return { code: BUILTIN_NAMES[expr.name] ? `san::${BUILTIN_NAMES[expr.name]}` : mangle(expr.name), type: VALUE };
+      }
+      case 'ListLiteral':
+        return { code: `san::list({${expr.elements.map(e => this.asElement(e, scope)).join(', ')}})`, type: VALUE };
+      case 'DictLiteral': {
+        const entries = expr.entries.map(entry => `{${this.asElement(entry.key, scope)}, ${this.asElement(entry.value, scope)}}`);
+        return { code: `san::dict({${entries.join(', ')}})`, type: VALUE };
+      }
+      case 'UnaryExpression': {
+        const argument = this.expression(expr.argument, scope);
+        if (expr.operator === '!') return { code: `!${this.wrap(this.condition(argument), argument.type === 'bool' ? expr.argument : null)}`, type: 'bool' };
+        if (argument.type === 'double') return { code: `-${this.operand(expr.argument, argument)}`, type: 'double' };
+        return { code: `-${this.operand(expr.argument, { code: this.asValue(argument), type: VALUE })}`, type: VALUE };
+      }
+      case 'LogicalExpression': {
+        const left = this.expression(expr.left, scope);
+        const right = this.expression(expr.right, scope);
+        const side = (e: Expression, emitted: Emitted) => emitted.type === 'bool' ? this.operand(e, emitted) : this.condition(emitted);
+        return { code: `${side(expr.left, left)} ${expr.operator} ${side(expr.right, right)}`, type: 'bool' };
+      }
+      case 'BinaryExpression':
+        return this.binary(expr.operator, expr.left, expr.right, scope);
+      case 'IndexExpression': {
+        const object = this.expression(expr.object, scope);
+        const index = this.expression(expr.index, scope);
+        if (object.type === 'std::string') return { code: `san::get(${object.code}, ${this.coerce(index, 'double')})`, type: 'std::string' };
+        return { code: `san::get(${this.asValue(object)}, ${this.asValue(index)})`, type: VALUE };
+      }
+      case 'MemberExpression': {
+        const module = expr.object.kind === 'Identifier' ? scope.lookup(expr.object.name)?.builtinModule : undefined;
+        if (module && expr.object.kind === 'Identifier') return this.builtinMember(expr.object.name, module, expr.property.name, null, scope);
+        return { code: `san::member(${this.asValue(this.expression(expr.object, scope))}, "${expr.property.name}")`, type: VALUE };
+      }
+      case 'CallExpression':
+        return this.call(expr.callee, expr.args, scope);
+    }
+  }
+
+  private wrap(code: string, expr: Expression | null): string {
+    return expr && (expr.kind === 'BinaryExpression' || expr.kind === 'LogicalExpression') ? `(${code})` : code;
+  }
+
+  // Element of a list or dictionary literal, converted by the initializer list
+  private asElement(expr: Expression, scope: Scope): string {
+    const emitted = this.expression(expr, scope);
+    return emitted.type === VALUE || emitted.type === 'double' || emitted.type === 'bool' || emitted.type === 'std::string'
+      ? emitted.code
+      : this.asValue(emitted);
+  }
+
+  private binary(operator: string, leftExpr: Expression, rightExpr: Expression, scope: Scope): Emitted {
+    const left = this.expression(leftExpr, scope);
+    const right = this.expression(rightExpr, scope);
+    const l = this.operand(leftExpr, left);
+    const r = this.operand(rightExpr, right);
+    const both = (type: string) => left.type === type && right.type === type;
+    const scalar = (type: string) => type === 'double' || type === 'bool';
+    switch (operator) {
+      case '+':
+        if (both('double')) return { code: `${l} + ${r}`, type: 'double' };
+        // Text joins numbers and booleans as vadatu would print them
+        if ((left.type === 'std::string' && (right.type === 'std::string' || scalar(right.type)))
+          || (scalar(left.type) && right.type === 'std::string')) {
+          return { code: `${l} + ${r}`, type: 'std::string' };
+        }
+        break;
+      case '-':
+      case '*':
+      case '/':
+        if (both('double')) return { code: `${l} ${operator} ${r}`, type: 'double' };
+        break;
+      case '%':
+        if (both('double')) return { code: `std::fmod(${left.code}, ${right.code})`, type: 'double' };
+        break;
+      case '==':
+      case '!=':
+        if (left.type === right.type && (scalar(left.type) || left.type === 'std::string')) return { code: `${l} ${operator} ${r}`, type: 'bool' };
+        break;
+      default:
+        if (both('double') || both('std::string')) return { code: `${l} ${operator} ${r}`, type: 'bool' };
+    }
+    // Everything else takes the dynamic path, which follows the interpreter's rules; one san::Value side is enough
+    const dynamic = (e: Expression, emitted: Emitted, force: boolean) =>
+      force || emitted.type === 'void' ? this.asValue(emitted) : this.operand(e, emitted);
+    const forceLeft = left.type !== VALUE && right.type !== VALUE;
+    const code = `${dynamic(leftExpr, left, forceLeft)} ${operator} ${dynamic(rightExpr, right, false)}`;
+    const comparison = ['==', '!=', '<', '>', '<=', '>='].includes(operator);
+    return { code, type: comparison ? 'bool' : VALUE };
+  }
+
+  // ganita.mulam(x) and ganita.pi, with numeric arguments
+  private builtinMember(moduleName: string, members: Record<string, unknown>, name: string, args: Expression[] | null, scope: Scope): Emitted {
+    const member = Object.prototype.hasOwnProperty.call(members, name) ? members[name] : undefined;
+    const qualified = `${mangle(moduleName)}::${name}`;
+    if (member === undefined) return { code: `(throw san::Exception("Module '${moduleName}' has no export '${name}'"), san::Value())`, type: VALUE };
+    if (typeof member !== 'function') {
+      const value: Emitted = { code: qualified, type: typeof member === 'number' ? 'double' : 'std::string' };
+      return args ? this.dynamicCall(this.asValue(value), args, scope) : value;
+    }
+    const fnType = `std::function<double(${Array(member.length).fill('double').join(', ')})>`;
+    if (!args) return { code: `san::Value(${fnType}(${qualified}))`, type: VALUE };
+    if (args.length !== member.length) return this.dynamicCall(`san::Value(${fnType}(${qualified}))`, args, scope);
+    return { code: `${qualified}(${args.map(arg => this.coerce(this.expression(arg, scope), 'double')).join(', ')})`, type: 'double' };
+  }
+
+  private dynamicCall(callee: string, args: Expression[], scope: Scope): Emitted {
+    return { code: `${callee}(${args.map(arg => this.printable(this.expression(arg, scope))).join(', ')})`, type: VALUE };
+  }
+
+  private call(callee: Expression, args: Expression[], scope: Scope): Emitted {
+    if (callee.kind === 'MemberExpression' && callee.object.kind === 'Identifier') {
+      const module = scope.lookup(callee.object.name)?.builtinModule;
+      if (module) return this.builtinMember(callee.object.name, module, callee.property.name, args, scope);
+    }
+    if (callee.kind === 'Identifier') {
+      const binding = scope.lookup(callee.name);
+      if (binding?.signature && binding.signature.params.length === args.length) {
+        const signature = binding.signature;
+        const converted = args.map((arg, i) => this.coerce(this.expression(arg, scope), signature.params[i]));
+        return { code: `${this.reference(binding)}(${converted.join(', ')})`, type: signature.result };
+      }
+      if (!binding && BUILTIN_NAMES[callee.name]) return this.builtinCall(BUILTIN_NAMES[callee.name], callee.name, args, scope);
+    }
+    const target = this.expression(callee, scope);
+    return this.dynamicCall(target.type === VALUE ? this.wrap(target.code, callee) : `san::Value(${target.code})`, args, scope);
+  }
+
+  // Arguments with a fixed type in the signature are converted; the rest pick a C++ overload
+  private builtinCall(name: string, spelled: string, args: Expression[], scope: Scope): Emitted {
+    const { params, result } = signatureParts(BUILTIN_FUNCTIONS[name].signature);
+    if (params.length !== args.length) {
+      const message = `'${spelled}' expects ${params.length} argument(s) but received ${args.length}`;
+      return { code: `(throw san::Exception("${message}"), san::Value())`, type: VALUE };
+    }
+    const emitted = args.map(arg => this.expression(arg, scope));
+    const converted = emitted.map((arg, i) => SIGNATURE_TYPES[params[i]] ? this.coerce(arg, SIGNATURE_TYPES[params[i]]) : this.printable(arg));
+    let type = SIGNATURE_TYPES[result] ?? VALUE;
+    // khandah of a string is a string
+    const generic = params.indexOf(result);
+    if (generic >= 0 && emitted[generic].type === 'std::string') type = 'std::string';
+    return { code: `san::${name}(${converted.join(', ')})`, type };
+  }
+}
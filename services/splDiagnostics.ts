@@ -0,0 +1,145 @@
+import { KEYWORDS } from "../constants";
+import { SanskritamError, Severity } from "../types";
+import { SourceSpan } from "./splAst";
+
+export interface DiagnosticInfo {
+  code: string;
+  severity: Severity;
+  title: string;
+}
+
+/**
+ * Every diagnostic the toolchain can report. Codes are stable, so documentation
+ * and tools may refer to them: 1xxx lexical, 2xxx syntax, 3xxx script, 4xxx runtime,
+ * 5xxx lint, 6xxx types.
+ */
+export const DIAGNOSTICS = {
+  // --- LEXICAL ---
+  UNEXPECTED_CHARACTER: { code: 'SPL1001', severity: 'error', title: 'Unexpected character' },
+  UNTERMINATED_STRING: { code: 'SPL1002', severity: 'error', title: 'Unterminated string' },
+  MALFORMED_NUMBER: { code: 'SPL1003', severity: 'error', title: 'Malformed number' },
+
+  // --- SYNTAX ---
+  SYNTAX_ERROR: { code: 'SPL2001', severity: 'error', title: 'Syntax error' },
+  UNKNOWN_STATEMENT: { code: 'SPL2002', severity: 'error', title: 'Unknown statement' },
+  UNTERMINATED_BLOCK: { code: 'SPL2003', severity: 'error', title: 'Unterminated block' },
+  UNMATCHED_KEYWORD: { code: 'SPL2004', severity: 'error', title: 'Keyword without its opening block' },
+  INVALID_ASSIGNMENT: { code: 'SPL2005', severity: 'error', title: 'Invalid assignment target' },
+  TRAILING_TOKENS: { code: 'SPL2006', severity: 'error', title: 'Unexpected tokens after statement' },
+  MISSING_CATCH: { code: 'SPL2007', severity: 'error', title: 'prayatnam without grihnatu' },
+  INVALID_CLASS_MEMBER: { code: 'SPL2008', severity: 'error', title: 'Invalid shreni member' },
+  EXPECTED_KEYWORD: { code: 'SPL2009', severity: 'error', title: 'Expected keyword' },
+  UNKNOWN_TYPE: { code: 'SPL2010', severity: 'error', title: 'Unknown type name' },
+
+  // --- SCRIPT ---
+  OFF_SCRIPT_KEYWORD: { code: 'SPL3001', severity: 'error', title: 'Keyword in the wrong script' },
+  UNKNOWN_SCRIPT_PRAGMA: { code: 'SPL3002', severity: 'warning', title: 'Unknown lipi pragma' },
+  MIXED_SCRIPT: { code: 'SPL3003', severity: 'info', title: 'Keywords from both scripts' },
+
+  // --- RUNTIME ---
+  RUNTIME_ERROR: { code: 'SPL4001', severity: 'error', title: 'Runtime error' },
+  UNCAUGHT_EXCEPTION: { code: 'SPL4002', severity: 'error', title: 'Uncaught exception' },
+  UNDECLARED_NAME: { code: 'SPL4003', severity: 'error', title: 'Undeclared name' },
+  ALREADY_DECLARED: { code: 'SPL4004', severity: 'error', title: 'Name already declared' },
+  CONTROL_OUTSIDE_BLOCK: { code: 'SPL4005', severity: 'error', title: 'viramatu/anuvartatu/pratyarpayatu out of place' },
+  ITERATION_LIMIT: { code: 'SPL4006', severity: 'error', title: 'Iteration limit exceeded' },
+  STACK_OVERFLOW: { code: 'SPL4007', severity: 'error', title: 'Call depth exceeded' },
+  MODULE_NOT_FOUND: { code: 'SPL4008', severity: 'error', title: 'Module not found' },
+  CIRCULAR_IMPORT: { code: 'SPL4009', severity: 'error', title: 'Circular import' },
+  MODULE_HAS_ERRORS: { code: 'SPL4010', severity: 'error', title: 'Module has errors' },
+  TIME_LIMIT: { code: 'SPL4011', severity: 'error', title: 'Time limit exceeded' },
+  STEP_LIMIT: { code: 'SPL4012', severity: 'error', title: 'Step limit exceeded' },
+
+  // --- LINT ---
+  UNUSED_VARIABLE: { code: 'SPL5001', severity: 'warning', title: 'Unused variable' },
+  USE_BEFORE_DECLARATION: { code: 'SPL5002', severity: 'error', title: 'Name used before its declaration' },
+  UNREACHABLE_CODE: { code: 'SPL5003', severity: 'warning', title: 'Unreachable code' },
+  UNBALANCED_BLOCKS: { code: 'SPL5004', severity: 'warning', title: 'Unbalanced tarhi/samaptam' },
+  BREAK_OUTSIDE_LOOP: { code: 'SPL5005', severity: 'error', title: 'viramatu/anuvartatu outside a loop' },
+  CONSTANT_CONDITION: { code: 'SPL5006', severity: 'warning', title: 'Constant condition' },
+
+  // --- TYPES ---
+  TYPE_MISMATCH: { code: 'SPL6001', severity: 'warning', title: 'Type mismatch' }
+} satisfies Record<string, DiagnosticInfo>;
+
+export type DiagnosticKind = keyof typeof DIAGNOSTICS;
+
+export const createDiagnostic = (
+  kind: DiagnosticKind,
+  span: SourceSpan,
+  message: string,
+  extra: Partial<SanskritamError> = {}
+): SanskritamError => ({
+  code: DIAGNOSTICS[kind].code,
+  severity: DIAGNOSTICS[kind].severity,
+  line: span.line,
+  column: span.col,
+  endLine: span.endLine,
+  endColumn: span.endCol,
+  message,
+  ...extra
+});
+
+// SPL4003 for a name no scope declares; the backends raise it too, for a karyam called before its declaration
+export const undeclaredMessage = (name: string): string =>
+  `'${name}' is not declared; declare it with '${KEYWORDS.VALUE.roman} ${name} = ...'`;
+
+// Only errors stop a program from running; warnings and infos are advisory
+export const isBlocking = (diagnostic: SanskritamError): boolean => diagnostic.severity === 'error';
+
+// --- SUGGESTIONS ---
+
+// Levenshtein distance over code points, so Devanagari letters count once
+export const editDistance = (a: string, b: string): number => {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[t.length];
+};
+
+// Closest candidate within roughly a third of the word's length, if any
+export const closestMatch = (word: string, candidates: Iterable<string>): string | null => {
+  const limit = Math.max(1, Math.floor(Array.from(word).length / 3));
+  let best: string | null = null;
+  let bestDistance = limit + 1;
+  for (const candidate of candidates) {
+    if (candidate === word) continue;
+    const distance = editDistance(word, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+const keywordSpellings = Object.values(KEYWORDS).flatMap(kw => [kw.roman, kw.devanagari]);
+
+// "did you mean samaptam?" for a misspelt keyword, in the script it was typed in
+export const suggestKeyword = (word: string, only?: string[]): string | null =>
+  closestMatch(word, only ?? keywordSpellings);
+
+// --- FORMATTING ---
+
+/**
+ * Compiler-style text, one line per entry: the diagnostic as file:line:col,
+ * then its related locations, stack frames and suggested fix.
+ */
+export const formatDiagnostic = (diagnostic: SanskritamError): string[] => {
+  const where = (file: string | undefined, line: number, column: number) => `${file ? `${file}:` : ''}${line}:${column}`;
+  const lines = [`${where(diagnostic.file, diagnostic.line, diagnostic.column)}: ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`];
+  diagnostic.related?.forEach(rel => lines.push(`  ${where(rel.file ?? diagnostic.file, rel.line, rel.column)}: note: ${rel.message}`));
+  diagnostic.stackTrace?.forEach(frame => {
+    lines.push(`    at ${frame.name} (${frame.file ? `${frame.file}:` : ''}${frame.line})`);
+    if (frame.repeated) lines.push(`    ... ${frame.repeated} more frames of ${frame.name}`);
+  });
+  if (diagnostic.fix) lines.push(`  fix: ${diagnostic.fix.label}`);
+  return lines;
+};
@@ -1,26 +1,43 @@
 
-import { KEYWORDS } from "../constants";
-import { CodeOutput, SanskritamError, DebugSnapshot, ScriptMode } from "../types";
-
-// Token Types
-type TokenType = 'KEYWORD' | 'IDENTIFIER' | 'NUMBER' | 'STRING' | 'OPERATOR' | 'PUNCTUATION' | 'COMMENT';
-
-interface Token {
-  type: TokenType;
-  value: string;
-  line: number;
-  col: number;
-  raw?: string;
+import { KEYWORDS, MAIN_FILE, SCRIPT_PRAGMA, SCRIPT_POLICY_NAMES } from "../constants";
+import { CodeOutput, SanskritamError, ScriptMode, ScriptPolicy, EngineOptions, TranspileTarget } from "../types";
+import { Token, Program, getKeywordKey, tokenSpan } from "./splAst";
+import { SPLParser } from "./splParser";
+import { SPLInterpreter } from "./splInterpreter";
+import { RunResult } from "./splRuntime";
+import { SPLVirtualMachine } from "./splVM";
+import { SPLCompiler } from "./splCompiler";
+import { disassemble } from "./splBytecode";
+import { SPLLinter } from "./splLinter";
+import { SPLTypeChecker, TypeCheckResult, TypeHint } from "./splTypeChecker";
+import { SPLCppGenerator } from "./splCppGenerator";
+import { SPLJsGenerator } from "./splJsGenerator";
+import { SPLPythonGenerator } from "./splPythonGenerator";
+import { BUILTIN_MODULES, ModuleSource, moduleFileName } from "./splModules";
+import { DIAGNOSTICS, closestMatch, createDiagnostic, isBlocking } from "./splDiagnostics";
+
+// A program started by SPLEngine.start()
+export interface EngineRun {
+  // stdout printed so far
+  output(): string;
+  // Lines in output(), which alone cannot tell one empty line from none
+  lines(): number;
+  // Runs up to `steps` more VM instructions; the CodeOutput once the program has ended, otherwise null
+  resume(steps?: number): CodeOutput | null;
+  // Prompt of the shrunotu call an interactive run is paused at
+  awaitingInput(): string | null;
+  // Answers that prompt; null ends the input
+  provideInput(line: string | null): void;
 }
 
 export class SPLEngine {
   private tokens: Token[] = [];
+  private program: Program | null = null;
+  private types: TypeCheckResult | null = null;
   private errors: SanskritamError[] = [];
-  private stdout: string[] = [];
-  private variables: Record<string, any> = {};
-  private debugTrace: DebugSnapshot[] = [];
   private pos = 0;
   private codeLines: string[] = [];
+  private fileName: string;
 
   // Devanagari to Roman Numeral mapping
   private d2r: Record<string, string> = {
@@ -28,19 +45,22 @@ export class SPLEngine {
     '५': '5', '६': '6', '७': '7', '८': '8', '९': '9'
   };
 
-  constructor(private code: string, private mode: ScriptMode) {
+  constructor(private code: string, private mode: ScriptMode, private options: EngineOptions = {}) {
     this.codeLines = code.split('\n');
+    this.fileName = options.fileName ?? MAIN_FILE;
   }
 
   private isDigit(char: string): boolean {
     return /[0-9]/.test(char) || /[०-९]/.test(char);
   }
 
+  // Latin letters with diacritics let names be spelt in IAST (e.g. mūlya)
   private isAlpha(char: string): boolean {
-    return /[a-zA-Z_]/.test(char) || (char >= '\u0900' && char <= '\u097F');
+    return /[a-zA-Z_\u00C0-\u00D6\u00D8-\u00F6\u00F8-\u024F\u1E00-\u1EFF]/.test(char) || (char >= '\u0900' && char <= '\u097F');
   }
 
-  private tokenize(): Token[] {
+  // Comments and whitespace produce no tokens; each token's line/col locate it in the source
+  public tokenize(): Token[] {
     const tokens: Token[] = [];
     let line = 1;
     let col = 1;
@@ -67,17 +87,26 @@ export class SPLEngine {
         continue;
       }
 
-      // Strings
+      // Strings end on the same line
       if (char === '"') {
         let val = '';
         let startCol = col;
         i++; col++;
-        while (i < this.code.length && this.code[i] !== '"') {
+        while (i < this.code.length && this.code[i] !== '"' && this.code[i] !== '\n') {
           val += this.code[i];
           i++; col++;
         }
+        if (this.code[i] !== '"') {
+          const span = { line, col: startCol, endLine: line, endCol: col };
+          this.errors.push(createDiagnostic('UNTERMINATED_STRING', span, 'Unterminated string: add a closing \'"\' on this line', {
+            word: `"${val}`,
+            fix: { label: "Insert closing '\"'", line, column: col, length: 0, replacement: '"' }
+          }));
+          tokens.push({ type: 'STRING', value: val, line, col: startCol, raw: `"${val}` });
+          continue;
+        }
         i++; col++;
-        tokens.push({ type: 'STRING', value: val, line, col: startCol });
+        tokens.push({ type: 'STRING', value: val, line, col: startCol, raw: `"${val}"` });
         continue;
       }
 
@@ -85,12 +114,19 @@ export class SPLEngine {
       if (this.isDigit(char)) {
         let val = '';
         let startCol = col;
+        let start = i;
         while (i < this.code.length && (this.isDigit(this.code[i]) || this.code[i] === '.')) {
           let c = this.code[i];
           val += this.d2r[c] || c;
           i++; col++;
         }
-        tokens.push({ type: 'NUMBER', value: val, line, col: startCol });
+        const raw = this.code.slice(start, i);
+        // parseFloat would quietly read 1.2.3 as 1.2
+        if (val.indexOf('.') !== val.lastIndexOf('.')) {
+          const span = { line, col: startCol, endLine: line, endCol: col };
+          this.errors.push(createDiagnostic('MALFORMED_NUMBER', span, `Malformed number: ${raw} has more than one '.'`, { word: raw }));
+        }
+        tokens.push({ type: 'NUMBER', value: val, line, col: startCol, raw });
         continue;
       }
 
@@ -117,315 +153,203 @@ export class SPLEngine {
         if ("=<>!".includes(char) && this.code[i] === '=') {
           val += this.code[i];
           i++; col++;
+        } else if ("&|".includes(char) && this.code[i] === char) {
+          val += this.code[i];
+          i++; col++;
         }
         tokens.push({ type: 'OPERATOR', value: val, line, col: startCol });
         continue;
       }
 
       // Punctuation
-      if ("(),".includes(char)) {
+      if ("(),.[]{}:".includes(char)) {
         tokens.push({ type: 'PUNCTUATION', value: char, line, col });
         i++; col++;
         continue;
       }
 
-      this.errors.push({ line, column: col, message: `Unexpected character: ${char}`, word: char });
+      this.errors.push(createDiagnostic('UNEXPECTED_CHARACTER', { line, col, endLine: line, endCol: col + 1 }, `Unexpected character: ${char}`, { word: char }));
       i++; col++;
     }
     return tokens;
   }
 
-  // --- INTERPRETER LOGIC ---
-
-  private evaluateExpression(tokens: Token[]): any {
-    if (tokens.length === 0) return null;
-    
-    // Simplistic expression evaluator for local engine
-    // Supports: Addition, comparison, and literals
-    if (tokens.length === 1) {
-      const t = tokens[0];
-      if (t.type === 'NUMBER') return parseFloat(t.value);
-      if (t.type === 'STRING') return t.value;
-      if (t.type === 'IDENTIFIER') {
-        if (this.variables[t.value] !== undefined) return this.variables[t.value];
-        // Check for boolean keywords
-        if (t.value === KEYWORDS.TRUE.roman || t.value === KEYWORDS.TRUE.devanagari) return true;
-        if (t.value === KEYWORDS.FALSE.roman || t.value === KEYWORDS.FALSE.devanagari) return false;
-        if (t.value === KEYWORDS.NULL.roman || t.value === KEYWORDS.NULL.devanagari) return null;
-        return 0; 
-      }
+  // Tokenizes and parses without running; errors are tagged with this file's name
+  public parse(): { program: Program | null; errors: SanskritamError[] } {
+    this.tokens = this.tokenize();
+    if (!this.errors.some(isBlocking)) {
+      const parser = new SPLParser(this.tokens);
+      this.program = parser.parse();
+      this.errors.push(...parser.errors);
     }
+    const declared = this.readScriptPolicy();
+    this.checkScriptPolicy(declared ?? this.options.scriptPolicy ?? 'mixed', declared === 'mixed');
+    this.errors = this.errors.map(err => ({ ...err, file: err.file ?? this.fileName }));
+    return { program: this.errors.some(isBlocking) ? null : this.program, errors: this.errors };
+  }
 
-    // Handle string concatenation and basic math
-    // We'll use a simple recursive approach or reduce for the local demo
-    try {
-      let result = this.getPrimitiveValue(tokens[0]);
-      for (let i = 1; i < tokens.length; i += 2) {
-        const op = tokens[i].value;
-        const next = this.getPrimitiveValue(tokens[i+1]);
-        if (op === '+') result += next;
-        else if (op === '-') result -= next;
-        else if (op === '*') result *= next;
-        else if (op === '/') result /= next;
-        else if (op === '==') result = result === next;
-        else if (op === '<') result = result < next;
-        else if (op === '>') result = result > next;
-        else if (op === '<=') result = result <= next;
-        else if (op === '>=') result = result >= next;
-      }
-      return result;
-    } catch (e) {
-      return 0;
+  // A `// lipi:` comment above the first statement overrides options.scriptPolicy
+  private readScriptPolicy(): ScriptPolicy | null {
+    for (let i = 0; i < this.codeLines.length; i++) {
+      const line = this.codeLines[i].trim();
+      if (!line) continue;
+      if (!line.startsWith('//')) break;
+      const pragma = this.codeLines[i].match(SCRIPT_PRAGMA);
+      if (!pragma) continue;
+      const value = pragma[2];
+      if (Object.prototype.hasOwnProperty.call(SCRIPT_POLICY_NAMES, value)) return SCRIPT_POLICY_NAMES[value];
+      const span = { line: i + 1, col: pragma[1].length + 1, endLine: i + 1, endCol: pragma[1].length + 1 + value.length };
+      const suggestion = closestMatch(value, Object.keys(SCRIPT_POLICY_NAMES));
+      this.errors.push(createDiagnostic('UNKNOWN_SCRIPT_PRAGMA', span, `Unknown script '${value}' in lipi pragma; use roman, devanagari or mixed. The file is checked as ${this.options.scriptPolicy ?? 'mixed'}`, {
+        word: value || undefined,
+        fix: suggestion ? { label: `Change to '${suggestion}'`, line: span.line, column: span.col, length: value.length, replacement: suggestion } : undefined
+      }));
+      break;
     }
+    return null;
   }
 
-  private getPrimitiveValue(t: Token): any {
-    if (!t) return 0;
-    if (t.type === 'NUMBER') return parseFloat(t.value);
-    if (t.type === 'STRING') return t.value;
-    if (t.type === 'IDENTIFIER') return this.variables[t.value] ?? 0;
-    return 0;
+  // Under a strict policy every keyword must be spelt in that script; mixed files
+  // get a note unless their pragma already says mixing is intended
+  private checkScriptPolicy(policy: ScriptPolicy, declaredMixed: boolean) {
+    const keywords = this.tokens.filter(token => token.type === 'KEYWORD' && getKeywordKey(token.value));
+    if (policy === 'mixed') {
+      if (declaredMixed) return;
+      const firstRoman = keywords.find(token => KEYWORDS[getKeywordKey(token.value)!].roman === token.value);
+      const firstDevanagari = keywords.find(token => KEYWORDS[getKeywordKey(token.value)!].devanagari === token.value);
+      if (firstRoman && firstDevanagari) {
+        const [first, second] = firstRoman.line <= firstDevanagari.line ? [firstRoman, firstDevanagari] : [firstDevanagari, firstRoman];
+        this.errors.push(createDiagnostic('MIXED_SCRIPT', tokenSpan(second), `This file mixes Roman and Devanagari keywords; add a '// lipi:' pragma to choose one`, {
+          word: second.value,
+          related: [{ line: first.line, column: first.col, message: `'${first.value}' is written in the other script` }]
+        }));
+      }
+      return;
+    }
+    const scriptName = policy === 'roman' ? 'Roman' : 'Devanagari';
+    for (const token of keywords) {
+      const expected = KEYWORDS[getKeywordKey(token.value)!][policy];
+      if (token.value === expected) continue;
+      this.errors.push(createDiagnostic('OFF_SCRIPT_KEYWORD', tokenSpan(token), `'${token.value}' is not written in ${scriptName}; this file only allows ${scriptName} keywords`, {
+        word: token.value,
+        fix: { label: `Replace with '${expected}'`, line: token.line, column: token.col, length: token.value.length, replacement: expected }
+      }));
+    }
   }
 
-  private captureSnapshot(line: number) {
-    this.debugTrace.push({
-      line: line,
-      variables: JSON.parse(JSON.stringify(this.variables)),
-      stdout: this.stdout.join('\n')
-    });
+  // Static analysis only: syntax errors plus the configured lint rules, without running anything
+  public lint(): SanskritamError[] {
+    const { program, errors } = this.parse();
+    const findings = new SPLLinter(this.tokens, program, this.options.lint, !(this.options.isEntry ?? true), this.checkTypes(program)).lint();
+    // unbalanced-blocks only adds something where it points at another line than the parser's block error
+    const blockErrorLines = new Set(errors.filter(err => err.code === DIAGNOSTICS.UNTERMINATED_BLOCK.code || err.code === DIAGNOSTICS.UNMATCHED_KEYWORD.code).map(err => err.line));
+    const added = findings.filter(finding => finding.code !== DIAGNOSTICS.UNBALANCED_BLOCKS.code || !blockErrorLines.has(finding.line));
+    return [...errors, ...added.map(finding => ({ ...finding, file: this.fileName }))];
   }
 
-  public execute(): CodeOutput {
-    this.tokens = this.tokenize();
-    if (this.errors.length > 0) {
-      return { stdout: "", explanation: "Syntax errors detected.", transpiled: "", tokens: [], errors: this.errors };
-    }
-
-    let i = 0;
-    while (i < this.tokens.length) {
-      const token = this.tokens[i];
-      
-      // Variable declaration: mulyam x = 10
-      if (token.value === KEYWORDS.VALUE.roman || token.value === KEYWORDS.VALUE.devanagari) {
-        const id = this.tokens[i + 1]?.value;
-        if (this.tokens[i+2]?.value === '=') {
-          let exprTokens: Token[] = [];
-          let j = i + 3;
-          while (j < this.tokens.length && this.tokens[j].line === token.line) {
-            exprTokens.push(this.tokens[j]);
-            j++;
-          }
-          this.variables[id] = this.evaluateExpression(exprTokens);
-          this.captureSnapshot(token.line);
-          i = j;
-          continue;
-        }
-      }
-
-      // Print: vadatu "hello"
-      if (token.value === KEYWORDS.PRINT.roman || token.value === KEYWORDS.PRINT.devanagari) {
-        let exprTokens: Token[] = [];
-        let j = i + 1;
-        while (j < this.tokens.length && this.tokens[j].line === token.line) {
-          exprTokens.push(this.tokens[j]);
-          j++;
-        }
-        const val = this.evaluateExpression(exprTokens);
-        this.stdout.push(String(val));
-        this.captureSnapshot(token.line);
-        i = j;
-        continue;
-      }
-
-      // Conditionals: yadi x < y tarhi ... samaptam
-      if (token.value === KEYWORDS.IF.roman || token.value === KEYWORDS.IF.devanagari) {
-        let exprTokens: Token[] = [];
-        let j = i + 1;
-        while (j < this.tokens.length && this.tokens[j].value !== KEYWORDS.THEN.roman && this.tokens[j].value !== KEYWORDS.THEN.devanagari) {
-          exprTokens.push(this.tokens[j]);
-          j++;
-        }
-        const condition = this.evaluateExpression(exprTokens);
-        this.captureSnapshot(token.line);
-
-        if (!condition) {
-          // Skip block
-          let depth = 1;
-          j++; // skip tarhi
-          while (j < this.tokens.length && depth > 0) {
-            if (this.tokens[j].value === KEYWORDS.IF.roman || this.tokens[j].value === KEYWORDS.IF.devanagari) depth++;
-            if (this.tokens[j].value === KEYWORDS.END.roman || this.tokens[j].value === KEYWORDS.END.devanagari) depth--;
-            j++;
-          }
-          i = j;
-        } else {
-          i = j + 1; // Enter block
-        }
-        continue;
-      }
+  // Inferred identifier types from the last lint() or execute(), for editor hovers
+  public typeHints(): TypeHint[] {
+    return this.types?.hints ?? [];
+  }
 
-      // End block: samaptam
-      if (token.value === KEYWORDS.END.roman || token.value === KEYWORDS.END.devanagari) {
-        this.captureSnapshot(token.line);
-        i++;
-        continue;
-      }
+  private checkTypes(program: Program | null): TypeCheckResult | null {
+    this.types = program ? new SPLTypeChecker(program).check() : null;
+    return this.types;
+  }
 
-      // Assignment: x = 20 (already defined)
-      if (token.type === 'IDENTIFIER' && this.tokens[i+1]?.value === '=') {
-        let exprTokens: Token[] = [];
-        let j = i + 2;
-        while (j < this.tokens.length && this.tokens[j].line === token.line) {
-          exprTokens.push(this.tokens[j]);
-          j++;
-        }
-        this.variables[token.value] = this.evaluateExpression(exprTokens);
-        this.captureSnapshot(token.line);
-        i = j;
-        continue;
-      }
+  public execute(): CodeOutput {
+    return this.start().resume()!;
+  }
 
-      i++;
+  // Like execute(), but the VM can be run a slice at a time and its stdout read in between
+  public start(): EngineRun {
+    const { program } = this.parse();
+    if (!program) {
+      const output: CodeOutput = { stdout: "", explanation: "Syntax errors detected.", transpiled: "", tokens: [], errors: this.errors };
+      return { output: () => "", lines: () => 0, resume: () => output, awaitingInput: () => null, provideInput: () => {} };
     }
 
+    const Runner = this.options.executor === 'tree' ? SPLInterpreter : SPLVirtualMachine;
+    const runner = new Runner(this.mode, this.options, name => this.resolveModule(name));
+    runner.start(program);
     return {
-      stdout: this.stdout.join('\n'),
-      explanation: "Local SPL Engine executed the code successfully. Semantic connections verified.",
-      transpiled: this.generateCpp(),
-      tokens: this.tokens.map(t => ({ word: t.value, category: t.type })),
-      debugTrace: this.debugTrace,
-      errors: this.errors
+      output: () => runner.output,
+      lines: () => runner.lines,
+      resume: steps => {
+        const result = runner.resume(steps);
+        return result && this.finish(program, result);
+      },
+      awaitingInput: () => runner.awaitingInput,
+      provideInput: line => runner.provideInput(line)
     };
   }
 
-  private generateCpp(): string {
-    let cpp = `#include "Sanskritam.h"\n#include <vector>\n#include <string>\n#include <functional>\n\nint main() {\n`;
-    let indentLevel = 1;
-    let i = 0;
+  private finish(program: Program, result: RunResult): CodeOutput {
+    this.checkTypes(program);
+    this.errors.push(...result.errors);
 
-    const getIndent = () => "  ".repeat(indentLevel);
-    const getKeywordType = (val: string) => {
-      for (const [key, kw] of Object.entries(KEYWORDS)) {
-        if (kw.roman === val || kw.devanagari === val) return key;
-      }
-      return null;
+    return {
+      stdout: result.stdout,
+      explanation: result.errors.some(isBlocking)
+        ? "Runtime error detected."
+        : "Local SPL Engine executed the code successfully. Semantic connections verified.",
+      ...this.transpile(program, this.options.target ?? 'cpp'),
+      tokens: this.tokens.map(t => ({ word: t.value, category: t.type })),
+      debugTrace: result.debugTrace,
+      errors: this.errors
     };
+  }
 
-    while (i < this.tokens.length) {
-      const token = this.tokens[i];
-      const type = getKeywordType(token.value);
+  // anayati "name": a file in the project first, then the built-in modules (SPLRepl resolves through here too)
+  public resolveModule(name: string): ModuleSource | null {
+    const fileName = moduleFileName(name);
+    const source = this.fileSource(fileName);
+    if (source !== undefined) {
+      const { program, errors } = new SPLEngine(source, this.mode, { ...this.options, fileName }).parse();
+      return { kind: 'file', fileName, program, errors };
+    }
+    const members = BUILTIN_MODULES[name];
+    return members ? { kind: 'builtin', name, members } : null;
+  }
 
-      if (i === 0 || this.tokens[i - 1].line !== token.line) {
-        cpp += getIndent();
-      }
+  private fileSource(fileName: string): string | undefined {
+    return this.options.files?.[fileName] ?? this.options.readFile?.(fileName);
+  }
 
-      switch (type) {
-        case 'VALUE':
-          cpp += "auto ";
-          break;
-        case 'PRINT':
-          cpp += "san::vadatu(";
-          // Look ahead to end of line to close parenthesis
-          let j = i + 1;
-          while (j < this.tokens.length && this.tokens[j].line === token.line) {
-            const innerType = getKeywordType(this.tokens[j].value);
-            if (innerType === 'THEN' || innerType === 'END') break;
-            
-            // Map literals within vadatu
-            const it = this.tokens[j];
-            const itType = getKeywordType(it.value);
-            if (itType === 'TRUE') cpp += "true";
-            else if (itType === 'FALSE') cpp += "false";
-            else if (itType === 'NULL') cpp += "nullptr";
-            else if (it.type === 'STRING') cpp += `"${it.value}"`;
-            else cpp += it.value;
-            
-            if (j + 1 < this.tokens.length && this.tokens[j+1].line === token.line) cpp += " ";
-            j++;
-          }
-          cpp += ");";
-          i = j - 1;
-          break;
-        case 'IF':
-          cpp += "if (";
-          break;
-        case 'WHILE':
-          cpp += "while (";
-          break;
-        case 'FOR':
-          cpp += "for (";
-          break;
-        case 'FUNCTION':
-          const funcName = this.tokens[i + 1]?.value;
-          cpp += `auto ${funcName} = [&](`;
-          // Skip until '(' if present or just handle parameters
-          i++; // move to name
-          break;
-        case 'THEN':
-          // Close condition parens if in if/while/for
-          const prevKeyword = i > 0 ? getKeywordType(this.tokens[i-1].value) : null;
-          cpp += ") {";
-          indentLevel++;
-          break;
-        case 'ELSE':
-          indentLevel--;
-          cpp = cpp.trimEnd() + "\n" + getIndent() + "} else {";
-          indentLevel++;
-          break;
-        case 'END':
-          indentLevel--;
-          cpp = cpp.trimEnd() + "\n" + getIndent() + "}";
-          // If it was a function, add semicolon
-          break;
-        case 'RETURN':
-          cpp += "return ";
-          break;
-        case 'BREAK':
-          cpp += "break;";
-          break;
-        case 'CONTINUE':
-          cpp += "continue;";
-          break;
-        case 'TRUE': cpp += "true"; break;
-        case 'FALSE': cpp += "false"; break;
-        case 'NULL': cpp += "nullptr"; break;
-        default:
-          if (token.type === 'STRING') cpp += `"${token.value}"`;
-          else cpp += token.value;
-      }
+  // Generated code for one backend without running the program; null when it does not parse
+  public compile(target: TranspileTarget = this.options.target ?? 'cpp'): Pick<CodeOutput, 'transpiled' | 'sourceMap'> | null {
+    const { program } = this.parse();
+    if (!program) return null;
+    this.checkTypes(program);
+    return this.transpile(program, target);
+  }
 
-      // Semicolon handling for assignments and simple expressions
-      const nextToken = this.tokens[i + 1];
-      const isEndOfLine = !nextToken || nextToken.line !== token.line;
-      const currentTokenKeyword = getKeywordType(token.value);
-      
-      if (isEndOfLine && !['THEN', 'END', 'IF', 'WHILE', 'FOR', 'ELSE', 'PRINT'].includes(currentTokenKeyword || "")) {
-         if (!cpp.endsWith(';') && !cpp.endsWith('{') && !cpp.endsWith('}')) {
-            cpp += ";";
-         }
-      }
+  // Bytecode listing of the main file as the VM would run it; null when it does not parse
+  public disassemble(): string | null {
+    const { program } = this.parse();
+    return program ? disassemble(new SPLCompiler(this.options.trace).compile(program, this.fileName)) : null;
+  }
 
-      if (isEndOfLine) {
-        cpp += "\n";
-      } else {
-        // Space between tokens on same line
-        if (!cpp.endsWith('(') && !cpp.endsWith('[')) {
-           cpp += " ";
-        }
-      }
+  private transpile(program: Program, target: TranspileTarget): Pick<CodeOutput, 'transpiled' | 'sourceMap'> {
+    if (target === 'js') return this.generateJs(program);
+    return { transpiled: target === 'python' ? this.generatePython(program) : this.generateCpp(program) };
+  }
 
-      i++;
-    }
+  private generateCpp(program: Program): string {
+    const types = this.types ?? new SPLTypeChecker(program).check();
+    return new SPLCppGenerator(program, types, this.mode, name => this.resolveModule(name)).generate();
+  }
 
-    // Close main
-    if (indentLevel > 0) {
-      while (indentLevel > 1) {
-        indentLevel--;
-        cpp += getIndent() + "}\n";
-      }
-      cpp += "  return 0;\n}";
-    }
+  private generatePython(program: Program): string {
+    const types = this.types ?? new SPLTypeChecker(program).check();
+    return new SPLPythonGenerator(program, types, this.mode, name => this.resolveModule(name)).generate();
+  }
 
-    return cpp;
+  private generateJs(program: Program): Pick<CodeOutput, 'transpiled' | 'sourceMap'> {
+    const types = this.types ?? new SPLTypeChecker(program).check();
+    const { code, sourceMap } = new SPLJsGenerator(program, types, this.mode, name => this.resolveModule(name), this.fileName).generate(this.options.outFile);
+    // Embedding the sources lets devtools show the .spl files without serving them
+    sourceMap.sourcesContent = sourceMap.sources.map(file => file === this.fileName ? this.code : this.fileSource(file) ?? '');
+    return { transpiled: code, sourceMap };
   }
 }
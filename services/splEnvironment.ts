@@ -0,0 +1,80 @@
+import { ScopeKind, ScopeSnapshot } from "../types";
+
+// What lookup() returns for a name no enclosing scope declares
+export const UNDECLARED = Symbol('undeclared');
+
+/**
+ * One link in the lexical scope chain (global -> function -> block).
+ * Lookups walk outwards through `parent`; declarations only touch this scope.
+ */
+export class Environment {
+  private values = new Map<string, any>();
+
+  constructor(public kind: ScopeKind, public name: string, public parent: Environment | null = null) {}
+
+  // Returns false when the name is already declared in this very scope
+  public define(name: string, value: any): boolean {
+    if (this.values.has(name)) return false;
+    this.values.set(name, value);
+    return true;
+  }
+
+  public hasOwn(name: string): boolean {
+    return this.values.has(name);
+  }
+
+  // Reads and writes a name this very scope declares, as found by resolve()
+  public getOwn(name: string): any {
+    return this.values.get(name);
+  }
+
+  public setOwn(name: string, value: any) {
+    this.values.set(name, value);
+  }
+
+  public has(name: string): boolean {
+    return this.resolve(name) !== null;
+  }
+
+  public get(name: string): any {
+    return this.resolve(name)?.values.get(name);
+  }
+
+  // get() in a single walk of the chain, for the executors' variable reads
+  public lookup(name: string): any {
+    for (let scope: Environment | null = this; scope; scope = scope.parent) {
+      const value = scope.values.get(name);
+      if (value !== undefined || scope.values.has(name)) return value;
+    }
+    return UNDECLARED;
+  }
+
+  // Returns false when no enclosing scope declares the name
+  public set(name: string, value: any): boolean {
+    const scope = this.resolve(name);
+    if (!scope) return false;
+    scope.values.set(name, value);
+    return true;
+  }
+
+  public resolve(name: string): Environment | null {
+    let scope: Environment | null = this;
+    while (scope && !scope.values.has(name)) scope = scope.parent;
+    return scope;
+  }
+
+  // Scopes from the outermost (global) to this one
+  public chain(): Environment[] {
+    const scopes: Environment[] = [];
+    for (let scope: Environment | null = this; scope; scope = scope.parent) scopes.unshift(scope);
+    return scopes;
+  }
+
+  public entries(): [string, any][] {
+    return Array.from(this.values);
+  }
+
+  public snapshot(): ScopeSnapshot {
+    return { name: this.name, kind: this.kind, variables: Object.fromEntries(this.values) };
+  }
+}
@@ -0,0 +1,36 @@
+import { ScriptMode } from "../types";
+import { Token, isKeyword } from "./splAst";
+import { SPLEngine } from "./splEngine";
+
+/**
+ * Re-indents a program by two spaces per open block and trims every line.
+ * Only keyword tokens open and close blocks, so words inside strings and comments do not count;
+ * the lexer never fails, so this also formats code that does not parse.
+ */
+export const formatSource = (code: string): string => {
+  // The lexer knows the keywords of both scripts whatever the mode
+  const lines = new Map<number, Token[]>();
+  for (const token of new SPLEngine(code, ScriptMode.ROMAN).tokenize()) {
+    if (!lines.has(token.line)) lines.set(token.line, []);
+    lines.get(token.line)!.push(token);
+  }
+  let indentLevel = 0;
+  return code.split('\n').map((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed === '') return '';
+    const tokens = lines.get(i + 1) ?? [];
+    // anyatha (and anyatha yadi ... tarhi) closes one branch and opens the next at the same depth
+    // grihnatu does the same for the handler of a prayatnam block
+    if (isKeyword(tokens[0], 'ELSE') || isKeyword(tokens[0], 'CATCH')) {
+      return '  '.repeat(Math.max(0, indentLevel - 1)) + trimmed;
+    }
+    if (tokens.some(token => isKeyword(token, 'END'))) {
+      indentLevel = Math.max(0, indentLevel - 1);
+    }
+    const result = '  '.repeat(indentLevel) + trimmed;
+    if (isKeyword(tokens[tokens.length - 1], 'THEN') || (tokens.length === 1 && isKeyword(tokens[0], 'TRY'))) {
+      indentLevel++;
+    }
+    return result;
+  }).join('\n');
+};
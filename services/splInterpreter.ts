@@ -0,0 +1,304 @@
+import { Program, Statement, Block, Expression, SourceSpan, MemberExpression } from "./splAst";
+import { Environment } from "./splEnvironment";
+import { moduleBindingName } from "./splModules";
+import {
+  SPLRuntime, SPLRuntimeError, BreakSignal, ContinueSignal, ReturnSignal, ThrowSignal,
+  SPLFunction, SPLClass, SPLInstance, SPLModule, NativeFunction, ModuleLoad
+} from "./splRuntime";
+
+/**
+ * Tree-walking interpreter for the Program AST produced by SPLParser.
+ */
+export class SPLInterpreter extends SPLRuntime {
+  private program: Program | null = null;
+
+  public start(program: Program) {
+    this.reset();
+    this.program = program;
+  }
+
+  // Statements run on the JavaScript stack, so the program cannot pause partway
+  protected advance(): boolean {
+    this.executeStatements(this.program!.body);
+    return true;
+  }
+
+  // --- STATEMENTS ---
+
+  private executeStatements(statements: Statement[]) {
+    for (const stmt of statements) this.executeStatement(stmt);
+  }
+
+  // Runs a block inside `scope` (a fresh child of the current scope by default)
+  private executeBlock(block: Block, scope: Environment = this.blockScope(block)) {
+    const previous = this.environment;
+    this.environment = scope;
+    try {
+      this.executeStatements(block.body);
+      this.captureSnapshot(block.span.endLine);
+    } finally {
+      this.environment = previous;
+    }
+  }
+
+  private blockScope(block: Block): Environment {
+    return new Environment('block', `block L${block.span.line}`, this.environment);
+  }
+
+  private executeStatement(stmt: Statement) {
+    switch (stmt.kind) {
+      case 'VariableDeclaration':
+        this.declare(stmt.name.name, this.evaluate(stmt.init), stmt.name.span);
+        this.captureSnapshot(stmt.span.line);
+        break;
+      case 'Assignment':
+        if (stmt.target.kind === 'MemberExpression') {
+          const target = this.evaluateMemberObject(stmt.target);
+          this.setMember(target, stmt.target, this.evaluate(stmt.value));
+        } else if (stmt.target.kind === 'IndexExpression') {
+          const collection = this.evaluate(stmt.target.object);
+          const index = this.evaluate(stmt.target.index);
+          this.setIndex(collection, index, this.evaluate(stmt.value), stmt.target);
+        } else {
+          this.assign(stmt.target.name, this.evaluate(stmt.value), stmt.target.span);
+        }
+        this.captureSnapshot(stmt.span.line);
+        break;
+      case 'PrintStatement':
+        this.print(this.evaluate(stmt.value));
+        this.captureSnapshot(stmt.span.line);
+        break;
+      case 'IfStatement': {
+        const condition = this.evaluate(stmt.test);
+        this.captureSnapshot(stmt.span.line);
+        if (this.isTruthy(condition)) this.executeBlock(stmt.consequent);
+        else if (stmt.alternate?.kind === 'Block') this.executeBlock(stmt.alternate);
+        else if (stmt.alternate) this.executeStatement(stmt.alternate);
+        break;
+      }
+      case 'WhileStatement':
+        while (true) {
+          const condition = this.evaluate(stmt.test);
+          this.captureSnapshot(stmt.span.line);
+          if (!this.isTruthy(condition)) break;
+          this.countIteration(stmt.span);
+          if (!this.executeLoopBody(stmt.body)) break;
+        }
+        break;
+      case 'ForRangeStatement': {
+        const start = this.evaluate(stmt.start);
+        const end = this.evaluate(stmt.end);
+        this.checkRange(start, end, stmt.span);
+        const step = start <= end ? 1 : -1;
+        for (let i = start; step > 0 ? i <= end : i >= end; i += step) {
+          this.countIteration(stmt.span);
+          const scope = this.blockScope(stmt.body);
+          scope.define(stmt.variable.name, i);
+          this.captureSnapshot(stmt.span.line, scope);
+          if (!this.executeLoopBody(stmt.body, scope)) break;
+        }
+        break;
+      }
+      case 'ForEachStatement': {
+        const items = this.iterationItems(this.evaluate(stmt.iterable), stmt.iterable.span);
+        for (const item of items) {
+          this.countIteration(stmt.span);
+          const scope = this.blockScope(stmt.body);
+          scope.define(stmt.variable.name, item);
+          this.captureSnapshot(stmt.span.line, scope);
+          if (!this.executeLoopBody(stmt.body, scope)) break;
+        }
+        break;
+      }
+      case 'FunctionDeclaration':
+        this.declare(stmt.name.name, new SPLFunction(stmt, this.environment, this.currentFile), stmt.name.span);
+        this.captureSnapshot(stmt.span.line);
+        break;
+      case 'ClassDeclaration':
+        this.declare(stmt.name.name, new SPLClass(stmt, this.environment, this.currentFile), stmt.name.span);
+        this.captureSnapshot(stmt.span.line);
+        break;
+      case 'ImportStatement': {
+        const module = this.importModule(stmt.source.value, stmt.source.span);
+        this.declare(moduleBindingName(stmt.source.value), module, stmt.source.span);
+        this.captureSnapshot(stmt.span.line);
+        break;
+      }
+      case 'ReturnStatement': {
+        const value = stmt.argument ? this.evaluate(stmt.argument) : null;
+        this.captureSnapshot(stmt.span.line);
+        throw new ReturnSignal(value, stmt.span);
+      }
+      case 'TryStatement':
+        try {
+          this.executeBlock(stmt.block);
+        } catch (e) {
+          let value: any;
+          if (e instanceof ThrowSignal) value = e.value;
+          else if (e instanceof SPLRuntimeError && !e.fatal) value = e.message;
+          else throw e;
+          const scope = this.blockScope(stmt.handler);
+          if (stmt.param) scope.define(stmt.param.name, value);
+          this.captureSnapshot(stmt.handler.span.line, scope);
+          this.executeBlock(stmt.handler, scope);
+        }
+        break;
+      case 'ThrowStatement': {
+        const value = this.evaluate(stmt.argument);
+        this.captureSnapshot(stmt.span.line);
+        throw new ThrowSignal(value, stmt.span, this.captureStackTrace(stmt.span.line), this.currentFile);
+      }
+      case 'BreakStatement':
+        this.captureSnapshot(stmt.span.line);
+        throw new BreakSignal(stmt.span);
+      case 'ContinueStatement':
+        this.captureSnapshot(stmt.span.line);
+        throw new ContinueSignal(stmt.span);
+      case 'ExpressionStatement':
+        this.evaluate(stmt.expression);
+        this.captureSnapshot(stmt.span.line);
+        break;
+    }
+  }
+
+  // Runs one iteration; returns false once the loop should stop (viramatu)
+  private executeLoopBody(body: Block, scope?: Environment): boolean {
+    try {
+      this.executeBlock(body, scope);
+    } catch (signal) {
+      if (signal instanceof BreakSignal) return false;
+      if (signal instanceof ContinueSignal) return true;
+      throw signal;
+    }
+    return true;
+  }
+
+  // --- FUNCTIONS ---
+
+  private callFunction(fn: SPLFunction, args: any[], span: SourceSpan): any {
+    this.checkCall(fn, args.length, span);
+    const scope = this.functionScope(fn, args);
+    const callerFile = this.currentFile;
+    this.callStack.push({ name: fn.name, line: span.line, file: callerFile });
+    this.currentFile = fn.file;
+    try {
+      this.executeBlock(fn.declaration.body, scope);
+      return null;
+    } catch (signal) {
+      if (signal instanceof ReturnSignal) return signal.value;
+      if (signal instanceof BreakSignal || signal instanceof ContinueSignal) throw this.escapedSignal(signal);
+      // Record where the error happened while this frame is still on the stack
+      if (signal instanceof SPLRuntimeError) this.annotateError(signal);
+      throw signal;
+    } finally {
+      this.callStack.pop();
+      this.currentFile = callerFile;
+    }
+  }
+
+  // --- MODULES ---
+
+  private importModule(name: string, span: SourceSpan): SPLModule {
+    const load = this.openModule(name, span);
+    if (load instanceof SPLModule) return load;
+    this.runModule(load, span);
+    return this.closeModule(load);
+  }
+
+  private runModule(load: ModuleLoad, span: SourceSpan) {
+    const previousEnvironment = this.environment;
+    this.environment = load.scope;
+    this.enterModule(load, span);
+    try {
+      this.executeStatements(load.program.body);
+    } catch (signal) {
+      const error = signal instanceof BreakSignal || signal instanceof ContinueSignal || signal instanceof ReturnSignal
+        ? this.escapedSignal(signal)
+        : signal;
+      if (error instanceof SPLRuntimeError) this.annotateError(error);
+      throw error;
+    } finally {
+      this.leaveModule();
+      this.environment = previousEnvironment;
+    }
+  }
+
+  // Fields start from their declared initialisers, then the nirmata method (if any) runs
+  private instantiate(klass: SPLClass, args: any[], span: SourceSpan): SPLInstance {
+    const instance = new SPLInstance(klass);
+    const previous = this.environment;
+    this.environment = new Environment('block', klass.name, klass.closure);
+    try {
+      for (const field of klass.declaration.fields) this.initField(instance, field, this.evaluate(field.init));
+    } finally {
+      this.environment = previous;
+    }
+
+    const init = klass.constructorMethod;
+    if (init) {
+      this.callFunction(init.bind(instance), args, span);
+    } else if (args.length > 0) {
+      throw this.missingConstructor(klass, span);
+    }
+    return instance;
+  }
+
+  private evaluateMemberObject(expr: MemberExpression): SPLInstance | SPLModule {
+    return this.memberObject(this.evaluate(expr.object), expr);
+  }
+
+  // --- EXPRESSIONS ---
+
+  private evaluate(expr: Expression): any {
+    switch (expr.kind) {
+      case 'NumberLiteral':
+      case 'StringLiteral':
+      case 'BooleanLiteral':
+        return expr.value;
+      case 'NullLiteral':
+        return null;
+      case 'ListLiteral':
+        return expr.elements.map(element => this.evaluate(element));
+      case 'DictLiteral': {
+        const dict = new Map<any, any>();
+        for (const entry of expr.entries) {
+          const key = this.evaluate(entry.key);
+          this.checkDictKey(key, entry.key.span);
+          dict.set(key, this.evaluate(entry.value));
+        }
+        return dict;
+      }
+      case 'IndexExpression':
+        return this.getIndex(this.evaluate(expr.object), this.evaluate(expr.index), expr);
+      case 'Identifier':
+        return this.lookup(expr.name, expr.span);
+      case 'BinaryExpression':
+        return this.applyOperator(expr.operator, this.evaluate(expr.left), this.evaluate(expr.right));
+      case 'LogicalExpression': {
+        const left = this.isTruthy(this.evaluate(expr.left));
+        if (expr.operator === '&&') return left && this.isTruthy(this.evaluate(expr.right));
+        return left || this.isTruthy(this.evaluate(expr.right));
+      }
+      case 'UnaryExpression': {
+        const value = this.evaluate(expr.argument);
+        return expr.operator === '-' ? -value : !this.isTruthy(value);
+      }
+      case 'ThisExpression':
+        return this.thisValue(expr.span);
+      case 'MemberExpression':
+        return this.getMember(this.evaluateMemberObject(expr), expr);
+      case 'CallExpression': {
+        const callee = this.evaluate(expr.callee);
+        if (callee instanceof SPLClass) {
+          return this.instantiate(callee, expr.args.map(arg => this.evaluate(arg)), expr.span);
+        }
+        if (callee instanceof NativeFunction) {
+          return this.callNative(callee, expr.args.map(arg => this.evaluate(arg)), expr.span);
+        }
+        if (!(callee instanceof SPLFunction)) throw this.notCallable(callee, expr.callee);
+        const args = expr.args.map(arg => this.evaluate(arg));
+        return this.callFunction(callee, args, expr.span);
+      }
+    }
+  }
+}
@@ -0,0 +1,546 @@
+import { KEYWORDS, MAIN_FILE } from "../constants";
+import { ScriptMode, SourceMap } from "../types";
+import {
+  Program, Statement, Expression, FunctionDeclaration, ClassDeclaration, IfStatement, Identifier, LogicalExpression,
+  SourceSpan, alwaysExits, karyamsUsedAhead, returnsOf
+} from "./splAst";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+import { undeclaredMessage } from "./splDiagnostics";
+import { ModuleResolver, moduleBindingName, moduleFileName } from "./splModules";
+import { SPLTypeChecker, TypeCheckResult, declaredAt, prune } from "./splTypeChecker";
+import { Mapping, buildSourceMap } from "./splSourceMap";
+
+// The runtime, shipped next to the generated module
+const RUNTIME_FILE = 'sanskritam.mjs';
+
+// JavaScript keywords and names the generated code relies on get a trailing $
+const RESERVED = new Set([
+  'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import', 'in',
+  'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static',
+  'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'arguments', 'eval', 'undefined', 'NaN', 'Infinity', 'san'
+]);
+
+const IDENTIFIER = /^[\p{ID_Start}_][\p{ID_Continue}‌‍]*$/u;
+
+// SPL names never contain $, so $u0964 for a character JavaScript names cannot hold is unambiguous
+const mangle = (name: string): string => {
+  if (RESERVED.has(name)) return `${name}$`;
+  if (IDENTIFIER.test(name)) return name;
+  return Array.from(name)
+    .map((c, i) => IDENTIFIER.test(i === 0 ? c : `_${c}`) ? c : `$u${c.charCodeAt(0).toString(16).padStart(4, '0')}`)
+    .join('');
+};
+
+// Object keys and method names only need quotes when they are not identifiers
+const propertyKey = (name: string): string => IDENTIFIER.test(name) ? name : JSON.stringify(name);
+
+// Builtins are called by either name; both map to san.<roman name>
+const BUILTIN_NAMES: Record<string, string> = {};
+for (const [name, builtin] of Object.entries(BUILTIN_FUNCTIONS)) {
+  BUILTIN_NAMES[name] = BUILTIN_NAMES[builtin.devanagari] = name;
+}
+
+// A value's primitive type when it is known before running; '+' on two numbers or two strings stays native
+type Kind = 'number' | 'string' | 'boolean' | null;
+
+const SIGNATURE_KINDS: Record<string, Kind> = { sankhya: 'number', vakyam: 'string', tarkah: 'boolean' };
+
+interface Binding {
+  js: string;
+  kind: Kind;
+  // A karyam declaration, called directly when the argument count matches
+  karyam?: { arity: number; result: Kind };
+}
+
+class Scope {
+  public bindings = new Map<string, Binding>();
+  constructor(public parent: Scope | null) {}
+
+  public lookup(name: string): Binding | null {
+    return this.bindings.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+interface Emitted {
+  code: string;
+  kind: Kind;
+}
+
+// A generated line and the .spl position of the statement that produced it
+interface Line {
+  text: string;
+  origin?: { source: number; line: number; column: number };
+}
+
+// Loaders for project modules and the files behind them, shared by the generators of all files in a program
+interface ModuleRegistry {
+  sources: string[];
+  loaders: Map<string, { name: string; lines: Line[] }>;
+}
+
+/**
+ * Turns the AST into an ES module that imports sanskritam.mjs as san. SPL
+ * values are JavaScript values (lists are arrays, dictionaries Maps), so most
+ * statements and operators map one to one; '+', indexing, members and calls
+ * whose target is not known go through san, which follows the interpreter's
+ * rules. Each statement's first line is mapped back to its .spl position.
+ */
+export class SPLJsGenerator {
+  private lines: Line[] = [];
+  private indent = 0;
+  private dynamic: boolean;
+  private source: number;
+  // Names assigned shunyam somewhere, and karyam parameters that receive it
+  private nullable = new Set<string>();
+  private nullArguments = new Map<string, Set<number>>();
+  private functions = 0;
+  private loops = 0;
+  // Karyams bound to san.undeclared() first, which their declaration assigns instead of hoisting
+  private ahead = new Set<FunctionDeclaration>();
+
+  constructor(
+    private program: Program,
+    private types: TypeCheckResult,
+    private mode: ScriptMode,
+    private resolveModule: ModuleResolver,
+    private fileName: string = MAIN_FILE,
+    private registry: ModuleRegistry = { sources: [], loaders: new Map() }
+  ) {
+    this.dynamic = types.mismatches.length > 0;
+    this.source = registry.sources.push(fileName) - 1;
+    this.analyze(program.body);
+  }
+
+  // `file` is what the code is saved as; the source map and its sourceMappingURL comment name it
+  public generate(file = `${this.fileName.replace(/\.spl$/, '')}.mjs`): { code: string; sourceMap: SourceMap } {
+    this.indent = 1;
+    if (this.mode === ScriptMode.DEVANAGARI) this.emit(`san.devanagariScript();`);
+    this.emitStatements(this.program.body, new Scope(null));
+
+    const out: Line[] = [{ text: `import * as san from "./${RUNTIME_FILE}";` }, { text: '' }];
+    for (const [fileName, loader] of this.registry.loaders) out.push({ text: `// ${fileName}` }, ...loader.lines, { text: '' });
+    out.push(
+      { text: `try {` },
+      ...this.lines,
+      { text: `} catch (spl_error) {` },
+      { text: `  san.uncaught(spl_error);` },
+      { text: `}` },
+      { text: `//# sourceMappingURL=${file}.map` }
+    );
+    const mappings: Mapping[] = [];
+    out.forEach((line, i) => {
+      if (!line.origin) return;
+      const column = line.text.length - line.text.trimStart().length + 1;
+      mappings.push({ generatedLine: i + 1, generatedColumn: column, ...line.origin });
+    });
+    return { code: out.map(line => line.text).join('\n'), sourceMap: buildSourceMap(file, this.registry.sources, mappings) };
+  }
+
+  // A module loader: runs the file once and returns its top-level names, read live
+  private generateLoader(name: string, loader: string): Line[] {
+    this.indent = 1;
+    const scope = new Scope(null);
+    this.emitStatements(this.program.body, scope);
+    const members = [...scope.bindings].map(([spl, binding]) => `${propertyKey(spl)}: () => ${binding.js}`);
+    return [
+      { text: `const ${loader} = san.loader(${JSON.stringify(name)}, () => {` },
+      ...this.lines,
+      { text: `  return san.module(${JSON.stringify(name)}, { ${members.join(', ')} });` },
+      { text: `});` }
+    ];
+  }
+
+  private emit(text: string, span?: SourceSpan) {
+    const origin = span && { source: this.source, line: span.line, column: span.col };
+    this.lines.push({ text: '  '.repeat(this.indent) + text, origin });
+  }
+
+  // --- ANALYSIS ---
+
+  private analyze(node: unknown) {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.analyze(child));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+    const n = node as Statement | Expression;
+    if (n.kind === 'Assignment' && n.target.kind === 'Identifier' && n.value.kind === 'NullLiteral') {
+      this.nullable.add(n.target.name);
+    }
+    if (n.kind === 'CallExpression' && n.callee.kind === 'Identifier') {
+      const name = n.callee.name;
+      n.args.forEach((arg, i) => {
+        if (arg.kind !== 'NullLiteral') return;
+        if (!this.nullArguments.has(name)) this.nullArguments.set(name, new Set());
+        this.nullArguments.get(name)!.add(i);
+      });
+    }
+    for (const child of Object.values(node)) if (child && typeof child === 'object') this.analyze(child);
+  }
+
+  // --- TYPES ---
+
+  private declaredKind(name: Identifier, init?: Expression): Kind {
+    if (this.dynamic || this.nullable.has(name.name) || init?.kind === 'NullLiteral') return null;
+    const type = this.types.declarations.get(declaredAt(name.span));
+    const t = type && prune(type);
+    return t && (t.kind === 'number' || t.kind === 'string' || t.kind === 'boolean') ? t.kind : null;
+  }
+
+  // Known only when every path returns a value of one primitive type
+  private resultKind(fn: FunctionDeclaration): Kind {
+    const type = this.types.declarations.get(declaredAt(fn.name.span));
+    const t = type && prune(type);
+    if (this.dynamic || t?.kind !== 'function' || !alwaysExits(fn.body.body)) return null;
+    if (!returnsOf(fn.body.body).every(arg => arg && arg.kind !== 'NullLiteral')) return null;
+    const result = prune(t.result);
+    return result.kind === 'number' || result.kind === 'string' || result.kind === 'boolean' ? result.kind : null;
+  }
+
+  // --- STATEMENTS ---
+
+  private bind(scope: Scope, name: Identifier, binding: Omit<Binding, 'js'>): Binding {
+    const full = { ...binding, js: mangle(name.name) };
+    scope.bindings.set(name.name, full);
+    return full;
+  }
+
+  private emitStatements(statements: Statement[], scope: Scope) {
+    // Names are visible from the start of their block, so a karyam may use one declared after it
+    for (const stmt of statements) {
+      if (stmt.kind === 'VariableDeclaration') this.bind(scope, stmt.name, { kind: this.declaredKind(stmt.name, stmt.init) });
+      else if (stmt.kind === 'FunctionDeclaration') this.bind(scope, stmt.name, { kind: null, karyam: { arity: stmt.params.length, result: this.resultKind(stmt) } });
+      else if (stmt.kind === 'ClassDeclaration') this.bind(scope, stmt.name, { kind: null });
+      else if (stmt.kind === 'ImportStatement') scope.bindings.set(moduleBindingName(stmt.source.value), { js: mangle(moduleBindingName(stmt.source.value)), kind: null });
+    }
+    // A hoisted function would run before its declaration, where the engine reports SPL4003
+    for (const fn of karyamsUsedAhead(statements)) {
+      this.ahead.add(fn);
+      this.emit(`let ${scope.bindings.get(fn.name.name)!.js} = san.undeclared(${JSON.stringify(undeclaredMessage(fn.name.name))});`);
+    }
+    for (const stmt of statements) this.emitStatement(stmt, scope);
+  }
+
+  private emitNested(statements: Statement[], scope: Scope) {
+    this.indent++;
+    this.emitStatements(statements, scope);
+    this.indent--;
+  }
+
+  private emitStatement(stmt: Statement, scope: Scope) {
+    switch (stmt.kind) {
+      case 'VariableDeclaration':
+        this.emit(`let ${scope.bindings.get(stmt.name.name)!.js} = ${this.expression(stmt.init, scope).code};`, stmt.span);
+        break;
+      case 'Assignment': {
+        const value = this.expression(stmt.value, scope).code;
+        const target = stmt.target;
+        if (target.kind === 'MemberExpression') {
+          this.emit(`san.setMember(${this.expression(target.object, scope).code}, ${JSON.stringify(target.property.name)}, ${value});`, stmt.span);
+        } else if (target.kind === 'IndexExpression') {
+          this.emit(`san.setIndex(${this.expression(target.object, scope).code}, ${this.expression(target.index, scope).code}, ${value});`, stmt.span);
+        } else {
+          const binding = scope.lookup(target.name);
+          if (binding) this.emit(`${binding.js} = ${value};`, stmt.span);
+          else this.emit(`${this.raise(`Cannot assign to undeclared '${target.name}'; declare it with '${KEYWORDS.VALUE.roman}' first`)};`, stmt.span);
+        }
+        break;
+      }
+      case 'PrintStatement':
+        this.emit(`san.vadatu(${this.expression(stmt.value, scope).code});`, stmt.span);
+        break;
+      case 'ExpressionStatement':
+        this.emit(`${this.expression(stmt.expression, scope).code};`, stmt.span);
+        break;
+      case 'IfStatement':
+        this.emitIf(stmt, scope);
+        break;
+      case 'WhileStatement':
+        this.emit(`while (${this.condition(stmt.test, scope)}) {`, stmt.span);
+        this.emitLoopBody(stmt.body.body, new Scope(scope));
+        this.emit(`}`);
+        break;
+      case 'ForRangeStatement': {
+        const source = `san.range(${this.expression(stmt.start, scope).code}, ${this.expression(stmt.end, scope).code})`;
+        this.emitLoop(stmt.variable, 'number', source, stmt.body.body, scope, stmt.span);
+        break;
+      }
+      case 'ForEachStatement': {
+        const iterable = this.expression(stmt.iterable, scope);
+        this.emitLoop(stmt.variable, iterable.kind === 'string' ? 'string' : null, `san.items(${iterable.code})`, stmt.body.body, scope, stmt.span);
+        break;
+      }
+      case 'FunctionDeclaration':
+        this.emitFunction(stmt, scope);
+        break;
+      case 'ClassDeclaration':
+        this.emitClass(stmt, scope);
+        break;
+      case 'ImportStatement':
+        this.emit(`let ${mangle(moduleBindingName(stmt.source.value))} = ${this.importValue(stmt.source.value)};`, stmt.span);
+        break;
+      case 'ReturnStatement':
+        if (this.functions === 0) this.emit(`${this.raise(`'${KEYWORDS.RETURN.roman}' used outside of a function`)};`, stmt.span);
+        else this.emit(`return ${stmt.argument ? this.expression(stmt.argument, scope).code : 'null'};`, stmt.span);
+        break;
+      case 'TryStatement': {
+        this.emit(`try {`, stmt.span);
+        this.emitNested(stmt.block.body, new Scope(scope));
+        this.emit(`} catch (spl_error) {`, stmt.handler.span);
+        this.indent++;
+        const handler = new Scope(scope);
+        if (stmt.param) this.emit(`let ${this.bind(handler, stmt.param, { kind: null }).js} = san.caught(spl_error);`);
+        else this.emit(`san.caught(spl_error);`);
+        this.emitStatements(stmt.handler.body, handler);
+        this.indent--;
+        this.emit(`}`);
+        break;
+      }
+      case 'ThrowStatement':
+        this.emit(`throw new san.Exception(${this.expression(stmt.argument, scope).code});`, stmt.span);
+        break;
+      case 'BreakStatement':
+      case 'ContinueStatement': {
+        const keyword = stmt.kind === 'BreakStatement' ? KEYWORDS.BREAK.roman : KEYWORDS.CONTINUE.roman;
+        if (this.loops === 0) this.emit(`${this.raise(`'${keyword}' used outside of a loop`)};`, stmt.span);
+        else this.emit(stmt.kind === 'BreakStatement' ? `break;` : `continue;`, stmt.span);
+        break;
+      }
+    }
+  }
+
+  // anyatha yadi chains become else if
+  private emitIf(stmt: IfStatement, scope: Scope) {
+    let current = stmt;
+    let opening = `if`;
+    for (;;) {
+      this.emit(`${opening} (${this.condition(current.test, scope)}) {`, current.span);
+      this.emitNested(current.consequent.body, new Scope(scope));
+      const alternate = current.alternate;
+      if (alternate?.kind === 'IfStatement') {
+        current = alternate;
+        opening = `} else if`;
+        continue;
+      }
+      if (alternate) {
+        this.emit(`} else {`, alternate.span);
+        this.emitNested(alternate.body, new Scope(scope));
+      }
+      this.emit(`}`);
+      return;
+    }
+  }
+
+  private emitLoopBody(statements: Statement[], scope: Scope) {
+    this.loops++;
+    this.emitNested(statements, scope);
+    this.loops--;
+  }
+
+  // let makes the loop variable fresh on every pass, as in the playground
+  private emitLoop(variable: Identifier, kind: Kind, source: string, body: Statement[], scope: Scope, span: SourceSpan) {
+    const loop = new Scope(scope);
+    const binding = this.bind(loop, variable, { kind: this.nullable.has(variable.name) ? null : kind });
+    this.emit(`for (let ${binding.js} of ${source}) {`, span);
+    this.emitLoopBody(body, loop);
+    this.emit(`}`);
+  }
+
+  private emitParameters(fn: FunctionDeclaration, scope: Scope): string[] {
+    const nulls = this.nullArguments.get(fn.name.name);
+    return fn.params.map((param, i) => this.bind(scope, param, { kind: nulls?.has(i) ? null : this.declaredKind(param) }).js);
+  }
+
+  // Falling off the end of a karyam gives shunyam
+  private emitBody(fn: FunctionDeclaration, scope: Scope) {
+    const loops = this.loops;
+    this.loops = 0;
+    this.functions++;
+    this.indent++;
+    this.emitStatements(fn.body.body, scope);
+    if (!alwaysExits(fn.body.body)) this.emit(`return null;`);
+    this.indent--;
+    this.functions--;
+    this.loops = loops;
+  }
+
+  private emitFunction(fn: FunctionDeclaration, scope: Scope) {
+    const body = new Scope(scope);
+    const params = this.emitParameters(fn, body);
+    const js = scope.bindings.get(fn.name.name)!.js;
+    const ahead = this.ahead.has(fn);
+    this.emit(`${ahead ? `${js} = ` : ''}function ${js}(${params.join(', ')}) {`, fn.span);
+    this.emitBody(fn, body);
+    this.emit(ahead ? `};` : `}`);
+  }
+
+  // A shreni is san.shreni(name, field initialiser, methods taking ayam first)
+  private emitClass(stmt: ClassDeclaration, scope: Scope) {
+    const name = JSON.stringify(stmt.name.name);
+    const js = scope.bindings.get(stmt.name.name)!.js;
+    if (stmt.fields.length === 0) {
+      this.emit(`let ${js} = san.shreni(${name}, null, {`, stmt.span);
+    } else {
+      this.emit(`let ${js} = san.shreni(${name}, ayam => {`, stmt.span);
+      this.indent++;
+      for (const field of stmt.fields) {
+        this.emit(`san.field(ayam, ${JSON.stringify(field.name.name)}, ${this.expression(field.init, scope).code});`, field.span);
+      }
+      this.indent--;
+      this.emit(`}, {`);
+    }
+    this.indent++;
+    for (const method of stmt.methods) {
+      const body = new Scope(scope);
+      body.bindings.set(KEYWORDS.THIS.roman, { js: 'ayam', kind: null });
+      const params = this.emitParameters(method, body);
+      this.emit(`${propertyKey(method.name.name)}(${['ayam', ...params].join(', ')}) {`, method.span);
+      this.emitBody(method, body);
+      this.emit(`},`);
+    }
+    this.indent--;
+    this.emit(`});`);
+  }
+
+  // ganita comes from the runtime; a project file gets a loader that runs it once
+  private importValue(source: string): string {
+    const module = this.resolveModule(source);
+    if (!module) {
+      return this.raise(`Cannot find module '${source}': no file '${moduleFileName(source)}' and no built-in module of that name`);
+    }
+    if (module.kind === 'builtin') return `san.${module.name}`;
+    if (!module.program) return this.raise(`Module '${source}' has syntax errors`);
+    return `${this.loaderFor(module.fileName, moduleBindingName(source), module.program)}()`;
+  }
+
+  private loaderFor(fileName: string, name: string, program: Program): string {
+    const existing = this.registry.loaders.get(fileName);
+    if (existing) return existing.name;
+    const base = fileName.replace(/\.spl$/, '').replace(/\W/g, '_');
+    const taken = new Set([...this.registry.loaders.values()].map(loader => loader.name));
+    let loader = `load_${base}`;
+    for (let n = 2; taken.has(loader); n++) loader = `load_${n}_${base}`;
+    // Registered before generating, so an import cycle refers back to it
+    const entry = { name: loader, lines: [] as Line[] };
+    this.registry.loaders.set(fileName, entry);
+    const generator = new SPLJsGenerator(program, new SPLTypeChecker(program).check(), this.mode, this.resolveModule, fileName, this.registry);
+    entry.lines = generator.generateLoader(name, loader);
+    return loader;
+  }
+
+  // --- EXPRESSIONS ---
+
+  private raise(message: string): string {
+    return `san.raise(${JSON.stringify(message)})`;
+  }
+
+  // Operands that are themselves operations keep their grouping
+  private operand(expr: Expression, scope: Scope): Emitted {
+    const emitted = this.expression(expr, scope);
+    const grouped = expr.kind === 'BinaryExpression' || expr.kind === 'LogicalExpression' || expr.kind === 'UnaryExpression';
+    return grouped ? { ...emitted, code: `(${emitted.code})` } : emitted;
+  }
+
+  // JavaScript truthiness is the playground's, so conditions need no conversion
+  private condition(expr: Expression, scope: Scope): string {
+    return expr.kind === 'LogicalExpression' ? this.logical(expr, scope) : this.expression(expr, scope).code;
+  }
+
+  private logical(expr: LogicalExpression, scope: Scope): string {
+    return `${this.operand(expr.left, scope).code} ${expr.operator} ${this.operand(expr.right, scope).code}`;
+  }
+
+  private expression(expr: Expression, scope: Scope): Emitted {
+    switch (expr.kind) {
+      case 'NumberLiteral':
+        return { code: String(expr.value), kind: 'number' };
+      case 'StringLiteral':
+        return { code: JSON.stringify(expr.value), kind: 'string' };
+      case 'BooleanLiteral':
+        return { code: String(expr.value), kind: 'boolean' };
+      case 'NullLiteral':
+        return { code: 'null', kind: null };
+      case 'ThisExpression': {
+        const binding = scope.lookup(KEYWORDS.THIS.roman);
+        return { code: binding ? binding.js : this.raise(`'${KEYWORDS.THIS.roman}' can only be used inside a ${KEYWORDS.CLASS.roman} method`), kind: null };
+      }
+      case 'Identifier': {
+        const binding = scope.lookup(expr.name);
+        if (binding) return { code: binding.js, kind: binding.kind };
+        if (BUILTIN_NAMES[expr.name]) return { code: `san.${BUILTIN_NAMES[expr.name]}`, kind: null };
+        return { code: this.raise(`'${expr.name}' is not declared; declare it with '${KEYWORDS.VALUE.roman} ${expr.name} = ...'`), kind: null };
+      }
+      case 'ListLiteral':
+        return { code: `[${expr.elements.map(e => this.expression(e, scope).code).join(', ')}]`, kind: null };
+      case 'DictLiteral': {
+        const entries = expr.entries.map(entry => `[${this.expression(entry.key, scope).code}, ${this.expression(entry.value, scope).code}]`);
+        return { code: `san.dict([${entries.join(', ')}])`, kind: null };
+      }
+      case 'UnaryExpression': {
+        const argument = this.operand(expr.argument, scope);
+        return expr.operator === '-' ? { code: `-${argument.code}`, kind: 'number' } : { code: `!${argument.code}`, kind: 'boolean' };
+      }
+      case 'LogicalExpression': {
+        // The playground's && and || give satyam or asatyam, not an operand
+        const bothBoolean = this.expression(expr.left, scope).kind === 'boolean' && this.expression(expr.right, scope).kind === 'boolean';
+        return { code: bothBoolean ? this.logical(expr, scope) : `!!(${this.logical(expr, scope)})`, kind: 'boolean' };
+      }
+      case 'BinaryExpression': {
+        const left = this.operand(expr.left, scope);
+        const right = this.operand(expr.right, scope);
+        switch (expr.operator) {
+          case '+':
+            if (left.kind === right.kind && (left.kind === 'number' || left.kind === 'string')) {
+              return { code: `${left.code} + ${right.code}`, kind: left.kind };
+            }
+            return {
+              code: `san.add(${this.expression(expr.left, scope).code}, ${this.expression(expr.right, scope).code})`,
+              kind: left.kind === 'string' || right.kind === 'string' ? 'string' : null
+            };
+          case '-':
+          case '*':
+          case '/':
+          case '%':
+            return { code: `${left.code} ${expr.operator} ${right.code}`, kind: 'number' };
+          case '==':
+          case '!=':
+            return { code: `${left.code} ${expr.operator}= ${right.code}`, kind: 'boolean' };
+          default:
+            return { code: `${left.code} ${expr.operator} ${right.code}`, kind: 'boolean' };
+        }
+      }
+      case 'IndexExpression':
+        return { code: `san.index(${this.expression(expr.object, scope).code}, ${this.expression(expr.index, scope).code})`, kind: null };
+      case 'MemberExpression':
+        return { code: `san.member(${this.expression(expr.object, scope).code}, ${JSON.stringify(expr.property.name)})`, kind: null };
+      case 'CallExpression':
+        return this.call(expr.callee, expr.args, scope);
+    }
+  }
+
+  private call(callee: Expression, args: Expression[], scope: Scope): Emitted {
+    const emitted = args.map(arg => this.expression(arg, scope));
+    const list = emitted.map(arg => arg.code);
+    if (callee.kind === 'MemberExpression') {
+      const object = this.expression(callee.object, scope).code;
+      return { code: `san.invoke(${[object, JSON.stringify(callee.property.name), ...list].join(', ')})`, kind: null };
+    }
+    if (callee.kind === 'Identifier') {
+      const binding = scope.lookup(callee.name);
+      if (binding?.karyam && binding.karyam.arity === args.length) {
+        return { code: `${binding.js}(${list.join(', ')})`, kind: binding.karyam.result };
+      }
+      const builtin = binding ? undefined : BUILTIN_NAMES[callee.name];
+      if (builtin && BUILTIN_FUNCTIONS[builtin].params.length === args.length) {
+        const [params, result] = BUILTIN_FUNCTIONS[builtin].signature.slice(1).split(') -> ');
+        // khandah of a string is a string
+        const generic = params.split(', ').indexOf(result);
+        return { code: `san.${builtin}(${list.join(', ')})`, kind: generic >= 0 ? emitted[generic].kind : SIGNATURE_KINDS[result] ?? null };
+      }
+    }
+    // Classes, karyam values and wrong argument counts are checked by the runtime
+    return { code: `san.call(${[this.expression(callee, scope).code, ...list].join(', ')})`, kind: null };
+  }
+}
@@ -0,0 +1,384 @@
+import { KEYWORDS } from "../constants";
+import { LintConfig, LintRule, SanskritamError } from "../types";
+import {
+  Token, Program, Statement, Block, Expression, FunctionDeclaration, SourceSpan,
+  isKeyword, joinSpans, tokenSpan
+} from "./splAst";
+import { moduleBindingName } from "./splModules";
+import { DIAGNOSTICS, DiagnosticKind, createDiagnostic } from "./splDiagnostics";
+import { TypeCheckResult } from "./splTypeChecker";
+
+// Each rule reports one diagnostic kind; its default severity comes from DIAGNOSTICS
+export const LINT_RULES: Record<LintRule, { kind: DiagnosticKind; description: string }> = {
+  'unused-variable': { kind: 'UNUSED_VARIABLE', description: `A '${KEYWORDS.VALUE.roman}' variable is never read` },
+  'use-before-declaration': { kind: 'USE_BEFORE_DECLARATION', description: 'A name is used on a line before its declaration runs' },
+  'unreachable-code': { kind: 'UNREACHABLE_CODE', description: `Statements after '${KEYWORDS.RETURN.roman}', '${KEYWORDS.BREAK.roman}', '${KEYWORDS.CONTINUE.roman}' or '${KEYWORDS.THROW.roman}'` },
+  'unbalanced-blocks': { kind: 'UNBALANCED_BLOCKS', description: `Which '${KEYWORDS.THEN.roman}' is missing its '${KEYWORDS.END.roman}', judged by indentation` },
+  'break-outside-loop': { kind: 'BREAK_OUTSIDE_LOOP', description: `'${KEYWORDS.BREAK.roman}' or '${KEYWORDS.CONTINUE.roman}' with no loop around it` },
+  'constant-condition': { kind: 'CONSTANT_CONDITION', description: `A '${KEYWORDS.IF.roman}' or '${KEYWORDS.WHILE.roman}' condition that never changes` },
+  'type-mismatch': { kind: 'TYPE_MISMATCH', description: 'Inferred or annotated types that cannot agree, e.g. adding a vakyam to a tarkah' }
+};
+
+export const defaultLintSeverity = (rule: LintRule) => DIAGNOSTICS[LINT_RULES[rule].kind].severity;
+
+interface Binding {
+  name: string;
+  span: SourceSpan;
+  kind: 'variable' | 'function' | 'class' | 'module' | 'parameter';
+  used: boolean;
+}
+
+// A block's names: those declared so far, and those its later statements will declare
+class LintScope {
+  public bindings = new Map<string, Binding>();
+  public later = new Map<string, Binding>();
+
+  constructor(public parent: LintScope | null, public isFunction: boolean, statements: Statement[] = []) {
+    for (const stmt of statements) {
+      const declared = declaredName(stmt);
+      if (declared && !this.later.has(declared.name)) this.later.set(declared.name, { ...declared, used: false });
+    }
+  }
+}
+
+const declaredName = (stmt: Statement): Omit<Binding, 'used'> | null => {
+  switch (stmt.kind) {
+    case 'VariableDeclaration': return { name: stmt.name.name, span: stmt.name.span, kind: 'variable' };
+    case 'FunctionDeclaration': return { name: stmt.name.name, span: stmt.name.span, kind: 'function' };
+    case 'ClassDeclaration': return { name: stmt.name.name, span: stmt.name.span, kind: 'class' };
+    case 'ImportStatement': return { name: moduleBindingName(stmt.source.value), span: stmt.source.span, kind: 'module' };
+    default: return null;
+  }
+};
+
+// Statements that never let control reach the next line
+const exits = (stmt: Statement): boolean => {
+  switch (stmt.kind) {
+    case 'ReturnStatement':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+    case 'ThrowStatement':
+      return true;
+    case 'IfStatement':
+      return !!stmt.alternate && blockExits(stmt.consequent) && (stmt.alternate.kind === 'Block' ? blockExits(stmt.alternate) : exits(stmt.alternate));
+    default:
+      return false;
+  }
+};
+
+const blockExits = (block: Block): boolean => block.body.some(exits);
+
+const EXIT_KEYWORDS: Partial<Record<Statement['kind'], string>> = {
+  ReturnStatement: KEYWORDS.RETURN.roman,
+  BreakStatement: KEYWORDS.BREAK.roman,
+  ContinueStatement: KEYWORDS.CONTINUE.roman,
+  ThrowStatement: KEYWORDS.THROW.roman,
+  IfStatement: KEYWORDS.IF.roman
+};
+
+const isConstant = (expr: Expression): boolean => {
+  switch (expr.kind) {
+    case 'NumberLiteral':
+    case 'StringLiteral':
+    case 'BooleanLiteral':
+    case 'NullLiteral':
+      return true;
+    case 'UnaryExpression':
+      return isConstant(expr.argument);
+    case 'BinaryExpression':
+    case 'LogicalExpression':
+      return isConstant(expr.left) && isConstant(expr.right);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Static checks over the AST (and, for block balance, the tokens) that never
+ * run the program. `program` is null when the file has syntax errors; only the
+ * token-level rules run then. Top-level names of a module are its exports, so
+ * they are never reported as unused. Type mismatches come from SPLTypeChecker,
+ * which the engine runs once and shares with the C++ generator.
+ */
+export class SPLLinter {
+  private diagnostics: SanskritamError[] = [];
+  private loopDepth = 0;
+
+  constructor(
+    private tokens: Token[],
+    private program: Program | null,
+    private config: LintConfig = {},
+    private isModule = false,
+    private types: TypeCheckResult | null = null
+  ) {}
+
+  public lint(): SanskritamError[] {
+    this.checkBlockBalance();
+    if (this.program) {
+      const global = new LintScope(null, false, this.program.body);
+      this.walkStatements(this.program.body, global);
+      if (!this.isModule) this.reportUnused(global);
+    }
+    this.types?.mismatches.forEach(({ span, message }) => this.report('type-mismatch', span, message));
+    return this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  }
+
+  private report(rule: LintRule, span: SourceSpan, message: string, extra: Partial<SanskritamError> = {}) {
+    const setting = this.config[rule] ?? defaultLintSeverity(rule);
+    if (setting === 'off') return;
+    this.diagnostics.push({ ...createDiagnostic(LINT_RULES[rule].kind, span, message, extra), severity: setting });
+  }
+
+  // --- STATEMENTS ---
+
+  private walkStatements(statements: Statement[], scope: LintScope) {
+    // A stray viramatu is reported by its own rule, not as a reason for unreachable code
+    const exitIndex = statements.findIndex(stmt => exits(stmt) && (this.loopDepth > 0 || (stmt.kind !== 'BreakStatement' && stmt.kind !== 'ContinueStatement')));
+    if (exitIndex !== -1 && exitIndex < statements.length - 1) {
+      const exit = statements[exitIndex];
+      const first = statements[exitIndex + 1];
+      this.report('unreachable-code', joinSpans(first.span, statements[statements.length - 1].span), `Unreachable code: control never gets past the '${EXIT_KEYWORDS[exit.kind]}' on line ${exit.span.line}`, {
+        related: [{ line: exit.span.line, column: exit.span.col, message: `'${EXIT_KEYWORDS[exit.kind]}' leaves this block` }]
+      });
+    }
+    for (const stmt of statements) this.walkStatement(stmt, scope);
+  }
+
+  private walkBlock(block: Block, parent: LintScope, setup?: (scope: LintScope) => void, isFunction = false) {
+    const scope = new LintScope(parent, isFunction, block.body);
+    setup?.(scope);
+    this.walkStatements(block.body, scope);
+    this.reportUnused(scope);
+  }
+
+  private walkLoopBody(block: Block, scope: LintScope, setup?: (scope: LintScope) => void) {
+    this.loopDepth++;
+    this.walkBlock(block, scope, setup);
+    this.loopDepth--;
+  }
+
+  private walkStatement(stmt: Statement, scope: LintScope) {
+    switch (stmt.kind) {
+      case 'VariableDeclaration':
+        this.walkExpression(stmt.init, scope);
+        this.declare(scope, stmt.name.name, stmt.name.span, 'variable');
+        break;
+      case 'Assignment':
+        if (stmt.target.kind === 'Identifier') {
+          this.resolve(scope, stmt.target.name, stmt.target.span, false);
+        } else {
+          this.walkExpression(stmt.target.object, scope);
+          if (stmt.target.kind === 'IndexExpression') this.walkExpression(stmt.target.index, scope);
+        }
+        this.walkExpression(stmt.value, scope);
+        break;
+      case 'PrintStatement':
+        this.walkExpression(stmt.value, scope);
+        break;
+      case 'IfStatement':
+        this.checkCondition(stmt.test, KEYWORDS.IF.roman);
+        this.walkExpression(stmt.test, scope);
+        this.walkBlock(stmt.consequent, scope);
+        if (stmt.alternate?.kind === 'Block') this.walkBlock(stmt.alternate, scope);
+        else if (stmt.alternate) this.walkStatement(stmt.alternate, scope);
+        break;
+      case 'WhileStatement':
+        // yavat satyam tarhi ... viramatu is the usual way to write a loop that exits from its middle
+        if (!(stmt.test.kind === 'BooleanLiteral' && stmt.test.value)) this.checkCondition(stmt.test, KEYWORDS.WHILE.roman);
+        this.walkExpression(stmt.test, scope);
+        this.walkLoopBody(stmt.body, scope);
+        break;
+      case 'ForRangeStatement':
+        this.walkExpression(stmt.start, scope);
+        this.walkExpression(stmt.end, scope);
+        this.walkLoopBody(stmt.body, scope, body => this.declare(body, stmt.variable.name, stmt.variable.span, 'parameter'));
+        break;
+      case 'ForEachStatement':
+        this.walkExpression(stmt.iterable, scope);
+        this.walkLoopBody(stmt.body, scope, body => this.declare(body, stmt.variable.name, stmt.variable.span, 'parameter'));
+        break;
+      case 'FunctionDeclaration':
+        this.declare(scope, stmt.name.name, stmt.name.span, 'function');
+        this.walkFunction(stmt, scope);
+        break;
+      case 'ClassDeclaration': {
+        this.declare(scope, stmt.name.name, stmt.name.span, 'class');
+        // Field initialisers run when an instance is made, like a method body
+        const classScope = new LintScope(scope, true);
+        stmt.fields.forEach(field => this.walkExpression(field.init, classScope));
+        stmt.methods.forEach(method => this.walkFunction(method, classScope));
+        break;
+      }
+      case 'ImportStatement':
+        this.declare(scope, moduleBindingName(stmt.source.value), stmt.source.span, 'module');
+        break;
+      case 'ReturnStatement':
+        if (stmt.argument) this.walkExpression(stmt.argument, scope);
+        break;
+      case 'TryStatement':
+        this.walkBlock(stmt.block, scope);
+        this.walkBlock(stmt.handler, scope, handler => {
+          if (stmt.param) this.declare(handler, stmt.param.name, stmt.param.span, 'parameter');
+        });
+        break;
+      case 'ThrowStatement':
+        this.walkExpression(stmt.argument, scope);
+        break;
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        if (this.loopDepth === 0) {
+          const keyword = stmt.kind === 'BreakStatement' ? KEYWORDS.BREAK.roman : KEYWORDS.CONTINUE.roman;
+          this.report('break-outside-loop', stmt.span, `'${keyword}' is not inside a loop; use it within '${KEYWORDS.WHILE.roman}' or '${KEYWORDS.FOR.roman}'`);
+        }
+        break;
+      case 'ExpressionStatement':
+        this.walkExpression(stmt.expression, scope);
+        break;
+    }
+  }
+
+  // A function body is its own loop context: viramatu cannot leave a function
+  private walkFunction(fn: FunctionDeclaration, scope: LintScope) {
+    const loopDepth = this.loopDepth;
+    this.loopDepth = 0;
+    this.walkBlock(fn.body, scope, body => fn.params.forEach(param => this.declare(body, param.name, param.span, 'parameter')), true);
+    this.loopDepth = loopDepth;
+  }
+
+  private checkCondition(test: Expression, keyword: string) {
+    if (!isConstant(test)) return;
+    this.report('constant-condition', test.span, `The condition of '${keyword}' is constant, so it always takes the same branch`);
+  }
+
+  // --- EXPRESSIONS ---
+
+  private walkExpression(expr: Expression, scope: LintScope) {
+    switch (expr.kind) {
+      case 'Identifier':
+        this.resolve(scope, expr.name, expr.span, true);
+        break;
+      case 'BinaryExpression':
+      case 'LogicalExpression':
+        this.walkExpression(expr.left, scope);
+        this.walkExpression(expr.right, scope);
+        break;
+      case 'UnaryExpression':
+        this.walkExpression(expr.argument, scope);
+        break;
+      case 'ListLiteral':
+        expr.elements.forEach(element => this.walkExpression(element, scope));
+        break;
+      case 'DictLiteral':
+        expr.entries.forEach(entry => {
+          this.walkExpression(entry.key, scope);
+          this.walkExpression(entry.value, scope);
+        });
+        break;
+      case 'MemberExpression':
+        this.walkExpression(expr.object, scope);
+        break;
+      case 'IndexExpression':
+        this.walkExpression(expr.object, scope);
+        this.walkExpression(expr.index, scope);
+        break;
+      case 'CallExpression':
+        this.walkExpression(expr.callee, scope);
+        expr.args.forEach(arg => this.walkExpression(arg, scope));
+        break;
+    }
+  }
+
+  // --- NAMES ---
+
+  private declare(scope: LintScope, name: string, span: SourceSpan, kind: Binding['kind']) {
+    const binding = scope.later.get(name) ?? { name, span, kind, used: false };
+    scope.later.delete(name);
+    if (!scope.bindings.has(name)) scope.bindings.set(name, binding);
+  }
+
+  /**
+   * Marks the binding a name refers to as used. A name declared further down
+   * the same function is an error if nothing outside already provides it;
+   * inside a nested function it is fine, since the call happens later.
+   */
+  private resolve(scope: LintScope, name: string, span: SourceSpan, isRead: boolean) {
+    let crossedFunction = false;
+    let declaredLater: Binding | null = null;
+    for (let s: LintScope | null = scope; s; s = s.parent) {
+      const binding = s.bindings.get(name);
+      if (binding) {
+        if (isRead) binding.used = true;
+        return;
+      }
+      const later = s.later.get(name);
+      if (later && crossedFunction) {
+        if (isRead) later.used = true;
+        return;
+      }
+      if (later && !declaredLater) declaredLater = later;
+      if (s.isFunction) crossedFunction = true;
+    }
+    if (!declaredLater) return;
+    if (isRead) declaredLater.used = true;
+    this.report('use-before-declaration', span, `'${name}' is used before its declaration on line ${declaredLater.span.line}`, {
+      word: name,
+      related: [{ line: declaredLater.span.line, column: declaredLater.span.col, message: `'${name}' is declared here` }]
+    });
+  }
+
+  private reportUnused(scope: LintScope) {
+    for (const binding of scope.bindings.values()) {
+      if (binding.kind !== 'variable' || binding.used || binding.name.startsWith('_')) continue;
+      this.report('unused-variable', binding.span, `'${binding.name}' is declared but never used`, { word: binding.name });
+    }
+  }
+
+  // --- BLOCK BALANCE ---
+
+  /**
+   * When the tarhi/samaptam counts disagree, the parser can only say which
+   * block ran off the end. Matching each samaptam to the opener at the same
+   * indentation usually finds the block that is really missing one.
+   */
+  private checkBlockBalance() {
+    const lines = new Map<number, Token[]>();
+    for (const token of this.tokens) lines.set(token.line, [...(lines.get(token.line) ?? []), token]);
+    const lineStart = new Map(Array.from(lines, ([line, tokens]) => [line, tokens[0]] as [number, Token]));
+    // anyatha yadi ... tarhi continues the chain its first yadi opened
+    const continuesChain = (line: number) => isKeyword(lines.get(line)?.[0], 'ELSE') && isKeyword(lines.get(line)?.[1], 'IF');
+    const opensBlock = (token: Token) => isKeyword(token, 'TRY') || (isKeyword(token, 'THEN') && !continuesChain(token.line));
+    const openers = this.tokens.filter(opensBlock);
+    const closers = this.tokens.filter(token => isKeyword(token, 'END'));
+    if (openers.length === closers.length) return;
+
+    const indent = (token: Token) => lineStart.get(token.line)!.col;
+    const stack: Token[] = [];
+    for (const token of this.tokens) {
+      if (opensBlock(token)) {
+        stack.push(token);
+        continue;
+      }
+      if (!isKeyword(token, 'END')) continue;
+      while (stack.length > 0 && indent(stack[stack.length - 1]) > indent(token)) {
+        this.reportUnclosed(stack.pop()!, lineStart, token);
+      }
+      if (stack.length === 0) {
+        this.report('unbalanced-blocks', tokenSpan(token), `This '${token.value}' has no open block to close`, { word: token.value });
+      } else {
+        stack.pop();
+      }
+    }
+    stack.forEach(opener => this.reportUnclosed(opener, lineStart));
+  }
+
+  private reportUnclosed(opener: Token, lineStart: Map<number, Token>, outerEnd?: Token) {
+    const start = lineStart.get(opener.line)!;
+    const related = outerEnd
+      ? [{ line: outerEnd.line, column: outerEnd.col, message: `This '${outerEnd.value}' lines up with an outer block` }]
+      : [];
+    this.report('unbalanced-blocks', tokenSpan(start), `The '${start.value}' block opened on line ${opener.line} has no matching '${KEYWORDS.END.roman}'`, {
+      word: start.value,
+      related
+    });
+  }
+}
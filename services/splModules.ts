@@ -0,0 +1,32 @@
+import { SanskritamError } from "../types";
+import { Program } from "./splAst";
+
+export type BuiltinMember = number | string | ((...args: any[]) => any);
+
+// Modules that ship with the engine; a project file of the same name takes precedence
+export const BUILTIN_MODULES: Record<string, Record<string, BuiltinMember>> = {
+  ganita: {
+    pi: Math.PI,
+    e: Math.E,
+    mulam: (x: number) => Math.sqrt(x),
+    ghatah: (base: number, exponent: number) => Math.pow(base, exponent),
+    nirapeksham: (x: number) => Math.abs(x),
+    nimnam: (x: number) => Math.floor(x),
+    uccam: (x: number) => Math.ceil(x),
+    laghutamam: (a: number, b: number) => Math.min(a, b),
+    mahattamam: (a: number, b: number) => Math.max(a, b)
+  }
+};
+
+export type ModuleSource =
+  | { kind: 'file'; fileName: string; program: Program | null; errors: SanskritamError[] }
+  | { kind: 'builtin'; name: string; members: Record<string, BuiltinMember> };
+
+// Returns null when `name` matches neither a project file nor a built-in module
+export type ModuleResolver = (name: string) => ModuleSource | null;
+
+export const moduleFileName = (name: string): string => name.endsWith('.spl') ? name : `${name}.spl`;
+
+// anayati "lib/ganita.spl" binds the module as `ganita`
+export const moduleBindingName = (name: string): string =>
+  name.replace(/\.spl$/, '').split('/').pop() || name;
@@ -0,0 +1,39 @@
+import { ScriptMode } from "../types";
+
+export const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+// Spellings accepted by ankalipi() for choosing the numeral script
+export const NUMERAL_SCRIPTS: Record<string, ScriptMode> = {
+  roman: ScriptMode.ROMAN,
+  devanagari: ScriptMode.DEVANAGARI,
+  'रोमन': ScriptMode.ROMAN,
+  'देवनागरी': ScriptMode.DEVANAGARI
+};
+
+export const toAsciiDigits = (text: string): string =>
+  text.replace(/[०-९]/g, digit => String(DEVANAGARI_DIGITS.indexOf(digit)));
+
+export const toDevanagariDigits = (text: string): string =>
+  text.replace(/[0-9]/g, digit => DEVANAGARI_DIGITS[Number(digit)]);
+
+// Lakh/crore grouping: the last three digits, then pairs (12345678 -> 1,23,45,678)
+const groupIndian = (digits: string): string => {
+  if (digits.length <= 3) return digits;
+  const head = digits.slice(0, -3).replace(/\B(?=(\d{2})+$)/g, ',');
+  return `${head},${digits.slice(-3)}`;
+};
+
+/**
+ * Prints a number the way SPL output shows it: JavaScript's shortest form,
+ * optionally grouped the Indian way, with digits in the requested script.
+ */
+export const formatNumber = (value: number, numerals: ScriptMode, grouped = false): string => {
+  if (!Number.isFinite(value)) return String(value);
+  let text = String(value);
+  if (grouped && !text.includes('e')) {
+    const sign = text.startsWith('-') ? '-' : '';
+    const [whole, fraction] = text.slice(sign.length).split('.');
+    text = sign + groupIndian(whole) + (fraction !== undefined ? `.${fraction}` : '');
+  }
+  return numerals === ScriptMode.DEVANAGARI ? toDevanagariDigits(text) : text;
+};
@@ -0,0 +1,599 @@
+import { KEYWORDS, TYPE_ANNOTATIONS } from "../constants";
+import { SanskritamError } from "../types";
+import { DiagnosticKind, closestMatch, createDiagnostic, suggestKeyword } from "./splDiagnostics";
+import {
+  Token, Program, Statement, Block, Expression, Identifier, IfStatement,
+  VariableDeclaration, FunctionDeclaration, DictEntry, TypeAnnotation,
+  isKeyword, getKeywordKey, tokenSpan, joinSpans
+} from "./splAst";
+
+// Binding power of binary operators, loosest first (same ordering as C++)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+class ParseError extends Error {}
+
+// Either spelling of a type name -> its TYPE_ANNOTATIONS key
+const TYPE_LOOKUP: Record<string, keyof typeof TYPE_ANNOTATIONS> = {};
+for (const [key, type] of Object.entries(TYPE_ANNOTATIONS) as [keyof typeof TYPE_ANNOTATIONS, typeof TYPE_ANNOTATIONS.NUMBER][]) {
+  TYPE_LOOKUP[type.roman] = key;
+  TYPE_LOOKUP[type.devanagari] = key;
+}
+
+/**
+ * Recursive-descent parser turning the flat token stream from SPLEngine.tokenize()
+ * into a Program AST. Statements are line-oriented: a simple statement ends at the
+ * end of its line, and blocks opened by `tarhi` run until their `samaptam`.
+ */
+export class SPLParser {
+  private pos = 0;
+  private statementStart = 0;
+  private groupDepth = 0;
+  public errors: SanskritamError[] = [];
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): Program {
+    const body: Statement[] = [];
+    while (!this.isAtEnd()) {
+      if (isKeyword(this.peek(), 'END')) {
+        const stray = this.advance();
+        this.report(stray, `Unexpected '${stray.value}' without a matching block`, 'UNMATCHED_KEYWORD');
+        continue;
+      }
+      const stmt = this.parseStatementSafely();
+      if (stmt) body.push(stmt);
+    }
+
+    const first = this.tokens[0];
+    const last = this.tokens[this.tokens.length - 1];
+    const span = first && last
+      ? joinSpans(tokenSpan(first), tokenSpan(last))
+      : { line: 1, col: 1, endLine: 1, endCol: 1 };
+    return { kind: 'Program', body, span };
+  }
+
+  // --- STATEMENTS ---
+
+  private parseStatementSafely(): Statement | null {
+    return this.recover(() => this.parseStatement());
+  }
+
+  // Runs `parse`, skipping the rest of the line on a syntax error
+  private recover<T>(parse: () => T): T | null {
+    const startLine = this.peek().line;
+    try {
+      return parse();
+    } catch (e) {
+      if (!(e instanceof ParseError)) throw e;
+      this.synchronize(startLine);
+      return null;
+    }
+  }
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+    this.statementStart = this.pos;
+
+    if (isKeyword(token, 'VALUE')) return this.parseVariableDeclaration();
+    if (isKeyword(token, 'PRINT')) return this.parsePrint();
+    if (isKeyword(token, 'IF')) return this.parseIf();
+    if (isKeyword(token, 'WHILE')) return this.parseWhile();
+    if (isKeyword(token, 'FOR')) return this.parseFor();
+    if (isKeyword(token, 'FUNCTION')) return this.parseFunction();
+    if (isKeyword(token, 'CLASS')) return this.parseClass();
+    if (isKeyword(token, 'IMPORT')) {
+      this.advance();
+      const source = this.peek();
+      if (!this.onSameLine(token) || source.type !== 'STRING') {
+        throw this.error(token, `Expected a module name in quotes after '${token.value}'`);
+      }
+      this.advance();
+      this.expectLineEnd();
+      const span = tokenSpan(source);
+      return { kind: 'ImportStatement', source: { kind: 'StringLiteral', value: source.value, span }, span: joinSpans(tokenSpan(token), span) };
+    }
+    if (isKeyword(token, 'TRY')) return this.parseTry();
+    if (isKeyword(token, 'THROW')) {
+      this.advance();
+      if (!this.onSameLine(token)) throw this.error(token, `Expected a value after '${token.value}'`);
+      const argument = this.parseExpression();
+      this.expectLineEnd();
+      return { kind: 'ThrowStatement', argument, span: joinSpans(tokenSpan(token), argument.span) };
+    }
+    if (isKeyword(token, 'CATCH')) {
+      throw this.error(token, `'${token.value}' without a matching '${KEYWORDS.TRY.roman}'`, 'UNMATCHED_KEYWORD');
+    }
+    if (isKeyword(token, 'ELSE')) {
+      throw this.error(token, `'${token.value}' without a matching '${KEYWORDS.IF.roman}'`, 'UNMATCHED_KEYWORD');
+    }
+    if (isKeyword(token, 'RETURN')) {
+      this.advance();
+      if (!this.onSameLine(token)) return { kind: 'ReturnStatement', argument: null, span: tokenSpan(token) };
+      const argument = this.parseExpression();
+      this.expectLineEnd();
+      return { kind: 'ReturnStatement', argument, span: joinSpans(tokenSpan(token), argument.span) };
+    }
+    if (isKeyword(token, 'BREAK') || isKeyword(token, 'CONTINUE')) {
+      this.advance();
+      this.expectLineEnd();
+      return { kind: isKeyword(token, 'BREAK') ? 'BreakStatement' : 'ContinueStatement', span: tokenSpan(token) };
+    }
+
+    if (token.type === 'KEYWORD' && !['TRUE', 'FALSE', 'NULL', 'THIS'].includes(getKeywordKey(token.value) || '')) {
+      throw this.error(token, `Unsupported statement '${token.value}'`, 'UNKNOWN_STATEMENT');
+    }
+    if (token.type === 'IDENTIFIER') this.checkMisspeltStatement(token);
+
+    const expression = this.parseExpression();
+    if (this.onSameLine(this.previous()) && this.peek().type === 'OPERATOR' && this.peek().value === '=') {
+      return this.parseAssignment(expression);
+    }
+    this.expectLineEnd();
+    return { kind: 'ExpressionStatement', expression, span: expression.span };
+  }
+
+  private parseVariableDeclaration(): VariableDeclaration {
+    const keyword = this.advance();
+    const name = this.parseIdentifier(keyword);
+    const annotation = this.parseOptionalAnnotation();
+    this.expectOperator('=', `Expected '=' after '${name.name}'`);
+    const init = this.parseExpression();
+    this.expectLineEnd();
+    return { kind: 'VariableDeclaration', name, annotation, init, span: joinSpans(tokenSpan(keyword), init.span) };
+  }
+
+  // target = value, where target is a name or a member such as ayam.x
+  private parseAssignment(target: Expression): Statement {
+    const equals = this.advance();
+    if (target.kind !== 'Identifier' && target.kind !== 'MemberExpression' && target.kind !== 'IndexExpression') {
+      throw this.error(equals, `Cannot assign to this expression; expected a name, a member or an index`, 'INVALID_ASSIGNMENT');
+    }
+    const value = this.parseExpression();
+    this.expectLineEnd();
+    return { kind: 'Assignment', target, value, span: joinSpans(target.span, value.span) };
+  }
+
+  private parsePrint(): Statement {
+    const keyword = this.advance();
+    if (!this.onSameLine(keyword)) throw this.error(keyword, `Expected a value after '${keyword.value}'`);
+    const value = this.parseExpression();
+    this.expectLineEnd();
+    return { kind: 'PrintStatement', value, span: joinSpans(tokenSpan(keyword), value.span) };
+  }
+
+  private parseIf(): Statement {
+    return this.parseIfChain(this.advance());
+  }
+
+  // yadi c tarhi ... [anyatha yadi c tarhi ...]* [anyatha ...] samaptam -- one samaptam closes the chain
+  private parseIfChain(keyword: Token): IfStatement {
+    const test = this.parseExpression();
+    this.expectKeyword('THEN', `Expected '${KEYWORDS.THEN.roman}' after condition`);
+    const consequent = this.parseBlock(keyword, ['ELSE']);
+
+    let alternate: Block | IfStatement | null = null;
+    const terminator = this.previous();
+    if (isKeyword(terminator, 'ELSE')) {
+      if (isKeyword(this.peek(), 'IF') && this.peek().line === terminator.line) {
+        alternate = this.parseIfChain(this.advance());
+      } else {
+        alternate = this.parseBlock(terminator);
+      }
+    }
+    const last = alternate ?? consequent;
+    return { kind: 'IfStatement', test, consequent, alternate, span: joinSpans(tokenSpan(keyword), last.span) };
+  }
+
+  private parseWhile(): Statement {
+    const keyword = this.advance();
+    const test = this.parseExpression();
+    this.expectKeyword('THEN', `Expected '${KEYWORDS.THEN.roman}' after loop condition`);
+    const body = this.parseBlock(keyword);
+    return { kind: 'WhileStatement', test, body, span: joinSpans(tokenSpan(keyword), body.span) };
+  }
+
+  private parseFor(): Statement {
+    const keyword = this.advance();
+    const variable = this.parseIdentifier(keyword);
+
+    if (isKeyword(this.peek(), 'IN')) {
+      this.advance();
+      const iterable = this.parseExpression();
+      this.expectKeyword('THEN', `Expected '${KEYWORDS.THEN.roman}' after collection`);
+      const body = this.parseBlock(keyword);
+      return { kind: 'ForEachStatement', variable, iterable, body, span: joinSpans(tokenSpan(keyword), body.span) };
+    }
+
+    this.expectOperator('=', `Expected '=' or '${KEYWORDS.IN.roman}' after '${variable.name}'`);
+    const start = this.parseExpression();
+    this.expectKeyword('TO', `Expected '${KEYWORDS.TO.roman}' after range start`);
+    const end = this.parseExpression();
+    this.expectKeyword('THEN', `Expected '${KEYWORDS.THEN.roman}' after range end`);
+    const body = this.parseBlock(keyword);
+    return { kind: 'ForRangeStatement', variable, start, end, body, span: joinSpans(tokenSpan(keyword), body.span) };
+  }
+
+  private parseTry(): Statement {
+    const keyword = this.advance();
+    const block = this.parseBlock(keyword, ['CATCH']);
+    const catchToken = this.previous();
+    if (!isKeyword(catchToken, 'CATCH')) {
+      throw this.error(keyword, `'${keyword.value}' requires a '${KEYWORDS.CATCH.roman}' section`, 'MISSING_CATCH');
+    }
+    let param: Identifier | null = null;
+    if (this.onSameLine(catchToken)) param = this.parseIdentifier(catchToken);
+    const handler = this.parseBlock(catchToken);
+    return { kind: 'TryStatement', block, param, handler, span: joinSpans(tokenSpan(keyword), handler.span) };
+  }
+
+  // karyam name(a, b) tarhi ... samaptam
+  private parseFunction(): FunctionDeclaration {
+    const keyword = this.advance();
+    const name = this.parseIdentifier(keyword);
+    this.expectPunctuation('(', `Expected '(' after function name '${name.name}'`);
+    const params: Identifier[] = [];
+    const paramTypes: (TypeAnnotation | null)[] = [];
+    if (!this.checkPunctuation(')')) {
+      do {
+        params.push(this.parseIdentifier(this.previous()));
+        paramTypes.push(this.parseOptionalAnnotation());
+      } while (this.matchPunctuation(','));
+    }
+    this.expectPunctuation(')', `Expected ')' after parameters of '${name.name}'`);
+    const returnType = this.parseOptionalAnnotation();
+    this.expectKeyword('THEN', `Expected '${KEYWORDS.THEN.roman}' after parameters of '${name.name}'`);
+    const body = this.parseBlock(keyword);
+    return { kind: 'FunctionDeclaration', name, params, paramTypes, returnType, body, span: joinSpans(tokenSpan(keyword), body.span) };
+  }
+
+  // shreni Name tarhi ... samaptam -- the body may only declare fields and methods
+  private parseClass(): Statement {
+    const keyword = this.advance();
+    const name = this.parseIdentifier(keyword);
+    this.expectKeyword('THEN', `Expected '${KEYWORDS.THEN.roman}' after class name '${name.name}'`);
+    const fields: VariableDeclaration[] = [];
+    const methods: FunctionDeclaration[] = [];
+    while (!this.isAtEnd() && !isKeyword(this.peek(), 'END')) {
+      const member = this.recover(() => this.parseClassMember());
+      if (member?.kind === 'VariableDeclaration') fields.push(member);
+      else if (member) methods.push(member);
+    }
+    if (this.isAtEnd()) throw this.unterminated(keyword);
+    const end = this.advance();
+    return { kind: 'ClassDeclaration', name, fields, methods, span: joinSpans(tokenSpan(keyword), tokenSpan(end)) };
+  }
+
+  private parseClassMember(): VariableDeclaration | FunctionDeclaration {
+    const token = this.peek();
+    this.statementStart = this.pos;
+    if (isKeyword(token, 'VALUE')) return this.parseVariableDeclaration();
+    if (isKeyword(token, 'FUNCTION')) return this.parseFunction();
+    throw this.error(token, `Only '${KEYWORDS.VALUE.roman}' fields and '${KEYWORDS.FUNCTION.roman}' methods may appear inside '${KEYWORDS.CLASS.roman}'`, 'INVALID_CLASS_MEMBER');
+  }
+
+  /**
+   * Parses statements up to and including the closing `samaptam`, or one of the
+   * `alsoEndAt` keywords (e.g. `anyatha`) which is consumed in its place.
+   * `opener` is the keyword that started the block, used for error reporting.
+   */
+  private parseBlock(opener: Token, alsoEndAt: string[] = []): Block {
+    const body: Statement[] = [];
+    const start = this.previous();
+    const isTerminator = (token: Token) => isKeyword(token, 'END') || alsoEndAt.some(key => isKeyword(token, key));
+    while (!this.isAtEnd() && !isTerminator(this.peek())) {
+      const stmt = this.parseStatementSafely();
+      if (stmt) body.push(stmt);
+    }
+    if (this.isAtEnd()) throw this.unterminated(opener);
+    const end = this.advance();
+    return { kind: 'Block', body, span: joinSpans(tokenSpan(start), tokenSpan(end)) };
+  }
+
+  // --- EXPRESSIONS ---
+
+  // Precedence climbing: only operators binding tighter than `minPrecedence` are consumed here
+  private parseExpression(minPrecedence = 1): Expression {
+    let left = this.parseUnary();
+    while (this.continuesExpression() && this.peek().type === 'OPERATOR') {
+      const operator = this.peek().value;
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (precedence === undefined || precedence < minPrecedence) break;
+      this.advance();
+      const right = this.parseExpression(precedence + 1);
+      const span = joinSpans(left.span, right.span);
+      left = operator === '&&' || operator === '||'
+        ? { kind: 'LogicalExpression', operator, left, right, span }
+        : { kind: 'BinaryExpression', operator, left, right, span };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (this.startsExpression() && token.type === 'OPERATOR' && (token.value === '-' || token.value === '!')) {
+      this.advance();
+      const argument = this.parseUnary();
+      return { kind: 'UnaryExpression', operator: token.value, argument, span: joinSpans(tokenSpan(token), argument.span) };
+    }
+    return this.parseCall();
+  }
+
+  // Postfix calls f(x), member access obj.name and indexing xs[i], binding left to right
+  private parseCall(): Expression {
+    let expr = this.parsePrimary();
+    while (this.continuesExpression() && (this.checkPunctuation('(') || this.checkPunctuation('.') || this.checkPunctuation('['))) {
+      if (this.matchPunctuation('.')) {
+        const property = this.parseIdentifier(this.previous());
+        expr = { kind: 'MemberExpression', object: expr, property, span: joinSpans(expr.span, property.span) };
+        continue;
+      }
+      if (this.matchPunctuation('[')) {
+        this.groupDepth++;
+        const index = this.parseExpression();
+        this.groupDepth--;
+        const close = this.expectPunctuation(']', `Expected ']' after index`);
+        expr = { kind: 'IndexExpression', object: expr, index, span: joinSpans(expr.span, tokenSpan(close)) };
+        continue;
+      }
+      this.advance();
+      this.groupDepth++;
+      const args: Expression[] = [];
+      if (!this.checkPunctuation(')')) {
+        do {
+          args.push(this.parseExpression());
+        } while (this.matchPunctuation(','));
+      }
+      this.groupDepth--;
+      const close = this.expectPunctuation(')', `Expected ')' after arguments`);
+      expr = { kind: 'CallExpression', callee: expr, args, span: joinSpans(expr.span, tokenSpan(close)) };
+    }
+    return expr;
+  }
+
+  private parsePrimary(): Expression {
+    if (!this.startsExpression()) throw this.error(this.previous(), 'Expected an expression');
+    const token = this.peek();
+    const span = tokenSpan(token);
+
+    if (this.checkPunctuation('(')) {
+      this.advance();
+      this.groupDepth++;
+      const inner = this.parseExpression();
+      this.groupDepth--;
+      const close = this.expectPunctuation(')', `Expected ')' to close '('`);
+      return { ...inner, span: joinSpans(span, tokenSpan(close)) };
+    }
+    if (this.checkPunctuation('[')) return this.parseListLiteral();
+    if (this.checkPunctuation('{')) return this.parseDictLiteral();
+
+    switch (token.type) {
+      case 'NUMBER':
+        this.advance();
+        return { kind: 'NumberLiteral', value: parseFloat(token.value), span };
+      case 'STRING':
+        this.advance();
+        return { kind: 'StringLiteral', value: token.value, span };
+      case 'IDENTIFIER':
+        this.advance();
+        return { kind: 'Identifier', name: token.value, span };
+      case 'KEYWORD': {
+        const key = getKeywordKey(token.value);
+        if (key === 'TRUE' || key === 'FALSE') {
+          this.advance();
+          return { kind: 'BooleanLiteral', value: key === 'TRUE', span };
+        }
+        if (key === 'NULL') {
+          this.advance();
+          return { kind: 'NullLiteral', span };
+        }
+        if (key === 'THIS') {
+          this.advance();
+          return { kind: 'ThisExpression', span };
+        }
+        break;
+      }
+    }
+    throw this.error(token, `Unexpected '${token.value}' in expression`);
+  }
+
+  // [a, b, c] -- like parentheses, a literal may span several lines and end with a comma
+  private parseListLiteral(): Expression {
+    const open = this.advance();
+    this.groupDepth++;
+    const elements: Expression[] = [];
+    if (!this.checkPunctuation(']')) {
+      do {
+        elements.push(this.parseExpression());
+      } while (this.matchPunctuation(',') && !this.checkPunctuation(']'));
+    }
+    this.groupDepth--;
+    const close = this.expectPunctuation(']', `Expected ']' to close the list`);
+    return { kind: 'ListLiteral', elements, span: joinSpans(tokenSpan(open), tokenSpan(close)) };
+  }
+
+  // { key: value, ... }
+  private parseDictLiteral(): Expression {
+    const open = this.advance();
+    this.groupDepth++;
+    const entries: DictEntry[] = [];
+    if (!this.checkPunctuation('}')) {
+      do {
+        const key = this.parseExpression();
+        this.expectPunctuation(':', `Expected ':' after dictionary key`);
+        entries.push({ key, value: this.parseExpression() });
+      } while (this.matchPunctuation(',') && !this.checkPunctuation('}'));
+    }
+    this.groupDepth--;
+    const close = this.expectPunctuation('}', `Expected '}' to close the dictionary`);
+    return { kind: 'DictLiteral', entries, span: joinSpans(tokenSpan(open), tokenSpan(close)) };
+  }
+
+  private parseIdentifier(after: Token): Identifier {
+    const token = this.peek();
+    if (!token || token.type !== 'IDENTIFIER') {
+      throw this.error(token ?? after, `Expected a name after '${after.value}'`);
+    }
+    this.advance();
+    return { kind: 'Identifier', name: token.value, span: tokenSpan(token) };
+  }
+
+  // --- TYPE ANNOTATIONS ---
+
+  private parseOptionalAnnotation(): TypeAnnotation | null {
+    if (!this.checkPunctuation(':') || !this.onSameLine(this.previous())) return null;
+    return this.parseTypeAnnotation(this.advance());
+  }
+
+  // sankhya | vakyam | tarkah | suchi[<T>] | kosha[<K, V>]
+  private parseTypeAnnotation(after: Token): TypeAnnotation {
+    const token = this.peek();
+    if (!token || token.type !== 'IDENTIFIER' || !this.onSameLine(after)) {
+      throw this.error(token && this.onSameLine(after) ? token : after, `Expected a type name after '${after.value}'`, 'UNKNOWN_TYPE');
+    }
+    const name = TYPE_LOOKUP[token.value];
+    if (!name) {
+      const suggestion = closestMatch(token.value, Object.keys(TYPE_LOOKUP));
+      const known = Object.values(TYPE_ANNOTATIONS).map(type => type.roman).join(', ');
+      throw this.error(token, `Unknown type '${token.value}'; use one of ${known}${suggestion ? `. Did you mean '${suggestion}'?` : ''}`, 'UNKNOWN_TYPE', {
+        fix: suggestion ? this.replaceWith(token, suggestion) : undefined
+      });
+    }
+    this.advance();
+    const args: TypeAnnotation[] = [];
+    let end = token;
+    if (!this.isAtEnd() && this.onSameLine(token) && this.peek().type === 'OPERATOR' && this.peek().value === '<') {
+      const open = this.advance();
+      do {
+        args.push(this.parseTypeAnnotation(this.previous()));
+      } while (this.matchPunctuation(','));
+      end = this.expectOperator('>', `Expected '>' to close the type started by '${open.value}'`);
+      const expected = TYPE_ANNOTATIONS[name].params;
+      if (args.length !== expected) {
+        throw this.error(token, expected === 0
+          ? `'${token.value}' takes no element type`
+          : `'${token.value}' takes ${expected} element type${expected > 1 ? 's' : ''}, got ${args.length}`, 'UNKNOWN_TYPE');
+      }
+    }
+    return { kind: 'TypeAnnotation', name, args, span: joinSpans(tokenSpan(token), tokenSpan(end)) };
+  }
+
+  // --- TOKEN HELPERS ---
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private peekAt(offset: number): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(0, this.pos - 1)];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isAtEnd(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  private onSameLine(token: Token): boolean {
+    return !this.isAtEnd() && this.peek().line === token.line;
+  }
+
+  // Inside parentheses an expression may continue onto the following lines
+  private continuesExpression(): boolean {
+    return !this.isAtEnd() && (this.groupDepth > 0 || this.onSameLine(this.previous()));
+  }
+
+  // Only the first token of a statement may start a new line
+  private startsExpression(): boolean {
+    return this.pos === this.statementStart ? !this.isAtEnd() : this.continuesExpression();
+  }
+
+  private expectOperator(value: string, message: string): Token {
+    if (!this.isAtEnd() && this.peek().value === value) return this.advance();
+    throw this.error(this.isAtEnd() ? this.previous() : this.peek(), message);
+  }
+
+  private checkPunctuation(value: string): boolean {
+    return !this.isAtEnd() && this.peek().type === 'PUNCTUATION' && this.peek().value === value;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    if (!this.checkPunctuation(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expectPunctuation(value: string, message: string): Token {
+    if (this.checkPunctuation(value)) return this.advance();
+    throw this.error(this.isAtEnd() ? this.previous() : this.peek(), message);
+  }
+
+  // A near miss of the expected keyword (tarhii for tarhi) comes with a fix
+  private expectKeyword(key: string, message: string): Token {
+    if (isKeyword(this.peek(), key)) return this.advance();
+    const token = this.isAtEnd() ? this.previous() : this.peek();
+    const suggestion = token.type === 'IDENTIFIER' ? suggestKeyword(token.value, [KEYWORDS[key].roman, KEYWORDS[key].devanagari]) : null;
+    if (!suggestion) throw this.error(token, message);
+    throw this.error(token, `${message}; found '${token.value}', did you mean '${suggestion}'?`, 'EXPECTED_KEYWORD', { fix: this.replaceWith(token, suggestion) });
+  }
+
+  private expectLineEnd() {
+    if (this.onSameLine(this.previous())) {
+      const token = this.peek();
+      throw this.error(token, `Unexpected '${token.value}' after end of statement`, 'TRAILING_TOKENS');
+    }
+  }
+
+  /**
+   * A name standing alone, or followed by something that cannot continue an
+   * expression (vadtu "x"), is most likely a misspelt keyword.
+   */
+  private checkMisspeltStatement(token: Token) {
+    const next = this.tokens[this.pos + 1];
+    const continues = next && next.line === token.line
+      && (next.type === 'OPERATOR' || (next.type === 'PUNCTUATION' && ['(', '.', '['].includes(next.value)));
+    if (continues) return;
+    const suggestion = suggestKeyword(token.value);
+    if (!suggestion) return;
+    throw this.error(token, `Unknown statement '${token.value}'; did you mean '${suggestion}'?`, 'UNKNOWN_STATEMENT', { fix: this.replaceWith(token, suggestion) });
+  }
+
+  // --- ERROR HANDLING ---
+
+  private report(token: Token, message: string, kind: DiagnosticKind = 'SYNTAX_ERROR', extra: Partial<SanskritamError> = {}) {
+    this.errors.push(createDiagnostic(kind, tokenSpan(token), message, { word: token.raw ?? token.value, ...extra }));
+  }
+
+  private error(token: Token, message: string, kind?: DiagnosticKind, extra?: Partial<SanskritamError>): ParseError {
+    this.report(token, message, kind, extra);
+    return new ParseError(message);
+  }
+
+  private unterminated(opener: Token): ParseError {
+    const last = this.previous();
+    return this.error(opener, `Unterminated '${opener.value}' block: expected '${KEYWORDS.END.roman}'`, 'UNTERMINATED_BLOCK', {
+      related: [{ line: last.line, column: last.col, message: `The file ends here, still inside '${opener.value}'` }]
+    });
+  }
+
+  private replaceWith(token: Token, replacement: string) {
+    return { label: `Replace with '${replacement}'`, line: token.line, column: token.col, length: (token.raw ?? token.value).length, replacement };
+  }
+
+  // Skips the rest of the line the failed statement started on
+  private synchronize(line: number) {
+    while (!this.isAtEnd() && this.peek().line <= line) this.advance();
+  }
+}
@@ -0,0 +1,578 @@
+import { KEYWORDS } from "../constants";
+import { ScriptMode } from "../types";
+import {
+  Program, Statement, Expression, FunctionDeclaration, ClassDeclaration, IfStatement, Identifier, alwaysExits, karyamsUsedAhead, returnsOf
+} from "./splAst";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+import { undeclaredMessage } from "./splDiagnostics";
+import { ModuleResolver, moduleBindingName, moduleFileName } from "./splModules";
+import { SPLTypeChecker, TypeCheckResult, declaredAt, prune } from "./splTypeChecker";
+
+// Python keywords and the names generated code relies on get a trailing _
+const RESERVED = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+  'san', 'print', 'range', 'Exception'
+]);
+
+const IDENTIFIER = /^[\p{ID_Start}_][\p{ID_Continue}]*$/u;
+
+// Characters Python names cannot hold become _uXXXX_ (ZWJ and ZWNJ in Devanagari names, for one)
+const mangle = (name: string): string => {
+  if (RESERVED.has(name)) return `${name}_`;
+  if (IDENTIFIER.test(name)) return name;
+  return Array.from(name)
+    .map((c, i) => IDENTIFIER.test(i === 0 ? c : `_${c}`) ? c : `_u${c.charCodeAt(0).toString(16).padStart(4, '0')}_`)
+    .join('');
+};
+
+// san.mul(a, b) needs no parentheses as an operand, san.mul(a, b) + 1 does
+const isHelperCall = (code: string): boolean => {
+  if (!/^san\.\w+\(/.test(code)) return false;
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < code.length; i++) {
+    const c = code[i];
+    if (quoted) {
+      if (c === '\\') i++;
+      else if (c === '"') quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')' && --depth === 0) {
+      return i === code.length - 1;
+    }
+  }
+  return false;
+};
+
+// Builtins are called by either name; both map to san.<roman name>
+const BUILTIN_NAMES: Record<string, string> = {};
+for (const [name, builtin] of Object.entries(BUILTIN_FUNCTIONS)) {
+  BUILTIN_NAMES[name] = BUILTIN_NAMES[builtin.devanagari] = name;
+}
+
+// A value's primitive type when it is known before running; operators on known types stay native
+type Kind = 'number' | 'string' | 'boolean' | null;
+
+const SIGNATURE_KINDS: Record<string, Kind> = { sankhya: 'number', vakyam: 'string', tarkah: 'boolean' };
+
+// Operators that need JavaScript's rules unless both operands are numbers (or, for comparisons, strings)
+const OPERATOR_HELPERS: Record<string, string> = {
+  '-': 'sub', '*': 'mul', '/': 'div', '%': 'mod', '<': 'lt', '>': 'gt', '<=': 'le', '>=': 'ge', '==': 'eq', '!=': 'ne'
+};
+
+// One Python function: main, a module loader, a karyam, a method or a field initialiser
+interface PyFunction {
+  names: Set<string>;
+  // Names of enclosing functions it assigns, declared nonlocal at its top
+  nonlocals: Set<string>;
+}
+
+interface Binding {
+  py: string;
+  kind: Kind;
+  owner: PyFunction;
+  // A karyam declaration, called directly when the argument count matches
+  karyam?: { arity: number; result: Kind };
+  // A shreni declaration, instantiated by calling the class
+  shreni?: boolean;
+}
+
+class Scope {
+  public bindings = new Map<string, Binding>();
+  constructor(public parent: Scope | null, public fn: PyFunction) {}
+
+  public lookup(name: string): Binding | null {
+    return this.bindings.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+interface Emitted {
+  code: string;
+  kind: Kind;
+}
+
+// Loaders for project modules, shared by the generators of all files in a program
+interface ModuleRegistry {
+  loaders: Map<string, { name: string; code: string[] }>;
+}
+
+/**
+ * Turns the AST into a Python 3 script that imports sanskritam.py as san. SPL
+ * blocks scope their variables and Python functions do not, so a name that
+ * shadows one of the same function is renamed, and assignments to names of an
+ * enclosing karyam are declared nonlocal. The program body is main(), so its
+ * top-level names are nonlocal to the karyams too.
+ */
+export class SPLPythonGenerator {
+  private lines: string[] = [];
+  private indent = 0;
+  private dynamic: boolean;
+  // Names assigned shunyam somewhere, and karyam parameters that receive it
+  private nullable = new Set<string>();
+  private nullArguments = new Map<string, Set<number>>();
+  private functions = 0;
+  private loops = 0;
+
+  constructor(
+    private program: Program,
+    private types: TypeCheckResult,
+    private mode: ScriptMode,
+    private resolveModule: ModuleResolver,
+    private registry: ModuleRegistry = { loaders: new Map() }
+  ) {
+    this.dynamic = types.mismatches.length > 0;
+    this.analyze(program.body);
+  }
+
+  public generate(): string {
+    const main: PyFunction = { names: new Set(), nonlocals: new Set() };
+    this.indent = 1;
+    if (this.mode === ScriptMode.DEVANAGARI) this.emit(`san.devanagari_script()`);
+    this.emitStatements(this.program.body, new Scope(null, main));
+    if (this.lines.length === 0) this.emit(`pass`);
+
+    const out = [`import sanskritam as san`, ``];
+    for (const [fileName, loader] of this.registry.loaders) out.push(``, `# ${fileName}`, ...loader.code, ``);
+    out.push(``, `def main():`, ...this.lines, ``, ``, `if __name__ == "__main__":`, `    san.run(main)`, ``);
+    return out.join('\n');
+  }
+
+  // A module loader: runs the file once and returns its top-level names, read live
+  private generateLoader(name: string, loader: string): string[] {
+    const fn: PyFunction = { names: new Set(), nonlocals: new Set() };
+    const scope = new Scope(null, fn);
+    this.indent = 1;
+    this.emitStatements(this.program.body, scope);
+    const members = [...scope.bindings].map(([spl, binding]) => `${JSON.stringify(spl)}: lambda: ${binding.py}`);
+    return [
+      `@san.loader(${JSON.stringify(name)})`,
+      `def ${loader}():`,
+      ...this.lines,
+      `    return {${members.join(', ')}}`
+    ];
+  }
+
+  private emit(line: string) {
+    this.lines.push('    '.repeat(this.indent) + line);
+  }
+
+  // --- ANALYSIS ---
+
+  private analyze(node: unknown) {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.analyze(child));
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+    const n = node as Statement | Expression;
+    if (n.kind === 'Assignment' && n.target.kind === 'Identifier' && n.value.kind === 'NullLiteral') {
+      this.nullable.add(n.target.name);
+    }
+    if (n.kind === 'CallExpression' && n.callee.kind === 'Identifier') {
+      const name = n.callee.name;
+      n.args.forEach((arg, i) => {
+        if (arg.kind !== 'NullLiteral') return;
+        if (!this.nullArguments.has(name)) this.nullArguments.set(name, new Set());
+        this.nullArguments.get(name)!.add(i);
+      });
+    }
+    for (const child of Object.values(node)) if (child && typeof child === 'object') this.analyze(child);
+  }
+
+  // --- TYPES ---
+
+  private declaredKind(name: Identifier, init?: Expression): Kind {
+    if (this.dynamic || this.nullable.has(name.name) || init?.kind === 'NullLiteral') return null;
+    const type = this.types.declarations.get(declaredAt(name.span));
+    const t = type && prune(type);
+    return t && (t.kind === 'number' || t.kind === 'string' || t.kind === 'boolean') ? t.kind : null;
+  }
+
+  // Known only when every path returns a value of one primitive type
+  private resultKind(fn: FunctionDeclaration): Kind {
+    const type = this.types.declarations.get(declaredAt(fn.name.span));
+    const t = type && prune(type);
+    if (this.dynamic || t?.kind !== 'function' || !alwaysExits(fn.body.body)) return null;
+    if (!returnsOf(fn.body.body).every(arg => arg && arg.kind !== 'NullLiteral')) return null;
+    const result = prune(t.result);
+    return result.kind === 'number' || result.kind === 'string' || result.kind === 'boolean' ? result.kind : null;
+  }
+
+  // --- STATEMENTS ---
+
+  // Renamed when it would hide a name of the same Python function that is still needed after the block
+  private bind(scope: Scope, name: Identifier, binding: Omit<Binding, 'py' | 'owner'>): Binding {
+    const base = mangle(name.name);
+    let shadowed = false;
+    for (let outer = scope.parent; outer && outer.fn === scope.fn; outer = outer.parent) {
+      if ([...outer.bindings.values()].some(b => b.py === base)) shadowed = true;
+    }
+    let py = base;
+    for (let n = 2; shadowed && scope.fn.names.has(py); n++) py = `${base}_${n}`;
+    scope.fn.names.add(py);
+    const full = { ...binding, py, owner: scope.fn };
+    scope.bindings.set(name.name, full);
+    return full;
+  }
+
+  private emitStatements(statements: Statement[], scope: Scope) {
+    // Names are visible from the start of their block, so a karyam may use one declared after it
+    for (const stmt of statements) {
+      if (stmt.kind === 'VariableDeclaration') this.bind(scope, stmt.name, { kind: this.declaredKind(stmt.name, stmt.init) });
+      else if (stmt.kind === 'FunctionDeclaration') this.bind(scope, stmt.name, { kind: null, karyam: { arity: stmt.params.length, result: this.resultKind(stmt) } });
+      else if (stmt.kind === 'ClassDeclaration') this.bind(scope, stmt.name, { kind: null, shreni: true });
+      else if (stmt.kind === 'ImportStatement') {
+        const name = moduleBindingName(stmt.source.value);
+        this.bind(scope, { kind: 'Identifier', name, span: stmt.span }, { kind: null });
+      }
+    }
+    // Until its def runs, a karyam fails as the engine does instead of raising UnboundLocalError
+    for (const fn of karyamsUsedAhead(statements)) {
+      this.emit(`${scope.bindings.get(fn.name.name)!.py} = san.undeclared(${JSON.stringify(undeclaredMessage(fn.name.name))})`);
+    }
+    for (const stmt of statements) this.emitStatement(stmt, scope);
+  }
+
+  // An indented block; Python needs pass when it would otherwise be empty
+  private emitBlock(statements: Statement[], scope: Scope) {
+    const start = this.lines.length;
+    this.indent++;
+    this.emitStatements(statements, scope);
+    if (this.lines.length === start) this.emit(`pass`);
+    this.indent--;
+  }
+
+  private emitStatement(stmt: Statement, scope: Scope) {
+    switch (stmt.kind) {
+      case 'VariableDeclaration':
+        this.emit(`${scope.bindings.get(stmt.name.name)!.py} = ${this.expression(stmt.init, scope).code}`);
+        break;
+      case 'Assignment': {
+        const value = this.expression(stmt.value, scope).code;
+        const target = stmt.target;
+        if (target.kind === 'MemberExpression') {
+          this.emit(`san.set_member(${this.expression(target.object, scope).code}, ${JSON.stringify(target.property.name)}, ${value})`);
+        } else if (target.kind === 'IndexExpression') {
+          this.emit(`san.set_index(${this.expression(target.object, scope).code}, ${this.expression(target.index, scope).code}, ${value})`);
+        } else {
+          const binding = scope.lookup(target.name);
+          if (!binding) {
+            this.emit(this.fail(`Cannot assign to undeclared '${target.name}'; declare it with '${KEYWORDS.VALUE.roman}' first`));
+            break;
+          }
+          if (binding.owner !== scope.fn) scope.fn.nonlocals.add(binding.py);
+          this.emit(`${binding.py} = ${value}`);
+        }
+        break;
+      }
+      case 'PrintStatement': {
+        const value = this.expression(stmt.value, scope);
+        this.emit(`print(${value.kind === 'string' ? value.code : `san.text(${value.code})`})`);
+        break;
+      }
+      case 'ExpressionStatement':
+        this.emit(this.expression(stmt.expression, scope).code);
+        break;
+      case 'IfStatement':
+        this.emitIf(stmt, scope);
+        break;
+      case 'WhileStatement':
+        this.emit(`while ${this.condition(stmt.test, scope)}:`);
+        this.emitLoopBody(stmt.body.body, new Scope(scope, scope.fn));
+        break;
+      case 'ForRangeStatement': {
+        const loop = new Scope(scope, scope.fn);
+        const start = stmt.start.kind === 'NumberLiteral' ? stmt.start.value : NaN;
+        const end = stmt.end.kind === 'NumberLiteral' ? stmt.end.value : NaN;
+        // Whole-number literal bounds counting up are an ordinary range()
+        const source = Number.isInteger(start) && Number.isInteger(end) && start <= end
+          ? `range(${start}, ${end + 1})`
+          : `san.through(${this.expression(stmt.start, scope).code}, ${this.expression(stmt.end, scope).code})`;
+        const binding = this.bind(loop, stmt.variable, { kind: this.nullable.has(stmt.variable.name) ? null : 'number' });
+        this.emit(`for ${binding.py} in ${source}:`);
+        this.emitLoopBody(stmt.body.body, loop);
+        break;
+      }
+      case 'ForEachStatement': {
+        const loop = new Scope(scope, scope.fn);
+        const iterable = this.expression(stmt.iterable, scope);
+        const text = iterable.kind === 'string' && !this.nullable.has(stmt.variable.name);
+        const binding = this.bind(loop, stmt.variable, { kind: text ? 'string' : null });
+        this.emit(`for ${binding.py} in ${text ? iterable.code : `san.items(${iterable.code})`}:`);
+        this.emitLoopBody(stmt.body.body, loop);
+        break;
+      }
+      case 'FunctionDeclaration':
+        this.emitFunction(stmt, scope.bindings.get(stmt.name.name)!.py, scope);
+        break;
+      case 'ClassDeclaration':
+        this.emitClass(stmt, scope);
+        break;
+      case 'ImportStatement':
+        this.emit(`${scope.bindings.get(moduleBindingName(stmt.source.value))!.py} = ${this.importValue(stmt.source.value)}`);
+        break;
+      case 'ReturnStatement':
+        if (this.functions === 0) this.emit(this.fail(`'${KEYWORDS.RETURN.roman}' used outside of a function`));
+        else this.emit(stmt.argument ? `return ${this.expression(stmt.argument, scope).code}` : `return`);
+        break;
+      case 'TryStatement': {
+        this.emit(`try:`);
+        this.emitBlock(stmt.block.body, new Scope(scope, scope.fn));
+        this.emit(`except Exception as spl_error:`);
+        const handler = new Scope(scope, scope.fn);
+        this.indent++;
+        if (stmt.param) this.emit(`${this.bind(handler, stmt.param, { kind: null }).py} = san.caught(spl_error)`);
+        else this.emit(`san.caught(spl_error)`);
+        this.emitStatements(stmt.handler.body, handler);
+        this.indent--;
+        break;
+      }
+      case 'ThrowStatement':
+        this.emit(`raise san.SplError(${this.expression(stmt.argument, scope).code})`);
+        break;
+      case 'BreakStatement':
+      case 'ContinueStatement': {
+        const keyword = stmt.kind === 'BreakStatement' ? KEYWORDS.BREAK.roman : KEYWORDS.CONTINUE.roman;
+        if (this.loops === 0) this.emit(this.fail(`'${keyword}' used outside of a loop`));
+        else this.emit(stmt.kind === 'BreakStatement' ? `break` : `continue`);
+        break;
+      }
+    }
+  }
+
+  // anyatha yadi chains become elif
+  private emitIf(stmt: IfStatement, scope: Scope) {
+    let current = stmt;
+    let opening = `if`;
+    for (;;) {
+      this.emit(`${opening} ${this.condition(current.test, scope)}:`);
+      this.emitBlock(current.consequent.body, new Scope(scope, scope.fn));
+      const alternate = current.alternate;
+      if (alternate?.kind === 'IfStatement') {
+        current = alternate;
+        opening = `elif`;
+        continue;
+      }
+      if (alternate) {
+        this.emit(`else:`);
+        this.emitBlock(alternate.body, new Scope(scope, scope.fn));
+      }
+      return;
+    }
+  }
+
+  private emitLoopBody(statements: Statement[], scope: Scope) {
+    this.loops++;
+    this.emitBlock(statements, scope);
+    this.loops--;
+  }
+
+  // A def whose nonlocal line is known only once its body is generated
+  private emitFunction(fn: FunctionDeclaration, name: string, scope: Scope, self?: string) {
+    const inner: PyFunction = { names: new Set(), nonlocals: new Set() };
+    const body = new Scope(scope, inner);
+    if (self) body.bindings.set(KEYWORDS.THIS.roman, { py: self, kind: null, owner: inner });
+    const nulls = this.nullArguments.get(fn.name.name);
+    const params = fn.params.map((param, i) => this.bind(body, param, { kind: nulls?.has(i) ? null : this.declaredKind(param) }).py);
+    this.emit(`def ${name}(${[...(self ? [self] : []), ...params].join(', ')}):`);
+    const loops = this.loops;
+    this.loops = 0;
+    this.functions++;
+    const start = this.lines.length;
+    this.emitBlock(fn.body.body, body);
+    if (inner.nonlocals.size > 0) {
+      this.lines.splice(start, 0, `${'    '.repeat(this.indent + 1)}nonlocal ${[...inner.nonlocals].join(', ')}`);
+    }
+    this.functions--;
+    this.loops = loops;
+  }
+
+  // A shreni is a subclass of san.Instance; __fields__ sets the declared fields, methods take ayam first
+  private emitClass(stmt: ClassDeclaration, scope: Scope) {
+    this.emit(`class ${scope.bindings.get(stmt.name.name)!.py}(san.Instance):`);
+    this.indent++;
+    if (stmt.fields.length === 0 && stmt.methods.length === 0) this.emit(`pass`);
+    if (stmt.fields.length > 0) {
+      const fields = new Scope(scope, { names: new Set(), nonlocals: new Set() });
+      this.emit(`def __fields__(ayam):`);
+      this.indent++;
+      for (const field of stmt.fields) {
+        this.emit(`san.field(ayam, ${JSON.stringify(field.name.name)}, ${this.expression(field.init, fields).code})`);
+      }
+      this.indent--;
+    }
+    stmt.methods.forEach((method, i) => {
+      if (i > 0 || stmt.fields.length > 0) this.lines.push('');
+      this.emitFunction(method, mangle(method.name.name), scope, 'ayam');
+    });
+    this.indent--;
+  }
+
+  // ganita comes from the runtime; a project file gets a loader that runs it once
+  private importValue(source: string): string {
+    const module = this.resolveModule(source);
+    if (!module) {
+      return this.fail(`Cannot find module '${source}': no file '${moduleFileName(source)}' and no built-in module of that name`);
+    }
+    if (module.kind === 'builtin') return `san.${module.name}`;
+    if (!module.program) return this.fail(`Module '${source}' has syntax errors`);
+    return `${this.loaderFor(module.fileName, moduleBindingName(source), module.program)}()`;
+  }
+
+  private loaderFor(fileName: string, name: string, program: Program): string {
+    const existing = this.registry.loaders.get(fileName);
+    if (existing) return existing.name;
+    const base = fileName.replace(/\.spl$/, '').replace(/\W/g, '_');
+    const taken = new Set([...this.registry.loaders.values()].map(loader => loader.name));
+    let loader = `load_${base}`;
+    for (let n = 2; taken.has(loader); n++) loader = `load_${n}_${base}`;
+    // Registered before generating, so an import cycle refers back to it
+    const entry = { name: loader, code: [] as string[] };
+    this.registry.loaders.set(fileName, entry);
+    const generator = new SPLPythonGenerator(program, new SPLTypeChecker(program).check(), this.mode, this.resolveModule, this.registry);
+    entry.code = generator.generateLoader(name, loader);
+    return loader;
+  }
+
+  // --- EXPRESSIONS ---
+
+  private fail(message: string): string {
+    return `san.fail(${JSON.stringify(message)})`;
+  }
+
+  // Operands that are themselves operations keep their grouping
+  private operand(expr: Expression, scope: Scope): Emitted {
+    const emitted = this.expression(expr, scope);
+    const grouped = expr.kind === 'BinaryExpression' || expr.kind === 'LogicalExpression' || expr.kind === 'UnaryExpression';
+    return grouped && !isHelperCall(emitted.code) ? { ...emitted, code: `(${emitted.code})` } : emitted;
+  }
+
+  // Python's truthiness matches the playground's for numbers, strings and booleans, not for empty lists
+  private condition(expr: Expression, scope: Scope): string {
+    if (expr.kind === 'LogicalExpression') {
+      const keyword = expr.operator === '&&' ? 'and' : 'or';
+      return `${this.conditionOperand(expr.left, scope)} ${keyword} ${this.conditionOperand(expr.right, scope)}`;
+    }
+    const emitted = this.expression(expr, scope);
+    return emitted.kind ? emitted.code : `san.truthy(${emitted.code})`;
+  }
+
+  private conditionOperand(expr: Expression, scope: Scope): string {
+    const code = this.condition(expr, scope);
+    return expr.kind === 'LogicalExpression' ? `(${code})` : code;
+  }
+
+  // A Python bool for any value
+  private truth(expr: Expression, scope: Scope): string {
+    const emitted = this.operand(expr, scope);
+    return emitted.kind === 'boolean' ? emitted.code : `san.truthy(${this.expression(expr, scope).code})`;
+  }
+
+  private expression(expr: Expression, scope: Scope): Emitted {
+    switch (expr.kind) {
+      case 'NumberLiteral':
+        return { code: String(expr.value), kind: 'number' };
+      case 'StringLiteral':
+        return { code: JSON.stringify(expr.value), kind: 'string' };
+      case 'BooleanLiteral':
+        return { code: expr.value ? 'True' : 'False', kind: 'boolean' };
+      case 'NullLiteral':
+        return { code: 'None', kind: null };
+      case 'ThisExpression': {
+        const binding = scope.lookup(KEYWORDS.THIS.roman);
+        return { code: binding ? binding.py : this.fail(`'${KEYWORDS.THIS.roman}' can only be used inside a ${KEYWORDS.CLASS.roman} method`), kind: null };
+      }
+      case 'Identifier': {
+        const binding = scope.lookup(expr.name);
+        if (binding) return { code: binding.py, kind: binding.kind };
+        if (BUILTIN_NAMES[expr.name]) return { code: `san.${BUILTIN_NAMES[expr.name]}`, kind: null };
+        return { code: this.fail(`'${expr.name}' is not declared; declare it with '${KEYWORDS.VALUE.roman} ${expr.name} = ...'`), kind: null };
+      }
+      case 'ListLiteral':
+        return { code: `[${expr.elements.map(e => this.expression(e, scope).code).join(', ')}]`, kind: null };
+      case 'DictLiteral': {
+        const literalKeys = expr.entries.every(entry => entry.key.kind === 'StringLiteral' || entry.key.kind === 'NumberLiteral');
+        const entries = expr.entries.map(entry => [this.expression(entry.key, scope).code, this.expression(entry.value, scope).code]);
+        if (literalKeys) return { code: `{${entries.map(([key, value]) => `${key}: ${value}`).join(', ')}}`, kind: null };
+        return { code: `san.dictionary([${entries.map(([key, value]) => `(${key}, ${value})`).join(', ')}])`, kind: null };
+      }
+      case 'UnaryExpression': {
+        if (expr.operator === '!') {
+          const argument = this.operand(expr.argument, scope);
+          return { code: argument.kind ? `not ${argument.code}` : `not san.truthy(${this.expression(expr.argument, scope).code})`, kind: 'boolean' };
+        }
+        const argument = this.operand(expr.argument, scope);
+        return { code: argument.kind === 'number' ? `-${argument.code}` : `san.neg(${this.expression(expr.argument, scope).code})`, kind: 'number' };
+      }
+      case 'LogicalExpression': {
+        // The playground's && and || give satyam or asatyam, not an operand
+        const keyword = expr.operator === '&&' ? 'and' : 'or';
+        return { code: `${this.truth(expr.left, scope)} ${keyword} ${this.truth(expr.right, scope)}`, kind: 'boolean' };
+      }
+      case 'BinaryExpression': {
+        const left = this.operand(expr.left, scope);
+        const right = this.operand(expr.right, scope);
+        const numbers = left.kind === 'number' && right.kind === 'number';
+        const sameKind = left.kind !== null && left.kind === right.kind;
+        const helper = (name: string, kind: Kind): Emitted =>
+          ({ code: `san.${name}(${this.expression(expr.left, scope).code}, ${this.expression(expr.right, scope).code})`, kind });
+        switch (expr.operator) {
+          case '+':
+            if (numbers || (left.kind === 'string' && right.kind === 'string')) return { code: `${left.code} + ${right.code}`, kind: left.kind };
+            return helper('add', left.kind === 'string' || right.kind === 'string' ? 'string' : null);
+          case '-':
+          case '*':
+            return numbers ? { code: `${left.code} ${expr.operator} ${right.code}`, kind: 'number' } : helper(OPERATOR_HELPERS[expr.operator], 'number');
+          case '/':
+            // Dividing by zero gives Infinity or NaN, as in JavaScript, so only a non-zero literal divisor stays native
+            if (numbers && expr.right.kind === 'NumberLiteral' && expr.right.value !== 0) return { code: `${left.code} / ${right.code}`, kind: 'number' };
+            return helper('div', 'number');
+          case '%':
+            return helper('mod', 'number');
+          case '==':
+          case '!=':
+            return sameKind ? { code: `${left.code} ${expr.operator} ${right.code}`, kind: 'boolean' } : helper(OPERATOR_HELPERS[expr.operator], 'boolean');
+          default:
+            if (numbers || (left.kind === 'string' && right.kind === 'string')) return { code: `${left.code} ${expr.operator} ${right.code}`, kind: 'boolean' };
+            return helper(OPERATOR_HELPERS[expr.operator], 'boolean');
+        }
+      }
+      case 'IndexExpression':
+        return { code: `san.index(${this.expression(expr.object, scope).code}, ${this.expression(expr.index, scope).code})`, kind: null };
+      case 'MemberExpression':
+        return { code: `san.member(${this.expression(expr.object, scope).code}, ${JSON.stringify(expr.property.name)})`, kind: null };
+      case 'CallExpression':
+        return this.call(expr.callee, expr.args, scope);
+    }
+  }
+
+  private call(callee: Expression, args: Expression[], scope: Scope): Emitted {
+    const emitted = args.map(arg => this.expression(arg, scope));
+    const list = emitted.map(arg => arg.code);
+    if (callee.kind === 'MemberExpression') {
+      const object = this.expression(callee.object, scope).code;
+      return { code: `san.invoke(${[object, JSON.stringify(callee.property.name), ...list].join(', ')})`, kind: null };
+    }
+    if (callee.kind === 'Identifier') {
+      const binding = scope.lookup(callee.name);
+      if (binding?.karyam && binding.karyam.arity === args.length) {
+        return { code: `${binding.py}(${list.join(', ')})`, kind: binding.karyam.result };
+      }
+      // Instance.__init__ checks the arguments against nirmata
+      if (binding?.shreni) return { code: `${binding.py}(${list.join(', ')})`, kind: null };
+      const builtin = binding ? undefined : BUILTIN_NAMES[callee.name];
+      if (builtin && BUILTIN_FUNCTIONS[builtin].params.length === args.length) {
+        const [params, result] = BUILTIN_FUNCTIONS[builtin].signature.slice(1).split(') -> ');
+        // khandah of a string is a string
+        const generic = params.split(', ').indexOf(result);
+        return { code: `san.${builtin}(${list.join(', ')})`, kind: generic >= 0 ? emitted[generic].kind : SIGNATURE_KINDS[result] ?? null };
+      }
+    }
+    // Karyam values and wrong argument counts are checked by the runtime
+    return { code: `san.call(${[this.expression(callee, scope).code, ...list].join(', ')})`, kind: null };
+  }
+}
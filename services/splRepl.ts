@@ -0,0 +1,74 @@
+import { EngineOptions, SanskritamError, ScriptMode, VirtualFileSystem } from "../types";
+import { Statement } from "./splAst";
+import { SPLEngine, EngineRun } from "./splEngine";
+import { SPLVirtualMachine } from "./splVM";
+import { DIAGNOSTICS } from "./splDiagnostics";
+
+// File name the REPL's inputs report their diagnostics under
+export const REPL_FILE = '<repl>';
+
+// 'more': the input so far opens a block, so the next line continues it
+export type ReplStep =
+  | { kind: 'more' }
+  | { kind: 'errors'; errors: SanskritamError[] }
+  | { kind: 'run'; run: EngineRun };
+
+/**
+ * Read-eval-print session. Every input runs on the same SPLVirtualMachine, so names
+ * declared by one input are visible to the next; a bare expression other than a call prints its value.
+ */
+export class SPLRepl {
+  private project: SPLEngine;
+  private vm: SPLVirtualMachine;
+  // Lines of a block that is still open
+  private buffer: string[] = [];
+
+  constructor(private mode: ScriptMode, private options: EngineOptions = {}) {
+    this.options = { ...options, fileName: REPL_FILE };
+    this.project = new SPLEngine('', mode, this.options);
+    this.vm = new SPLVirtualMachine(mode, this.options, name => this.project.resolveModule(name));
+  }
+
+  // `files`: the project as it is now, for the modules this input imports
+  public evaluate(line: string, files?: VirtualFileSystem): ReplStep {
+    if (files) {
+      this.options = { ...this.options, files };
+      this.project = new SPLEngine('', this.mode, this.options);
+    }
+    const source = [...this.buffer, line].join('\n');
+    const { program, errors } = new SPLEngine(source, this.mode, this.options).parse();
+    if (!program) {
+      if (errors.some(err => err.code === DIAGNOSTICS.UNTERMINATED_BLOCK.code)) {
+        this.buffer.push(line);
+        return { kind: 'more' };
+      }
+      this.buffer = [];
+      return { kind: 'errors', errors };
+    }
+    this.buffer = [];
+    const last = program.body[program.body.length - 1];
+    if (last?.kind === 'ExpressionStatement' && last.expression.kind !== 'CallExpression') {
+      const echo: Statement = { kind: 'PrintStatement', value: last.expression, span: last.span };
+      program.body[program.body.length - 1] = echo;
+    }
+    this.vm.start(program);
+    return {
+      kind: 'run',
+      run: {
+        output: () => this.vm.output,
+        lines: () => this.vm.lines,
+        resume: steps => {
+          const result = this.vm.resume(steps);
+          return result && { stdout: result.stdout, explanation: '', transpiled: '', tokens: [], errors: result.errors, debugTrace: result.debugTrace };
+        },
+        awaitingInput: () => this.vm.awaitingInput,
+        provideInput: line => this.vm.provideInput(line)
+      }
+    };
+  }
+
+  // Drops the lines of an unfinished block
+  public cancelBlock() {
+    this.buffer = [];
+  }
+}
@@ -0,0 +1,742 @@
+import { KEYWORDS, CONSTRUCTOR_NAMES, MAIN_FILE } from "../constants";
+import { DebugSnapshot, EngineOptions, SanskritamError, ScopeSnapshot, ScriptMode, StackFrame } from "../types";
+import {
+  Program, Expression, SourceSpan, FunctionDeclaration, ClassDeclaration, VariableDeclaration, MemberExpression, IndexExpression
+} from "./splAst";
+import { Environment, UNDECLARED } from "./splEnvironment";
+import { ModuleResolver, moduleBindingName, moduleFileName } from "./splModules";
+import { formatNumber } from "./splNumerals";
+import { BUILTIN_FUNCTIONS, BuiltinContext, BuiltinError, SeededRandom, TYPE_NAMES } from "./splBuiltins";
+import { DiagnosticKind, closestMatch, createDiagnostic, isBlocking, undeclaredMessage } from "./splDiagnostics";
+
+const DEFAULT_MAX_ITERATIONS = 100000;
+const DEFAULT_MAX_CALL_DEPTH = 500;
+
+// A trailing line break does not start another line
+const splitLines = (text: string): string[] => text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+
+export interface RunResult {
+  stdout: string;
+  debugTrace: DebugSnapshot[];
+  errors: SanskritamError[];
+}
+
+// Fatal errors (resource limits) cannot be caught by grihnatu
+export class SPLRuntimeError extends Error {
+  public stackTrace?: StackFrame[];
+  public file?: string;
+
+  constructor(
+    message: string,
+    public span: SourceSpan,
+    public word?: string,
+    public fatal = false,
+    public kind: DiagnosticKind = 'RUNTIME_ERROR',
+    public details: Pick<SanskritamError, 'fix' | 'related'> = {}
+  ) {
+    super(message);
+  }
+}
+
+// Control-flow signals unwinding to the innermost enclosing loop
+export class BreakSignal {
+  constructor(public span: SourceSpan) {}
+}
+
+export class ContinueSignal {
+  constructor(public span: SourceSpan) {}
+}
+
+export class ReturnSignal {
+  constructor(public value: any, public span: SourceSpan) {}
+}
+
+// A value raised by kshipatu, travelling up to the nearest grihnatu
+export class ThrowSignal {
+  constructor(public value: any, public span: SourceSpan, public stackTrace: StackFrame[], public file: string) {}
+}
+
+// Runtime value of a `karyam` declaration, closing over the scope it was declared in.
+// Methods read from an instance are bound to it and see it as `ayam`.
+export class SPLFunction {
+  constructor(
+    public declaration: FunctionDeclaration,
+    public closure: Environment,
+    public file: string,
+    public receiver: SPLInstance | null = null
+  ) {}
+
+  get name(): string {
+    return this.declaration.name.name;
+  }
+
+  bind(instance: SPLInstance): SPLFunction {
+    return new SPLFunction(this.declaration, this.closure, this.file, instance);
+  }
+
+  toString(): string {
+    return `<${KEYWORDS.FUNCTION.roman} ${this.name}(${this.declaration.params.map(p => p.name).join(', ')})>`;
+  }
+}
+
+// Runtime value of a `shreni` declaration; calling it creates an instance
+export class SPLClass {
+  public methods = new Map<string, SPLFunction>();
+
+  constructor(public declaration: ClassDeclaration, public closure: Environment, public file: string) {
+    for (const method of declaration.methods) this.methods.set(method.name.name, new SPLFunction(method, closure, file));
+  }
+
+  get name(): string {
+    return this.declaration.name.name;
+  }
+
+  get constructorMethod(): SPLFunction | undefined {
+    return this.methods.get(CONSTRUCTOR_NAMES.roman) ?? this.methods.get(CONSTRUCTOR_NAMES.devanagari);
+  }
+
+  toString(): string {
+    return `<${KEYWORDS.CLASS.roman} ${this.name}>`;
+  }
+}
+
+export class SPLInstance {
+  public fields = new Map<string, any>();
+
+  constructor(public klass: SPLClass) {}
+}
+
+// Built-in function implemented in JavaScript (e.g. ganita.mulam)
+export class NativeFunction {
+  constructor(public name: string, public arity: number, public impl: (args: any[]) => any, public readsInput = false) {}
+
+  toString(): string {
+    return `<${KEYWORDS.FUNCTION.roman} ${this.name} (native)>`;
+  }
+}
+
+// Result of `anayati`; members are read live from the module's top-level scope
+export class SPLModule {
+  constructor(public name: string, public scope: Environment) {}
+
+  toString(): string {
+    return `<${KEYWORDS.IMPORT.roman} ${this.name}>`;
+  }
+}
+
+// A project file that still has to run in `scope` before it becomes an SPLModule
+export interface ModuleLoad {
+  name: string;
+  key: string;
+  fileName: string;
+  program: Program;
+  scope: Environment;
+}
+
+/**
+ * State and semantics shared by the tree-walking interpreter and the bytecode VM:
+ * values, scopes, modules, error reporting and the debugger trace.
+ * Subclasses only decide how a Program is executed.
+ */
+export abstract class SPLRuntime {
+  // Builtins sit above every global and module scope, so user code may shadow them
+  protected builtins = new Environment('global', 'builtins');
+  protected globals = new Environment('global', 'global', this.builtins);
+  protected environment = this.globals;
+  protected debugTrace: DebugSnapshot[] = [];
+  protected errors: SanskritamError[] = [];
+  protected callStack: StackFrame[] = [];
+  protected maxCallDepth: number;
+  protected currentFile: string;
+  protected loadingModules: string[];
+  // Printed lines joined with '\n', kept up to date so each snapshot can share it
+  private stdout = '';
+  private printed = 0;
+  private iterations = 0;
+  private maxIterations: number;
+  private timeLimit: number;
+  private deadline: number;
+  private modules = new Map<string, SPLModule>();
+  private random = new SeededRandom();
+  // Script for printed digits; starts as the program's script mode, ankalipi() overrides it
+  private numerals: ScriptMode;
+  // Debugger copies of collections and instances, reused until the program next mutates one
+  private snapshots = new WeakMap<object, any>();
+  // Lines of stdin not read yet; provideInput() appends to them or ends them
+  private stdin: string[];
+  private stdinEnded = false;
+  // Prompt of the shrunotu call the VM is paused at, and since when
+  private prompt: string | null = null;
+  private promptedAt = 0;
+  // The prompt is printed as the VM pauses, not again when the call resumes
+  private promptShown = false;
+  // Without it captureSnapshot() records nothing and debugTrace stays empty
+  protected trace: boolean;
+
+  constructor(protected mode: ScriptMode, options: EngineOptions = {}, private resolveModule: ModuleResolver = () => null) {
+    this.maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    this.maxCallDepth = options.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH;
+    this.timeLimit = options.timeLimit ?? Infinity;
+    this.trace = options.trace ?? false;
+    this.deadline = Date.now() + this.timeLimit;
+    this.currentFile = options.fileName ?? MAIN_FILE;
+    this.loadingModules = [this.currentFile];
+    this.numerals = mode;
+    this.stdin = splitLines(options.stdin ?? '');
+    const context: BuiltinContext = {
+      random: () => this.random.next(),
+      seed: value => this.random.seed(value),
+      format: value => this.formatValue(value),
+      typeOf: value => this.typeOf(value),
+      numerals: () => this.numerals,
+      setNumerals: script => { this.numerals = script; },
+      readLine: prompt => {
+        this.showPrompt(prompt);
+        this.promptShown = false;
+        return this.stdin.shift() ?? null;
+      }
+    };
+    for (const [name, builtin] of Object.entries(BUILTIN_FUNCTIONS)) {
+      const fn = new NativeFunction(name, builtin.params.length, args => builtin.impl(args, context), builtin.readsInput);
+      this.builtins.define(name, fn);
+      this.builtins.define(builtin.devanagari, fn);
+    }
+  }
+
+  public run(program: Program): RunResult {
+    this.start(program);
+    return this.resume()!;
+  }
+
+  // Prepares the main program; nothing runs until resume(). Calling it again after a program
+  // has ended runs another in the same globals, as the REPL does
+  public abstract start(program: Program): void;
+
+  // Per-run state back to a fresh top level, wherever the last program stopped; globals,
+  // loaded modules and unread stdin stay
+  protected reset() {
+    this.environment = this.globals;
+    this.callStack = [];
+    this.loadingModules = this.loadingModules.slice(0, 1);
+    this.currentFile = this.loadingModules[0];
+    this.debugTrace = [];
+    this.errors = [];
+    this.stdout = '';
+    this.printed = 0;
+    this.iterations = 0;
+    this.deadline = Date.now() + this.timeLimit;
+    this.prompt = null;
+    this.promptShown = false;
+  }
+
+  // Runs at most `steps` more instructions (executors that cannot pause run to the end);
+  // null while the program is unfinished
+  public resume(steps = Infinity): RunResult | null {
+    try {
+      if (!this.advance(steps)) return null;
+    } catch (e) {
+      if (e instanceof SPLRuntimeError) {
+        this.reportError(e.kind, e.message, e.span, { word: e.word, stackTrace: e.stackTrace ?? this.captureStackTrace(e.span.line), file: e.file, ...e.details });
+      } else if (e instanceof ThrowSignal) {
+        this.reportError('UNCAUGHT_EXCEPTION', `Uncaught exception: ${this.formatValue(e.value)}`, e.span, { stackTrace: e.stackTrace, file: e.file });
+      } else if (e instanceof BreakSignal) {
+        this.reportError('CONTROL_OUTSIDE_BLOCK', `'${KEYWORDS.BREAK.roman}' used outside of a loop`, e.span);
+      } else if (e instanceof ContinueSignal) {
+        this.reportError('CONTROL_OUTSIDE_BLOCK', `'${KEYWORDS.CONTINUE.roman}' used outside of a loop`, e.span);
+      } else if (e instanceof ReturnSignal) {
+        this.reportError('CONTROL_OUTSIDE_BLOCK', `'${KEYWORDS.RETURN.roman}' used outside of a function`, e.span);
+      } else {
+        throw e;
+      }
+    }
+    return {
+      stdout: this.stdout,
+      debugTrace: this.debugTrace,
+      errors: this.errors
+    };
+  }
+
+  // True once the main program has ended; uncaught errors and stray control-flow signals propagate to resume()
+  protected abstract advance(steps: number): boolean;
+
+  // Everything printed so far
+  public get output(): string {
+    return this.stdout;
+  }
+
+  public get lines(): number {
+    return this.printed;
+  }
+
+  // Set while an interactive run waits in shrunotu for provideInput()
+  public get awaitingInput(): string | null {
+    return this.prompt;
+  }
+
+  // null ends the input, so shrunotu fails instead of waiting again.
+  // Time spent waiting for the user does not count against the time limit
+  public provideInput(line: string | null) {
+    if (line === null) this.stdinEnded = true;
+    else this.stdin.push(line);
+    if (this.prompt !== null) this.deadline += Date.now() - this.promptedAt;
+    this.prompt = null;
+  }
+
+  protected awaitInput(prompt: string) {
+    this.showPrompt(prompt);
+    this.prompt = prompt;
+    this.promptedAt = Date.now();
+  }
+
+  private showPrompt(prompt: string) {
+    if (prompt !== '' && !this.promptShown) this.print(prompt);
+    this.promptShown = true;
+  }
+
+  // True when a call to `fn` has a line to read, or cannot wait for one
+  protected hasInput(fn: NativeFunction): boolean {
+    return !fn.readsInput || this.stdin.length > 0 || this.stdinEnded;
+  }
+
+  private reportError(kind: DiagnosticKind, message: string, span: SourceSpan, extra: Partial<SanskritamError> = {}) {
+    this.errors.push(createDiagnostic(kind, span, message, { ...extra, file: extra.file ?? this.currentFile }));
+  }
+
+  protected print(value: any) {
+    const line = this.formatValue(value);
+    this.stdout = this.printed++ === 0 ? line : `${this.stdout}\n${line}`;
+  }
+
+  // --- FUNCTIONS ---
+
+  // Arity and call depth are checked before the callee's frame exists
+  protected checkCall(fn: SPLFunction, argCount: number, span: SourceSpan) {
+    const params = fn.declaration.params;
+    if (argCount !== params.length) {
+      throw new SPLRuntimeError(`'${fn.name}' expects ${this.formatNumber(params.length)} argument(s) but received ${this.formatNumber(argCount)}`, span, fn.name);
+    }
+    if (this.callStack.length >= this.maxCallDepth) {
+      throw new SPLRuntimeError(`Stack overflow: call depth exceeded ${this.formatNumber(this.maxCallDepth)} in '${fn.name}'`, span, fn.name, true, 'STACK_OVERFLOW');
+    }
+    this.checkClock(span);
+  }
+
+  // Parameters live in the function scope itself, so the body cannot re-declare them
+  protected functionScope(fn: SPLFunction, args: any[]): Environment {
+    const scope = new Environment('function', fn.receiver ? `${fn.receiver.klass.name}.${fn.name}` : fn.name, fn.closure);
+    if (fn.receiver) scope.define(KEYWORDS.THIS.roman, fn.receiver);
+    fn.declaration.params.forEach((param, i) => {
+      if (!scope.define(param.name, args[i])) {
+        throw new SPLRuntimeError(`Duplicate parameter '${param.name}' in '${fn.name}'`, param.span, param.name);
+      }
+    });
+    return scope;
+  }
+
+  // break/continue/return that reached a function or module boundary without a loop to stop them
+  protected escapedSignal(signal: BreakSignal | ContinueSignal | ReturnSignal): SPLRuntimeError {
+    const keyword = signal instanceof BreakSignal ? KEYWORDS.BREAK.roman
+      : signal instanceof ContinueSignal ? KEYWORDS.CONTINUE.roman
+      : KEYWORDS.RETURN.roman;
+    const outside = signal instanceof ReturnSignal ? 'function' : 'loop';
+    return new SPLRuntimeError(`'${keyword}' used outside of a ${outside}`, signal.span, undefined, false, 'CONTROL_OUTSIDE_BLOCK');
+  }
+
+  // Record where the error happened while its frame and file are still current
+  protected annotateError(error: SPLRuntimeError) {
+    if (!error.stackTrace) error.stackTrace = this.captureStackTrace(error.span.line);
+    if (!error.file) error.file = this.currentFile;
+  }
+
+  protected callNative(fn: NativeFunction, args: any[], span: SourceSpan): any {
+    if (args.length !== fn.arity) {
+      throw new SPLRuntimeError(`'${fn.name}' expects ${this.formatNumber(fn.arity)} argument(s) but received ${this.formatNumber(args.length)}`, span, fn.name);
+    }
+    // Builtins such as samyojaya modify the collections they are given
+    if (this.trace && args.some(arg => typeof arg === 'object' && arg !== null)) this.snapshots = new WeakMap();
+    try {
+      return fn.impl(args);
+    } catch (e) {
+      if (e instanceof BuiltinError) throw new SPLRuntimeError(e.message, span, fn.name);
+      throw e;
+    }
+  }
+
+  protected notCallable(callee: any, expr: Expression): SPLRuntimeError {
+    const name = expr.kind === 'Identifier' ? expr.name : this.formatValue(callee);
+    return new SPLRuntimeError(`'${name}' is not a function`, expr.span, name);
+  }
+
+  // --- MODULES ---
+
+  // Each module runs once, in its own scope; later imports share the cached result.
+  // Project files come back as a ModuleLoad for the caller to run and then close.
+  protected openModule(name: string, span: SourceSpan): SPLModule | ModuleLoad {
+    const source = this.resolveModule(name);
+    if (!source) {
+      throw new SPLRuntimeError(`Cannot find module '${name}': no file '${moduleFileName(name)}' and no built-in module of that name`, span, name, false, 'MODULE_NOT_FOUND');
+    }
+    const key = source.kind === 'file' ? source.fileName : `builtin:${source.name}`;
+    const cached = this.modules.get(key);
+    if (cached) return cached;
+
+    const scope = new Environment('module', source.kind === 'file' ? source.fileName : source.name, this.builtins);
+    if (source.kind === 'builtin') {
+      for (const [member, value] of Object.entries(source.members)) {
+        scope.define(member, typeof value === 'function' ? new NativeFunction(`${source.name}.${member}`, value.length, args => value(...args)) : value);
+      }
+      return this.cacheModule(key, name, scope);
+    }
+    if (this.loadingModules.includes(source.fileName)) {
+      const cycle = [...this.loadingModules.slice(this.loadingModules.indexOf(source.fileName)), source.fileName];
+      throw new SPLRuntimeError(`Circular import: ${cycle.join(' -> ')}`, span, name, true, 'CIRCULAR_IMPORT');
+    }
+    const firstError = source.errors.find(isBlocking);
+    if (!source.program || firstError) {
+      this.errors.push(...source.errors);
+      const related = firstError ? [{ line: firstError.line, column: firstError.column, file: source.fileName, message: firstError.message }] : [];
+      throw new SPLRuntimeError(`Module '${name}' has syntax errors`, span, name, true, 'MODULE_HAS_ERRORS', { related });
+    }
+    return { name, key, fileName: source.fileName, program: source.program, scope };
+  }
+
+  protected closeModule(load: ModuleLoad): SPLModule {
+    return this.cacheModule(load.key, load.name, load.scope);
+  }
+
+  private cacheModule(key: string, name: string, scope: Environment): SPLModule {
+    const module = new SPLModule(moduleBindingName(name), scope);
+    this.modules.set(key, module);
+    return module;
+  }
+
+  // The module's frame stays on the call stack while its top level runs
+  protected enterModule(load: ModuleLoad, span: SourceSpan) {
+    this.callStack.push({ name: load.fileName, line: span.line, file: this.currentFile });
+    this.loadingModules.push(load.fileName);
+    this.currentFile = load.fileName;
+  }
+
+  protected leaveModule() {
+    this.loadingModules.pop();
+    this.currentFile = this.callStack.pop()!.file ?? MAIN_FILE;
+  }
+
+  // --- INSTANCES ---
+
+  protected initField(instance: SPLInstance, field: VariableDeclaration, value: any) {
+    if (instance.fields.has(field.name.name)) {
+      throw new SPLRuntimeError(`Field '${field.name.name}' is declared twice in '${instance.klass.name}'`, field.name.span, field.name.name);
+    }
+    instance.fields.set(field.name.name, value);
+  }
+
+  protected missingConstructor(klass: SPLClass, span: SourceSpan): SPLRuntimeError {
+    return new SPLRuntimeError(`'${klass.name}' has no '${CONSTRUCTOR_NAMES.roman}' method and takes no arguments`, span, klass.name);
+  }
+
+  protected memberObject(object: any, expr: MemberExpression): SPLInstance | SPLModule {
+    if (!(object instanceof SPLInstance) && !(object instanceof SPLModule)) {
+      throw new SPLRuntimeError(`Cannot access member '${expr.property.name}' of ${this.formatValue(object)}`, expr.property.span, expr.property.name);
+    }
+    return object;
+  }
+
+  protected getMember(object: SPLInstance | SPLModule, expr: MemberExpression): any {
+    const name = expr.property.name;
+    if (object instanceof SPLModule) {
+      // Names starting with '_' stay private to their module
+      if (!name.startsWith('_') && object.scope.hasOwn(name)) return object.scope.get(name);
+      const message = name.startsWith('_') && object.scope.hasOwn(name)
+        ? `'${name}' is private to module '${object.name}'`
+        : `Module '${object.name}' has no export '${name}'`;
+      throw new SPLRuntimeError(message, expr.property.span, name);
+    }
+    if (object.fields.has(name)) return object.fields.get(name);
+    const method = object.klass.methods.get(name);
+    if (method) return method.bind(object);
+    throw new SPLRuntimeError(`'${object.klass.name}' has no member '${name}'`, expr.property.span, name);
+  }
+
+  // Only declared fields can be assigned, mirroring the generated C++ struct
+  protected setMember(object: SPLInstance | SPLModule, expr: MemberExpression, value: any) {
+    const name = expr.property.name;
+    if (object instanceof SPLModule) {
+      throw new SPLRuntimeError(`Cannot assign to '${object.name}.${name}': module exports are read-only`, expr.property.span, name);
+    }
+    if (!object.fields.has(name)) {
+      throw new SPLRuntimeError(`'${object.klass.name}' has no field '${name}'; declare it with '${KEYWORDS.VALUE.roman} ${name} = ...' in the ${KEYWORDS.CLASS.roman}`, expr.property.span, name);
+    }
+    object.fields.set(name, value);
+    if (this.trace) this.snapshots = new WeakMap();
+  }
+
+  protected thisValue(span: SourceSpan): SPLInstance {
+    const instance = this.environment.lookup(KEYWORDS.THIS.roman);
+    if (instance === UNDECLARED) {
+      throw new SPLRuntimeError(`'${KEYWORDS.THIS.roman}' can only be used inside a ${KEYWORDS.CLASS.roman} method`, span, KEYWORDS.THIS.roman);
+    }
+    return instance;
+  }
+
+  // --- COLLECTIONS ---
+
+  protected getIndex(collection: any, index: any, expr: IndexExpression): any {
+    if (Array.isArray(collection) || typeof collection === 'string') {
+      const items = typeof collection === 'string' ? Array.from(collection) : collection;
+      this.checkListIndex(items, index, expr);
+      return items[index];
+    }
+    if (collection instanceof Map) {
+      if (!collection.has(index)) {
+        throw new SPLRuntimeError(`Key ${this.formatValue(index, new Set(), true)} not found in dictionary`, expr.index.span);
+      }
+      return collection.get(index);
+    }
+    throw new SPLRuntimeError(`Cannot index into ${this.typeName(collection)}`, expr.object.span);
+  }
+
+  protected setIndex(collection: any, index: any, value: any, expr: IndexExpression) {
+    if (Array.isArray(collection)) {
+      this.checkListIndex(collection, index, expr);
+      collection[index] = value;
+    } else if (collection instanceof Map) {
+      this.checkDictKey(index, expr.index.span);
+      collection.set(index, value);
+    } else if (typeof collection === 'string') {
+      throw new SPLRuntimeError(`Strings cannot be modified by index`, expr.span);
+    } else {
+      throw new SPLRuntimeError(`Cannot index into ${this.typeName(collection)}`, expr.object.span);
+    }
+    if (this.trace) this.snapshots = new WeakMap();
+  }
+
+  private checkListIndex(items: any[], index: any, expr: IndexExpression) {
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      throw new SPLRuntimeError(`List index must be a whole number, got ${this.formatValue(index, new Set(), true)}`, expr.index.span);
+    }
+    if (index < 0 || index >= items.length) {
+      throw new SPLRuntimeError(`Index ${this.formatNumber(index)} is out of range for length ${this.formatNumber(items.length)}`, expr.index.span);
+    }
+  }
+
+  protected checkDictKey(key: any, span: SourceSpan) {
+    if (typeof key !== 'string' && typeof key !== 'number') {
+      throw new SPLRuntimeError(`Dictionary keys must be strings or numbers, got ${this.typeName(key)}`, span);
+    }
+  }
+
+  // Strings yield characters, lists their elements and dictionaries their keys
+  protected iterationItems(iterable: any, span: SourceSpan): any[] {
+    if (typeof iterable === 'string' || Array.isArray(iterable)) return Array.from(iterable);
+    if (iterable instanceof Map) return Array.from(iterable.keys());
+    throw new SPLRuntimeError(`Cannot iterate over ${this.typeName(iterable)}`, span);
+  }
+
+  protected checkRange(start: any, end: any, span: SourceSpan) {
+    if (typeof start !== 'number' || typeof end !== 'number') {
+      throw new SPLRuntimeError(`Range bounds of '${KEYWORDS.FOR.roman}' must be numbers`, span);
+    }
+  }
+
+  protected typeName(value: any): string {
+    if (value === null) return KEYWORDS.NULL.roman;
+    if (Array.isArray(value)) return 'a list';
+    if (value instanceof Map) return 'a dictionary';
+    if (value instanceof SPLInstance) return `a ${value.klass.name}`;
+    if (value instanceof SPLFunction || value instanceof NativeFunction) return 'a function';
+    return `a ${typeof value}`;
+  }
+
+  // Language-level type name, as returned by prakarah()
+  private typeOf(value: any): string {
+    if (value === null || value === undefined) return TYPE_NAMES.NULL;
+    if (typeof value === 'number') return TYPE_NAMES.NUMBER;
+    if (typeof value === 'string') return TYPE_NAMES.STRING;
+    if (typeof value === 'boolean') return TYPE_NAMES.BOOLEAN;
+    if (Array.isArray(value)) return TYPE_NAMES.LIST;
+    if (value instanceof Map) return TYPE_NAMES.DICT;
+    if (value instanceof SPLInstance) return value.klass.name;
+    if (value instanceof SPLClass) return KEYWORDS.CLASS.roman;
+    if (value instanceof SPLModule) return KEYWORDS.IMPORT.roman;
+    return TYPE_NAMES.FUNCTION;
+  }
+
+  // Innermost frame first: the failing line, then each call site back to main; runs of one frame fold into it
+  protected captureStackTrace(line: number): StackFrame[] {
+    const trace: StackFrame[] = [];
+    let current = line;
+    let file = this.currentFile;
+    const push = (frame: StackFrame) => {
+      const last = trace[trace.length - 1];
+      if (last && last.name === frame.name && last.line === frame.line && last.file === frame.file) last.repeated = (last.repeated ?? 0) + 1;
+      else trace.push(frame);
+    };
+    for (let i = this.callStack.length - 1; i >= 0; i--) {
+      push({ name: this.callStack[i].name, line: current, file });
+      current = this.callStack[i].line;
+      file = this.callStack[i].file ?? file;
+    }
+    push({ name: 'main', line: current, file });
+    return trace;
+  }
+
+  // --- VARIABLES ---
+
+  protected lookup(name: string, span: SourceSpan): any {
+    const value = this.environment.lookup(name);
+    if (value === UNDECLARED) {
+      throw this.undeclared(name, undeclaredMessage(name), span);
+    }
+    return value;
+  }
+
+  protected declare(name: string, value: any, span: SourceSpan) {
+    if (!this.environment.define(name, value)) {
+      throw new SPLRuntimeError(`'${name}' is already declared in this scope`, span, name, false, 'ALREADY_DECLARED');
+    }
+  }
+
+  protected assign(name: string, value: any, span: SourceSpan) {
+    if (!this.environment.set(name, value)) {
+      throw this.undeclared(name, `Cannot assign to undeclared '${name}'; declare it with '${KEYWORDS.VALUE.roman}' first`, span);
+    }
+  }
+
+  // A typo of a visible name or a keyword gets "did you mean" and a fix
+  private undeclared(name: string, message: string, span: SourceSpan): SPLRuntimeError {
+    const visible = this.environment.chain().flatMap(scope => scope.entries().map(([key]) => key));
+    const keywords = Object.values(KEYWORDS).flatMap(kw => [kw.roman, kw.devanagari]);
+    const suggestion = closestMatch(name, [...visible, ...keywords]);
+    if (!suggestion) return new SPLRuntimeError(message, span, name, false, 'UNDECLARED_NAME');
+    const fix = { label: `Replace with '${suggestion}'`, line: span.line, column: span.col, length: name.length, replacement: suggestion };
+    return new SPLRuntimeError(`${message}. Did you mean '${suggestion}'?`, span, name, false, 'UNDECLARED_NAME', { fix });
+  }
+
+  protected countIteration(span: SourceSpan) {
+    if (++this.iterations > this.maxIterations) {
+      throw new SPLRuntimeError(`Loop iteration limit (${this.formatNumber(this.maxIterations)}) exceeded; possible infinite loop`, span, undefined, true, 'ITERATION_LIMIT');
+    }
+    this.checkClock(span);
+  }
+
+  // Loops and calls are the only way a program runs for long, so the wall clock is read there
+  private checkClock(span: SourceSpan) {
+    if (this.timeLimit !== Infinity && Date.now() > this.deadline) {
+      throw new SPLRuntimeError(`Time limit (${this.formatNumber(this.timeLimit)} ms) exceeded; the program was stopped`, span, undefined, true, 'TIME_LIMIT');
+    }
+  }
+
+  // --- VALUES ---
+
+  protected formatNumber(value: number): string {
+    return formatNumber(value, this.numerals);
+  }
+
+  // satyam/asatyam/shunyam follow the script mode; inside collections strings are quoted
+  protected formatValue(value: any, seen = new Set<object>(), nested = false): string {
+    if (typeof value === 'object' && value !== null && seen.has(value)) return '...';
+    if (value instanceof SPLInstance) {
+      seen.add(value);
+      const fields = Array.from(value.fields, ([name, field]) => `${name}: ${this.formatValue(field, seen, true)}`);
+      seen.delete(value);
+      return fields.length > 0 ? `${value.klass.name} { ${fields.join(', ')} }` : `${value.klass.name} {}`;
+    }
+    if (Array.isArray(value)) {
+      seen.add(value);
+      const items = value.map(item => this.formatValue(item, seen, true));
+      seen.delete(value);
+      return `[${items.join(', ')}]`;
+    }
+    if (value instanceof Map) {
+      seen.add(value);
+      const entries = Array.from(value, ([key, item]) => `${this.formatValue(key, seen, true)}: ${this.formatValue(item, seen, true)}`);
+      seen.delete(value);
+      return `{${entries.join(', ')}}`;
+    }
+    if (typeof value === 'number') return this.formatNumber(value);
+    const script = this.mode === ScriptMode.DEVANAGARI ? 'devanagari' : 'roman';
+    if (value === true) return KEYWORDS.TRUE[script];
+    if (value === false) return KEYWORDS.FALSE[script];
+    if (value === null) return KEYWORDS.NULL[script];
+    if (nested && typeof value === 'string') return `"${value}"`;
+    return String(value);
+  }
+
+  protected isTruthy(value: any): boolean {
+    return !!value;
+  }
+
+  protected applyOperator(op: string, left: any, right: any): any {
+    switch (op) {
+      case '+':
+        if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+        if (typeof left === 'string' || typeof right === 'string') return this.formatValue(left) + this.formatValue(right);
+        return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      case '==': return left === right;
+      case '!=': return left !== right;
+      case '<': return left < right;
+      case '>': return left > right;
+      case '<=': return left <= right;
+      case '>=': return left >= right;
+    }
+    return null;
+  }
+
+  // --- DEBUGGER ---
+
+  // Plain JSON copy of a runtime value for the debugger; instances become ObjectSnapshots
+  private snapshotValue(value: any, seen = new Set<object>()): any {
+    if (value instanceof SPLFunction || value instanceof SPLClass || value instanceof NativeFunction || value instanceof SPLModule) {
+      return value.toString();
+    }
+    if (typeof value === 'object' && value !== null && seen.has(value)) return '...';
+    if (value instanceof SPLInstance) {
+      seen.add(value);
+      const fields = Object.fromEntries(Array.from(value.fields, ([name, field]) => [name, this.snapshotValue(field, seen)]));
+      seen.delete(value);
+      return { __shreni: value.klass.name, fields };
+    }
+    if (Array.isArray(value) || value instanceof Map) {
+      seen.add(value);
+      const copy = Array.isArray(value)
+        ? value.map(item => this.snapshotValue(item, seen))
+        : Object.fromEntries(Array.from(value, ([key, item]) => [key, this.snapshotValue(item, seen)]));
+      seen.delete(value);
+      return copy;
+    }
+    return value;
+  }
+
+  // Unchanged collections are copied once and then shared between trace steps
+  private snapshotVariable(value: any): any {
+    if (typeof value !== 'object' || value === null) return value;
+    let copy = this.snapshots.get(value);
+    if (copy === undefined) {
+      copy = this.snapshotValue(value);
+      this.snapshots.set(value, copy);
+    }
+    return copy;
+  }
+
+  protected captureSnapshot(line: number, scope: Environment = this.environment) {
+    if (!this.trace) return;
+    const scopes: ScopeSnapshot[] = scope.chain().filter(env => env !== this.builtins).map(env => {
+      const snapshot = env.snapshot();
+      for (const name in snapshot.variables) snapshot.variables[name] = this.snapshotVariable(snapshot.variables[name]);
+      return snapshot;
+    });
+    this.debugTrace.push({
+      line: line,
+      variables: scopes,
+      stdout: this.stdout,
+      file: this.currentFile,
+      callStack: this.callStack.map(frame => ({ ...frame })),
+      numerals: this.numerals
+    });
+  }
+}
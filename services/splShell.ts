@@ -0,0 +1,249 @@
+import { KEYWORDS, MAIN_FILE } from "../constants";
+import { CodeOutput, DebugSnapshot, VirtualFileSystem } from "../types";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+import { formatDiagnostic, isBlocking } from "./splDiagnostics";
+import type { WorkerEvaluation } from "./splWorkerClient";
+
+// What the playground provides to the shell; run() and evaluate() go through the engine worker
+export interface ShellHost {
+  files: VirtualFileSystem;
+  open(fileName: string): void;
+  // Runs the project from `entry` as the run button does, as a debug run when `trace` is set
+  // so the result has a debugTrace; null when stopped
+  run(entry: string, trace?: boolean): Promise<CodeOutput | null>;
+  // One REPL line, with the stdout it printed; null when stopped
+  evaluate(line: string): Promise<(WorkerEvaluation & { stdout: string }) | null>;
+  resetRepl(): void;
+  // Drops the lines of a REPL block still open, keeping the names
+  cancelBlock(): void;
+}
+
+export interface ShellResult {
+  lines: string[];
+  // Wipe the terminal before printing `lines`
+  clear?: boolean;
+}
+
+export const SHELL_COMMANDS: Record<string, { usage: string; description: string }> = {
+  help: { usage: 'help [command|keyword]', description: 'List the commands, or explain one command, keyword or builtin' },
+  ls: { usage: 'ls', description: 'List the project files' },
+  cat: { usage: 'cat <file>', description: 'Print a project file' },
+  open: { usage: 'open <file>', description: 'Show a project file in the editor' },
+  splc: { usage: 'splc [file] [--tokens] [--cpp] [--trace]', description: `Compile and run the project from a file (default ${MAIN_FILE})` },
+  run: { usage: 'run', description: `Run the project from ${MAIN_FILE}` },
+  repl: { usage: 'repl', description: 'Evaluate SPL line by line; names persist until .reset, .exit leaves' },
+  history: { usage: 'history', description: 'List the commands entered so far' },
+  clear: { usage: 'clear', description: 'Clear the terminal' }
+};
+
+export const SPLC_FLAGS = ['--tokens', '--cpp', '--trace'];
+
+const REPL_COMMANDS = ['.exit', '.reset'];
+
+// Steps of --trace beyond this are summarised
+const MAX_TRACE_STEPS = 200;
+
+// Splits on whitespace; double quotes keep spaces inside one argument
+export const parseCommandLine = (input: string): string[] =>
+  [...input.matchAll(/"([^"]*)"|(\S+)/g)].map(match => match[1] ?? match[2]);
+
+const longestCommonPrefix = (words: string[]): string =>
+  words.reduce((prefix, word) => {
+    let i = 0;
+    while (i < prefix.length && i < word.length && prefix[i] === word[i]) i++;
+    return prefix.slice(0, i);
+  });
+
+// help <word>: a keyword by either spelling, its KEYWORDS key or its equivalent, else a builtin
+export const describeWord = (word: string): string[] | null => {
+  const lower = word.toLowerCase();
+  const keyword = Object.entries(KEYWORDS).find(([key, kw]) =>
+    kw.roman === word || kw.devanagari === word || key.toLowerCase() === lower || kw.equivalent.toLowerCase() === lower);
+  if (keyword) {
+    const [key, kw] = keyword;
+    return [`${kw.roman} / ${kw.devanagari} (${key})`, `  ${kw.meaning}; like '${kw.equivalent}'`];
+  }
+  const builtin = Object.entries(BUILTIN_FUNCTIONS).find(([name, fn]) => name === word || fn.devanagari === word);
+  if (builtin) {
+    const [name, fn] = builtin;
+    return [`${name} / ${fn.devanagari} ${fn.signature}`, `  ${fn.meaning}; like ${fn.equivalent}`];
+  }
+  return null;
+};
+
+const formatTrace = (trace: DebugSnapshot[]): string[] => {
+  const lines = trace.slice(0, MAX_TRACE_STEPS).map(step => {
+    const scope = step.variables[0];
+    const names = scope ? Object.entries(scope.variables).map(([name, value]) => {
+      const text = JSON.stringify(value) ?? String(value);
+      return `${name}=${text.length > 40 ? `${text.slice(0, 37)}...` : text}`;
+    }) : [];
+    return `  ${step.file ?? MAIN_FILE}:${step.line}${names.length > 0 ? `  ${names.join(', ')}` : ''}`;
+  });
+  if (trace.length > MAX_TRACE_STEPS) lines.push(`  ... ${trace.length - MAX_TRACE_STEPS} more steps`);
+  return lines;
+};
+
+/**
+ * The TERMINAL tab's command interpreter: history, tab completion, project file
+ * commands, splc and a REPL whose names persist between lines.
+ */
+export class SPLShell {
+  private history: string[] = [];
+  // Position while browsing history with previous()/next(); history.length is the unsent draft
+  private cursor = 0;
+  private draft = '';
+  private inRepl = false;
+  private continuing = false;
+
+  get prompt(): string {
+    if (!this.inRepl) return '$';
+    return this.continuing ? '...' : 'spl>';
+  }
+
+  public previous(current: string): string {
+    if (this.cursor === this.history.length) this.draft = current;
+    this.cursor = Math.max(0, this.cursor - 1);
+    return this.history[this.cursor] ?? current;
+  }
+
+  public next(): string {
+    this.cursor = Math.min(this.history.length, this.cursor + 1);
+    return this.cursor === this.history.length ? this.draft : this.history[this.cursor];
+  }
+
+  // Completes the last word; with several candidates, as far as they agree
+  public complete(input: string, files: string[]): { input: string; candidates: string[] } {
+    const start = input.search(/\S*$/);
+    const word = input.slice(start);
+    const args = parseCommandLine(input.slice(0, start));
+    const vocabulary = Object.entries(KEYWORDS).flatMap(([, kw]) => [kw.roman, kw.devanagari])
+      .concat(Object.entries(BUILTIN_FUNCTIONS).flatMap(([name, fn]) => [name, fn.devanagari]));
+    let options: string[];
+    if (this.inRepl) options = args.length === 0 ? [...REPL_COMMANDS, ...vocabulary] : vocabulary;
+    else if (args.length === 0) options = Object.keys(SHELL_COMMANDS);
+    else if (args[0] === 'splc') options = word.startsWith('-') ? SPLC_FLAGS : files;
+    else if (args[0] === 'cat' || args[0] === 'open') options = files;
+    else if (args[0] === 'help') options = [...Object.keys(SHELL_COMMANDS), ...vocabulary];
+    else options = [];
+    const candidates = [...new Set(options)].filter(option => option.startsWith(word)).sort();
+    if (candidates.length === 0) return { input, candidates };
+    if (candidates.length === 1) return { input: `${input.slice(0, start)}${candidates[0]} `, candidates };
+    return { input: input.slice(0, start) + longestCommonPrefix(candidates), candidates };
+  }
+
+  public async execute(input: string, host: ShellHost): Promise<ShellResult> {
+    if (input.trim() !== '' && this.history[this.history.length - 1] !== input) this.history.push(input);
+    this.cursor = this.history.length;
+    this.draft = '';
+    if (this.inRepl) return this.evaluate(input, host);
+
+    const [name = '', ...args] = parseCommandLine(input);
+    switch (name.toLowerCase()) {
+      case '':
+        return { lines: [] };
+      case 'help':
+        return { lines: this.help(args[0]) };
+      case 'ls':
+        return { lines: Object.keys(host.files).sort().map(file => `${file}  (${host.files[file].split('\n').length} lines)`) };
+      case 'cat': {
+        const file = this.findFile(args[0], host);
+        return { lines: file ? host.files[file].split('\n') : [this.missingFile('cat', args[0])] };
+      }
+      case 'open': {
+        const file = this.findFile(args[0], host);
+        if (!file) return { lines: [this.missingFile('open', args[0])] };
+        host.open(file);
+        return { lines: [`Opened ${file}`] };
+      }
+      case 'splc':
+        return { lines: await this.splc(args, host) };
+      case 'run': {
+        const result = await host.run(MAIN_FILE);
+        if (!result) return { lines: ['Stopped.'] };
+        // Compile errors leave no output, a runtime error follows what was printed before it
+        const diagnostics = (result.errors ?? []).flatMap(err => formatDiagnostic(err));
+        if (result.stdout === '' && diagnostics.length > 0) return { lines: diagnostics };
+        return { lines: [result.stdout || '(No output)', ...diagnostics] };
+      }
+      case 'repl':
+        this.inRepl = true;
+        this.continuing = false;
+        return { lines: ['SPL REPL: statements run line by line and keep their names.', "Type '.reset' to forget them, '.exit' to leave."] };
+      case 'history':
+        return { lines: this.history.map((entry, i) => `${String(i + 1).padStart(4)}  ${entry}`) };
+      case 'clear':
+        return { lines: [], clear: true };
+      default:
+        return { lines: [`Command not found: ${name}. Type 'help' for commands.`] };
+    }
+  }
+
+  private help(topic?: string): string[] {
+    if (!topic) {
+      return ['Commands:', ...Object.values(SHELL_COMMANDS).map(cmd => `  ${cmd.usage.padEnd(42)}${cmd.description}`), "help <keyword> explains a keyword or builtin, e.g. 'help yadi'."];
+    }
+    const command = SHELL_COMMANDS[topic];
+    if (command) return [command.usage, `  ${command.description}`];
+    return describeWord(topic) ?? [`No help for '${topic}'`];
+  }
+
+  // A project file by name, with or without its .spl
+  private findFile(name: string | undefined, host: ShellHost): string | null {
+    if (!name) return null;
+    if (host.files[name] !== undefined) return name;
+    return host.files[`${name}.spl`] !== undefined ? `${name}.spl` : null;
+  }
+
+  private missingFile(command: string, name: string | undefined): string {
+    return name ? `${command}: ${name}: No such file` : `Usage: ${SHELL_COMMANDS[command].usage}`;
+  }
+
+  private async splc(args: string[], host: ShellHost): Promise<string[]> {
+    const flags = args.filter(arg => arg.startsWith('-'));
+    const targets = args.filter(arg => !arg.startsWith('-'));
+    if (targets[0] === 'help') return [`Usage: ${SHELL_COMMANDS.splc.usage}`, 'Example: splc main.spl --trace'];
+    const unknown = flags.find(flag => !SPLC_FLAGS.includes(flag));
+    if (unknown) return [`splc: unknown option '${unknown}'`, `Usage: ${SHELL_COMMANDS.splc.usage}`];
+    if (targets.length > 1) return [`Usage: ${SHELL_COMMANDS.splc.usage}`];
+    // `splc *.spl` builds the whole project, which always starts from the main file
+    const entry = !targets[0] || targets[0] === '*.spl' ? MAIN_FILE : this.findFile(targets[0], host);
+    if (!entry) return [this.missingFile('splc', targets[0])];
+
+    const lines = [`Compiling ${entry}...`];
+    const result = await host.run(entry, flags.includes('--trace'));
+    if (!result) return [...lines, 'Stopped.'];
+    result.errors?.forEach(err => lines.push(...formatDiagnostic(err)));
+    if (result.errors?.some(isBlocking)) return [...lines, 'Compilation failed with errors.'];
+    if (flags.includes('--tokens')) lines.push('Tokens:', ...result.tokens.map(token => `  ${token.category.padEnd(12)}${token.word}`));
+    if (flags.includes('--cpp')) lines.push('C++:', ...result.transpiled.split('\n'));
+    if (flags.includes('--trace')) lines.push('Trace:', ...formatTrace(result.debugTrace ?? []));
+    lines.push('Compilation successful.', 'Output:', result.stdout || '(No output)');
+    return lines;
+  }
+
+  private async evaluate(line: string, host: ShellHost): Promise<ShellResult> {
+    // The commands also work inside an open block, whose lines they drop
+    const command = line.trim();
+    if (command === '.exit') {
+      if (this.continuing) host.cancelBlock();
+      this.continuing = false;
+      this.inRepl = false;
+      return { lines: ['Left the REPL.'] };
+    }
+    if (command === '.reset') {
+      host.resetRepl();
+      this.continuing = false;
+      return { lines: ['REPL names forgotten.'] };
+    }
+    const result = await host.evaluate(line);
+    if (!result) {
+      this.continuing = false;
+      return { lines: ['Stopped.'] };
+    }
+    this.continuing = result.more;
+    const lines = result.stdout === '' ? [] : result.stdout.split('\n');
+    result.errors.forEach(err => lines.push(...formatDiagnostic(err)));
+    return { lines };
+  }
+}
@@ -0,0 +1,55 @@
+import { SourceMap } from "../types";
+
+// One generated position and the .spl position it came from; lines and columns are 1-based like tokens
+export interface Mapping {
+  generatedLine: number;
+  generatedColumn: number;
+  source: number;
+  line: number;
+  column: number;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 VLQ: five bits per digit, least significant first, with the sign in the lowest bit
+const encodeVlq = (value: number): string => {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+  let out = '';
+  do {
+    let digit = rest & 31;
+    rest >>>= 5;
+    if (rest > 0) digit |= 32;
+    out += BASE64[digit];
+  } while (rest > 0);
+  return out;
+};
+
+/**
+ * Encodes mappings in the v3 format: one ';'-separated group per generated
+ * line, each segment relative to the previous one.
+ */
+export const buildSourceMap = (file: string, sources: string[], mappings: Mapping[]): SourceMap => {
+  const sorted = [...mappings].sort((a, b) => a.generatedLine - b.generatedLine || a.generatedColumn - b.generatedColumn);
+  const lines: string[] = [];
+  // The generated column restarts on every line; the other fields run on across the file
+  let generatedColumn = 0;
+  let source = 0;
+  let line = 0;
+  let column = 0;
+  for (const mapping of sorted) {
+    if (lines.length < mapping.generatedLine) generatedColumn = 0;
+    while (lines.length < mapping.generatedLine) lines.push('');
+    const segment = [
+      mapping.generatedColumn - 1 - generatedColumn,
+      mapping.source - source,
+      mapping.line - 1 - line,
+      mapping.column - 1 - column
+    ].map(encodeVlq).join('');
+    lines[lines.length - 1] += (lines[lines.length - 1] ? ',' : '') + segment;
+    generatedColumn = mapping.generatedColumn - 1;
+    source = mapping.source;
+    line = mapping.line - 1;
+    column = mapping.column - 1;
+  }
+  return { version: 3, file, sources, names: [], mappings: lines.join(';') };
+};
@@ -0,0 +1,242 @@
+import { KEYWORDS, CONSTRUCTOR_NAMES, SCRIPT_PRAGMA, SCRIPT_POLICY_NAMES, TYPE_ANNOTATIONS } from "../constants";
+import { ScriptMode } from "../types";
+import { Token, getKeywordKey, isKeyword } from "./splAst";
+import { SPLEngine } from "./splEngine";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+import { BUILTIN_MODULES, moduleBindingName } from "./splModules";
+import { DEVANAGARI_DIGITS, toAsciiDigits, toDevanagariDigits } from "./splNumerals";
+
+export type TransliterationScheme = 'IAST' | 'ITRANS';
+
+export interface TransliterationOptions {
+  // Also respell user-chosen names; keywords, builtins and numerals always convert
+  identifiers?: boolean;
+  scheme?: TransliterationScheme;
+}
+
+// --- LETTER TABLES ---
+// [devanagari, IAST, ITRANS]
+
+const CONSONANTS: [string, string, string][] = [
+  ['क', 'k', 'k'], ['ख', 'kh', 'kh'], ['ग', 'g', 'g'], ['घ', 'gh', 'gh'], ['ङ', 'ṅ', '~N'],
+  ['च', 'c', 'ch'], ['छ', 'ch', 'Ch'], ['ज', 'j', 'j'], ['झ', 'jh', 'jh'], ['ञ', 'ñ', '~n'],
+  ['ट', 'ṭ', 'T'], ['ठ', 'ṭh', 'Th'], ['ड', 'ḍ', 'D'], ['ढ', 'ḍh', 'Dh'], ['ण', 'ṇ', 'N'],
+  ['त', 't', 't'], ['थ', 'th', 'th'], ['द', 'd', 'd'], ['ध', 'dh', 'dh'], ['न', 'n', 'n'],
+  ['प', 'p', 'p'], ['फ', 'ph', 'ph'], ['ब', 'b', 'b'], ['भ', 'bh', 'bh'], ['म', 'm', 'm'],
+  ['य', 'y', 'y'], ['र', 'r', 'r'], ['ल', 'l', 'l'], ['व', 'v', 'v'],
+  ['श', 'ś', 'sh'], ['ष', 'ṣ', 'Sh'], ['स', 's', 's'], ['ह', 'h', 'h'], ['ळ', 'ḻ', 'L']
+];
+
+// [independent vowel, vowel sign after a consonant ('' for the inherent a), IAST, ITRANS]
+const VOWELS: [string, string, string, string][] = [
+  ['अ', '', 'a', 'a'], ['आ', 'ा', 'ā', 'A'], ['इ', 'ि', 'i', 'i'], ['ई', 'ी', 'ī', 'I'],
+  ['उ', 'ु', 'u', 'u'], ['ऊ', 'ू', 'ū', 'U'], ['ऋ', 'ृ', 'ṛ', 'RRi'], ['ॠ', 'ॄ', 'ṝ', 'RRI'],
+  ['ऌ', 'ॢ', 'ḷ', 'LLi'], ['ए', 'े', 'e', 'e'], ['ऐ', 'ै', 'ai', 'ai'], ['ओ', 'ो', 'o', 'o'], ['औ', 'ौ', 'au', 'au']
+];
+
+const MARKS: [string, string, string][] = [
+  ['ं', 'ṃ', 'M'], ['ः', 'ḥ', 'H'], ['ँ', 'm̐', '.N'], ['ऽ', "'", '.a']
+];
+
+// Extra spellings accepted when reading ITRANS
+const ITRANS_ALIASES: Record<string, string> = { aa: 'A', ii: 'I', uu: 'U', shh: 'Sh' };
+
+const VIRAMA = '्';
+
+type RomanUnit =
+  | { kind: 'consonant'; devanagari: string }
+  | { kind: 'vowel'; independent: string; sign: string }
+  | { kind: 'mark'; devanagari: string };
+
+const schemeIndex = (scheme: TransliterationScheme) => scheme === 'IAST' ? 0 : 1;
+
+const romanUnits = (scheme: TransliterationScheme): Map<string, RomanUnit> => {
+  const s = schemeIndex(scheme);
+  const units = new Map<string, RomanUnit>();
+  for (const row of CONSONANTS) units.set(row[1 + s], { kind: 'consonant', devanagari: row[0] });
+  for (const row of VOWELS) units.set(row[2 + s], { kind: 'vowel', independent: row[0], sign: row[1] });
+  for (const row of MARKS) units.set(row[1 + s], { kind: 'mark', devanagari: row[0] });
+  if (scheme === 'ITRANS') {
+    for (const [alias, canonical] of Object.entries(ITRANS_ALIASES)) units.set(alias, units.get(canonical)!);
+  }
+  return units;
+};
+
+const ROMAN_UNITS: Record<TransliterationScheme, Map<string, RomanUnit>> = {
+  IAST: romanUnits('IAST'),
+  ITRANS: romanUnits('ITRANS')
+};
+
+const LONGEST_UNIT = 3;
+
+// --- WORDS ---
+
+/**
+ * Spells a Roman word in Devanagari. Returns null if the word contains a letter
+ * the scheme cannot express, including capitals in IAST, which has no case.
+ */
+export const romanToDevanagari = (word: string, scheme: TransliterationScheme = 'IAST'): string | null => {
+  if (scheme === 'IAST' && word !== word.toLowerCase()) return null;
+  const units = ROMAN_UNITS[scheme];
+  let out = '';
+  let afterConsonant = false;
+  let i = 0;
+  while (i < word.length) {
+    if (word[i] === '_' || /[0-9]/.test(word[i])) {
+      if (afterConsonant) out += VIRAMA;
+      afterConsonant = false;
+      out += toDevanagariDigits(word[i]);
+      i++;
+      continue;
+    }
+    let key = '';
+    for (let size = LONGEST_UNIT; size > 0 && !key; size--) {
+      if (units.has(word.slice(i, i + size))) key = word.slice(i, i + size);
+    }
+    if (!key) return null;
+    const unit = units.get(key)!;
+    if (unit.kind === 'consonant') {
+      if (afterConsonant) out += VIRAMA;
+      out += unit.devanagari;
+      afterConsonant = true;
+    } else if (unit.kind === 'vowel') {
+      out += afterConsonant ? unit.sign : unit.independent;
+      afterConsonant = false;
+    } else {
+      if (afterConsonant) out += VIRAMA;
+      out += unit.devanagari;
+      afterConsonant = false;
+    }
+    i += key.length;
+  }
+  if (afterConsonant) out += VIRAMA;
+  return out;
+};
+
+/**
+ * Spells a Devanagari word in the Roman scheme, restoring each inherent 'a'.
+ * Returns null if the word contains a character the scheme cannot express.
+ */
+export const devanagariToRoman = (word: string, scheme: TransliterationScheme = 'IAST'): string | null => {
+  const s = schemeIndex(scheme);
+  const chars = Array.from(word);
+  let out = '';
+  for (let i = 0; i < chars.length; i++) {
+    const c = chars[i];
+    const consonant = CONSONANTS.find(row => row[0] === c);
+    if (consonant) {
+      out += consonant[1 + s];
+      const next = chars[i + 1];
+      const sign = VOWELS.find(row => row[1] !== '' && row[1] === next);
+      if (next === VIRAMA) {
+        i++;
+      } else if (sign) {
+        out += sign[2 + s];
+        i++;
+      } else {
+        out += 'a';
+      }
+      continue;
+    }
+    const vowel = VOWELS.find(row => row[0] === c);
+    const mark = MARKS.find(row => row[0] === c);
+    if (vowel) out += vowel[2 + s];
+    else if (mark) out += mark[1 + s];
+    else if (DEVANAGARI_DIGITS.includes(c)) out += toAsciiDigits(c);
+    else if (c === '_') out += c;
+    else return null;
+  }
+  return out;
+};
+
+// --- PROGRAMS ---
+
+// Builtin, constructor and type names convert like keywords: both spellings are predefined
+const fixedNames: Record<string, { roman: string; devanagari: string }> = {
+  [CONSTRUCTOR_NAMES.roman]: CONSTRUCTOR_NAMES,
+  [CONSTRUCTOR_NAMES.devanagari]: CONSTRUCTOR_NAMES
+};
+for (const [name, builtin] of Object.entries(BUILTIN_FUNCTIONS)) {
+  fixedNames[name] = fixedNames[builtin.devanagari] = { roman: name, devanagari: builtin.devanagari };
+}
+for (const type of Object.values(TYPE_ANNOTATIONS)) {
+  fixedNames[type.roman] = fixedNames[type.devanagari] = type;
+}
+
+// A respelt name is only used if it still reads back as one ordinary identifier
+const isPlainIdentifier = (word: string): boolean => {
+  const tokens = new SPLEngine(word, ScriptMode.ROMAN).tokenize();
+  return tokens.length === 1 && tokens[0].type === 'IDENTIFIER' && tokens[0].value === word && !fixedNames[word];
+};
+
+/**
+ * Rewrites a program into the target script token by token. Only keywords,
+ * numerals, builtin names and (optionally) identifiers change; strings,
+ * comments and whitespace are copied through untouched.
+ */
+export const transliterate = (code: string, to: ScriptMode, options: TransliterationOptions = {}): string => {
+  const script = to === ScriptMode.DEVANAGARI ? 'devanagari' : 'roman';
+  const scheme = options.scheme ?? 'IAST';
+  const tokens = new SPLEngine(code, to).tokenize();
+
+  const lineStarts = [0];
+  for (let i = 0; i < code.length; i++) if (code[i] === '\n') lineStarts.push(i + 1);
+
+  // An import binds the module's file name, so that name keeps its spelling;
+  // so do the members of built-in modules, which are fixed Roman identifiers
+  const moduleBindings = new Set<string>();
+  const builtinModules = new Set<string>();
+  tokens.forEach((token, i) => {
+    const source = tokens[i + 1];
+    if (!isKeyword(token, 'IMPORT') || source?.type !== 'STRING') return;
+    moduleBindings.add(moduleBindingName(source.value));
+    if (BUILTIN_MODULES[source.value]) builtinModules.add(moduleBindingName(source.value));
+  });
+
+  const convert = (token: Token, i: number): string => {
+    const text = token.raw ?? token.value;
+    if (token.type === 'KEYWORD') {
+      const key = getKeywordKey(token.value);
+      return key ? KEYWORDS[key][script] : text;
+    }
+    if (token.type === 'NUMBER') return to === ScriptMode.DEVANAGARI ? toDevanagariDigits(text) : toAsciiDigits(text);
+    if (token.type !== 'IDENTIFIER') return text;
+
+    if (fixedNames[token.value]) return fixedNames[token.value][script];
+    if (!options.identifiers || moduleBindings.has(token.value)) return text;
+    if (tokens[i - 1]?.value === '.' && builtinModules.has(tokens[i - 2]?.value)) return text;
+    const respelt = to === ScriptMode.DEVANAGARI ? romanToDevanagari(token.value, scheme) : devanagariToRoman(token.value, scheme);
+    return respelt && isPlainIdentifier(respelt) ? respelt : text;
+  };
+
+  let out = '';
+  let cursor = 0;
+  tokens.forEach((token, i) => {
+    const text = token.raw ?? token.value;
+    const offset = lineStarts[token.line - 1] + token.col - 1;
+    // Defensive: a token that does not sit where its position says is left alone
+    if (code.slice(offset, offset + text.length) !== text) return;
+    const replacement = convert(token, i);
+    if (replacement === text) return;
+    out += code.slice(cursor, offset) + replacement;
+    cursor = offset + text.length;
+  });
+  return retargetPragma(out + code.slice(cursor), to);
+};
+
+// A strict `// lipi:` header follows the program into the new script, keeping its own spelling
+const retargetPragma = (code: string, to: ScriptMode): string => {
+  const lines = code.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    if (!line.startsWith('//')) break;
+    const pragma = lines[i].match(SCRIPT_PRAGMA);
+    if (!pragma || !Object.prototype.hasOwnProperty.call(SCRIPT_POLICY_NAMES, pragma[2]) || SCRIPT_POLICY_NAMES[pragma[2]] === 'mixed') continue;
+    const devanagariSpelling = /[\u0900-\u097F]/.test(pragma[2]);
+    const value = to === ScriptMode.DEVANAGARI ? (devanagariSpelling ? 'देवनागरी' : 'devanagari') : (devanagariSpelling ? 'रोमन' : 'roman');
+    lines[i] = pragma[1] + value + lines[i].slice(pragma[0].length);
+    return lines.join('\n');
+  }
+  return code;
+};
@@ -0,0 +1,647 @@
+import { KEYWORDS, TYPE_ANNOTATIONS } from "../constants";
+import {
+  Program, Statement, Block, Expression, FunctionDeclaration, TypeAnnotation, SourceSpan, Identifier
+} from "./splAst";
+import { BUILTIN_FUNCTIONS } from "./splBuiltins";
+import { moduleBindingName } from "./splModules";
+
+// --- TYPES ---
+
+interface TypeVariable {
+  kind: 'var';
+  id: number;
+  instance: SPLType | null;
+}
+
+export type SPLType =
+  | { kind: 'number' }
+  | { kind: 'string' }
+  | { kind: 'boolean' }
+  | { kind: 'null' }
+  | { kind: 'any' }
+  | { kind: 'list'; element: SPLType }
+  | { kind: 'dict'; key: SPLType; value: SPLType }
+  | { kind: 'function'; params: SPLType[]; result: SPLType }
+  | TypeVariable;
+
+// A binding's type; a karyam's own type variables are quantified, so every use gets fresh copies
+interface Scheme {
+  type: SPLType;
+  quantified: number[];
+  // declaredAt() of the karyam it was generalized from
+  origin?: string;
+}
+
+export interface TypeMismatch {
+  span: SourceSpan;
+  message: string;
+}
+
+// The inferred type of one identifier occurrence, for editor hovers
+export interface TypeHint {
+  line: number;
+  column: number;
+  length: number;
+  name: string;
+  type: string;
+  cpp: string | null;
+}
+
+export interface TypeCheckResult {
+  mismatches: TypeMismatch[];
+  hints: TypeHint[];
+  // Keyed by declaredAt(): variables, fields, parameters and karyam names
+  declarations: Map<string, SPLType>;
+}
+
+const NUMBER: SPLType = { kind: 'number' };
+const STRING: SPLType = { kind: 'string' };
+const BOOLEAN: SPLType = { kind: 'boolean' };
+const NULL: SPLType = { kind: 'null' };
+const ANY: SPLType = { kind: 'any' };
+
+export const declaredAt = (span: { line: number; col: number }) => `${span.line}:${span.col}`;
+
+// Follows bound variables to the type they stand for
+export const prune = (type: SPLType): SPLType => {
+  if (type.kind === 'var' && type.instance) {
+    type.instance = prune(type.instance);
+    return type.instance;
+  }
+  return type;
+};
+
+const TYPE_NAMES: Record<'number' | 'string' | 'boolean' | 'null' | 'any', string> = {
+  number: TYPE_ANNOTATIONS.NUMBER.roman,
+  string: TYPE_ANNOTATIONS.STRING.roman,
+  boolean: TYPE_ANNOTATIONS.BOOLEAN.roman,
+  null: KEYWORDS.NULL.roman,
+  any: 'kimapi'
+};
+
+const VARIABLE_LETTERS = 'TUVWXYZ';
+
+// sankhya, suchi<vakyam>, karyam(T) -> T; unsolved variables are lettered per call
+export const formatType = (type: SPLType, letters = new Map<number, string>()): string => {
+  const t = prune(type);
+  switch (t.kind) {
+    case 'var':
+      if (!letters.has(t.id)) letters.set(t.id, VARIABLE_LETTERS[letters.size % VARIABLE_LETTERS.length] + (letters.size >= VARIABLE_LETTERS.length ? Math.floor(letters.size / VARIABLE_LETTERS.length) : ''));
+      return letters.get(t.id)!;
+    case 'list':
+      return `${TYPE_ANNOTATIONS.LIST.roman}<${formatType(t.element, letters)}>`;
+    case 'dict':
+      return `${TYPE_ANNOTATIONS.DICT.roman}<${formatType(t.key, letters)}, ${formatType(t.value, letters)}>`;
+    case 'function':
+      return `${KEYWORDS.FUNCTION.roman}(${t.params.map(p => formatType(p, letters)).join(', ')}) -> ${formatType(t.result, letters)}`;
+    default:
+      return TYPE_NAMES[t.kind];
+  }
+};
+
+/**
+ * The C++ spelling of a fully known type, or null if any part is still open;
+ * the generator uses san::Value then. Lists and dictionaries are always
+ * san::Value, which shares them by reference and keeps insertion order as SPL
+ * does. shunyam is only meaningful as a result.
+ */
+export const cppType = (type: SPLType, isResult = false): string | null => {
+  const t = prune(type);
+  switch (t.kind) {
+    case 'number': return 'double';
+    case 'string': return 'std::string';
+    case 'boolean': return 'bool';
+    case 'null': return isResult ? 'void' : null;
+    case 'list':
+    case 'dict':
+      return 'san::Value';
+    case 'function': {
+      const params = t.params.map(p => cppType(p));
+      const result = cppType(t.result, true);
+      return result && params.every(Boolean) ? `std::function<${result}(${params.join(', ')})>` : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// --- BUILTIN SIGNATURES ---
+
+const ANNOTATION_KEYS: Record<string, keyof typeof TYPE_ANNOTATIONS> = {};
+for (const [key, type] of Object.entries(TYPE_ANNOTATIONS) as [keyof typeof TYPE_ANNOTATIONS, typeof TYPE_ANNOTATIONS.NUMBER][]) {
+  ANNOTATION_KEYS[type.roman] = key;
+}
+
+// Reads a BUILTIN_FUNCTIONS signature such as "(suchi<T>, T) -> suchi<T>"
+const parseSignature = (signature: string, fresh: () => SPLType): SPLType => {
+  const words = signature.match(/[A-Za-z]+|->|[(),<>]/g) ?? [];
+  const variables = new Map<string, SPLType>();
+  let i = 0;
+  const readType = (): SPLType => {
+    const word = words[i++];
+    if (word === 'kimapi') return ANY;
+    if (word === KEYWORDS.NULL.roman) return NULL;
+    if (/^[A-Z]$/.test(word)) {
+      if (!variables.has(word)) variables.set(word, fresh());
+      return variables.get(word)!;
+    }
+    const args: SPLType[] = [];
+    if (words[i] === '<') {
+      i++;
+      do args.push(readType()); while (words[i++] === ',');
+    }
+    switch (ANNOTATION_KEYS[word]) {
+      case 'NUMBER': return NUMBER;
+      case 'STRING': return STRING;
+      case 'BOOLEAN': return BOOLEAN;
+      case 'LIST': return { kind: 'list', element: args[0] ?? fresh() };
+      case 'DICT': return { kind: 'dict', key: args[0] ?? fresh(), value: args[1] ?? fresh() };
+    }
+    return ANY;
+  };
+  const params: SPLType[] = [];
+  i++;
+  while (words[i] !== ')') {
+    params.push(readType());
+    if (words[i] === ',') i++;
+  }
+  i += 2;
+  return { kind: 'function', params, result: readType() };
+};
+
+const builtinSignatures: Record<string, string> = {};
+for (const [name, builtin] of Object.entries(BUILTIN_FUNCTIONS)) {
+  builtinSignatures[name] = builtinSignatures[builtin.devanagari] = builtin.signature;
+}
+
+// --- CHECKER ---
+
+class TypeScope {
+  public bindings = new Map<string, Scheme>();
+  constructor(public parent: TypeScope | null) {}
+
+  public lookup(name: string): Scheme | null {
+    return this.bindings.get(name) ?? this.parent?.lookup(name) ?? null;
+  }
+}
+
+interface FunctionFrame {
+  name: string;
+  result: SPLType;
+  annotated: boolean;
+  returnsValue: boolean;
+}
+
+/**
+ * Hindley-Milner style inference over the AST, without running it. Annotations
+ * pin types down; everything else is inferred from literals, operators, builtin
+ * signatures and calls. Each karyam is generalized after its body, so a helper
+ * used with numbers and strings alike is not a conflict. Shreni instances,
+ * members and modules are dynamic and typed kimapi, which matches anything.
+ * Conflicts are collected as mismatches: the program may still run, since SPL
+ * itself is dynamically typed.
+ */
+export class SPLTypeChecker {
+  private nextId = 0;
+  private mismatches: TypeMismatch[] = [];
+  private occurrences: { span: SourceSpan; name: string; type: SPLType }[] = [];
+  private declarations = new Map<string, SPLType>();
+  private functions: FunctionFrame[] = [];
+  private instances = new Map<string, SPLType[]>();
+
+  constructor(private program: Program) {}
+
+  public check(): TypeCheckResult {
+    this.walkStatements(this.program.body, new TypeScope(null));
+    const hints = this.occurrences.map(({ span, name, type }) => ({
+      line: span.line,
+      column: span.col,
+      length: span.endCol - span.col,
+      name,
+      type: formatType(type),
+      cpp: cppType(type)
+    }));
+    this.specialize();
+    return { mismatches: this.mismatches, hints, declarations: this.declarations };
+  }
+
+  // C++ has no generic std::function, so a generic karyam that every call uses
+  // at the same concrete types is declared at those types
+  private specialize() {
+    for (const [origin, uses] of this.instances) {
+      const declared = this.declarations.get(origin)!;
+      const spellings = new Set(uses.map(use => cppType(use)));
+      if (cppType(declared) === null && spellings.size === 1 && !spellings.has(null)) this.unify(declared, uses[0]);
+    }
+  }
+
+  private fresh(): SPLType {
+    return { kind: 'var', id: this.nextId++, instance: null };
+  }
+
+  private mismatch(span: SourceSpan, message: string) {
+    this.mismatches.push({ span, message });
+  }
+
+  // --- UNIFICATION ---
+
+  private occursIn(variable: TypeVariable, type: SPLType): boolean {
+    const t = prune(type);
+    if (t === variable) return true;
+    switch (t.kind) {
+      case 'list': return this.occursIn(variable, t.element);
+      case 'dict': return this.occursIn(variable, t.key) || this.occursIn(variable, t.value);
+      case 'function': return t.params.some(p => this.occursIn(variable, p)) || this.occursIn(variable, t.result);
+      default: return false;
+    }
+  }
+
+  // Makes the two types equal, binding variables as needed; false on a conflict
+  private unify(a: SPLType, b: SPLType): boolean {
+    const x = prune(a);
+    const y = prune(b);
+    if (x === y || x.kind === 'any' || y.kind === 'any') return true;
+    if (x.kind === 'var') {
+      if (this.occursIn(x, y)) return false;
+      x.instance = y;
+      return true;
+    }
+    if (y.kind === 'var') return this.unify(y, x);
+    if (x.kind === 'list' && y.kind === 'list') return this.unify(x.element, y.element);
+    if (x.kind === 'dict' && y.kind === 'dict') return this.unify(x.key, y.key) && this.unify(x.value, y.value);
+    if (x.kind === 'function' && y.kind === 'function') {
+      return x.params.length === y.params.length
+        && x.params.every((p, i) => this.unify(p, y.params[i]))
+        && this.unify(x.result, y.result);
+    }
+    return x.kind === y.kind;
+  }
+
+  // --- SCHEMES ---
+
+  private freeVariables(type: SPLType, into: Set<number>) {
+    const t = prune(type);
+    switch (t.kind) {
+      case 'var': into.add(t.id); break;
+      case 'list': this.freeVariables(t.element, into); break;
+      case 'dict': this.freeVariables(t.key, into); this.freeVariables(t.value, into); break;
+      case 'function': t.params.forEach(p => this.freeVariables(p, into)); this.freeVariables(t.result, into); break;
+    }
+  }
+
+  private generalize(type: SPLType, scope: TypeScope): Scheme {
+    const inScope = new Set<number>();
+    for (let s: TypeScope | null = scope; s; s = s.parent) {
+      for (const scheme of s.bindings.values()) {
+        const free = new Set<number>();
+        this.freeVariables(scheme.type, free);
+        scheme.quantified.forEach(id => free.delete(id));
+        free.forEach(id => inScope.add(id));
+      }
+    }
+    const own = new Set<number>();
+    this.freeVariables(type, own);
+    return { type, quantified: [...own].filter(id => !inScope.has(id)) };
+  }
+
+  private instantiate(scheme: Scheme): SPLType {
+    if (scheme.quantified.length === 0) return scheme.type;
+    const copies = new Map(scheme.quantified.map(id => [id, this.fresh()]));
+    const instance = this.copyType(scheme.type, copies);
+    if (scheme.origin) this.instances.set(scheme.origin, [...this.instances.get(scheme.origin) ?? [], instance]);
+    return instance;
+  }
+
+  private copyType(type: SPLType, copies: Map<number, SPLType>): SPLType {
+    const t = prune(type);
+    switch (t.kind) {
+      case 'var': return copies.get(t.id) ?? t;
+      case 'list': return { kind: 'list', element: this.copyType(t.element, copies) };
+      case 'dict': return { kind: 'dict', key: this.copyType(t.key, copies), value: this.copyType(t.value, copies) };
+      case 'function': return { kind: 'function', params: t.params.map(p => this.copyType(p, copies)), result: this.copyType(t.result, copies) };
+      default: return t;
+    }
+  }
+
+  private declare(scope: TypeScope, name: Identifier, type: SPLType) {
+    scope.bindings.set(name.name, { type, quantified: [] });
+    this.declarations.set(declaredAt(name.span), type);
+    this.occurrences.push({ span: name.span, name: name.name, type });
+  }
+
+  private fromAnnotation(annotation: TypeAnnotation): SPLType {
+    const args = annotation.args.map(arg => this.fromAnnotation(arg));
+    switch (annotation.name) {
+      case 'NUMBER': return NUMBER;
+      case 'STRING': return STRING;
+      case 'BOOLEAN': return BOOLEAN;
+      case 'LIST': return { kind: 'list', element: args[0] ?? this.fresh() };
+      case 'DICT': return { kind: 'dict', key: args[0] ?? this.fresh(), value: args[1] ?? this.fresh() };
+    }
+  }
+
+  // --- STATEMENTS ---
+
+  private walkStatements(statements: Statement[], scope: TypeScope) {
+    for (const stmt of statements) this.walkStatement(stmt, scope);
+  }
+
+  private walkBlock(block: Block, scope: TypeScope) {
+    this.walkStatements(block.body, new TypeScope(scope));
+  }
+
+  private walkStatement(stmt: Statement, scope: TypeScope) {
+    switch (stmt.kind) {
+      case 'VariableDeclaration': {
+        const value = this.infer(stmt.init, scope);
+        let type = value;
+        if (stmt.annotation) {
+          type = this.fromAnnotation(stmt.annotation);
+          if (!this.unify(type, value)) {
+            this.mismatch(stmt.init.span, `'${stmt.name.name}' is declared as ${formatType(type)} but starts as ${formatType(value)}`);
+          }
+        }
+        this.declare(scope, stmt.name, type);
+        break;
+      }
+      case 'Assignment': {
+        const value = this.infer(stmt.value, scope);
+        const target = stmt.target;
+        if (target.kind === 'Identifier') {
+          const current = this.infer(target, scope);
+          if (!this.unify(current, value)) {
+            this.mismatch(stmt.value.span, `'${target.name}' holds ${formatType(current)}; assigning ${formatType(value)} changes its type`);
+          }
+        } else if (target.kind === 'IndexExpression') {
+          const collection = prune(this.infer(target.object, scope));
+          const index = this.infer(target.index, scope);
+          if (collection.kind === 'list') {
+            if (!this.unify(index, NUMBER)) this.mismatch(target.index.span, `List index must be ${formatType(NUMBER)}, got ${formatType(index)}`);
+            if (!this.unify(collection.element, value)) this.mismatch(stmt.value.span, `Cannot put ${formatType(value)} into ${formatType(collection)}`);
+          } else if (collection.kind === 'dict') {
+            this.unify(collection.key, index);
+            if (!this.unify(collection.value, value)) this.mismatch(stmt.value.span, `Cannot put ${formatType(value)} into ${formatType(collection)}`);
+          }
+        } else {
+          this.infer(target.object, scope);
+        }
+        break;
+      }
+      case 'PrintStatement':
+      case 'ThrowStatement':
+        this.infer(stmt.kind === 'PrintStatement' ? stmt.value : stmt.argument, scope);
+        break;
+      case 'ExpressionStatement':
+        this.infer(stmt.expression, scope);
+        break;
+      case 'IfStatement':
+        this.infer(stmt.test, scope);
+        this.walkBlock(stmt.consequent, scope);
+        if (stmt.alternate?.kind === 'Block') this.walkBlock(stmt.alternate, scope);
+        else if (stmt.alternate) this.walkStatement(stmt.alternate, scope);
+        break;
+      case 'WhileStatement':
+        this.infer(stmt.test, scope);
+        this.walkBlock(stmt.body, scope);
+        break;
+      case 'ForRangeStatement': {
+        for (const bound of [stmt.start, stmt.end]) {
+          const type = this.infer(bound, scope);
+          if (!this.unify(type, NUMBER)) this.mismatch(bound.span, `Loop bounds must be ${formatType(NUMBER)}, got ${formatType(type)}`);
+        }
+        const loop = new TypeScope(scope);
+        this.declare(loop, stmt.variable, NUMBER);
+        this.walkStatements(stmt.body.body, loop);
+        break;
+      }
+      case 'ForEachStatement': {
+        const iterable = prune(this.infer(stmt.iterable, scope));
+        let element: SPLType = ANY;
+        if (iterable.kind === 'list') element = iterable.element;
+        else if (iterable.kind === 'dict') element = iterable.key;
+        else if (iterable.kind === 'string') element = STRING;
+        else if (iterable.kind !== 'var' && iterable.kind !== 'any') {
+          this.mismatch(stmt.iterable.span, `Cannot loop over ${formatType(iterable)}`);
+        }
+        const loop = new TypeScope(scope);
+        this.declare(loop, stmt.variable, element);
+        this.walkStatements(stmt.body.body, loop);
+        break;
+      }
+      case 'FunctionDeclaration':
+        this.walkFunction(stmt, scope);
+        break;
+      case 'ClassDeclaration': {
+        scope.bindings.set(stmt.name.name, { type: ANY, quantified: [] });
+        const members = new TypeScope(scope);
+        members.bindings.set(KEYWORDS.THIS.roman, { type: ANY, quantified: [] });
+        for (const field of stmt.fields) this.walkStatement(field, members);
+        // Fields are reached through ayam, so methods see only the enclosing scope
+        const methods = new TypeScope(scope);
+        for (const method of stmt.methods) this.walkFunction(method, methods);
+        break;
+      }
+      case 'ImportStatement':
+        scope.bindings.set(moduleBindingName(stmt.source.value), { type: ANY, quantified: [] });
+        break;
+      case 'ReturnStatement': {
+        const frame = this.functions[this.functions.length - 1];
+        if (!frame || !stmt.argument) break;
+        const value = this.infer(stmt.argument, scope);
+        frame.returnsValue = true;
+        if (!this.unify(frame.result, value)) {
+          this.mismatch(stmt.argument.span, frame.annotated
+            ? `'${frame.name}' is declared to return ${formatType(frame.result)} but returns ${formatType(value)}`
+            : `'${frame.name}' returns ${formatType(frame.result)} elsewhere but ${formatType(value)} here`);
+        }
+        break;
+      }
+      case 'TryStatement': {
+        this.walkBlock(stmt.block, scope);
+        const handler = new TypeScope(scope);
+        if (stmt.param) this.declare(handler, stmt.param, ANY);
+        this.walkStatements(stmt.handler.body, handler);
+        break;
+      }
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        break;
+    }
+  }
+
+  private walkFunction(fn: FunctionDeclaration, scope: TypeScope) {
+    const params = fn.params.map((_, i) => fn.paramTypes[i] ? this.fromAnnotation(fn.paramTypes[i]!) : this.fresh());
+    const result = fn.returnType ? this.fromAnnotation(fn.returnType) : this.fresh();
+    const type: SPLType = { kind: 'function', params, result };
+    // Bound before the body so recursive calls see it, monomorphically
+    scope.bindings.set(fn.name.name, { type, quantified: [] });
+
+    const body = new TypeScope(scope);
+    body.bindings.set(KEYWORDS.THIS.roman, { type: ANY, quantified: [] });
+    fn.params.forEach((param, i) => this.declare(body, param, params[i]));
+    const frame: FunctionFrame = { name: fn.name.name, result, annotated: !!fn.returnType, returnsValue: false };
+    this.functions.push(frame);
+    this.walkStatements(fn.body.body, body);
+    this.functions.pop();
+    if (!frame.returnsValue && !this.unify(result, NULL)) {
+      this.mismatch(fn.name.span, `'${fn.name.name}' is declared to return ${formatType(result)} but never returns a value`);
+    }
+
+    scope.bindings.delete(fn.name.name);
+    scope.bindings.set(fn.name.name, { ...this.generalize(type, scope), origin: declaredAt(fn.name.span) });
+    this.declarations.set(declaredAt(fn.name.span), type);
+    this.occurrences.push({ span: fn.name.span, name: fn.name.name, type });
+  }
+
+  // --- EXPRESSIONS ---
+
+  private infer(expr: Expression, scope: TypeScope): SPLType {
+    switch (expr.kind) {
+      case 'NumberLiteral': return NUMBER;
+      case 'StringLiteral': return STRING;
+      case 'BooleanLiteral': return BOOLEAN;
+      // shunyam fills any slot until something more specific arrives
+      case 'NullLiteral': return this.fresh();
+      case 'ThisExpression': return ANY;
+      case 'Identifier': {
+        const scheme = scope.lookup(expr.name);
+        let type: SPLType = ANY;
+        if (scheme) type = this.instantiate(scheme);
+        else if (builtinSignatures[expr.name]) type = parseSignature(builtinSignatures[expr.name], () => this.fresh());
+        this.occurrences.push({ span: expr.span, name: expr.name, type });
+        return type;
+      }
+      case 'ListLiteral': {
+        const element = this.fresh();
+        for (const item of expr.elements) {
+          // A mixed list is legal; it just holds kimapi
+          if (!this.unify(element, this.infer(item, scope))) return { kind: 'list', element: ANY };
+        }
+        return { kind: 'list', element };
+      }
+      case 'DictLiteral': {
+        const key = this.fresh();
+        let value = this.fresh();
+        for (const entry of expr.entries) {
+          this.unify(key, this.infer(entry.key, scope));
+          if (!this.unify(value, this.infer(entry.value, scope))) value = ANY;
+        }
+        return { kind: 'dict', key, value };
+      }
+      case 'IndexExpression': {
+        const collection = prune(this.infer(expr.object, scope));
+        const index = this.infer(expr.index, scope);
+        if (collection.kind === 'list' || collection.kind === 'string') {
+          if (!this.unify(index, NUMBER)) this.mismatch(expr.index.span, `Index into ${formatType(collection)} must be ${formatType(NUMBER)}, got ${formatType(index)}`);
+          return collection.kind === 'list' ? collection.element : STRING;
+        }
+        if (collection.kind === 'dict') {
+          if (!this.unify(collection.key, index)) this.mismatch(expr.index.span, `Keys of ${formatType(collection)} are ${formatType(collection.key)}, got ${formatType(index)}`);
+          return collection.value;
+        }
+        if (collection.kind !== 'var' && collection.kind !== 'any') this.mismatch(expr.object.span, `Cannot index into ${formatType(collection)}`);
+        return ANY;
+      }
+      case 'MemberExpression':
+        this.infer(expr.object, scope);
+        return ANY;
+      case 'UnaryExpression': {
+        const argument = this.infer(expr.argument, scope);
+        if (expr.operator === '!') return BOOLEAN;
+        if (!this.unify(argument, NUMBER)) this.mismatch(expr.span, `Cannot negate ${formatType(argument)}`);
+        return NUMBER;
+      }
+      case 'LogicalExpression':
+        this.infer(expr.left, scope);
+        this.infer(expr.right, scope);
+        return BOOLEAN;
+      case 'BinaryExpression':
+        return this.inferBinary(expr.operator, this.infer(expr.left, scope), this.infer(expr.right, scope), expr.span);
+      case 'CallExpression':
+        return this.inferCall(expr.callee, expr.args.map(arg => this.infer(arg, scope)), expr.args, scope, expr.span);
+    }
+  }
+
+  private inferBinary(operator: string, leftType: SPLType, rightType: SPLType, span: SourceSpan): SPLType {
+    const left = prune(leftType);
+    const right = prune(rightType);
+    const known = (t: SPLType) => t.kind !== 'var' && t.kind !== 'any';
+    switch (operator) {
+      case '+': {
+        if (left.kind === 'string' || right.kind === 'string') {
+          // The other side is formatted into the text, but only these read sensibly there
+          const other = left.kind === 'string' ? right : left;
+          if (!['string', 'number', 'list', 'var', 'any'].includes(other.kind)) {
+            this.mismatch(span, `Cannot add ${formatType(right)} to ${formatType(left)}`);
+          }
+          return STRING;
+        }
+        if (left.kind === 'list' || right.kind === 'list') {
+          if (!this.unify(left, right)) {
+            this.mismatch(span, `Cannot add ${formatType(right)} to ${formatType(left)}`);
+            return ANY;
+          }
+          return left.kind === 'list' ? left : right;
+        }
+        if (left.kind === 'number' || right.kind === 'number') {
+          if (!this.unify(left, right)) {
+            this.mismatch(span, `Cannot add ${formatType(right)} to ${formatType(left)}`);
+            return ANY;
+          }
+          return NUMBER;
+        }
+        if (known(left) || known(right)) {
+          this.mismatch(span, `Cannot add ${formatType(right)} to ${formatType(left)}`);
+          return ANY;
+        }
+        return left.kind === 'any' || right.kind === 'any' ? ANY : this.fresh();
+      }
+      case '-':
+      case '*':
+      case '/':
+      case '%':
+        for (const side of [left, right]) {
+          if (!this.unify(side, NUMBER)) {
+            this.mismatch(span, `'${operator}' needs ${formatType(NUMBER)} on both sides, got ${formatType(left)} and ${formatType(right)}`);
+            break;
+          }
+        }
+        return NUMBER;
+      case '==':
+      case '!=':
+        if (known(left) && known(right) && left.kind !== right.kind) {
+          const always = operator === '==' ? KEYWORDS.FALSE.roman : KEYWORDS.TRUE.roman;
+          this.mismatch(span, `Comparing ${formatType(left)} with ${formatType(right)} is always ${always}`);
+        }
+        return BOOLEAN;
+      default:
+        if (!this.unify(left, right)) this.mismatch(span, `Cannot compare ${formatType(left)} with ${formatType(right)} using '${operator}'`);
+        return BOOLEAN;
+    }
+  }
+
+  private inferCall(callee: Expression, args: SPLType[], argExprs: Expression[], scope: TypeScope, span: SourceSpan): SPLType {
+    const calleeType = prune(this.infer(callee, scope));
+    const name = callee.kind === 'Identifier' ? callee.name : callee.kind === 'MemberExpression' ? callee.property.name : '';
+    if (calleeType.kind === 'var') {
+      const result = this.fresh();
+      this.unify(calleeType, { kind: 'function', params: args, result });
+      return result;
+    }
+    if (calleeType.kind !== 'function') {
+      if (calleeType.kind !== 'any') this.mismatch(callee.span, `'${name}' is ${formatType(calleeType)}, not a function`);
+      return ANY;
+    }
+    if (calleeType.params.length !== args.length) {
+      this.mismatch(span, `'${name}' takes ${calleeType.params.length} argument${calleeType.params.length === 1 ? '' : 's'}, got ${args.length}`);
+      return calleeType.result;
+    }
+    calleeType.params.forEach((param, i) => {
+      const expected = formatType(param);
+      if (!this.unify(param, args[i])) {
+        this.mismatch(argExprs[i].span, `Argument ${i + 1} of '${name}' should be ${expected}, got ${formatType(args[i])}`);
+      }
+    });
+    return calleeType.result;
+  }
+}
@@ -0,0 +1,555 @@
+import { EngineOptions, ScriptMode } from "../types";
+import { Program, SourceSpan, MemberExpression, IndexExpression, Identifier, VariableDeclaration, ImportStatement } from "./splAst";
+import { Environment } from "./splEnvironment";
+import { ModuleResolver } from "./splModules";
+import { Chunk, CatchInfo, LoopInfo, Op as Opcode } from "./splBytecode";
+import { SPLCompiler } from "./splCompiler";
+import {
+  SPLRuntime, SPLRuntimeError, BreakSignal, ContinueSignal, ReturnSignal, ThrowSignal,
+  SPLFunction, SPLClass, SPLInstance, SPLModule, NativeFunction, ModuleLoad
+} from "./splRuntime";
+
+// dispatch() compares each instruction with the case labels in turn, so they read the opcodes from a
+// module-level const, whose members engines fold; through an import binding some loaders (vite-node's
+// among them) would call a getter per case
+const Op = Opcode;
+
+// Position of a running krute loop; sits on the operand stack below the loop body's values
+class LoopCursor {
+  // Body scope kept between iterations of a LoopInfo.shared loop
+  public scope: Environment | null = null;
+
+  constructor(public items: any[] | null, public next: number, public end: number, public step: number) {}
+
+  get done(): boolean {
+    if (this.items) return this.next >= this.items.length;
+    return this.step > 0 ? this.next > this.end : this.next < this.end;
+  }
+
+  advance(): any {
+    const value = this.items ? this.items[this.next] : this.next;
+    this.next += this.items ? 1 : this.step;
+    return value;
+  }
+}
+
+// Scope a LOAD or ASSIGN found its name in, reused while the frame still runs in `environment`.
+// Only a loop body that declares nothing runs twice in one scope, and nothing can declare in the
+// scopes between it and `scope` while it runs, so the name still resolves there
+interface Resolution {
+  environment: Environment;
+  scope: Environment;
+}
+
+interface Handler {
+  target: number;
+  environment: Environment;
+  height: number;
+}
+
+// main and module frames end at HALT; fields frames run a class's initialisers before nirmata
+type FrameKind = 'main' | 'function' | 'module' | 'fields';
+
+interface Frame {
+  kind: FrameKind;
+  chunk: Chunk;
+  ip: number;
+  // Operand stack height when the frame was entered
+  base: number;
+  handlers: Handler[];
+  // By the constant index of the name's Identifier
+  resolved: Resolution[];
+  // Restored when the frame is left
+  callerEnvironment: Environment;
+  callerFile: string;
+  // Pushed instead of the return value (constructors and fields frames)
+  instance?: SPLInstance;
+  args?: any[];
+  span?: SourceSpan;
+  module?: ModuleLoad;
+}
+
+/**
+ * Stack-based virtual machine for the bytecode produced by SPLCompiler.
+ * Loops and calls are jumps and frames rather than JavaScript recursion and exceptions,
+ * so deep loops cost one dispatch per instruction; results match SPLInterpreter.
+ */
+export class SPLVirtualMachine extends SPLRuntime {
+  private compiler = new SPLCompiler(this.trace);
+  private stack: any[] = [];
+  private frames: Frame[] = [];
+  // Instructions run so far; dispatch() returns early once it reaches `pause`
+  private steps = 0;
+  private pause = 0;
+  private maxSteps: number;
+  private interactive: boolean;
+
+  constructor(mode: ScriptMode, options: EngineOptions = {}, resolveModule: ModuleResolver = () => null) {
+    super(mode, options, resolveModule);
+    this.maxSteps = options.maxSteps ?? Infinity;
+    this.interactive = options.interactive ?? false;
+  }
+
+  public start(program: Program) {
+    this.reset();
+    this.frames = [];
+    this.stack.length = 0;
+    const chunk = this.compiler.compile(program, this.currentFile);
+    this.enterFrame({ kind: 'main', chunk }, this.globals);
+  }
+
+  protected advance(steps: number): boolean {
+    this.pause = Math.min(this.steps + steps, this.maxSteps);
+    while (this.frames.length > 0 && this.steps < this.pause) {
+      try {
+        this.dispatch();
+      } catch (e) {
+        this.recover(e);
+      }
+    }
+    if (this.frames.length > 0 && this.steps >= this.maxSteps) throw this.stepLimit();
+    return this.frames.length === 0;
+  }
+
+  // Runs until the main frame halts or `pause` is reached; errors leave through recover()
+  private dispatch() {
+    let frame = this.frames[this.frames.length - 1];
+    let code = frame.chunk.code;
+    let constants = frame.chunk.constants;
+    const stack = this.stack;
+    while (true) {
+      if (this.steps === this.pause) return;
+      this.steps++;
+      const op = code[frame.ip++] as Opcode;
+      switch (op) {
+        case Op.CONSTANT:
+          stack.push(constants[code[frame.ip++]]);
+          break;
+        case Op.POP:
+          stack.pop();
+          break;
+        case Op.LIST: {
+          const count = code[frame.ip++];
+          stack.push(stack.splice(stack.length - count, count));
+          break;
+        }
+        case Op.DICT: {
+          const values = stack.splice(stack.length - code[frame.ip++] * 2);
+          const dict = new Map<any, any>();
+          for (let i = 0; i < values.length; i += 2) dict.set(values[i], values[i + 1]);
+          stack.push(dict);
+          break;
+        }
+        case Op.DICT_KEY:
+          this.checkDictKey(stack[stack.length - 1], constants[code[frame.ip++]]);
+          break;
+        case Op.LOAD: {
+          const index = code[frame.ip++];
+          const name: Identifier = constants[index];
+          const scope = this.scopeOf(frame, index, name.name);
+          stack.push(scope ? scope.getOwn(name.name) : this.lookup(name.name, name.span));
+          break;
+        }
+        case Op.DECLARE: {
+          const name: Identifier = constants[code[frame.ip++]];
+          this.declare(name.name, stack.pop(), name.span);
+          break;
+        }
+        case Op.ASSIGN: {
+          const index = code[frame.ip++];
+          const name: Identifier = constants[index];
+          const scope = this.scopeOf(frame, index, name.name);
+          if (scope) scope.setOwn(name.name, stack.pop());
+          else this.assign(name.name, stack.pop(), name.span);
+          break;
+        }
+        case Op.GET_INDEX: {
+          const index = stack.pop();
+          stack.push(this.getIndex(stack.pop(), index, constants[code[frame.ip++]] as IndexExpression));
+          break;
+        }
+        case Op.SET_INDEX: {
+          const value = stack.pop();
+          const index = stack.pop();
+          this.setIndex(stack.pop(), index, value, constants[code[frame.ip++]] as IndexExpression);
+          break;
+        }
+        case Op.GET_MEMBER: {
+          const expr: MemberExpression = constants[code[frame.ip++]];
+          stack.push(this.getMember(this.memberObject(stack.pop(), expr), expr));
+          break;
+        }
+        case Op.MEMBER_OBJECT:
+          this.memberObject(stack[stack.length - 1], constants[code[frame.ip++]]);
+          break;
+        case Op.SET_MEMBER: {
+          const value = stack.pop();
+          this.setMember(stack.pop(), constants[code[frame.ip++]], value);
+          break;
+        }
+        case Op.THIS:
+          stack.push(this.thisValue(constants[code[frame.ip++]]));
+          break;
+        case Op.ADD: {
+          const right = stack.pop();
+          const left = stack.pop();
+          stack.push(typeof left === 'number' && typeof right === 'number' ? left + right : this.applyOperator('+', left, right));
+          break;
+        }
+        case Op.SUBTRACT: {
+          const right = stack.pop();
+          stack.push(stack.pop() - right);
+          break;
+        }
+        case Op.MULTIPLY: {
+          const right = stack.pop();
+          stack.push(stack.pop() * right);
+          break;
+        }
+        case Op.DIVIDE: {
+          const right = stack.pop();
+          stack.push(stack.pop() / right);
+          break;
+        }
+        case Op.MODULO: {
+          const right = stack.pop();
+          stack.push(stack.pop() % right);
+          break;
+        }
+        case Op.EQUAL: {
+          const right = stack.pop();
+          stack.push(stack.pop() === right);
+          break;
+        }
+        case Op.NOT_EQUAL: {
+          const right = stack.pop();
+          stack.push(stack.pop() !== right);
+          break;
+        }
+        case Op.LESS: {
+          const right = stack.pop();
+          stack.push(stack.pop() < right);
+          break;
+        }
+        case Op.GREATER: {
+          const right = stack.pop();
+          stack.push(stack.pop() > right);
+          break;
+        }
+        case Op.LESS_EQUAL: {
+          const right = stack.pop();
+          stack.push(stack.pop() <= right);
+          break;
+        }
+        case Op.GREATER_EQUAL: {
+          const right = stack.pop();
+          stack.push(stack.pop() >= right);
+          break;
+        }
+        case Op.NEGATE:
+          stack.push(-stack.pop());
+          break;
+        case Op.NOT:
+          stack.push(!this.isTruthy(stack.pop()));
+          break;
+        case Op.TRUTHY:
+          stack.push(this.isTruthy(stack.pop()));
+          break;
+        case Op.AND: {
+          const target = code[frame.ip++];
+          if (!this.isTruthy(stack.pop())) {
+            stack.push(false);
+            frame.ip = target;
+          }
+          break;
+        }
+        case Op.OR: {
+          const target = code[frame.ip++];
+          if (this.isTruthy(stack.pop())) {
+            stack.push(true);
+            frame.ip = target;
+          }
+          break;
+        }
+        case Op.JUMP:
+          frame.ip = code[frame.ip];
+          break;
+        case Op.JUMP_IF_FALSE: {
+          const target = code[frame.ip++];
+          if (!this.isTruthy(stack.pop())) frame.ip = target;
+          break;
+        }
+        case Op.ENTER_SCOPE:
+          this.environment = new Environment('block', constants[code[frame.ip++]], this.environment);
+          break;
+        case Op.EXIT_SCOPE:
+          this.environment = this.environment.parent!;
+          break;
+        case Op.LOOP:
+          this.countIteration(constants[code[frame.ip++]]);
+          break;
+        case Op.RANGE: {
+          const end = stack.pop();
+          const start = stack.pop();
+          this.checkRange(start, end, constants[code[frame.ip++]]);
+          stack.push(new LoopCursor(null, start, end, start <= end ? 1 : -1));
+          break;
+        }
+        case Op.ITEMS:
+          stack.push(new LoopCursor(this.iterationItems(stack.pop(), constants[code[frame.ip++]]), 0, 0, 1));
+          break;
+        case Op.NEXT: {
+          const exit = code[frame.ip++];
+          const loop: LoopInfo = constants[code[frame.ip++]];
+          const cursor: LoopCursor = stack[stack.length - 1];
+          if (cursor.done) {
+            stack.pop();
+            frame.ip = exit;
+            break;
+          }
+          this.countIteration(loop.span);
+          if (cursor.scope) {
+            cursor.scope.setOwn(loop.variable, cursor.advance());
+            this.environment = cursor.scope;
+          } else {
+            this.environment = new Environment('block', loop.scope, this.environment);
+            this.environment.define(loop.variable, cursor.advance());
+            if (loop.shared) cursor.scope = this.environment;
+          }
+          this.captureSnapshot(loop.line);
+          break;
+        }
+        case Op.CALLABLE: {
+          const callee = stack[stack.length - 1];
+          if (!(callee instanceof SPLFunction) && !(callee instanceof SPLClass) && !(callee instanceof NativeFunction)) {
+            throw this.notCallable(callee, constants[code[frame.ip]]);
+          }
+          frame.ip++;
+          break;
+        }
+        case Op.CALL: {
+          const args: any[] = new Array(code[frame.ip++]);
+          for (let i = args.length - 1; i >= 0; i--) args[i] = stack.pop();
+          const span: SourceSpan = constants[code[frame.ip++]].span;
+          const callee = stack.pop();
+          if (callee instanceof NativeFunction) {
+            if (this.interactive && !this.hasInput(callee)) {
+              // Undone so that the call runs again once provideInput() has supplied a line
+              stack.push(callee, ...args);
+              frame.ip -= 3;
+              this.awaitInput(typeof args[0] === 'string' ? args[0] : '');
+              this.pause = --this.steps;
+              return;
+            }
+            stack.push(this.callNative(callee, args, span));
+            break;
+          }
+          if (callee instanceof SPLClass) this.instantiate(callee, args, span);
+          else this.callFunction(callee, args, span);
+          frame = this.frames[this.frames.length - 1];
+          code = frame.chunk.code;
+          constants = frame.chunk.constants;
+          break;
+        }
+        case Op.FUNCTION:
+          stack.push(new SPLFunction(constants[code[frame.ip++]], this.environment, this.currentFile));
+          break;
+        case Op.CLASS:
+          stack.push(new SPLClass(constants[code[frame.ip++]], this.environment, this.currentFile));
+          break;
+        case Op.IMPORT: {
+          const stmt: ImportStatement = constants[code[frame.ip++]];
+          const load = this.openModule(stmt.source.value, stmt.source.span);
+          if (load instanceof SPLModule) {
+            stack.push(load);
+            break;
+          }
+          this.enterFrame({ kind: 'module', chunk: this.compiler.compile(load.program, load.fileName), module: load }, load.scope);
+          this.enterModule(load, stmt.source.span);
+          frame = this.frames[this.frames.length - 1];
+          code = frame.chunk.code;
+          constants = frame.chunk.constants;
+          break;
+        }
+        case Op.INIT_FIELD:
+          this.initField(frame.instance!, constants[code[frame.ip++]] as VariableDeclaration, stack.pop());
+          break;
+        case Op.CONSTRUCT:
+          this.leaveFrame();
+          this.construct(frame.instance!, frame.args!, frame.span!);
+          frame = this.frames[this.frames.length - 1];
+          code = frame.chunk.code;
+          constants = frame.chunk.constants;
+          break;
+        case Op.RETURN: {
+          const value = stack.pop();
+          this.leaveFrame();
+          this.callStack.pop();
+          stack.push(frame.instance ?? value);
+          frame = this.frames[this.frames.length - 1];
+          code = frame.chunk.code;
+          constants = frame.chunk.constants;
+          break;
+        }
+        case Op.PRINT:
+          this.print(stack.pop());
+          break;
+        case Op.SNAPSHOT:
+          this.captureSnapshot(code[frame.ip++]);
+          break;
+        case Op.TRY:
+          frame.handlers.push({ target: code[frame.ip++], environment: this.environment, height: stack.length });
+          break;
+        case Op.END_TRY:
+          frame.handlers.pop();
+          break;
+        case Op.CATCH: {
+          const handler: CatchInfo = constants[code[frame.ip++]];
+          const value = stack.pop();
+          this.environment = new Environment('block', handler.scope, this.environment);
+          if (handler.param) this.environment.define(handler.param, value);
+          this.captureSnapshot(handler.line);
+          break;
+        }
+        case Op.THROW: {
+          const span: SourceSpan = constants[code[frame.ip++]];
+          throw new ThrowSignal(stack.pop(), span, this.captureStackTrace(span.line), this.currentFile);
+        }
+        case Op.ESCAPE:
+          throw this.escape(constants[code[frame.ip++]]);
+        case Op.HALT:
+          if (frame.kind === 'main') {
+            this.frames.pop();
+            return;
+          }
+          this.leaveFrame();
+          this.leaveModule();
+          stack.push(this.closeModule(frame.module!));
+          frame = this.frames[this.frames.length - 1];
+          code = frame.chunk.code;
+          constants = frame.chunk.constants;
+          break;
+      }
+    }
+  }
+
+  // --- FRAMES ---
+
+  // null when no scope declares the name, for lookup() or assign() to report
+  private scopeOf(frame: Frame, index: number, name: string): Environment | null {
+    const cached = frame.resolved[index];
+    if (cached !== undefined && cached.environment === this.environment) return cached.scope;
+    const scope = this.environment.resolve(name);
+    if (scope) frame.resolved[index] = { environment: this.environment, scope };
+    return scope;
+  }
+
+  // Every frame gets all the fields, in one order, so the dispatch loop only ever sees one shape
+  private enterFrame(frame: Pick<Frame, 'kind' | 'chunk'> & Partial<Frame>, environment: Environment) {
+    this.frames.push({
+      kind: frame.kind, chunk: frame.chunk, ip: 0, base: this.stack.length, handlers: [], resolved: [],
+      callerEnvironment: this.environment, callerFile: this.currentFile,
+      instance: frame.instance, args: frame.args, span: frame.span, module: frame.module
+    });
+    this.environment = environment;
+  }
+
+  // Module frames also leave through leaveModule(), function frames pop their call stack entry
+  private leaveFrame(): Frame {
+    const frame = this.frames.pop()!;
+    // Only unwinding leaves values behind, and cutting an array's length is slow
+    if (this.stack.length > frame.base) this.stack.length = frame.base;
+    this.environment = frame.callerEnvironment;
+    this.currentFile = frame.callerFile;
+    return frame;
+  }
+
+  private callFunction(fn: SPLFunction, args: any[], span: SourceSpan, instance?: SPLInstance) {
+    this.checkCall(fn, args.length, span);
+    const scope = this.functionScope(fn, args);
+    this.enterFrame({ kind: 'function', chunk: this.compiler.chunkOf(fn.declaration), instance }, scope);
+    this.callStack.push({ name: fn.name, line: span.line, file: this.currentFile });
+    this.currentFile = fn.file;
+  }
+
+  // Fields start from their declared initialisers, then the nirmata method (if any) runs
+  private instantiate(klass: SPLClass, args: any[], span: SourceSpan) {
+    const instance = new SPLInstance(klass);
+    if (klass.declaration.fields.length === 0) {
+      this.construct(instance, args, span);
+      return;
+    }
+    const chunk = this.compiler.chunkOf(klass.declaration);
+    this.enterFrame({ kind: 'fields', chunk, instance, args, span }, new Environment('block', klass.name, klass.closure));
+  }
+
+  private construct(instance: SPLInstance, args: any[], span: SourceSpan) {
+    const init = instance.klass.constructorMethod;
+    if (init) {
+      this.callFunction(init.bind(instance), args, span, instance);
+    } else if (args.length > 0) {
+      throw this.missingConstructor(instance.klass, span);
+    } else {
+      this.stack.push(instance);
+    }
+  }
+
+  // --- ERRORS ---
+
+  // Reported at the instruction that would have run next
+  private stepLimit(): SPLRuntimeError {
+    const frame = this.frames[this.frames.length - 1];
+    const line = frame.chunk.lines[frame.ip];
+    const error = new SPLRuntimeError(`Step limit (${this.formatNumber(this.maxSteps)} instructions) exceeded; the program was stopped`, { line, col: 1, endLine: line, endCol: 1 }, undefined, true, 'STEP_LIMIT');
+    this.annotateError(error);
+    return error;
+  }
+
+  // A stray signal stops the main program as in the interpreter; at a function or module
+  // boundary it becomes an error, which for functions is raised in the caller
+  private escape(stmt: { kind: string; span: SourceSpan }): unknown {
+    const signal = stmt.kind === 'BreakStatement' ? new BreakSignal(stmt.span)
+      : stmt.kind === 'ContinueStatement' ? new ContinueSignal(stmt.span)
+      : new ReturnSignal(null, stmt.span);
+    const frame = this.frames[this.frames.length - 1];
+    if (frame.kind === 'main') return signal;
+    const error = this.escapedSignal(signal);
+    if (frame.kind === 'module') {
+      this.annotateError(error);
+      this.leaveFrame();
+      this.leaveModule();
+    } else {
+      this.leaveFrame();
+      this.callStack.pop();
+    }
+    return error;
+  }
+
+  // Unwinds to the innermost grihnatu; fatal errors and uncaught values go on to run()
+  private recover(error: unknown) {
+    let value: any;
+    if (error instanceof ThrowSignal) value = error.value;
+    else if (error instanceof SPLRuntimeError) {
+      this.annotateError(error);
+      if (error.fatal) throw error;
+      value = error.message;
+    } else throw error;
+
+    while (this.frames.length > 0) {
+      const frame = this.frames[this.frames.length - 1];
+      const handler = frame.handlers.pop();
+      if (handler) {
+        this.environment = handler.environment;
+        this.stack.length = handler.height;
+        this.stack.push(value);
+        frame.ip = handler.target;
+        return;
+      }
+      if (frame.kind === 'main') break;
+      this.leaveFrame();
+      if (frame.kind === 'module') this.leaveModule();
+      else if (frame.kind === 'function') this.callStack.pop();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,158 @@
+import { CodeOutput, EngineOptions, SanskritamError, ScriptMode } from "../types";
+import { SPLEngine, EngineRun } from "./splEngine";
+import { SPLRepl } from "./splRepl";
+import { TypeHint } from "./splTypeChecker";
+
+// --- PROTOCOL ---
+
+export interface WorkerProgram {
+  code: string;
+  mode: ScriptMode;
+  options: EngineOptions;
+}
+
+// 'run' streams stdout while the program runs, 'debug' records the trace and answers once it is complete;
+// 'repl' evaluates one line in the worker's REPL session, which 'repl-reset' discards;
+// 'repl-cancel' drops the lines of a REPL block still open;
+// 'input' answers the shrunotu prompt of the request with the same id, 'cancel' stops it
+export type WorkerRequest =
+  | ({ type: 'run' | 'debug' | 'lint'; id: number } & WorkerProgram)
+  | { type: 'repl'; id: number; line: string; mode: ScriptMode; options: EngineOptions }
+  | { type: 'repl-reset' | 'repl-cancel'; id: number }
+  | { type: 'input'; id: number; line: string }
+  | { type: 'cancel'; id: number };
+
+// Generated code shown next to the output of a run
+export interface WorkerBuilds {
+  js: Pick<CodeOutput, 'transpiled' | 'sourceMap'> | null;
+  python: string | null;
+  bytecode: string | null;
+}
+
+export type WorkerResponse =
+  | { type: 'stdout'; id: number; text: string }
+  | { type: 'input'; id: number; prompt: string }
+  | { type: 'done'; id: number; output: CodeOutput; builds: WorkerBuilds }
+  | { type: 'lint'; id: number; errors: SanskritamError[]; typeHints: TypeHint[] }
+  // `more`: the line opened a block and nothing ran yet
+  | { type: 'evaluated'; id: number; more: boolean; errors: SanskritamError[] }
+  | { type: 'cancelled'; id: number }
+  | { type: 'failed'; id: number; message: string };
+
+// --- WORKER ---
+
+// VM instructions per slice; between slices the worker reads its messages, so cancel takes effect
+const SLICE_STEPS = 50000;
+
+interface Job {
+  id: number;
+  run: EngineRun;
+  // The response once the program has ended
+  finish: (output: CodeOutput) => WorkerResponse;
+  stream: boolean;
+  // Length of the stdout already posted
+  streamed: number;
+}
+
+const cancelled = new Set<number>();
+// Jobs paused at shrunotu until their 'input' request arrives
+const waiting = new Map<number, Job>();
+let repl: { session: SPLRepl; mode: ScriptMode } | null = null;
+
+const post = (response: WorkerResponse) => postMessage(response);
+
+const builds = ({ code, mode, options }: WorkerProgram): WorkerBuilds => ({
+  js: new SPLEngine(code, mode, options).compile('js'),
+  python: new SPLEngine(code, mode, options).compile('python')?.transpiled ?? null,
+  bytecode: new SPLEngine(code, mode, options).disassemble()
+});
+
+// Runs one slice, then yields to the event loop before the next
+const step = (job: Job) => {
+  const { id, run } = job;
+  if (cancelled.delete(id)) {
+    post({ type: 'cancelled', id });
+    return;
+  }
+  try {
+    const output = run.resume(SLICE_STEPS);
+    const stdout = output?.stdout ?? run.output();
+    if (job.stream && stdout.length > job.streamed) {
+      post({ type: 'stdout', id, text: stdout.slice(job.streamed) });
+      job.streamed = stdout.length;
+    }
+    const prompt = run.awaitingInput();
+    if (output) {
+      post(job.finish(output));
+    } else if (prompt !== null) {
+      waiting.set(id, job);
+      post({ type: 'input', id, prompt });
+    } else {
+      setTimeout(() => step(job), 0);
+    }
+  } catch (err: any) {
+    post({ type: 'failed', id, message: err.message || 'Execution failed' });
+  }
+};
+
+onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'run':
+    case 'debug': {
+      const { id, code, mode } = request;
+      const options = { ...request.options, interactive: true, trace: request.type === 'debug' };
+      try {
+        const run = new SPLEngine(code, mode, options).start();
+        const finish = (output: CodeOutput): WorkerResponse => ({ type: 'done', id, output, builds: builds({ code, mode, options }) });
+        step({ id, run, finish, stream: request.type === 'run', streamed: 0 });
+      } catch (err: any) {
+        post({ type: 'failed', id, message: err.message || 'Execution failed' });
+      }
+      break;
+    }
+    case 'lint': {
+      try {
+        const engine = new SPLEngine(request.code, request.mode, request.options);
+        post({ type: 'lint', id: request.id, errors: engine.lint(), typeHints: engine.typeHints() });
+      } catch (err: any) {
+        post({ type: 'failed', id: request.id, message: err.message || 'Lint failed' });
+      }
+      break;
+    }
+    case 'repl': {
+      const { id, line, mode } = request;
+      if (repl?.mode !== mode) repl = { session: new SPLRepl(mode, { ...request.options, interactive: true }), mode };
+      try {
+        const evaluated = repl.session.evaluate(line, request.options.files);
+        if (evaluated.kind !== 'run') {
+          post({ type: 'evaluated', id, more: evaluated.kind === 'more', errors: evaluated.kind === 'errors' ? evaluated.errors : [] });
+          break;
+        }
+        const finish = (output: CodeOutput): WorkerResponse => ({ type: 'evaluated', id, more: false, errors: output.errors ?? [] });
+        step({ id, run: evaluated.run, finish, stream: true, streamed: 0 });
+      } catch (err: any) {
+        post({ type: 'failed', id, message: err.message || 'Evaluation failed' });
+      }
+      break;
+    }
+    case 'repl-reset':
+      repl = null;
+      break;
+    case 'repl-cancel':
+      repl?.session.cancelBlock();
+      break;
+    case 'input': {
+      const job = waiting.get(request.id);
+      if (!job) break;
+      waiting.delete(request.id);
+      job.run.provideInput(request.line);
+      step(job);
+      break;
+    }
+    case 'cancel':
+      if (waiting.delete(request.id)) post({ type: 'cancelled', id: request.id });
+      else cancelled.add(request.id);
+      break;
+  }
+};
@@ -0,0 +1,156 @@
+import { CodeOutput, SanskritamError } from "../types";
+import { TypeHint } from "./splTypeChecker";
+import type { WorkerBuilds, WorkerProgram, WorkerRequest, WorkerResponse } from "./splWorker";
+
+// How long a cancelled program may take to stop between slices before its worker is terminated
+const CANCEL_GRACE_MS = 500;
+
+export interface WorkerRun {
+  output: CodeOutput;
+  builds: WorkerBuilds;
+}
+
+export interface WorkerLint {
+  errors: SanskritamError[];
+  typeHints: TypeHint[];
+}
+
+// `more`: the line opened a block, so the next one continues it
+export interface WorkerEvaluation {
+  more: boolean;
+  errors: SanskritamError[];
+}
+
+// Called while a run is in progress; answer onInput with provideInput()
+export interface RunEvents {
+  onStdout?: (text: string) => void;
+  onInput?: (prompt: string) => void;
+}
+
+interface Pending extends RunEvents {
+  resolve: (response: WorkerResponse) => void;
+}
+
+/**
+ * Runs SPLEngine requests on a dedicated worker so programs never block the page.
+ * run() and debug() resolve to null when the program is cancelled.
+ */
+export class SPLWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+  // The run or debug request that cancel() stops
+  private active: number | null = null;
+
+  constructor() {
+    this.worker = this.spawn();
+  }
+
+  public run(program: WorkerProgram, events: RunEvents = {}): Promise<WorkerRun | null> {
+    return this.execute('run', program, events);
+  }
+
+  public debug(program: WorkerProgram, events: RunEvents = {}): Promise<WorkerRun | null> {
+    return this.execute('debug', program, events);
+  }
+
+  // One line for the REPL session, which keeps its names until resetRepl(); null when cancelled
+  public async evaluate(line: string, program: Omit<WorkerProgram, 'code'>, events: RunEvents = {}): Promise<WorkerEvaluation | null> {
+    const id = this.nextId++;
+    this.active = id;
+    try {
+      const response = await this.request({ type: 'repl', id, line, ...program }, events);
+      if (response.type === 'failed') throw new Error(response.message);
+      return response.type === 'evaluated' ? { more: response.more, errors: response.errors } : null;
+    } finally {
+      if (this.active === id) this.active = null;
+    }
+  }
+
+  public resetRepl() {
+    this.worker.postMessage({ type: 'repl-reset', id: this.nextId++ } satisfies WorkerRequest);
+  }
+
+  // Forgets the lines of a block the REPL is still collecting; its names stay
+  public cancelReplBlock() {
+    this.worker.postMessage({ type: 'repl-cancel', id: this.nextId++ } satisfies WorkerRequest);
+  }
+
+  public async lint(program: WorkerProgram): Promise<WorkerLint> {
+    const response = await this.request({ type: 'lint', id: this.nextId++, ...program });
+    if (response.type !== 'lint') throw new Error(response.type === 'failed' ? response.message : 'Lint failed');
+    return { errors: response.errors, typeHints: response.typeHints };
+  }
+
+  // Answers the shrunotu prompt the active run is paused at
+  public provideInput(line: string) {
+    if (this.active !== null) this.worker.postMessage({ type: 'input', id: this.active, line } satisfies WorkerRequest);
+  }
+
+  // Asks the worker to stop between slices; a worker stuck inside one slice is replaced
+  public cancel() {
+    const id = this.active;
+    if (id === null) return;
+    this.worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+    setTimeout(() => {
+      if (!this.pending.has(id)) return;
+      this.worker.terminate();
+      const stranded = [...this.pending.entries()];
+      this.pending.clear();
+      this.worker = this.spawn();
+      for (const [pendingId, { resolve }] of stranded) {
+        resolve(pendingId === id ? { type: 'cancelled', id } : { type: 'failed', id: pendingId, message: 'Worker restarted' });
+      }
+    }, CANCEL_GRACE_MS);
+  }
+
+  public dispose() {
+    this.worker.terminate();
+    this.pending.clear();
+  }
+
+  private async execute(type: 'run' | 'debug', program: WorkerProgram, events: RunEvents): Promise<WorkerRun | null> {
+    const id = this.nextId++;
+    this.active = id;
+    try {
+      const response = await this.request({ type, id, ...program }, events);
+      if (response.type === 'failed') throw new Error(response.message);
+      return response.type === 'done' ? { output: response.output, builds: response.builds } : null;
+    } finally {
+      if (this.active === id) this.active = null;
+    }
+  }
+
+  private request(request: Exclude<WorkerRequest, { type: 'input' | 'cancel' | 'repl-reset' | 'repl-cancel' }>, events: RunEvents = {}): Promise<WorkerResponse> {
+    return new Promise(resolve => {
+      this.pending.set(request.id, { resolve, ...events });
+      this.worker.postMessage(request);
+    });
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL('./splWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      const pending = this.pending.get(response.id);
+      if (!pending) return;
+      if (response.type === 'stdout') {
+        pending.onStdout?.(response.text);
+        return;
+      }
+      if (response.type === 'input') {
+        pending.onInput?.(response.prompt);
+        return;
+      }
+      this.pending.delete(response.id);
+      pending.resolve(response);
+    };
+    // Only reached when the worker itself fails to load or crashes
+    worker.onerror = event => {
+      const stranded = [...this.pending.entries()];
+      this.pending.clear();
+      for (const [id, { resolve }] of stranded) resolve({ type: 'failed', id, message: event.message || 'Worker failed' });
+    };
+    return worker;
+  }
+}
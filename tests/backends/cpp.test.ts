@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { SPLEngine } from "../../services/splEngine";
+import { SANSKRITAM_RUNTIME_HEADER } from "../../services/cppRuntime";
+import { goldenPrograms, hasCommand, interpreterOutput, runGenerated } from "./programs";
+
+// Golden files: each program's expected stdout, which the interpreter and the compiled C++ must both print
+describe.each(goldenPrograms().map(program => [program.name, program] as const))("%s", (_, program) => {
+  it.each(['vm', 'tree'] as const)("prints the golden output on the %s executor", executor => {
+    expect(interpreterOutput(program, executor)).toBe(program.expected);
+  });
+
+  it.skipIf(!hasCommand('g++'))("prints the golden output when compiled with g++", () => {
+    const built = new SPLEngine(program.source, program.mode).compile('cpp');
+    expect(built).not.toBeNull();
+    const files = { 'Sanskritam.h': SANSKRITAM_RUNTIME_HEADER, 'main.cpp': built!.transpiled };
+    expect(runGenerated(files, ['sh', '-c', 'g++ -std=c++17 main.cpp -o main && ./main'], program.input)).toBe(program.expected);
+  }, 60000);
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { SNIPPETS } from "../../constants";
+import { ScriptMode, SourceMap } from "../../types";
+import { SPLEngine } from "../../services/splEngine";
+import { SANSKRITAM_JS_RUNTIME } from "../../services/jsRuntime";
+import { GoldenProgram, goldenPrograms, interpreterOutput, runGenerated } from "./programs";
+
+// Differential: the same programs through SPLEngine and the node running these tests must print the same stdout
+const snippets: GoldenProgram[] = SNIPPETS.flatMap(snippet => [
+  { name: `${snippet.name} (Roman)`, source: snippet.code.ROMAN, mode: ScriptMode.ROMAN, expected: '', input: '' },
+  { name: `${snippet.name} (Devanagari)`, source: snippet.code.DEVANAGARI, mode: ScriptMode.DEVANAGARI, expected: '', input: '' }
+]);
+
+describe("node", () => {
+  it.each([...goldenPrograms(), ...snippets].map(program => [program.name, program] as const))("prints what SPLEngine prints for %s", (_, program) => {
+    const built = new SPLEngine(program.source, program.mode).compile('js');
+    expect(built).not.toBeNull();
+    const files = { 'sanskritam.mjs': SANSKRITAM_JS_RUNTIME, 'main.mjs': built!.transpiled };
+    expect(runGenerated(files, [process.execPath, 'main.mjs'], program.input)).toBe(interpreterOutput(program));
+  }, 30000);
+});
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// A decoder written from the v3 spec rather than shared with splSourceMap, so the two check each other
+const decodeMappings = (map: SourceMap) => {
+  const decoded: { generatedLine: number; generatedColumn: number; source: string; line: number; column: number }[] = [];
+  let source = 0;
+  let line = 0;
+  let column = 0;
+  map.mappings.split(';').forEach((group, i) => {
+    let generatedColumn = 0;
+    for (const segment of group.split(',').filter(Boolean)) {
+      const fields: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64.indexOf(char);
+        value += (digit & 31) << shift;
+        shift += 5;
+        if (digit & 32) continue;
+        fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+      }
+      expect(fields).toHaveLength(4);
+      generatedColumn += fields[0];
+      source += fields[1];
+      line += fields[2];
+      column += fields[3];
+      decoded.push({ generatedLine: i + 1, generatedColumn: generatedColumn + 1, source: map.sources[source], line: line + 1, column: column + 1 });
+    }
+  });
+  return decoded;
+};
+
+describe("source map", () => {
+  const files = {
+    'main.spl': 'anayati "ganita"\nmulyam x = 1\n\nvadatu x\nyadi x > 0 tarhi\n  vadatu ganita.dvi(x)\nsamaptam\n',
+    'ganita.spl': 'karyam dvi(n) tarhi\n  pratyarpayatu n * 2\nsamaptam\n'
+  };
+  const built = new SPLEngine(files['main.spl'], ScriptMode.ROMAN, { files, outFile: 'app.mjs' }).compile('js')!;
+  const generated = built.transpiled.split('\n');
+  const map = built.sourceMap!;
+
+  it("names the output file, every .spl file it came from and their text", () => {
+    expect(map.version).toBe(3);
+    expect(map.file).toBe('app.mjs');
+    expect(map.sources).toEqual(['main.spl', 'ganita.spl']);
+    expect(map.sourcesContent).toEqual([files['main.spl'], files['ganita.spl']]);
+    expect(generated[generated.length - 1]).toBe('//# sourceMappingURL=app.mjs.map');
+  });
+
+  it("maps each generated statement to the start of the .spl statement", () => {
+    const statements = decodeMappings(map).map(mapping => ({
+      generated: generated[mapping.generatedLine - 1].slice(mapping.generatedColumn - 1),
+      spl: files[mapping.source as keyof typeof files].split('\n')[mapping.line - 1].slice(mapping.column - 1)
+    }));
+    expect(statements).toEqual([
+      { generated: 'function dvi(n) {', spl: 'karyam dvi(n) tarhi' },
+      { generated: 'return n * 2;', spl: 'pratyarpayatu n * 2' },
+      { generated: 'let ganita = load_ganita();', spl: 'anayati "ganita"' },
+      { generated: 'let x = 1;', spl: 'mulyam x = 1' },
+      { generated: 'san.vadatu(x);', spl: 'vadatu x' },
+      { generated: 'if (x > 0) {', spl: 'yadi x > 0 tarhi' },
+      { generated: expect.stringMatching(/^san\.vadatu\(/), spl: 'vadatu ganita.dvi(x)' }
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { KEYWORDS } from "../../constants";
+import { ScriptMode } from "../../types";
+import { SPLEngine } from "../../services/splEngine";
+
+// Shared by the backend tests: the golden programs and how to run them outside the playground
+
+export const GOLDEN_DIR = path.join(import.meta.dirname, 'golden');
+
+export interface GoldenProgram {
+  name: string;
+  source: string;
+  mode: ScriptMode;
+  // Expected stdout, checked in next to the program as <name>.out
+  expected: string;
+  // Lines shrunotu reads, from <name>.in when the program has one
+  input: string;
+}
+
+const DEVANAGARI_KEYWORDS = new Set(Object.values(KEYWORDS).map(keyword => keyword.devanagari));
+
+// A program written with Devanagari keywords runs in Devanagari mode, as splc does it
+const modeOf = (source: string): ScriptMode =>
+  new SPLEngine(source, ScriptMode.ROMAN).tokenize().some(token => token.type === 'KEYWORD' && DEVANAGARI_KEYWORDS.has(token.value))
+    ? ScriptMode.DEVANAGARI
+    : ScriptMode.ROMAN;
+
+export const goldenPrograms = (): GoldenProgram[] =>
+  fs.readdirSync(GOLDEN_DIR).filter(file => file.endsWith('.spl')).sort().map(file => {
+    const source = fs.readFileSync(path.join(GOLDEN_DIR, file), 'utf8');
+    const name = file.replace(/\.spl$/, '');
+    const inputFile = path.join(GOLDEN_DIR, `${name}.in`);
+    return {
+      name,
+      source,
+      mode: modeOf(source),
+      expected: fs.readFileSync(path.join(GOLDEN_DIR, `${name}.out`), 'utf8'),
+      input: fs.existsSync(inputFile) ? fs.readFileSync(inputFile, 'utf8') : ''
+    };
+  });
+
+// stdout as a process prints it: the interpreter's lines plus the final line break
+export const interpreterOutput = (program: GoldenProgram, executor: 'vm' | 'tree' = 'vm'): string => {
+  const output = new SPLEngine(program.source, program.mode, { executor, stdin: program.input }).execute();
+  if (output.errors?.length) throw new Error(output.errors.map(err => `${err.line}: ${err.message}`).join('\n'));
+  return `${output.stdout}\n`;
+};
+
+export const hasCommand = (command: string): boolean => {
+  try {
+    execFileSync(command, ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Writes the generated files into a fresh directory, runs `command` there with `input` on stdin and returns its stdout
+export const runGenerated = (files: Record<string, string>, command: string[], input = '', timeout = 60000): string => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spl-backend-'));
+  try {
+    for (const [name, content] of Object.entries(files)) fs.writeFileSync(path.join(dir, name), content);
+    return execFileSync(command[0], command.slice(1), { cwd: dir, encoding: 'utf8', input, timeout });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { SNIPPETS } from "../../constants";
+import { ScriptMode } from "../../types";
+import { SPLEngine } from "../../services/splEngine";
+import { SANSKRITAM_PY_RUNTIME } from "../../services/pythonRuntime";
+import { GoldenProgram, goldenPrograms, hasCommand, interpreterOutput, runGenerated } from "./programs";
+
+// Differential: the same programs through SPLEngine and the local python3 must print the same stdout
+const snippets: GoldenProgram[] = SNIPPETS.flatMap(snippet => [
+  { name: `${snippet.name} (Roman)`, source: snippet.code.ROMAN, mode: ScriptMode.ROMAN, expected: '', input: '' },
+  { name: `${snippet.name} (Devanagari)`, source: snippet.code.DEVANAGARI, mode: ScriptMode.DEVANAGARI, expected: '', input: '' }
+]);
+
+describe.skipIf(!hasCommand('python3'))("python3", () => {
+  it.each([...goldenPrograms(), ...snippets].map(program => [program.name, program] as const))("prints what SPLEngine prints for %s", (_, program) => {
+    const built = new SPLEngine(program.source, program.mode).compile('python');
+    expect(built).not.toBeNull();
+    const files = { 'sanskritam.py': SANSKRITAM_PY_RUNTIME, 'main.py': built!.transpiled };
+    expect(runGenerated(files, ['python3', 'main.py'], program.input)).toBe(interpreterOutput(program));
+  }, 30000);
+});
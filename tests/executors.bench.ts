@@ -0,0 +1,71 @@
+import { bench, describe } from "vitest";
+import { EngineOptions, ScriptMode } from "../types";
+import { SPLEngine } from "../services/splEngine";
+import { SPLInterpreter } from "../services/splInterpreter";
+import { SPLVirtualMachine } from "../services/splVM";
+
+// The bytecode VM against the tree walker on the same parsed program, untraced as the run button runs it
+
+const PROGRAMS: Record<string, string> = {
+  loop: `mulyam s = 0
+krute i = 1 paryantam 1000000 tarhi
+  s = s + i % 7
+samaptam
+vadatu s`,
+  while: `mulyam i = 0
+mulyam s = 0
+yavat i < 300000 tarhi
+  yadi i % 2 == 0 tarhi
+    s = s + i
+  anyatha
+    s = s - 1
+  samaptam
+  i = i + 1
+samaptam
+vadatu s`,
+  recursion: `karyam fib(n) tarhi
+  yadi n < 2 tarhi
+    pratyarpayatu n
+  samaptam
+  pratyarpayatu fib(n - 1) + fib(n - 2)
+samaptam
+vadatu fib(22)`,
+  collections: `mulyam l = []
+krute i = 1 paryantam 1000 tarhi
+  samyojaya(l, i * i)
+samaptam
+mulyam t = 0
+krute j = 1 paryantam 200000 tarhi
+  t = t + l[j % 1000]
+samaptam
+vadatu t`,
+  objects: `shreni Bindu tarhi
+  mulyam x = 0
+  karyam nirmata(x) tarhi
+    ayam.x = x
+  samaptam
+  karyam chalaya(dx) tarhi
+    ayam.x = ayam.x + dx
+  samaptam
+samaptam
+mulyam p = Bindu(0)
+krute i = 1 paryantam 100000 tarhi
+  p.chalaya(i)
+samaptam
+vadatu p.x`
+};
+
+const OPTIONS: EngineOptions = { maxIterations: Infinity, maxCallDepth: Infinity };
+
+for (const [name, source] of Object.entries(PROGRAMS)) {
+  const { program } = new SPLEngine(source, ScriptMode.ROMAN).parse();
+  if (!program) throw new Error(`${name} does not parse`);
+  describe(name, () => {
+    bench('vm', () => {
+      new SPLVirtualMachine(ScriptMode.ROMAN, OPTIONS).run(program);
+    });
+    bench('tree', () => {
+      new SPLInterpreter(ScriptMode.ROMAN, OPTIONS).run(program);
+    });
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { ScriptMode } from "../types";
+import { SPLEngine } from "../services/splEngine";
+
+const GREETER = [
+  'mulyam naama = shrunotu("naama?")',
+  'vadatu "namaste " + naama',
+  'vadatu sankhya(shrunotu("")) * 2'
+].join('\n');
+
+describe.each(['vm', 'tree'] as const)("shrunotu on the %s executor", executor => {
+  it("reads the stdin option a line at a time", () => {
+    const output = new SPLEngine(GREETER, ScriptMode.ROMAN, { executor, stdin: 'Sita\r\n21\n' }).execute();
+    expect(output.errors).toEqual([]);
+    expect(output.stdout).toBe('naama?\nnamaste Sita\n42');
+  });
+
+  it("fails at the end of input unless the run is interactive", () => {
+    const output = new SPLEngine(GREETER, ScriptMode.ROMAN, { executor, stdin: 'Sita' }).execute();
+    expect(output.errors?.map(err => `${err.line} ${err.message}`)).toEqual(["3 'shrunotu' reached the end of input"]);
+  });
+});
+
+// Only the VM can pause mid-program, so only it runs interactively
+describe("interactive shrunotu", () => {
+  it("pauses an interactive run until provideInput() answers the prompt", () => {
+    const run = new SPLEngine(GREETER, ScriptMode.ROMAN, { interactive: true }).start();
+    expect(run.resume()).toBeNull();
+    expect(run.awaitingInput()).toBe('naama?');
+    // The prompt is printed once, when the run first pauses
+    expect(run.output()).toBe('naama?');
+    run.provideInput('Sita');
+    expect(run.resume()).toBeNull();
+    expect(run.awaitingInput()).toBe('');
+    expect(run.output()).toBe('naama?\nnamaste Sita');
+    run.provideInput('21');
+    const output = run.resume();
+    expect(output?.errors).toEqual([]);
+    expect(output?.stdout).toBe('naama?\nnamaste Sita\n42');
+    expect(run.awaitingInput()).toBeNull();
+  });
+
+  it("fails the waiting shrunotu when the input is ended", () => {
+    const run = new SPLEngine(GREETER, ScriptMode.ROMAN, { interactive: true, stdin: 'Sita\n' }).start();
+    expect(run.resume()).toBeNull();
+    run.provideInput(null);
+    expect(run.resume()?.errors?.map(err => err.message)).toEqual(["'shrunotu' reached the end of input"]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { formatSource } from "../services/splFormatter";
+
+describe("formatSource", () => {
+  it("indents blocks, branches and handlers", () => {
+    const code = [
+      'karyam f(x) tarhi',
+      'yadi x > 0 tarhi',
+      'vadatu x',
+      'anyatha',
+      'prayatnam',
+      'kshipatu "a"',
+      'grihnatu e',
+      'vadatu e',
+      'samaptam',
+      'samaptam',
+      'samaptam'
+    ].join('\n');
+    expect(formatSource(code)).toBe([
+      'karyam f(x) tarhi',
+      '  yadi x > 0 tarhi',
+      '    vadatu x',
+      '  anyatha',
+      '    prayatnam',
+      '      kshipatu "a"',
+      '    grihnatu e',
+      '      vadatu e',
+      '    samaptam',
+      '  samaptam',
+      'samaptam'
+    ].join('\n'));
+  });
+
+  it("ignores keywords inside strings and comments", () => {
+    const code = [
+      'yadi 1 tarhi // samaptam',
+      'vadatu "samaptam tarhi"',
+      'pratyarpayatu 1 // tarhi',
+      'samaptam'
+    ].join('\n');
+    expect(formatSource(code)).toBe([
+      'yadi 1 tarhi // samaptam',
+      '  vadatu "samaptam tarhi"',
+      '  pratyarpayatu 1 // tarhi',
+      'samaptam'
+    ].join('\n'));
+  });
+
+  it("reads Devanagari keywords", () => {
+    expect(formatSource('यदि १ तर्हि\nवदतु १\nसमाप्तम्')).toBe('यदि १ तर्हि\n  वदतु १\nसमाप्तम्');
+  });
+});
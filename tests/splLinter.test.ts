@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { EngineOptions, ScriptMode } from "../types";
+import { SPLEngine } from "../services/splEngine";
+
+const lint = (code: string, options: EngineOptions = {}) => new SPLEngine(code, ScriptMode.ROMAN, options).lint().map(err => `${err.line} ${err.code}`);
+
+describe("unbalanced-blocks", () => {
+  it("leaves a block the parser already reports to the parser", () => {
+    expect(lint('yadi 1 > 0 tarhi\n  vadatu 1\n')).toEqual(['1 SPL2003']);
+    expect(lint('vadatu 1\nsamaptam\n')).toEqual(['2 SPL2004']);
+  });
+
+  it("points at the inner block that is really missing its samaptam", () => {
+    const code = 'karyam f() tarhi\n  yadi 1 > 0 tarhi\n    vadatu 1\n  vadatu 2\nsamaptam\nvadatu 3\n';
+    expect(lint(code)).toEqual(['1 SPL2003', '2 SPL5004']);
+  });
+});
+
+describe("unused-variable", () => {
+  it("reports unused top-level names of an entry file whatever it is called", () => {
+    expect(lint('mulyam x = 1\n', { fileName: 'foo.spl' })).toEqual(['1 SPL5001']);
+  });
+
+  it("leaves the top-level names of a module to its importers", () => {
+    expect(lint('mulyam x = 1\n', { fileName: 'ganita.spl', isEntry: false })).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ScriptMode } from "../types";
+import { SPLRepl } from "../services/splRepl";
+
+// What one line printed, 'more' while a block is open, or the codes of its errors
+const evaluate = (repl: SPLRepl, line: string, files?: Record<string, string>): string => {
+  const step = repl.evaluate(line, files);
+  if (step.kind === 'more') return 'more';
+  if (step.kind === 'errors') return step.errors.map(err => err.code).join(' ');
+  const output = step.run.resume()!;
+  return output.errors?.length ? output.errors.map(err => err.code).join(' ') : output.stdout;
+};
+
+describe("SPLRepl", () => {
+  it("keeps names and karyams from one line to the next", () => {
+    const repl = new SPLRepl(ScriptMode.ROMAN);
+    expect(evaluate(repl, 'mulyam x = 20')).toBe('');
+    expect(evaluate(repl, 'karyam dvi(n) tarhi')).toBe('more');
+    expect(evaluate(repl, '  pratyarpayatu n * 2')).toBe('more');
+    expect(evaluate(repl, 'samaptam')).toBe('');
+    expect(evaluate(repl, 'x = x + 1')).toBe('');
+    expect(evaluate(repl, 'vadatu dvi(x)')).toBe('42');
+  });
+
+  it("prints the value of a bare expression, but not of a call", () => {
+    const repl = new SPLRepl(ScriptMode.ROMAN);
+    expect(evaluate(repl, '1 + 2')).toBe('3');
+    evaluate(repl, 'karyam f() tarhi');
+    evaluate(repl, '  vadatu "f"');
+    expect(evaluate(repl, 'samaptam')).toBe('');
+    expect(evaluate(repl, 'f()')).toBe('f');
+  });
+
+  it("collects the lines of an open block and runs them once it closes", () => {
+    const repl = new SPLRepl(ScriptMode.ROMAN);
+    expect(evaluate(repl, 'krute i = 1 paryantam 2 tarhi')).toBe('more');
+    expect(evaluate(repl, '  vadatu i')).toBe('more');
+    expect(evaluate(repl, 'samaptam')).toBe('1\n2');
+  });
+
+  it("drops the open block on cancelBlock() and keeps the names", () => {
+    const repl = new SPLRepl(ScriptMode.ROMAN);
+    evaluate(repl, 'mulyam x = 1');
+    expect(evaluate(repl, 'yadi satyam tarhi')).toBe('more');
+    repl.cancelBlock();
+    expect(evaluate(repl, 'vadatu x')).toBe('1');
+  });
+
+  it("reports a syntax error without losing earlier names", () => {
+    const repl = new SPLRepl(ScriptMode.ROMAN);
+    evaluate(repl, 'mulyam x = 1');
+    expect(evaluate(repl, 'vadatu (')).toMatch(/^SPL2/);
+    expect(evaluate(repl, 'vadatu x')).toBe('1');
+    expect(evaluate(repl, 'vadatu y')).toBe('SPL4003');
+  });
+
+  it("imports modules from the files given with the line", () => {
+    const repl = new SPLRepl(ScriptMode.ROMAN, { files: { 'ganita.spl': 'mulyam pi = 3' } });
+    evaluate(repl, 'anayati "ganita"');
+    expect(evaluate(repl, 'vadatu ganita.pi')).toBe('3');
+    expect(evaluate(repl, 'anayati "naya"', { 'naya.spl': 'mulyam e = 2' })).toBe('');
+    expect(evaluate(repl, 'vadatu naya.e')).toBe('2');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { CodeOutput, ScriptMode, VirtualFileSystem } from "../types";
+import { SPLEngine } from "../services/splEngine";
+import { SPLRepl } from "../services/splRepl";
+import { ShellHost, SPLShell } from "../services/splShell";
+
+// The playground's host without the worker: the same engine and REPL, run in place
+const testHost = (files: VirtualFileSystem = {}) => {
+  let repl = new SPLRepl(ScriptMode.ROMAN);
+  const calls: string[] = [];
+  const host: ShellHost = {
+    files,
+    open: fileName => { calls.push(`open ${fileName}`); },
+    run: async (entry): Promise<CodeOutput> => new SPLEngine(files[entry], ScriptMode.ROMAN, { files, fileName: entry }).execute(),
+    evaluate: async line => {
+      const step = repl.evaluate(line, files);
+      if (step.kind === 'more') return { more: true, errors: [], stdout: '' };
+      if (step.kind === 'errors') return { more: false, errors: step.errors, stdout: '' };
+      const output = step.run.resume()!;
+      return { more: false, errors: output.errors ?? [], stdout: output.stdout };
+    },
+    resetRepl: () => {
+      calls.push('resetRepl');
+      repl = new SPLRepl(ScriptMode.ROMAN);
+    },
+    cancelBlock: () => {
+      calls.push('cancelBlock');
+      repl.cancelBlock();
+    }
+  };
+  return { host, calls };
+};
+
+// Sends each input in turn; the lines the last one printed
+const session = async (shell: SPLShell, host: ShellHost, inputs: string[]): Promise<string[]> => {
+  let lines: string[] = [];
+  for (const input of inputs) lines = (await shell.execute(input, host)).lines;
+  return lines;
+};
+
+describe("repl", () => {
+  it("keeps names between lines", async () => {
+    const shell = new SPLShell();
+    const { host } = testHost();
+    expect(await session(shell, host, ['repl', 'mulyam x = 41', 'x = x + 1', 'vadatu x'])).toEqual(['42']);
+  });
+
+  it("continues an open block with the '...' prompt", async () => {
+    const shell = new SPLShell();
+    const { host } = testHost();
+    expect(shell.prompt).toBe('$');
+    await shell.execute('repl', host);
+    expect(shell.prompt).toBe('spl>');
+    expect(await session(shell, host, ['krute i = 1 paryantam 3 tarhi'])).toEqual([]);
+    expect(shell.prompt).toBe('...');
+    expect(await session(shell, host, ['vadatu i * i'])).toEqual([]);
+    expect(await session(shell, host, ['samaptam'])).toEqual(['1', '4', '9']);
+    expect(shell.prompt).toBe('spl>');
+  });
+
+  it("forgets the names on .reset, even inside a block", async () => {
+    const shell = new SPLShell();
+    const { host, calls } = testHost();
+    await session(shell, host, ['repl', 'mulyam x = 1', 'yadi satyam tarhi']);
+    expect(await session(shell, host, ['.reset'])).toEqual(['REPL names forgotten.']);
+    expect(shell.prompt).toBe('spl>');
+    expect(calls).toEqual(['resetRepl']);
+    const lines = await session(shell, host, ['vadatu x']);
+    expect(lines[0]).toContain('SPL4003');
+  });
+
+  it("leaves on .exit inside a block, dropping the block but keeping the names", async () => {
+    const shell = new SPLShell();
+    const { host, calls } = testHost();
+    await session(shell, host, ['repl', 'mulyam x = 7', 'yadi satyam tarhi', 'vadatu "andar"']);
+    expect(await session(shell, host, ['.exit'])).toEqual(['Left the REPL.']);
+    expect(shell.prompt).toBe('$');
+    expect(calls).toEqual(['cancelBlock']);
+    expect(await session(shell, host, ['repl', 'vadatu x'])).toEqual(['7']);
+  });
+
+  it("prints the diagnostics of a line that fails", async () => {
+    const shell = new SPLShell();
+    const { host } = testHost();
+    const lines = await session(shell, host, ['repl', 'vadatu y']);
+    expect(lines.join('\n')).toContain('SPL4003');
+    expect(shell.prompt).toBe('spl>');
+  });
+});
+
+describe("run", () => {
+  it("prints the output of the main file", async () => {
+    const { host } = testHost({ 'main.spl': 'vadatu 1\nvadatu 2' });
+    expect(await session(new SPLShell(), host, ['run'])).toEqual(['1\n2']);
+  });
+
+  it("prints a runtime error after the output before it", async () => {
+    const { host } = testHost({ 'main.spl': 'vadatu 1\nkshipatu "bas"' });
+    const lines = await session(new SPLShell(), host, ['run']);
+    expect(lines[0]).toBe('1');
+    expect(lines.slice(1).join('\n')).toContain('bas');
+  });
+
+  it("prints only the diagnostics when the program does not compile", async () => {
+    const { host } = testHost({ 'main.spl': 'vadatu (' });
+    const lines = await session(new SPLShell(), host, ['run']);
+    expect(lines[0]).toMatch(/^main\.spl:1:\d+: error SPL2\d{3}: /);
+  });
+});
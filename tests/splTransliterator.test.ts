@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { KEYWORDS, SNIPPETS } from "../constants";
+import { ScriptMode } from "../types";
+import { devanagariToRoman, romanToDevanagari, transliterate } from "../services/splTransliterator";
+
+describe("romanToDevanagari", () => {
+  it("spells IAST words", () => {
+    expect(romanToDevanagari('mūlyam')).toBe('मूल्यम्');
+    expect(romanToDevanagari('gaṇita')).toBe('गणित');
+    expect(romanToDevanagari('kṛṣṇa')).toBe('कृष्ण');
+  });
+
+  it("spells ITRANS words", () => {
+    expect(romanToDevanagari('mUlyam', 'ITRANS')).toBe('मूल्यम्');
+    expect(romanToDevanagari('gaNita', 'ITRANS')).toBe('गणित');
+    expect(romanToDevanagari('shiShya', 'ITRANS')).toBe('शिष्य');
+    expect(romanToDevanagari('maataa', 'ITRANS')).toBe('माता');
+  });
+
+  it("keeps digits and underscores", () => {
+    expect(romanToDevanagari('phala_2')).toBe('फल_२');
+  });
+
+  it("rejects letters the scheme cannot express", () => {
+    expect(romanToDevanagari('Mulyam')).toBeNull();
+    expect(romanToDevanagari('xyz')).toBeNull();
+    expect(romanToDevanagari('ṇ', 'ITRANS')).toBeNull();
+  });
+});
+
+describe("devanagariToRoman", () => {
+  it("restores the inherent a", () => {
+    expect(devanagariToRoman('गणित')).toBe('gaṇita');
+    expect(devanagariToRoman('मूल्यम्')).toBe('mūlyam');
+  });
+
+  it("spells ITRANS", () => {
+    expect(devanagariToRoman('गणित', 'ITRANS')).toBe('gaNita');
+    expect(devanagariToRoman('शिष्य', 'ITRANS')).toBe('shiShya');
+  });
+
+  it("rejects characters outside the tables", () => {
+    expect(devanagariToRoman('क़')).toBeNull();
+  });
+
+  it.each(['IAST', 'ITRANS'] as const)("round-trips every keyword in %s", scheme => {
+    for (const keyword of Object.values(KEYWORDS)) {
+      const roman = devanagariToRoman(keyword.devanagari, scheme);
+      expect(roman).not.toBeNull();
+      expect(romanToDevanagari(roman!, scheme)).toBe(keyword.devanagari);
+    }
+  });
+});
+
+describe("transliterate", () => {
+  it("converts keywords and numerals but not strings or comments", () => {
+    const roman = 'vadatu "yadi tarhi 12" // samaptam 3\nvadatu 42';
+    expect(transliterate(roman, ScriptMode.DEVANAGARI)).toBe('वदतु "yadi tarhi 12" // samaptam 3\nवदतु ४२');
+    const devanagari = 'वदतु "यदि ४" // समाप्तम्\nवदतु ४२';
+    expect(transliterate(devanagari, ScriptMode.ROMAN)).toBe('vadatu "यदि ४" // समाप्तम्\nvadatu 42');
+  });
+
+  it("leaves names alone unless asked", () => {
+    const code = 'mulyam gaṇita = 1\nvadatu gaṇita';
+    expect(transliterate(code, ScriptMode.DEVANAGARI)).toBe('मूल्यम् gaṇita = १\nवदतु gaṇita');
+    expect(transliterate(code, ScriptMode.DEVANAGARI, { identifiers: true })).toBe('मूल्यम् गणित = १\nवदतु गणित');
+  });
+
+  it("respells names in ITRANS", () => {
+    const code = 'mulyam shiShya = 1\nvadatu shiShya';
+    const devanagari = transliterate(code, ScriptMode.DEVANAGARI, { identifiers: true, scheme: 'ITRANS' });
+    expect(devanagari).toBe('मूल्यम् शिष्य = १\nवदतु शिष्य');
+    expect(transliterate(devanagari, ScriptMode.ROMAN, { identifiers: true, scheme: 'ITRANS' })).toBe(code);
+  });
+
+  it("keeps a name that does not respell as it is", () => {
+    const code = 'mulyam total_X = 1';
+    expect(transliterate(code, ScriptMode.DEVANAGARI, { identifiers: true })).toBe('मूल्यम् total_X = १');
+  });
+
+  describe.each(SNIPPETS.map(snippet => [snippet.name, snippet] as const))("snippet %s", (_, snippet) => {
+    it("round-trips from Roman", () => {
+      const devanagari = transliterate(snippet.code.ROMAN, ScriptMode.DEVANAGARI);
+      expect(transliterate(devanagari, ScriptMode.ROMAN)).toBe(snippet.code.ROMAN);
+    });
+
+    it("round-trips from Devanagari", () => {
+      const roman = transliterate(snippet.code.DEVANAGARI, ScriptMode.ROMAN);
+      expect(transliterate(roman, ScriptMode.DEVANAGARI)).toBe(snippet.code.DEVANAGARI);
+    });
+
+    it.each(['IAST', 'ITRANS'] as const)("round-trips its names in %s", scheme => {
+      const options = { identifiers: true, scheme };
+      const devanagari = transliterate(snippet.code.ROMAN, ScriptMode.DEVANAGARI, options);
+      expect(transliterate(devanagari, ScriptMode.ROMAN, options)).toBe(snippet.code.ROMAN);
+    });
+  });
+});
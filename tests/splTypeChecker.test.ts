@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { ScriptMode } from "../types";
+import { SPLEngine } from "../services/splEngine";
+
+const mismatches = (code: string) => new SPLEngine(code, ScriptMode.ROMAN).lint()
+  .filter(err => err.code === 'SPL6001')
+  .map(err => `${err.line}:${err.column} ${err.message}`);
+
+const hovers = (code: string) => {
+  const engine = new SPLEngine(code, ScriptMode.ROMAN);
+  engine.lint();
+  return engine.typeHints().map(hint => `${hint.line}:${hint.column} ${hint.name}: ${hint.type}`);
+};
+
+describe("type mismatches", () => {
+  it("reports a variable that changes type or breaks its annotation", () => {
+    expect(mismatches('mulyam x = 1\nx = "a"\nvadatu x\n')).toEqual(["2:5 'x' holds sankhya; assigning vakyam changes its type"]);
+    expect(mismatches('mulyam x: sankhya = "a"\nvadatu x\n')).toEqual(["1:21 'x' is declared as sankhya but starts as vakyam"]);
+  });
+
+  it("reports operators, indexes and loop bounds of the wrong type", () => {
+    expect(mismatches('vadatu 1 + "a"\nvadatu "a" - 1\n')).toEqual(["2:8 '-' needs sankhya on both sides, got vakyam and sankhya"]);
+    expect(mismatches('mulyam l = [1, 2]\nl[0] = "x"\nvadatu l["a"]\n')).toEqual([
+      '2:8 Cannot put vakyam into suchi<sankhya>',
+      '3:10 Index into suchi<sankhya> must be sankhya, got vakyam'
+    ]);
+    expect(mismatches('krute i = 1 paryantam "z" tarhi\n  vadatu i\nsamaptam\n')).toEqual(['1:23 Loop bounds must be sankhya, got vakyam']);
+  });
+
+  it("reports calls with the wrong number of arguments", () => {
+    expect(mismatches('karyam f(a, b) tarhi\n  pratyarpayatu a + b\nsamaptam\nvadatu f(1)\n')).toEqual(["4:8 'f' takes 2 arguments, got 1"]);
+  });
+
+  it("reports them as warnings, so the program still runs", () => {
+    const engine = new SPLEngine('mulyam x = 1\nx = "a"\nvadatu x\n', ScriptMode.ROMAN);
+    expect(engine.lint().find(err => err.code === 'SPL6001')?.severity).toBe('warning');
+    expect(engine.execute().stdout).toBe('a');
+  });
+
+  it("accepts a well-typed program", () => {
+    expect(mismatches('mulyam l = [1, 2]\nl[0] = 3\nkrute x madhye l tarhi\n  vadatu x + 1\nsamaptam\n')).toEqual([]);
+  });
+});
+
+describe("hover types", () => {
+  it("gives every occurrence of a name its inferred type", () => {
+    expect(hovers('mulyam l = [1, 2]\nmulyam k = {"a": 1}\nkrute i = 1 paryantam 3 tarhi\n  vadatu l[i] + k["a"]\nsamaptam\n')).toEqual([
+      '1:8 l: suchi<sankhya>',
+      '2:8 k: kosha<vakyam, sankhya>',
+      '3:7 i: sankhya',
+      '4:10 l: suchi<sankhya>',
+      '4:12 i: sankhya',
+      '4:17 k: kosha<vakyam, sankhya>'
+    ]);
+  });
+
+  it("shows a generic karyam generalized and each call at its own types", () => {
+    const code = 'karyam ekam(x) tarhi\n  pratyarpayatu x\nsamaptam\nmulyam a = ekam(1)\nmulyam b = ekam("s")\nvadatu a\nvadatu b\n';
+    const hints = hovers(code);
+    expect(hints).toContain('1:8 ekam: karyam(T) -> T');
+    expect(hints).toContain('4:12 ekam: karyam(sankhya) -> sankhya');
+    expect(hints).toContain('5:12 ekam: karyam(vakyam) -> vakyam');
+    expect(hints).toContain('5:8 b: vakyam');
+  });
+
+  it("gives the C++ type a hover shows next to it, when there is one", () => {
+    const engine = new SPLEngine('mulyam x = 1\nmulyam s = "a"\nvadatu x\nvadatu s\n', ScriptMode.ROMAN);
+    engine.lint();
+    expect(engine.typeHints().filter(hint => hint.line === 1 || hint.line === 2).map(hint => hint.cpp)).toEqual(['double', 'std::string']);
+  });
+});
@@ -0,0 +1,122 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { ScriptMode } from "../types";
+import type { WorkerRequest, WorkerResponse } from "../services/splWorker";
+
+// The worker talks through the globals a Web Worker has; stand-ins for them let it run in node
+const responses: WorkerResponse[] = [];
+let nextId = 1;
+
+beforeAll(async () => {
+  vi.stubGlobal('postMessage', (response: WorkerResponse) => responses.push(response));
+  vi.stubGlobal('onmessage', null);
+  await import("../services/splWorker");
+});
+
+beforeEach(() => {
+  responses.length = 0;
+});
+
+const send = (request: WorkerRequest) => (globalThis as any).onmessage({ data: request });
+
+const program = (code: string) => ({ code, mode: ScriptMode.ROMAN, options: {} });
+
+// Every response to request `id`, once one of type `type` has arrived
+const until = (id: number, type: WorkerResponse['type']) => vi.waitFor(() => {
+  const received = responses.filter(response => response.id === id);
+  if (!received.some(response => response.type === type)) throw new Error(`No '${type}' for request ${id} yet`);
+  return received;
+});
+
+describe("run", () => {
+  it("streams stdout, then answers with the output and the generated code", async () => {
+    const id = nextId++;
+    send({ type: 'run', id, ...program('vadatu 1\nvadatu 2\n') });
+    const received = await until(id, 'done');
+    expect(received.map(response => response.type)).toEqual(['stdout', 'done']);
+    expect(received[0]).toEqual({ type: 'stdout', id, text: '1\n2' });
+    const done = received[1] as Extract<WorkerResponse, { type: 'done' }>;
+    expect(done.output.stdout).toBe('1\n2');
+    expect(done.builds.js?.transpiled).toContain('san.vadatu(1);');
+    expect(done.builds.python).toContain('print(san.text(1))');
+    expect(done.builds.bytecode).not.toBeNull();
+  });
+
+  it("asks for input at shrunotu and resumes with the answer", async () => {
+    const id = nextId++;
+    send({ type: 'run', id, ...program('mulyam naama = shrunotu("naama?")\nvadatu "namaste " + naama\n') });
+    expect(await until(id, 'input')).toEqual([{ type: 'stdout', id, text: 'naama?' }, { type: 'input', id, prompt: 'naama?' }]);
+    send({ type: 'input', id, line: 'Sita' });
+    const received = await until(id, 'done');
+    expect(received.find(response => response.type === 'stdout' && response.text === '\nnamaste Sita')).toBeDefined();
+  });
+
+  it("records the trace on 'debug' without streaming", async () => {
+    const id = nextId++;
+    send({ type: 'debug', id, ...program('mulyam x = 1\nvadatu x\n') });
+    const received = await until(id, 'done');
+    expect(received.map(response => response.type)).toEqual(['done']);
+    const done = received[0] as Extract<WorkerResponse, { type: 'done' }>;
+    expect(done.output.debugTrace?.length).toBeGreaterThan(0);
+  });
+});
+
+describe("cancel", () => {
+  it("stops a running program between slices", async () => {
+    const id = nextId++;
+    send({ type: 'run', id, ...program('mulyam i = 0\nyavat satyam tarhi\n  i = i + 1\nsamaptam\n'), options: { maxIterations: Infinity } });
+    send({ type: 'cancel', id });
+    const received = await until(id, 'cancelled');
+    expect(received.some(response => response.type === 'done')).toBe(false);
+  });
+
+  it("stops a program waiting for input, which then ignores the answer", async () => {
+    const id = nextId++;
+    send({ type: 'run', id, ...program('vadatu shrunotu("")\n') });
+    await until(id, 'input');
+    send({ type: 'cancel', id });
+    expect(responses.filter(response => response.id === id).map(response => response.type)).toEqual(['input', 'cancelled']);
+    send({ type: 'input', id, line: 'late' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(responses.filter(response => response.id === id).map(response => response.type)).toEqual(['input', 'cancelled']);
+  });
+});
+
+describe("lint", () => {
+  it("answers with the diagnostics and type hints", async () => {
+    const id = nextId++;
+    send({ type: 'lint', id, ...program('mulyam x = 1\nx = "a"\nvadatu x\n') });
+    const [response] = await until(id, 'lint');
+    expect(response.type === 'lint' && response.errors.map(err => err.code)).toEqual(['SPL6001']);
+    expect(response.type === 'lint' && response.typeHints.map(hint => hint.name)).toEqual(['x', 'x', 'x']);
+  });
+
+  it("answers with 'failed' when linting throws", async () => {
+    const id = nextId++;
+    // A request without code makes the lexer throw
+    send({ type: 'lint', id, ...program(null as unknown as string) });
+    expect(await until(id, 'failed')).toEqual([{ type: 'failed', id, message: expect.any(String) }]);
+  });
+});
+
+describe("repl", () => {
+  const evaluate = async (line: string) => {
+    const id = nextId++;
+    send({ type: 'repl', id, line, mode: ScriptMode.ROMAN, options: {} });
+    return (await until(id, 'evaluated')).map(({ id: _, ...response }) => response);
+  };
+
+  it("keeps names across lines until 'repl-reset'", async () => {
+    expect(await evaluate('mulyam x = 41')).toEqual([{ type: 'evaluated', more: false, errors: [] }]);
+    expect(await evaluate('vadatu x + 1')).toEqual([{ type: 'stdout', text: '42' }, { type: 'evaluated', more: false, errors: [] }]);
+    send({ type: 'repl-reset', id: nextId++ });
+    const [evaluated] = await evaluate('vadatu x');
+    expect(evaluated.type === 'evaluated' && evaluated.errors.map(err => err.code)).toEqual(['SPL4003']);
+  });
+
+  it("waits for the end of a block, and 'repl-cancel' drops it", async () => {
+    expect(await evaluate('yadi satyam tarhi')).toEqual([{ type: 'evaluated', more: true, errors: [] }]);
+    expect(await evaluate('vadatu "andar"')).toEqual([{ type: 'evaluated', more: true, errors: [] }]);
+    send({ type: 'repl-cancel', id: nextId++ });
+    expect(await evaluate('vadatu "bahir"')).toEqual([{ type: 'stdout', text: 'bahir' }, { type: 'evaluated', more: false, errors: [] }]);
+  });
+});
@@ -4,23 +4,145 @@ export enum ScriptMode {
   DEVANAGARI = 'DEVANAGARI'
 }
 
+// Which keyword spellings a file may use; 'mixed' accepts both scripts
+export type ScriptPolicy = 'roman' | 'devanagari' | 'mixed';
+
+// Suggested edit: replace `length` characters starting at line:column
+export interface CodeFix {
+  label: string;
+  line: number;
+  column: number;
+  length: number;
+  replacement: string;
+}
+
+export type Severity = 'error' | 'warning' | 'info';
+
+// Another place that explains a diagnostic, e.g. where an unterminated block began
+export interface RelatedLocation {
+  line: number;
+  column: number;
+  file?: string;
+  message: string;
+}
+
+// A diagnostic: `code` is stable across releases (see DIAGNOSTICS in splDiagnostics)
 export interface SanskritamError {
+  code: string;
+  severity: Severity;
   line: number;
   column: number;
+  endLine?: number;
+  endColumn?: number;
   message: string;
   word?: string;
+  file?: string;
+  stackTrace?: StackFrame[];
+  related?: RelatedLocation[];
+  fix?: CodeFix;
 }
 
-export interface DebugSnapshot {
+export type LintRule =
+  | 'unused-variable'
+  | 'use-before-declaration'
+  | 'unreachable-code'
+  | 'unbalanced-blocks'
+  | 'break-outside-loop'
+  | 'constant-condition'
+  | 'type-mismatch';
+
+// Per-rule setting: 'off' disables the rule, a severity overrides its default
+export type LintConfig = Partial<Record<LintRule, Severity | 'off'>>;
+
+// Language of CodeOutput.transpiled: C++ against Sanskritam.h, an ES module against sanskritam.mjs
+// or a Python 3 script against sanskritam.py
+export type TranspileTarget = 'cpp' | 'js' | 'python';
+
+// How SPLEngine.execute() runs a program: compiled to bytecode for the stack VM, or by walking the AST
+export type Executor = 'vm' | 'tree';
+
+// In-memory project: file name (e.g. "ganita.spl") -> source
+export type VirtualFileSystem = Record<string, string>;
+
+export interface EngineOptions {
+  maxIterations?: number;
+  maxCallDepth?: number;
+  files?: VirtualFileSystem;
+  // Source of a file missing from `files`, asked for when anayati names it; undefined when there is none
+  readFile?: (fileName: string) => string | undefined;
+  fileName?: string;
+  // Default for files without a `// lipi:` pragma; 'mixed' when unset
+  scriptPolicy?: ScriptPolicy;
+  // SPLEngine.lint() checks a module's top-level names as exports, never as unused; true when unset
+  isEntry?: boolean;
+  // Rules for SPLEngine.lint(); unlisted rules run at their default severity
+  lint?: LintConfig;
+  // Backend for CodeOutput.transpiled; 'cpp' when unset
+  target?: TranspileTarget;
+  // Name the 'js' target's code is saved under, for its source map; the file name with .mjs when unset
+  outFile?: string;
+  // 'vm' when unset
+  executor?: Executor;
+  // Wall-clock budget in milliseconds, checked at every loop iteration and call
+  timeLimit?: number;
+  // Bytecode instructions the VM may run; the tree executor has no step count
+  maxSteps?: number;
+  // Lines read by shrunotu
+  stdin?: string;
+  // Once stdin is used up the VM pauses at shrunotu for EngineRun.provideInput() instead of failing
+  interactive?: boolean;
+  // Record a DebugSnapshot at every statement into CodeOutput.debugTrace; debug runs set it
+  trace?: boolean;
+}
+
+export interface StackFrame {
+  name: string;
   line: number;
+  file?: string;
+  // Identical frames folded into this one, as deep recursion produces
+  repeated?: number;
+}
+
+export type ScopeKind = 'global' | 'module' | 'function' | 'block';
+
+export interface ScopeSnapshot {
+  name: string;
+  kind: ScopeKind;
   variables: Record<string, any>;
+}
+
+// Debugger view of a shreni instance
+export interface ObjectSnapshot {
+  __shreni: string;
+  fields: Record<string, any>;
+}
+
+export interface DebugSnapshot {
+  line: number;
+  variables: ScopeSnapshot[];
   stdout: string;
+  file?: string;
+  callStack?: StackFrame[];
+  // Digit script in effect at this step (the script mode unless ankalipi() changed it)
+  numerals?: ScriptMode;
+}
+
+// Source Map v3: positions in generated code back to the .spl files
+export interface SourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
 }
 
 export interface CodeOutput {
   stdout: string;
   explanation: string;
   transpiled: string;
+  // Set for the 'js' target
+  sourceMap?: SourceMap;
   tokens: { word: string; category: string }[];
   errors?: SanskritamError[];
   debugTrace?: DebugSnapshot[];